@@ -20,6 +20,7 @@ interface CodeEditorProps {
   onSelectionChange?: (sel: { start: number; end: number }) => void;
   filename?: string;
   actions?: (isDarkMode: boolean) => React.ReactNode; // Now a function that receives isDarkMode
+  jumpTo?: { line: number; column?: number; requestId: number }; // Scroll to and highlight a line; bump requestId to repeat
 }
 
 interface SearchMatch {
@@ -42,6 +43,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   onSelectionChange,
   filename,
   actions,
+  jumpTo,
 }) => {
   const [code, setCode] = useState<string>(value !== undefined ? value : initialCode);
   const [isRewriting, setIsRewriting] = useState<boolean>(false);
@@ -57,6 +59,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [showGoToLine, setShowGoToLine] = useState<boolean>(false);
   const [lineNumber, setLineNumber] = useState<string>('');
+  const [highlightedLine, setHighlightedLine] = useState<number | null>(null);
   const { toast } = useToast();
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -238,21 +241,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [showSearch, matches, currentMatchIndex, showGoToLine]);
 
-  const goToLine = () => {
-    const lineNum = parseInt(lineNumber);
+  // Scroll a 1-based line into view and place the cursor on it (column is 1-based too)
+  const scrollToLine = (lineNum: number, column = 1) => {
     const lines = code.split('\n');
-    
-    if (isNaN(lineNum) || lineNum < 1 || lineNum > lines.length) {
-      toast({
-        title: "Invalid line number",
-        description: `Please enter a number between 1 and ${lines.length}`,
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    // Find the scrollable container (ScrollArea's viewport)
-    const scrollContainer = scrollContainerRef.current?.querySelector('[data-radix-scroll-area-viewport]') as HTMLElement;
+    const container = scrollContainerRef.current;
+    const scrollContainer = (container?.querySelector('[data-radix-scroll-area-viewport]') as HTMLElement) || container;
     if (!scrollContainer) return;
     
     // Calculate the position of the target line
@@ -266,16 +259,60 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     // Set cursor position for editable mode
     if (!readOnly && textareaRef.current) {
       const linesBeforeTarget = lines.slice(0, lineNum - 1);
-      const charIndex = linesBeforeTarget.join('\n').length + (lineNum > 1 ? 1 : 0); // +1 for newline
+      const lineStart = linesBeforeTarget.join('\n').length + (lineNum > 1 ? 1 : 0); // +1 for newline
+      const charIndex = lineStart + Math.min(Math.max(column - 1, 0), (lines[lineNum - 1] || '').length);
       textareaRef.current.setSelectionRange(charIndex, charIndex);
       textareaRef.current.focus();
     }
+  };
+
+  const goToLine = () => {
+    const lineNum = parseInt(lineNumber);
+    const lines = code.split('\n');
+    
+    if (isNaN(lineNum) || lineNum < 1 || lineNum > lines.length) {
+      toast({
+        title: "Invalid line number",
+        description: `Please enter a number between 1 and ${lines.length}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    scrollToLine(lineNum);
     
     // Close the dialog
     setShowGoToLine(false);
     setLineNumber('');
   };
 
+  // Jump requests from outside (e.g. clicking an issue in the issues panel). Only a new requestId
+  // jumps; the latest code and jump target are read through a ref so edits do not jump again.
+  const jumpContextRef = useRef({ code, jumpTo, scrollToLine });
+  jumpContextRef.current = { code, jumpTo, scrollToLine };
+  const jumpRequestId = jumpTo?.requestId;
+  useEffect(() => {
+    const { code: currentCode, jumpTo: target, scrollToLine: scroll } = jumpContextRef.current;
+    if (!target) return;
+    const lineNum = Math.min(Math.max(target.line, 1), currentCode.split('\n').length);
+    setHighlightedLine(lineNum);
+    // Wait for the editor to be visible (it may live in a tab that is just being shown)
+    const timer = setTimeout(() => scroll(lineNum, target.column), 50);
+    const clear = setTimeout(() => setHighlightedLine(null), 2500);
+    return () => {
+      clearTimeout(timer);
+      clearTimeout(clear);
+    };
+  }, [jumpRequestId]);
+
+  const renderLineHighlight = () => highlightedLine !== null && (
+    <div
+      className={`absolute left-0 right-0 pointer-events-none ${isDarkMode ? 'bg-red-500/20' : 'bg-red-100/70'}`}
+      style={{ top: `calc(1rem + ${(highlightedLine - 1) * 1.5}em)`, height: '1.5em' }}
+      aria-hidden="true"
+    />
+  );
+
   const navigateToNextMatch = () => {
     if (matches.length === 0) return;
     const nextIndex = (currentMatchIndex + 1) % matches.length;
@@ -525,6 +562,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
               )}
               {/* Code column */}
               <div className={`flex-1 py-4 px-4 relative pl-3 min-w-0 ${isDarkMode ? 'bg-[#18181b]' : 'bg-white'}`} style={{ minHeight: `${code.split('\n').length * 1.5}em` }}>
+                {renderLineHighlight()}
                 {readOnly ? (
                   <pre
                     ref={preRef}
@@ -779,6 +817,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
             )}
             {/* Code column */}
             <div className={`flex-1 py-4 px-4 relative pl-3 min-w-0 ${isDarkMode ? 'bg-[#18181b]' : 'bg-white'}`} style={{ minHeight: `${code.split('\n').length * 1.5}em` }}>
+              {renderLineHighlight()}
               {readOnly ? (
                 <pre
                   ref={preRef}
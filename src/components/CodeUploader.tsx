@@ -4,7 +4,13 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UploadCloud, File, Trash2, Plus, Folder, Info, Download } from 'lucide-react';
-import { CodeFile } from '@/types';
+import { CodeFile, SourceDialect, SourceSortOrder } from '@/types';
+import { parseSybase, getObjectInfo, SybaseObjectInfo } from '@/utils/sybaseParser';
+import { splitScriptIntoObjects } from '@/utils/scriptSplitter';
+import { APPLICATION_SOURCE_EXTENSIONS, embeddedSqlText, extractEmbeddedSql, isApplicationSource } from '@/utils/embeddedSql';
+import { detectSourceDialect, getSourceDialect, setSourceDialect, SOURCE_DIALECT_LABELS } from '@/utils/sourceDialect';
+import { getSourceSortOrder, setSourceSortOrder, SOURCE_SORT_ORDER_LABELS } from '@/utils/semanticAnalyzer';
+import { getTargetDialect, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -26,6 +32,8 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
   const [manualFileName, setManualFileName] = useState<string>('');
   const [templateType, setTemplateType] = useState<'table' | 'procedure' | 'trigger'>('table');
   const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [sourceDialect, setDialect] = useState<SourceDialect>(getSourceDialect());
+  const [sortOrder, setSortOrder] = useState<SourceSortOrder>(getSourceSortOrder());
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   
@@ -48,17 +56,24 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       reader.onload = (e) => {
         if (e.target && e.target.result) {
           const content = e.target.result as string;
+          // Java/C# files are kept whole; the SQL in their string literals is converted in place
+          const applicationSource = isApplicationSource(file.name);
+          const objectInfo = applicationSource ? undefined : getObjectInfo(parseSybase(content));
           const newFile: CodeFile = {
             id: uuidv4(),
             name: file.name,
             content: content,
-            type: determineFileType(file.name, content),
-            status: 'pending'
+            type: applicationSource ? 'other' : determineFileType(file.name, content, objectInfo),
+            status: 'pending',
+            objectName: objectInfo?.name,
+            objectKind: objectInfo?.kind
           };
+          // Scripts with several objects separated by `go` become one file per object
+          const newFiles = applicationSource ? [newFile] : splitScriptIntoObjects(newFile);
           
           setFiles(prevFiles => {
             // Check if file already exists
-            if (prevFiles.some(f => f.name === file.name)) {
+            if (prevFiles.some(f => (f.segment?.scriptName ?? f.name) === file.name)) {
               toast({
                 title: 'Duplicate File',
                 description: `${file.name} is already uploaded.`,
@@ -66,13 +81,25 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
               });
               return prevFiles;
             }
-            return [...prevFiles, newFile];
+            return [...prevFiles, ...newFiles];
           });
           
           toast({
             title: 'File Uploaded',
-            description: `${file.name} has been uploaded successfully.`
+            description: applicationSource
+              ? `${file.name} has been uploaded with ${extractEmbeddedSql(newFile).length} embedded SQL statements.`
+              : newFiles.length > 1
+              ? `${file.name} has been split into ${newFiles.length} objects.`
+              : `${file.name} has been uploaded successfully.`
           });
+          // SQL Server only syntax in a Sybase project is converted wrongly; say so before conversion
+          const sqlFile = applicationSource ? { ...newFile, content: embeddedSqlText(newFile) } : newFile;
+          if (sourceDialect !== 'sqlserver' && detectSourceDialect([sqlFile]) === 'sqlserver') {
+            toast({
+              title: 'SQL Server Syntax Found',
+              description: `${file.name} uses SQL Server constructs (TRY/CATCH, THROW, MERGE, …). Switch the source dialect to ${SOURCE_DIALECT_LABELS.sqlserver} if the code comes from SQL Server.`,
+            });
+          }
         }
       };
       
@@ -86,7 +113,7 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       
       reader.readAsText(file);
     });
-  }, [toast]);
+  }, [toast, sourceDialect]);
   
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     processFiles(event.target.files);
@@ -101,13 +128,13 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       // Filter for supported file types
       const supportedFiles = Array.from(files).filter(file => {
         const ext = file.name.toLowerCase().split('.').pop();
-        return ['sql', 'txt', 'prc', 'trg', 'tab', 'proc', 'sp'].includes(ext || '');
+        return ['sql', 'txt', 'prc', 'trg', 'tab', 'proc', 'sp', ...APPLICATION_SOURCE_EXTENSIONS].includes(ext || '');
       });
       
       if (supportedFiles.length === 0) {
         toast({
           title: 'No Supported Files',
-          description: 'No supported files found in the selected folder. Please select a folder containing .sql, .txt, .prc, .trg, or .tab files.',
+          description: 'No supported files found in the selected folder. Please select a folder containing .sql, .txt, .prc, .trg, .tab, .java or .cs files.',
           variant: 'destructive'
         });
         return;
@@ -116,7 +143,7 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       if (supportedFiles.length !== files.length) {
         toast({
           title: 'Some Files Skipped',
-          description: `${files.length - supportedFiles.length} unsupported files were skipped. Only .sql, .txt, .prc, .trg, and .tab files are supported.`,
+          description: `${files.length - supportedFiles.length} unsupported files were skipped. Only .sql, .txt, .prc, .trg, .tab, .java and .cs files are supported.`,
         });
       }
       
@@ -165,13 +192,13 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
       // Filter for supported file types
       const supportedFiles = Array.from(droppedFiles).filter(file => {
         const ext = file.name.toLowerCase().split('.').pop();
-        return ['sql', 'txt', 'prc', 'trg', 'tab', 'proc', 'sp'].includes(ext || '');
+        return ['sql', 'txt', 'prc', 'trg', 'tab', 'proc', 'sp', ...APPLICATION_SOURCE_EXTENSIONS].includes(ext || '');
       });
       
       if (supportedFiles.length === 0) {
         toast({
           title: 'Unsupported Files',
-          description: 'Only .sql, .txt, .prc, .trg, and .tab files are supported.',
+          description: 'Only .sql, .txt, .prc, .trg, .tab, .java and .cs files are supported.',
           variant: 'destructive'
         });
         return;
@@ -199,7 +226,15 @@ const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
     }
   };
   
-  const determineFileType = (fileName: string, content: string): 'table' | 'procedure' | 'trigger' | 'other' => {
+  const determineFileType = (fileName: string, content: string, objectInfo?: SybaseObjectInfo): 'table' | 'procedure' | 'trigger' | 'other' => {
+    // The parsed CREATE statement wins over file name guesses
+    if (objectInfo) {
+      if (objectInfo.kind === 'procedure' || objectInfo.kind === 'function') return 'procedure';
+      if (objectInfo.kind === 'trigger') return 'trigger';
+      if (objectInfo.kind === 'table' || objectInfo.kind === 'index') return 'table';
+      return 'other';
+    }
+
     fileName = fileName.toLowerCase();
     content = content.toLowerCase();
     
@@ -372,7 +407,7 @@ END`;
     { tsql: 'TEXT', plsql: 'CLOB', usage: 'Large text data', notes: 'CLOB for large character data' },
     { tsql: 'DATETIME', plsql: 'DATE', usage: 'Date and time', notes: 'Oracle DATE includes time' },
     { tsql: 'BIT', plsql: 'NUMBER(1)', usage: 'Boolean values', notes: 'Use CHECK constraint (0,1)' },
-    { tsql: 'FLOAT', plsql: 'BINARY_FLOAT', usage: 'Floating point', notes: 'Oracle has BINARY_FLOAT/DOUBLE' },
+    { tsql: 'FLOAT', plsql: 'BINARY_DOUBLE', usage: 'Floating point', notes: 'BINARY_FLOAT for REAL and FLOAT(p <= 15)' },
     { tsql: 'DECIMAL(p,s)', plsql: 'NUMBER(p,s)', usage: 'Precise decimal', notes: 'NUMBER is Oracle standard' },
     { tsql: 'IDENTITY', plsql: 'SEQUENCE + TRIGGER', usage: 'Auto-increment', notes: 'Oracle 12c+ has IDENTITY' },
     { tsql: 'UNIQUEIDENTIFIER', plsql: 'RAW(16)', usage: 'GUID/UUID', notes: 'Use SYS_GUID() function' }
@@ -393,10 +428,37 @@ END`;
     <div className="w-full max-w-6xl mx-auto">
       <Card>
         <CardHeader>
-          <CardTitle className="text-2xl">Upload Sybase Code</CardTitle>
-          <CardDescription>
-            Upload your Sybase database objects for conversion to Oracle.
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl">Upload {SOURCE_DIALECT_LABELS[sourceDialect]} Code</CardTitle>
+              <CardDescription>
+                Upload your {SOURCE_DIALECT_LABELS[sourceDialect]} database objects for conversion to {TARGET_DIALECT_LABELS[getTargetDialect()]}.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={sourceDialect} onValueChange={(value: SourceDialect) => setDialect(setSourceDialect(value))}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SOURCE_DIALECT_LABELS).map(([dialect, label]) => (
+                    <SelectItem key={dialect} value={dialect}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {/* Case-insensitive servers get their string comparisons reported */}
+              <Select value={sortOrder} onValueChange={(value: SourceSortOrder) => setSortOrder(setSourceSortOrder(value))}>
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SOURCE_SORT_ORDER_LABELS).map(([order, label]) => (
+                    <SelectItem key={order} value={order}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
         </CardHeader>
         
         <CardContent>
@@ -434,7 +496,7 @@ END`;
                       multiple
                       className="hidden"
                       onChange={handleFileUpload}
-                      accept=".sql,.txt,.tab,.prc,.trg,.proc,.sp"
+                      accept=".sql,.txt,.tab,.prc,.trg,.proc,.sp,.java,.cs"
                       ref={fileInputRef}
                     />
                   </Label>
@@ -460,7 +522,7 @@ END`;
                   />
                 </div>
                 <p className="mt-2 text-xs text-muted-foreground">
-                  Supported formats: .sql, .txt, .prc, .trg, .tab, .proc, .sp
+                  Supported formats: .sql, .txt, .prc, .trg, .tab, .proc, .sp, and .java/.cs application sources with embedded SQL
                 </p>
               </div>
             </TabsContent>
@@ -513,7 +575,7 @@ END`;
                     id="manual-content"
                     value={manualContent}
                     onChange={(e) => setManualContent(e.target.value)}
-                    placeholder="Paste your Sybase code here..."
+                    placeholder={`Paste your ${SOURCE_DIALECT_LABELS[sourceDialect]} code here...`}
                     className="font-mono min-h-[300px]"
                   />
                 </div>
@@ -526,7 +588,7 @@ END`;
                 <h3 className="text-lg font-semibold mb-4">T-SQL to PL/SQL Data Type Mapping</h3>
                 <div className="border rounded-lg overflow-hidden">
                   <div className="grid grid-cols-4 gap-4 p-3 bg-gray-50 font-semibold text-sm">
-                    <div>T-SQL (Sybase)</div>
+                    <div>T-SQL ({SOURCE_DIALECT_LABELS[sourceDialect]})</div>
                     <div>PL/SQL (Oracle)</div>
                     <div>Usage in Code</div>
                     <div>Notes</div>
@@ -649,6 +711,16 @@ END`;
                               <div className="flex items-center">
                                 <File className="h-5 w-5 mr-3 text-muted-foreground" />
                                 <span className="font-medium truncate max-w-[300px]">{file.name}</span>
+                                {file.segment && (
+                                  <span className="ml-2 text-xs text-muted-foreground">
+                                    from {file.segment.scriptName} ({file.segment.index + 1}/{file.segment.count})
+                                  </span>
+                                )}
+                                {file.objectName && (
+                                  <Badge variant="outline" className="ml-2 font-mono text-xs">
+                                    {file.objectName}
+                                  </Badge>
+                                )}
                               </div>
                               <div className="flex items-center gap-2">
                                 <DropdownMenu>
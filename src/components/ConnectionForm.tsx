@@ -1,10 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { DatabaseConnection, DatabaseType } from '@/types';
+import { DatabaseConnection, DatabaseType, SourceDialect, TargetDialect } from '@/types';
 import { saveConnection, loadConnection, testConnection } from '@/utils/databaseUtils';
+import { getSourceDialect, setSourceDialect, SOURCE_DIALECT_LABELS } from '@/utils/sourceDialect';
+import { getTargetDialect, setTargetDialect, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Database, Server, Key, User } from 'lucide-react';
@@ -16,6 +19,12 @@ interface ConnectionFormProps {
 
 const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
   const [activeTab, setActiveTab] = useState<DatabaseType>('sybase');
+  // The source connection is kept per dialect; the dialect also drives the conversion
+  const [sourceDialect, setDialect] = useState<SourceDialect>(getSourceDialect());
+  const sourceLabel = SOURCE_DIALECT_LABELS[sourceDialect];
+  // Likewise for the target connection
+  const [targetDialect, setTarget] = useState<TargetDialect>(getTargetDialect());
+  const targetLabel = TARGET_DIALECT_LABELS[targetDialect];
   const { toast } = useToast();
   
   const defaultConnection: DatabaseConnection = {
@@ -30,20 +39,20 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
   
   const [sybaseConnection, setSybaseConnection] = useState<DatabaseConnection>({
     ...defaultConnection,
-    type: 'sybase',
+    type: sourceDialect,
   });
   
   const [oracleConnection, setOracleConnection] = useState<DatabaseConnection>({
     ...defaultConnection,
-    type: 'oracle',
+    type: targetDialect,
   });
   
   const [isLoading, setIsLoading] = useState<boolean>(false);
   
   useEffect(() => {
     // Load saved connections if available
-    const savedSybase = loadConnection('sybase');
-    const savedOracle = loadConnection('oracle');
+    const savedSybase = loadConnection(getSourceDialect());
+    const savedOracle = loadConnection(getTargetDialect());
     
     if (savedSybase) {
       setSybaseConnection(savedSybase);
@@ -54,13 +63,23 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
     }
   }, []);
   
+  const handleDialectChange = (dialect: SourceDialect) => {
+    setDialect(setSourceDialect(dialect));
+    setSybaseConnection(loadConnection(dialect) ?? { ...defaultConnection, type: dialect });
+  };
+  
+  const handleTargetChange = (target: TargetDialect) => {
+    setTarget(setTargetDialect(target));
+    setOracleConnection(loadConnection(target) ?? { ...defaultConnection, type: target });
+  };
+  
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement>,
     type: DatabaseType
   ) => {
     const { name, value } = e.target;
     
-    if (type === 'sybase') {
+    if (type === sourceDialect) {
       setSybaseConnection(prev => ({ ...prev, [name]: value }));
     } else {
       setOracleConnection(prev => ({ ...prev, [name]: value }));
@@ -69,7 +88,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
   
   const handleTestConnection = async (type: DatabaseType) => {
     setIsLoading(true);
-    const connection = type === 'sybase' ? sybaseConnection : oracleConnection;
+    const connection = type === sourceDialect ? sybaseConnection : oracleConnection;
     
     try {
       const result = await testConnection(connection);
@@ -120,15 +139,15 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
         <CardHeader>
           <CardTitle className="text-2xl">Database Connections</CardTitle>
           <CardDescription>
-            Configure connections to your Sybase source and Oracle target databases.
+            Configure connections to your {sourceLabel} source and {targetLabel} target databases.
           </CardDescription>
         </CardHeader>
         
         <CardContent>
           <Tabs defaultValue="sybase" onValueChange={(value) => setActiveTab(value as DatabaseType)}>
             <TabsList className="grid w-full grid-cols-2 mb-8">
-              <TabsTrigger value="sybase">Sybase (Source)</TabsTrigger>
-              <TabsTrigger value="oracle">Oracle (Target)</TabsTrigger>
+              <TabsTrigger value="sybase">{sourceLabel} (Source)</TabsTrigger>
+              <TabsTrigger value="oracle">{targetLabel} (Target)</TabsTrigger>
             </TabsList>
             
             <TabsContent value="sybase">
@@ -138,11 +157,25 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <div className="grid gap-1">
                     <h3 className="text-lg font-medium">Server Information</h3>
                     <p className="text-sm text-muted-foreground">
-                      Enter the Sybase server details
+                      Enter the {sourceLabel} server details
                     </p>
                   </div>
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="source-dialect">Source Dialect</Label>
+                  <Select value={sourceDialect} onValueChange={value => handleDialectChange(value as SourceDialect)}>
+                    <SelectTrigger id="source-dialect">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SOURCE_DIALECT_LABELS).map(([dialect, label]) => (
+                        <SelectItem key={dialect} value={dialect}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="sybase-host">Host</Label>
@@ -151,7 +184,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                       name="host"
                       placeholder="localhost or IP address"
                       value={sybaseConnection.host}
-                      onChange={(e) => handleInputChange(e, 'sybase')}
+                      onChange={(e) => handleInputChange(e, sourceDialect)}
                     />
                   </div>
                   <div className="space-y-2">
@@ -159,9 +192,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                     <Input
                       id="sybase-port"
                       name="port"
-                      placeholder="5000"
+                      placeholder={sourceDialect === 'sqlserver' ? '1433' : '5000'}
                       value={sybaseConnection.port}
-                      onChange={(e) => handleInputChange(e, 'sybase')}
+                      onChange={(e) => handleInputChange(e, sourceDialect)}
                     />
                   </div>
                 </div>
@@ -171,7 +204,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <div className="grid gap-1">
                     <h3 className="text-lg font-medium">Authentication</h3>
                     <p className="text-sm text-muted-foreground">
-                      Credentials for the Sybase database
+                      Credentials for the {sourceLabel} database
                     </p>
                   </div>
                 </div>
@@ -182,9 +215,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                     <Input
                       id="sybase-username"
                       name="username"
-                      placeholder="dba"
+                      placeholder={sourceDialect === 'sqlserver' ? 'sa' : 'dba'}
                       value={sybaseConnection.username}
-                      onChange={(e) => handleInputChange(e, 'sybase')}
+                      onChange={(e) => handleInputChange(e, sourceDialect)}
                     />
                   </div>
                   <div className="space-y-2">
@@ -194,7 +227,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                       name="password"
                       type="password"
                       value={sybaseConnection.password}
-                      onChange={(e) => handleInputChange(e, 'sybase')}
+                      onChange={(e) => handleInputChange(e, sourceDialect)}
                     />
                   </div>
                 </div>
@@ -204,7 +237,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <div className="grid gap-1">
                     <h3 className="text-lg font-medium">Database</h3>
                     <p className="text-sm text-muted-foreground">
-                      Enter the Sybase database name
+                      Enter the {sourceLabel} database name
                     </p>
                   </div>
                 </div>
@@ -216,17 +249,17 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                     name="database"
                     placeholder="master"
                     value={sybaseConnection.database}
-                    onChange={(e) => handleInputChange(e, 'sybase')}
+                    onChange={(e) => handleInputChange(e, sourceDialect)}
                   />
                 </div>
                 
                 <Button 
                   variant="outline" 
                   className="mt-4"
-                  onClick={() => handleTestConnection('sybase')}
+                  onClick={() => handleTestConnection(sourceDialect)}
                   disabled={isLoading}
                 >
-                  Test Sybase Connection
+                  Test {sourceLabel} Connection
                 </Button>
               </div>
             </TabsContent>
@@ -238,11 +271,25 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <div className="grid gap-1">
                     <h3 className="text-lg font-medium">Server Information</h3>
                     <p className="text-sm text-muted-foreground">
-                      Enter the Oracle server details
+                      Enter the {targetLabel} server details
                     </p>
                   </div>
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="target-dialect">Target Database</Label>
+                  <Select value={targetDialect} onValueChange={value => handleTargetChange(value as TargetDialect)}>
+                    <SelectTrigger id="target-dialect">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(TARGET_DIALECT_LABELS).map(([target, label]) => (
+                        <SelectItem key={target} value={target}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="oracle-host">Host</Label>
@@ -251,7 +298,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                       name="host"
                       placeholder="localhost or IP address"
                       value={oracleConnection.host}
-                      onChange={(e) => handleInputChange(e, 'oracle')}
+                      onChange={(e) => handleInputChange(e, targetDialect)}
                     />
                   </div>
                   <div className="space-y-2">
@@ -259,9 +306,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                     <Input
                       id="oracle-port"
                       name="port"
-                      placeholder="1521"
+                      placeholder={targetDialect === 'postgresql' ? '5432' : '1521'}
                       value={oracleConnection.port}
-                      onChange={(e) => handleInputChange(e, 'oracle')}
+                      onChange={(e) => handleInputChange(e, targetDialect)}
                     />
                   </div>
                 </div>
@@ -271,7 +318,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <div className="grid gap-1">
                     <h3 className="text-lg font-medium">Authentication</h3>
                     <p className="text-sm text-muted-foreground">
-                      Credentials for the Oracle database
+                      Credentials for the {targetLabel} database
                     </p>
                   </div>
                 </div>
@@ -282,9 +329,9 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                     <Input
                       id="oracle-username"
                       name="username"
-                      placeholder="system"
+                      placeholder={targetDialect === 'postgresql' ? 'postgres' : 'system'}
                       value={oracleConnection.username}
-                      onChange={(e) => handleInputChange(e, 'oracle')}
+                      onChange={(e) => handleInputChange(e, targetDialect)}
                     />
                   </div>
                   <div className="space-y-2">
@@ -294,7 +341,7 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                       name="password"
                       type="password"
                       value={oracleConnection.password}
-                      onChange={(e) => handleInputChange(e, 'oracle')}
+                      onChange={(e) => handleInputChange(e, targetDialect)}
                     />
                   </div>
                 </div>
@@ -304,19 +351,19 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <div className="grid gap-1">
                     <h3 className="text-lg font-medium">Database</h3>
                     <p className="text-sm text-muted-foreground">
-                      Enter the Oracle database details
+                      Enter the {targetLabel} database details
                     </p>
                   </div>
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="oracle-database">Database/SID</Label>
+                  <Label htmlFor="oracle-database">{targetDialect === 'postgresql' ? 'Database' : 'Database/SID'}</Label>
                   <Input
                     id="oracle-database"
                     name="database"
-                    placeholder="ORCL"
+                    placeholder={targetDialect === 'postgresql' ? 'postgres' : 'ORCL'}
                     value={oracleConnection.database}
-                    onChange={(e) => handleInputChange(e, 'oracle')}
+                    onChange={(e) => handleInputChange(e, targetDialect)}
                   />
                 </div>
                 
@@ -325,19 +372,19 @@ const ConnectionForm: React.FC<ConnectionFormProps> = ({ onComplete }) => {
                   <Input
                     id="oracle-connection-string"
                     name="connectionString"
-                    placeholder="Example: jdbc:oracle:thin:@localhost:1521:ORCL"
+                    placeholder={targetDialect === 'postgresql' ? 'Example: jdbc:postgresql://localhost:5432/postgres' : 'Example: jdbc:oracle:thin:@localhost:1521:ORCL'}
                     value={oracleConnection.connectionString || ''}
-                    onChange={(e) => handleInputChange(e, 'oracle')}
+                    onChange={(e) => handleInputChange(e, targetDialect)}
                   />
                 </div>
                 
                 <Button 
                   variant="outline" 
                   className="mt-4"
-                  onClick={() => handleTestConnection('oracle')}
+                  onClick={() => handleTestConnection(targetDialect)}
                   disabled={isLoading}
                 >
-                  Test Oracle Connection
+                  Test {targetLabel} Connection
                 </Button>
               </div>
             </TabsContent>
@@ -10,19 +10,23 @@ interface ConversionIssue {
   severity: 'error' | 'warning' | 'info';
   description: string;
   lineNumber?: number;
+  columnNumber?: number;
   suggestedFix?: string;
   originalCode?: string;
   category: string;
+  codeSide?: 'original' | 'converted';
 }
 
 interface ConversionIssuesPanelProps {
   issues: ConversionIssue[];
   onDismissIssue: (issueId: string) => void;
+  onJumpToIssue?: (issue: ConversionIssue) => void; // Show the issue's line in the code editor
 }
 
 const ConversionIssuesPanel: React.FC<ConversionIssuesPanelProps> = ({
   issues,
-  onDismissIssue
+  onDismissIssue,
+  onJumpToIssue
 }) => {
   const [filter, setFilter] = useState<'all' | 'error' | 'warning' | 'info'>('all');
 
@@ -138,9 +142,20 @@ const ConversionIssuesPanel: React.FC<ConversionIssuesPanelProps> = ({
                       {issue.category}
                     </Badge>
                     {issue.lineNumber && (
-                      <span className="text-sm text-gray-500">
-                        Line {issue.lineNumber}
-                      </span>
+                      onJumpToIssue ? (
+                        <button
+                          type="button"
+                          className="text-sm text-blue-600 hover:underline"
+                          onClick={() => onJumpToIssue(issue)}
+                          title={`Go to line in the ${issue.codeSide === 'original' ? 'original' : 'converted'} code`}
+                        >
+                          Line {issue.lineNumber}{issue.columnNumber ? `, Col ${issue.columnNumber}` : ''}
+                        </button>
+                      ) : (
+                        <span className="text-sm text-gray-500">
+                          Line {issue.lineNumber}{issue.columnNumber ? `, Col ${issue.columnNumber}` : ''}
+                        </span>
+                      )
                     )}
                   </AlertTitle>
                   <AlertDescription className="mt-2">
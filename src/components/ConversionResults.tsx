@@ -11,6 +11,7 @@ import { useToast } from '@/hooks/use-toast';
 import { CodeFile, ConversionResult, DatabaseConnection } from '@/types';
 import CodeDiffViewer from './CodeDiffViewer';
 import { generateBalancedConversionReport } from '@/utils/componentUtilswithlangchain';
+import { convertedFileName } from '@/utils/targetDialect';
 
 interface ConversionResultsProps {
   results: ConversionResult[];
@@ -63,13 +64,7 @@ const ConversionResults: React.FC<ConversionResultsProps> = ({
     
     const a = document.createElement('a');
     a.href = url;
-    const fileExtension = result.originalFile.name.includes('.') 
-      ? result.originalFile.name.split('.').pop() 
-      : 'sql';
-    const baseName = result.originalFile.name.includes('.')
-      ? result.originalFile.name.substring(0, result.originalFile.name.lastIndexOf('.'))
-      : result.originalFile.name;
-    a.download = `${baseName}_oracle.${fileExtension}`;
+    a.download = convertedFileName(result.originalFile.name);
     document.body.appendChild(a);
     a.click();
     
@@ -234,7 +229,7 @@ const ConversionResults: React.FC<ConversionResultsProps> = ({
                         convertedCode={selectedResult.convertedCode}
                         onUpdateConvertedCode={(updatedCode) => handleUpdateConvertedCode(selectedResult.id, updatedCode)}
                         originalFilename={selectedResult.originalFile.name}
-                        convertedFilename={`${selectedResult.originalFile.name.replace(/\.[^/.]+$/, '')}_oracle.sql`}
+                        convertedFilename={convertedFileName(selectedResult.originalFile.name)}
                       />
                     </TabsContent>
                     
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
@@ -17,6 +17,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import CodeEditor from './CodeEditor'; // Added import for CodeEditor
+import { revalidateIssues } from '@/utils/plsqlValidator';
+import type { FiredFunctionMapping } from '@/types';
 
 interface DataTypeMapping {
   sybaseType: string;
@@ -29,9 +31,11 @@ interface ConversionIssue {
   severity: 'error' | 'warning' | 'info';
   description: string;
   lineNumber?: number;
+  columnNumber?: number;
   suggestedFix?: string;
   originalCode?: string;
   category: string;
+  codeSide?: 'original' | 'converted';
 }
 
 interface PerformanceMetrics {
@@ -77,6 +81,7 @@ interface FileItem {
   aiGeneratedCode?: string; // Add this field for manual edits
   errorMessage?: string;
   dataTypeMapping?: DataTypeMapping[];
+  functionMappings?: FiredFunctionMapping[]; // Function catalog entries that fired
   issues?: ConversionIssue[];
   performanceMetrics?: PerformanceMetrics;
   status: 'reviewed' | 'unreviewed'; // New field for status
@@ -123,6 +128,8 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
   const [showExplainDialog, setShowExplainDialog] = useState(false);
   const [explanation, setExplanation] = useState('');
   const [isExplaining, setIsExplaining] = useState(false);
+  const [activeTab, setActiveTab] = useState('code');
+  const [jumpTarget, setJumpTarget] = useState<{ side: 'original' | 'converted'; line: number; column?: number; requestId: number } | null>(null);
 
   // Calculate dynamic height based on content length
   const getDynamicHeight = (content: string) => {
@@ -134,6 +141,24 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
     return '500px'; // max height
   };
 
+  // While editing, syntax issues follow the edited code instead of the saved version
+  const issues = useMemo(
+    () => (isEditing && !hideEdit ? revalidateIssues(file.issues, editedContent) : file.issues || []) as ConversionIssue[],
+    [isEditing, hideEdit, file.issues, editedContent]
+  );
+
+  const handleJumpToIssue = (issue: ConversionIssue) => {
+    if (!issue.lineNumber) return;
+    setActiveTab('code');
+    setJumpTarget(prev => ({
+      side: issue.codeSide === 'original' ? 'original' : 'converted',
+      line: issue.lineNumber!,
+      column: issue.columnNumber,
+      requestId: (prev?.requestId || 0) + 1,
+    }));
+  };
+  const jumpFor = (side: 'original' | 'converted') => (jumpTarget?.side === side ? jumpTarget : undefined);
+
   const originalHeight = getDynamicHeight(file.content || '');
   const convertedHeight = getDynamicHeight(file.convertedContent || '');
 
@@ -213,11 +238,11 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
   return (
     <>
       {/* Removed top bar with filename, badges, and download button. Now only tabs and code sections remain. */}
-      <Tabs defaultValue="code" className="w-full">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="code">Code</TabsTrigger>
           <TabsTrigger value="mapping">Data Types</TabsTrigger>
-          <TabsTrigger value="issues">Issues {file.issues && file.issues.length > 0 && (<Badge variant="outline" className="ml-1">{file.issues.length}</Badge>)}</TabsTrigger>
+          <TabsTrigger value="issues">Issues {issues.length > 0 && (<Badge variant="outline" className="ml-1">{issues.length}</Badge>)}</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
         </TabsList>
         
@@ -246,6 +271,7 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
                       height={originalHeight}
                       language="sql"
                       filename={file.name}
+                      jumpTo={jumpFor('original')}
                     />
                   </div>
                 </div>
@@ -274,6 +300,7 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
                             height={convertedHeight}
                             language="plsql"
                             filename={convertedFilename || file.name}
+                            jumpTo={jumpFor('converted')}
                             actions={undefined}
                           />
                         ) : (
@@ -289,6 +316,7 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
                               selection={selection}
                               onSelectionChange={setSelection}
                               filename={convertedFilename || file.name}
+                              jumpTo={jumpFor('converted')}
                               actions={(isDarkMode) => (
                                 <div className="flex items-center gap-2 mt-0">
                                   <TooltipProvider>
@@ -350,6 +378,7 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
                             height={convertedHeight}
                             language="plsql"
                             filename={convertedFilename || file.name}
+                            jumpTo={jumpFor('converted')}
                           actions={hideEdit ? undefined : (isDarkMode) => (
                               <div className="flex items-center gap-2 mt-0">
                                 <TooltipProvider>
@@ -458,12 +487,34 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
               <p className="text-gray-500">No data type mappings available</p>
             </div>
           )}
+          {file.functionMappings && file.functionMappings.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-lg font-medium">Function Mappings</h3>
+              <div className="grid gap-2">
+                {file.functionMappings.map(mapping => (
+                  <Card key={mapping.mappingId} className="p-3">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <code className="bg-red-50 px-2 py-1 rounded text-sm font-mono">{mapping.sybaseFunction}()</code>
+                      <span className="text-gray-400">→</span>
+                      <code className="bg-green-50 px-2 py-1 rounded text-sm font-mono">{mapping.oracleTemplate}</code>
+                      <Badge variant="outline" className="text-xs">{mapping.mappingId}</Badge>
+                      <span className="text-xs text-gray-500 ml-auto">
+                        {mapping.occurrences}x, line{mapping.lineNumbers.length > 1 ? 's' : ''} {mapping.lineNumbers.join(', ')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">{mapping.description}</p>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
         </TabsContent>
         
         <TabsContent value="issues" className="space-y-4">
           <ConversionIssuesPanel
-            issues={file.issues || []}
+            issues={issues}
             onDismissIssue={onDismissIssue}
+            onJumpToIssue={handleJumpToIssue}
           />
         </TabsContent>
         
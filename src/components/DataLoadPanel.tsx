@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import JSZip from 'jszip';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Info } from 'lucide-react';
+import type { DataLoadFormat, DataLoadOptions } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  detectDataLoadTables,
+  escapeTerminator,
+  generateDataLoadArtifacts,
+  getDataLoadOptions,
+  setDataLoadOptions,
+  unescapeTerminator,
+  DATA_LOAD_FORMAT_LABELS,
+} from '@/utils/dataLoad';
+
+interface DataLoadPanelProps {
+  files: DependencySource[];
+}
+
+// Text options edited in place; terminators are shown with \t and \n escapes
+const TEXT_OPTIONS: { key: keyof DataLoadOptions; label: string; escaped?: boolean }[] = [
+  { key: 'fieldTerminator', label: 'Field terminator (bcp -t)', escaped: true },
+  { key: 'rowTerminator', label: 'Row terminator (bcp -r)', escaped: true },
+  { key: 'datetimeFormat', label: 'datetime mask' },
+  { key: 'dateFormat', label: 'date mask' },
+  { key: 'timeFormat', label: 'time mask' },
+];
+
+const DataLoadPanel: React.FC<DataLoadPanelProps> = ({ files }) => {
+  const [options, setOptions] = useState(getDataLoadOptions());
+  const tables = useMemo(() => detectDataLoadTables(files, options), [files, options]);
+
+  const handleChange = (key: keyof DataLoadOptions, value: string) => {
+    const option = TEXT_OPTIONS.find(entry => entry.key === key);
+    const parsed = key === 'textSize' ? Number(value) : option?.escaped ? unescapeTerminator(value) : value.trim();
+    if (!parsed || parsed === options[key]) return;
+    setOptions(setDataLoadOptions({ [key]: parsed }));
+  };
+
+  const handleDownload = async () => {
+    const zip = new JSZip();
+    generateDataLoadArtifacts(files, options).forEach(artifact => zip.file(artifact.fileName, artifact.content));
+    const blob = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'data_load.zip';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Loads the bcp character-mode export of every table into the converted tables. Columns follow the data type
+          profile and identifier renames; dates are read with the masks below, which match what bcp writes by default.
+          The files are also part of the migration download, in data_load/.
+        </AlertDescription>
+      </Alert>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Load with</span>
+        <Select value={options.format} onValueChange={(value: DataLoadFormat) => setOptions(setDataLoadOptions({ format: value }))}>
+          <SelectTrigger className="w-[280px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DATA_LOAD_FORMAT_LABELS) as DataLoadFormat[]).map(format => (
+              <SelectItem key={format} value={format}>{DATA_LOAD_FORMAT_LABELS[format]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {TEXT_OPTIONS.map(({ key, label, escaped }) => (
+          <label key={key} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-muted-foreground">{label}</span>
+            <Input
+              key={`${key}-${options[key]}`}
+              defaultValue={escaped ? escapeTerminator(String(options[key])) : String(options[key])}
+              onBlur={e => handleChange(key, e.target.value)}
+              className="h-7 w-56 font-mono text-xs"
+            />
+          </label>
+        ))}
+        <label className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-muted-foreground">Text/image size (bcp -T)</span>
+          <Input
+            key={`textSize-${options.textSize}`}
+            type="number"
+            defaultValue={options.textSize}
+            onBlur={e => handleChange('textSize', e.target.value)}
+            className="h-7 w-56 font-mono text-xs"
+          />
+        </label>
+        {options.format === 'external' && (
+          <label className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-muted-foreground">Directory object</span>
+            <Input
+              key={`directory-${options.directory}`}
+              defaultValue={options.directory}
+              onBlur={e => handleChange('directory', e.target.value.toUpperCase())}
+              className="h-7 w-56 font-mono text-xs"
+            />
+          </label>
+        )}
+      </div>
+
+      {tables.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No CREATE TABLE found in the uploaded files.</div>
+      ) : (
+        <ScrollArea className="h-[260px] pr-3">
+          <div className="space-y-2">
+            {tables.map(table => (
+              <div key={table.dataFile} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium">{table.name}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{table.dataFile} → {table.targetName}</span>
+                  <Badge variant="outline" className="text-xs ml-auto">{table.columns.length} columns</Badge>
+                </div>
+                {table.warnings.map(warning => (
+                  <div key={warning} className="text-xs text-amber-600 mt-1">{warning}</div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" disabled={tables.length === 0} onClick={handleDownload}>
+          <Download className="h-3 w-3 mr-1" />
+          Download data load files
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DataLoadPanel;
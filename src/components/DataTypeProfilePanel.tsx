@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Info, Plus, Trash2 } from 'lucide-react';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  detectProjectDataTypes,
+  dialectTypeMap,
+  getDataTypeProfile,
+  isValidOracleType,
+  mapDataType,
+  setColumnOverride,
+  setTypeOverride,
+} from '@/utils/dataTypeProfile';
+
+interface DataTypeProfilePanelProps {
+  files: DependencySource[];
+}
+
+const DataTypeProfilePanel: React.FC<DataTypeProfilePanelProps> = ({ files }) => {
+  const usage = useMemo(() => detectProjectDataTypes(files), [files]);
+  const defaults = useMemo(() => dialectTypeMap(), []);
+  const [profile, setProfile] = useState(getDataTypeProfile());
+  const [onlyUsed, setOnlyUsed] = useState(true);
+  const [error, setError] = useState<string>();
+  const [column, setColumn] = useState('');
+  const [columnType, setColumnType] = useState('');
+
+  const typeNames = useMemo(() => {
+    const used = usage.types.map(type => type.name);
+    const names = onlyUsed
+      ? used
+      : [...Object.keys(defaults), ...Object.keys(profile.userTypes), ...Object.keys(profile.typeOverrides), ...used];
+    return [...new Set(names)].sort();
+  }, [usage, profile, onlyUsed, defaults]);
+
+  const handleTypeOverride = (name: string, value: string) => {
+    const oracleType = value.trim();
+    if ((profile.typeOverrides[name]?.oracleType ?? '') === oracleType) return;
+    if (oracleType && !isValidOracleType(oracleType)) {
+      setError(`"${oracleType}" is not an Oracle type`);
+      return;
+    }
+    setProfile(setTypeOverride(name, oracleType ? { oracleType } : undefined));
+    setError(undefined);
+  };
+
+  const handleAddColumn = () => {
+    const [table, name] = column.trim().split('.');
+    if (!table || !name || !isValidOracleType(columnType)) {
+      setError('Enter the column as table.column and a valid Oracle type');
+      return;
+    }
+    setProfile(setColumnOverride(table, name, columnType.trim()));
+    setColumn('');
+    setColumnType('');
+    setError(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          The profile applies to every file: declared columns, parameters and variables are rewritten from it before the
+          AI pass, and the data type table of each conversion shows the same mapping. $1 and $2 in an Oracle type stand for
+          the length, precision and scale as written. Converted files keep their old types until they are converted again.
+        </AlertDescription>
+      </Alert>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Type mappings</span>
+        <label className="flex items-center gap-2 text-xs">
+          <Switch checked={onlyUsed} onCheckedChange={setOnlyUsed} />
+          Only types used in the uploaded files
+        </label>
+      </div>
+
+      <ScrollArea className="h-[260px] pr-3">
+        <div className="space-y-1">
+          {typeNames.length === 0 && <div className="text-sm text-muted-foreground">No data types found in the uploaded files.</div>}
+          {typeNames.map(name => {
+            const used = usage.types.find(type => type.name === name);
+            const base = profile.userTypes[name];
+            const override = profile.typeOverrides[name]?.oracleType;
+            const defaultType = defaults[name]?.oracle ?? (base ? `as ${base}` : 'no mapping');
+            return (
+              <div key={name} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs font-medium w-36">{name}</span>
+                  {base && <Badge variant="secondary" className="text-xs">user type</Badge>}
+                  <Input
+                    key={`${name}-${override ?? ''}`}
+                    defaultValue={override ?? ''}
+                    placeholder={defaultType}
+                    onBlur={e => handleTypeOverride(name, e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleTypeOverride(name, e.currentTarget.value)}
+                    className={`h-7 w-52 font-mono text-xs ${defaultType === 'no mapping' && !override ? 'border-amber-500' : ''}`}
+                  />
+                  {used && (
+                    <span className="font-mono text-xs text-muted-foreground truncate">
+                      {used.examples.slice(0, 3).map(example => `${example.text} → ${mapDataType(example, profile) ?? '?'}`).join(', ')}
+                    </span>
+                  )}
+                  {used && <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">{used.files.length} file(s)</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="space-y-2">
+        <span className="text-sm font-semibold">Column overrides</span>
+        {Object.entries(profile.columnOverrides).map(([key, oracleType]) => {
+          const [table, name] = key.split('.');
+          const original = usage.columns.find(entry => entry.table === table && entry.column === name);
+          return (
+            <div key={key} className="flex items-center gap-2 border rounded-md p-2">
+              <span className="font-mono text-xs font-medium">{key}</span>
+              {original && <span className="font-mono text-xs text-muted-foreground">{original.dataType.text}</span>}
+              <span className="font-mono text-xs">→ {oracleType}</span>
+              <Button size="sm" variant="ghost" className="ml-auto h-6 w-6 p-0" onClick={() => setProfile(setColumnOverride(table, name))}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-2">
+          <Input value={column} onChange={e => setColumn(e.target.value)} list="data-type-profile-columns" placeholder="table.column" className="h-8 font-mono text-xs" />
+          <datalist id="data-type-profile-columns">
+            {usage.columns.map(entry => <option key={`${entry.table}.${entry.column}`} value={`${entry.table}.${entry.column}`}>{entry.dataType.text}</option>)}
+          </datalist>
+          <Input value={columnType} onChange={e => setColumnType(e.target.value)} placeholder="Oracle type, e.g. NUMBER(12,2)" className="h-8 font-mono text-xs" />
+          <Button size="sm" onClick={handleAddColumn} disabled={!column || !columnType}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </div>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default DataTypeProfilePanel;
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, ArrowRight, RefreshCw } from 'lucide-react';
+import { buildDependencyGraph, DependencySource } from '@/utils/dependencyGraph';
+
+interface DependencyGraphViewProps {
+  files: DependencySource[];
+  onSelectFile?: (fileId: string) => void;
+}
+
+const DependencyGraphView: React.FC<DependencyGraphViewProps> = ({ files, onSelectFile }) => {
+  const graph = useMemo(() => buildDependencyGraph(files), [files]);
+
+  const nodeByKey = useMemo(() => new Map(graph.nodes.map(node => [node.key, node])), [graph]);
+  const fileById = useMemo(() => new Map(files.map(file => [file.id, file])), [files]);
+  const cyclicKeys = useMemo(() => new Set(graph.cycles.flat()), [graph]);
+
+  const label = (key: string) => nodeByKey.get(key)?.name ?? key;
+
+  return (
+    <div className="space-y-4">
+      {graph.cycles.length > 0 && (
+        <Alert variant="destructive">
+          <RefreshCw className="h-4 w-4" />
+          <AlertTitle>Circular references ({graph.cycles.length})</AlertTitle>
+          <AlertDescription>
+            {graph.cycles.map((cycle, index) => (
+              <div key={index} className="font-mono text-xs">
+                {[...cycle, cycle[0]].map(label).join(' → ')}
+              </div>
+            ))}
+            <div className="text-xs mt-1">These files are deployed last; one of the objects must be created with a stub first.</div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {graph.missing.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Missing references ({graph.missing.length})</AlertTitle>
+          <AlertDescription>
+            {graph.missing.map((ref, index) => (
+              <div key={index} className="text-xs">
+                <span className="font-mono">{ref.name}</span>
+                <span className="text-muted-foreground"> {ref.type} from {label(ref.from)} ({ref.fileName}, line {ref.line})</span>
+              </div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div>
+        <h3 className="text-sm font-semibold mb-2">Conversion and deployment order</h3>
+        <ScrollArea className="h-[400px] pr-3">
+          <ol className="space-y-2">
+            {graph.fileOrder.map((fileId, index) => {
+              const file = fileById.get(fileId);
+              const fileNodes = graph.nodes.filter(node => node.fileId === fileId);
+              const keys = new Set(fileNodes.map(node => node.key));
+              const dependsOn = graph.edges.filter(edge => keys.has(edge.from) && !keys.has(edge.to));
+              const usedBy = graph.edges.filter(edge => keys.has(edge.to) && !keys.has(edge.from));
+              return (
+                <li key={fileId} className="border rounded-md p-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground w-6">{index + 1}.</span>
+                    <button
+                      type="button"
+                      className="font-medium text-sm hover:underline text-left"
+                      onClick={() => onSelectFile?.(fileId)}
+                    >
+                      {file?.name}
+                    </button>
+                    {fileNodes.some(node => cyclicKeys.has(node.key)) && (
+                      <Badge variant="destructive" className="text-xs">cycle</Badge>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1 ml-8">
+                    {fileNodes.filter(node => !node.key.startsWith('file:')).map(node => (
+                      <Badge key={node.key} variant="secondary" className="text-xs">
+                        {node.kind} {node.name}
+                      </Badge>
+                    ))}
+                  </div>
+                  {dependsOn.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1 ml-8 text-xs">
+                      <span className="text-muted-foreground">Depends on</span>
+                      {dependsOn.map((edge, i) => (
+                        <Badge key={i} variant="outline" className="text-xs">
+                          <ArrowRight className="h-3 w-3 mr-1" />
+                          {label(edge.to)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {usedBy.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1 ml-8 text-xs">
+                      <span className="text-muted-foreground">Used by</span>
+                      {usedBy.map((edge, i) => (
+                        <Badge key={i} variant="outline" className="text-xs">{label(edge.from)}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default DependencyGraphView;
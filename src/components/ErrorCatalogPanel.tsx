@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, Info } from 'lucide-react';
+import type { ErrorCodeMapping } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  detectErrorCatalog,
+  exportErrorCatalogCsv,
+  exportErrorCatalogSql,
+  getErrorMappings,
+  isValidExceptionName,
+  isValidOracleErrorCode,
+  resolveErrorMappings,
+  setErrorMapping,
+  ERROR_PACKAGE,
+} from '@/utils/errorCatalog';
+
+interface ErrorCatalogPanelProps {
+  files: DependencySource[];
+}
+
+const downloadText = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const ErrorCatalogPanel: React.FC<ErrorCatalogPanelProps> = ({ files }) => {
+  const entries = useMemo(() => detectErrorCatalog(files), [files]);
+  const [saved, setSaved] = useState(getErrorMappings());
+  const mappings = useMemo(() => resolveErrorMappings(entries, saved), [entries, saved]);
+  // Raw input while the user types, so invalid codes can be shown without being saved
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const duplicateCodes = useMemo(() => {
+    const counts = new Map<number, number>();
+    Object.values(mappings).forEach(mapping => counts.set(mapping.oracleCode, (counts.get(mapping.oracleCode) ?? 0) + 1));
+    return new Set([...counts.entries()].filter(([, count]) => count > 1).map(([code]) => code));
+  }, [mappings]);
+
+  const updateMapping = (number: number, change: Partial<ErrorCodeMapping>) => {
+    setSaved(setErrorMapping(number, { ...mappings[number], ...change }));
+  };
+
+  const handleCodeChange = (number: number, value: string) => {
+    setDrafts(prev => ({ ...prev, [number]: value }));
+    const code = Number(value);
+    if (isValidOracleErrorCode(code)) updateMapping(number, { oracleCode: code });
+  };
+
+  const handleExceptionChange = (number: number, value: string) => {
+    const name = value.trim();
+    if (name === '' || isValidExceptionName(name)) updateMapping(number, { exceptionName: name || undefined });
+  };
+
+  if (entries.length === 0) {
+    return <div className="text-sm text-muted-foreground">No RAISERROR or sp_addmessage error numbers found in the uploaded files.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Every RAISERROR with a number is converted to RAISE_APPLICATION_ERROR with the code below.
+          Named exceptions are declared in the {ERROR_PACKAGE} package so handlers can catch them by name.
+          Converted files keep their old codes until they are converted again.
+        </AlertDescription>
+      </Alert>
+
+      <ScrollArea className="h-[320px] pr-3">
+        <div className="space-y-2">
+          {entries.map(entry => {
+            // Undefined once every code in the range is taken
+            const mapping: ErrorCodeMapping | undefined = mappings[entry.number];
+            const draft = drafts[entry.number] ?? (mapping ? String(mapping.oracleCode) : '');
+            const unmapped = !mapping && draft === '';
+            const invalidCode = !unmapped && !isValidOracleErrorCode(Number(draft));
+            return (
+              <div key={entry.number} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium w-16">{entry.number}</span>
+                  <Input
+                    value={draft}
+                    onChange={e => handleCodeChange(entry.number, e.target.value)}
+                    placeholder="unmapped"
+                    className={`h-8 w-28 font-mono text-xs ${unmapped || invalidCode || duplicateCodes.has(mapping?.oracleCode) ? 'border-red-400' : ''}`}
+                    title="Oracle error code (-20000 to -20999)"
+                  />
+                  <Input
+                    defaultValue={mapping?.exceptionName ?? ''}
+                    disabled={!mapping}
+                    onChange={e => handleExceptionChange(entry.number, e.target.value)}
+                    placeholder="exception name (optional)"
+                    className="h-8 flex-1 font-mono text-xs"
+                  />
+                  {entry.definedBySpAddmessage && <Badge variant="secondary" className="text-xs">sp_addmessage</Badge>}
+                </div>
+                {entry.messages.length > 0 && (
+                  <div className="text-xs text-muted-foreground mt-1 ml-[4.5rem] truncate" title={entry.messages.join('\n')}>
+                    {entry.messages[0]}{entry.messages.length > 1 ? ` (+${entry.messages.length - 1} other messages)` : ''}
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-1 mt-1 ml-[4.5rem]">
+                  {[...new Set(entry.usages.map(usage => usage.fileName))].map(fileName => (
+                    <Badge key={fileName} variant="outline" className="text-xs">{fileName}</Badge>
+                  ))}
+                </div>
+                {unmapped && (
+                  <div className="text-xs text-red-600 mt-1 ml-[4.5rem]">Every code from -20001 to -20999 is assigned; enter a code or free one.</div>
+                )}
+                {invalidCode && <div className="text-xs text-red-600 mt-1 ml-[4.5rem]">Codes must be between -20999 and -20000.</div>}
+                {mapping && !invalidCode && duplicateCodes.has(mapping.oracleCode) && (
+                  <div className="text-xs text-red-600 mt-1 ml-[4.5rem]">Another error number uses the same Oracle code.</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={() => downloadText(exportErrorCatalogCsv(entries, mappings), 'error_catalog.csv')}>
+          <Download className="h-3 w-3 mr-1" />
+          CSV
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => downloadText(exportErrorCatalogSql(entries, mappings), 'error_catalog.sql')}>
+          <Download className="h-3 w-3 mr-1" />
+          Reference table SQL
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorCatalogPanel;
@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { convertedFileName } from '@/utils/targetDialect';
 
 interface FileDownloaderProps {
   fileName: string;
@@ -30,13 +31,7 @@ const FileDownloader: React.FC<FileDownloaderProps> = ({
       const url = URL.createObjectURL(blob);
       
       // Create a temporary anchor element and trigger download
-      const fileExtension = fileName.includes('.') 
-        ? fileName.split('.').pop() 
-        : 'sql';
-      const baseName = fileName.includes('.')
-        ? fileName.substring(0, fileName.lastIndexOf('.'))
-        : fileName;
-      const downloadName = `${baseName}_oracle.${fileExtension}`;
+      const downloadName = convertedFileName(fileName);
       const link = document.createElement('a');
       link.href = url;
       link.download = downloadName;
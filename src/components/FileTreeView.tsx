@@ -28,6 +28,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip"
+import type { ScriptSegment } from '@/types';
 
 interface FileItem {
   id: string;
@@ -38,6 +39,7 @@ interface FileItem {
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
   errorMessage?: string;
+  segment?: ScriptSegment;
 }
 
 interface FileTreeViewProps {
@@ -208,6 +210,11 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
                   )}>
                     {file.name}
                   </span>
+                  {file.segment && (
+                    <span className="text-xs text-gray-400 truncate" title={`Object ${file.segment.index + 1} of ${file.segment.count} in ${file.segment.scriptName}`}>
+                      {file.segment.scriptName}
+                    </span>
+                  )}
                 </div>
                 {!hideActions && (
                   <div className="flex items-center gap-2 flex-shrink-0">
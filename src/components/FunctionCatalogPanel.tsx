@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Info, Plus, Trash2 } from 'lucide-react';
+import type { FunctionMapping } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  applyFunctionCatalog,
+  getFunctionCatalog,
+  getSavedFunctionCatalog,
+  mappingAppliesTo,
+  removeCustomFunctionMapping,
+  saveCustomFunctionMapping,
+  setFunctionMappingEnabled,
+  targetTemplate,
+  validateFunctionMapping,
+  DEFAULT_FUNCTION_MAPPINGS,
+} from '@/utils/functionCatalog';
+import { SOURCE_DIALECT_LABELS } from '@/utils/sourceDialect';
+import { getTargetDialect, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
+
+interface FunctionCatalogPanelProps {
+  files: DependencySource[];
+}
+
+const EMPTY_DRAFT = { sybaseFunction: '', argumentCount: '', conditionArgument: '', conditionValues: '', template: '', description: '' };
+
+const FunctionCatalogPanel: React.FC<FunctionCatalogPanelProps> = ({ files }) => {
+  const [saved, setSaved] = useState(getSavedFunctionCatalog());
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState<string>();
+  // New entries get a template for the project target only
+  const target = getTargetDialect();
+
+  // Files each active entry fires in, with the catalog as it is now
+  const firedIn = useMemo(() => {
+    const catalog = getFunctionCatalog(saved);
+    const result = new Map<string, string[]>();
+    files.forEach(file => {
+      applyFunctionCatalog(file.content || '', catalog).fired.forEach(mapping => {
+        result.set(mapping.mappingId, [...(result.get(mapping.mappingId) ?? []), file.name]);
+      });
+    });
+    return result;
+  }, [files, saved]);
+
+  const entries = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    // Entries for the other source dialect are left out
+    return [...saved.custom, ...DEFAULT_FUNCTION_MAPPINGS].filter(mapping => mappingAppliesTo(mapping) && (
+      !term || mapping.sybaseFunction.includes(term) || mapping.id.includes(term) || targetTemplate(mapping).toLowerCase().includes(term)));
+  }, [saved, filter]);
+
+  const handleAdd = () => {
+    const mapping: FunctionMapping = {
+      id: `custom-${crypto.randomUUID().slice(0, 8)}`,
+      sybaseFunction: draft.sybaseFunction.trim().toLowerCase(),
+      argumentCount: draft.argumentCount ? Number(draft.argumentCount) : undefined,
+      conditions: draft.conditionArgument && draft.conditionValues
+        ? [{ argument: Number(draft.conditionArgument), values: draft.conditionValues.split(',').map(value => value.trim().toLowerCase()).filter(Boolean) }]
+        : undefined,
+      oracleTemplate: target === 'oracle' ? draft.template.trim() : '',
+      postgresTemplate: target === 'postgresql' ? draft.template.trim() : undefined,
+      description: draft.description.trim() || 'Project mapping',
+    };
+    const problem = validateFunctionMapping(mapping);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaved(saveCustomFunctionMapping(mapping));
+    setDraft(EMPTY_DRAFT);
+    setError(undefined);
+  };
+
+  const field = (key: keyof typeof EMPTY_DRAFT) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDraft(prev => ({ ...prev, [key]: e.target.value })),
+  });
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Function calls are rewritten before the AI pass. Project entries are tried before the defaults, so an entry
+          for the same function and arguments overrides a default. In templates, {'{1}'}, {'{2}'}, … are the call's
+          arguments, {'{type:n}'} maps argument n as a data type and {'{regex:n}'} turns a LIKE pattern literal into a regex.
+        </AlertDescription>
+      </Alert>
+
+      <div className="border rounded-md p-2 space-y-2">
+        <div className="text-sm font-semibold">Add a project mapping</div>
+        <div className="grid grid-cols-6 gap-2">
+          <Input {...field('sybaseFunction')} placeholder="function" className="h-8 font-mono text-xs" />
+          <Input {...field('argumentCount')} placeholder="# args" type="number" className="h-8 text-xs" />
+          <Input {...field('conditionArgument')} placeholder="when arg #" type="number" className="h-8 text-xs" />
+          <Input {...field('conditionValues')} placeholder="is one of (a, b)" className="h-8 font-mono text-xs col-span-3" />
+          <Input {...field('template')} placeholder={`${TARGET_DIALECT_LABELS[target]} template, e.g. ${target === 'oracle' ? 'SUBSTR' : 'RIGHT'}({1}, ${target === 'oracle' ? '-' : ''}{2})`} className="h-8 font-mono text-xs col-span-3" />
+          <Input {...field('description')} placeholder="description" className="h-8 text-xs col-span-2" />
+          <Button size="sm" onClick={handleAdd} disabled={!draft.sybaseFunction || !draft.template}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </div>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </div>
+
+      <Input value={filter} onChange={e => setFilter(e.target.value)} placeholder="Filter by function or template" className="h-8 text-xs" />
+
+      <ScrollArea className="h-[300px] pr-3">
+        <div className="space-y-1">
+          {entries.map(mapping => {
+            const enabled = !saved.disabled.includes(mapping.id);
+            const usedIn = firedIn.get(mapping.id) ?? [];
+            return (
+              <div key={mapping.id} className={`border rounded-md p-2 ${enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-2">
+                  <Switch checked={enabled} onCheckedChange={checked => setSaved(setFunctionMappingEnabled(mapping.id, checked))} />
+                  <span className="font-mono text-xs font-medium">{mapping.sybaseFunction}</span>
+                  {mapping.argumentCount !== undefined && <span className="text-xs text-muted-foreground">{mapping.argumentCount} args</span>}
+                  {mapping.conditions?.map(condition => (
+                    <span key={condition.argument} className="text-xs text-muted-foreground">arg {condition.argument} ∈ {condition.values.join(', ')}</span>
+                  ))}
+                  <span className="font-mono text-xs truncate">→ {targetTemplate(mapping)}</span>
+                  <div className="ml-auto flex items-center gap-1">
+                    {mapping.dialects?.map(dialect => <Badge key={dialect} variant="outline" className="text-xs">{SOURCE_DIALECT_LABELS[dialect]}</Badge>)}
+                    <Badge variant={mapping.builtIn ? 'outline' : 'secondary'} className="text-xs">{mapping.builtIn ? 'default' : 'project'}</Badge>
+                    {!mapping.builtIn && (
+                      <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => setSaved(removeCustomFunctionMapping(mapping.id))}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">{mapping.description}</div>
+                {usedIn.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {usedIn.map(fileName => <Badge key={fileName} variant="outline" className="text-xs">{fileName}</Badge>)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default FunctionCatalogPanel;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Info, RotateCcw } from 'lucide-react';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  detectIdentifierConflicts,
+  getIdentifierLengthLimit,
+  getIdentifierRenames,
+  isValidOracleIdentifier,
+  setIdentifierLengthLimit,
+  setIdentifierRename,
+  syncIdentifierRenames,
+  IDENTIFIER_LENGTH_LIMITS,
+} from '@/utils/identifierConflicts';
+
+interface IdentifierConflictsPanelProps {
+  files: DependencySource[];
+}
+
+const IdentifierConflictsPanel: React.FC<IdentifierConflictsPanelProps> = ({ files }) => {
+  const [limit, setLimit] = useState(getIdentifierLengthLimit());
+  const [renames, setRenames] = useState(getIdentifierRenames());
+  const [error, setError] = useState<string>();
+  const conflicts = useMemo(() => detectIdentifierConflicts(files, limit, renames), [files, limit, renames]);
+
+  const handleRename = (name: string, value: string) => {
+    const newName = value.trim().toLowerCase();
+    const current = conflicts.find(conflict => conflict.name === name);
+    if (!newName || newName === current?.newName) return;
+    if (!isValidOracleIdentifier(newName, limit)) {
+      setError(`"${newName}" is reserved, too long or not a valid Oracle name`);
+      return;
+    }
+    if (conflicts.some(conflict => conflict.name !== name && conflict.newName === newName)) {
+      setError(`"${newName}" is already used by another rename`);
+      return;
+    }
+    setRenames(setIdentifierRename(name, newName));
+    setError(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Names that are Oracle reserved words or longer than the identifier limit are renamed in every file, in DDL and in
+          code alike, before the AI pass. Proposals are saved the first time a file is converted; edit a name to change it
+          everywhere. Converted files keep their old names until they are converted again.
+        </AlertDescription>
+      </Alert>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Oracle identifier limit</span>
+        <Select value={String(limit)} onValueChange={value => setLimit(setIdentifierLengthLimit(Number(value)))}>
+          <SelectTrigger className="w-[280px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IDENTIFIER_LENGTH_LIMITS.map(option => (
+              <SelectItem key={option} value={String(option)}>{option} characters{option === 30 ? ' (before 12.2)' : ' (12.2 and later)'}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No reserved or over-long identifiers found in the uploaded files.</div>
+      ) : (
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-2">
+            {conflicts.map(conflict => (
+              <div key={conflict.name} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium truncate">{conflict.displayName}</span>
+                  <Badge variant="outline" className="text-xs">{conflict.kind}</Badge>
+                  {conflict.reasons.map(reason => (
+                    <Badge key={reason} variant="secondary" className="text-xs">{reason === 'reserved' ? 'reserved word' : `> ${limit} chars`}</Badge>
+                  ))}
+                  <span className="ml-auto font-mono text-xs">→</span>
+                  <Input
+                    key={`${conflict.name}-${conflict.newName}`}
+                    defaultValue={conflict.newName}
+                    onBlur={e => handleRename(conflict.name, e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleRename(conflict.name, e.currentTarget.value)}
+                    className={`h-7 w-60 font-mono text-xs ${conflict.proposed ? 'border-amber-500' : ''}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0"
+                    title="Back to the proposed name"
+                    disabled={conflict.proposed}
+                    onClick={() => setRenames(setIdentifierRename(conflict.name))}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {conflict.usages.map(usage => (
+                    <Badge key={usage.fileId} variant="outline" className="text-xs">{usage.fileName}:{usage.line}</Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <div className="flex items-center justify-between">
+        {error ? <div className="text-xs text-red-600">{error}</div> : <span className="text-xs text-muted-foreground">Amber names are proposals not saved yet.</span>}
+        <Button size="sm" variant="outline" disabled={!conflicts.some(conflict => conflict.proposed)} onClick={() => setRenames(syncIdentifierRenames(files))}>
+          Save proposals
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default IdentifierConflictsPanel;
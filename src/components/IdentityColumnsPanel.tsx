@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Info } from 'lucide-react';
+import type { IdentityStrategy } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  detectIdentityColumns,
+  getIdentityStrategy,
+  identityTriggerNameFor,
+  setIdentityStrategy,
+  IDENTITY_STRATEGY_LABELS,
+} from '@/utils/identityColumns';
+
+interface IdentityColumnsPanelProps {
+  files: DependencySource[];
+}
+
+const IdentityColumnsPanel: React.FC<IdentityColumnsPanelProps> = ({ files }) => {
+  const tables = useMemo(() => detectIdentityColumns(files), [files]);
+  const [strategy, setStrategy] = useState(getIdentityStrategy());
+
+  const handleStrategyChange = (value: IdentityStrategy) => {
+    setStrategy(setIdentityStrategy(value));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          The strategy applies to every table. With sequences, each table gets one sequence and trigger in the file
+          that creates it, and every INSERT in every file takes its value from that sequence.
+          Converted files keep their old strategy until they are converted again.
+        </AlertDescription>
+      </Alert>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Oracle representation</span>
+        <Select value={strategy} onValueChange={handleStrategyChange}>
+          <SelectTrigger className="w-[280px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(IDENTITY_STRATEGY_LABELS) as IdentityStrategy[]).map(option => (
+              <SelectItem key={option} value={option}>{IDENTITY_STRATEGY_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {tables.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No CREATE TABLE with an identity column found in the uploaded files.</div>
+      ) : (
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-2">
+            {tables.map(table => (
+              <div key={table.table} className="border rounded-md p-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium">{table.displayName}.{table.column}</span>
+                  <span className="font-mono text-xs text-muted-foreground">{table.dataType}</span>
+                  <span className="font-mono text-xs text-muted-foreground">
+                    → {strategy === 'identity' ? 'GENERATED BY DEFAULT AS IDENTITY' : `${table.sequence} / ${identityTriggerNameFor(table.table)}`}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <Badge variant="secondary" className="text-xs">{table.definedIn.fileName}</Badge>
+                  {table.insertedIn.filter(usage => usage.fileId !== table.definedIn.fileId).map(usage => (
+                    <Badge key={usage.fileId} variant="outline" className="text-xs">{usage.fileName}</Badge>
+                  ))}
+                </div>
+                {table.identityInsertIn.length > 0 && (
+                  <div className="text-xs text-amber-600 mt-1">
+                    IDENTITY_INSERT in {table.identityInsertIn.map(usage => usage.fileName).join(', ')}: explicit values do not advance the
+                    {strategy === 'identity' ? ' identity generator' : ` ${table.sequence} sequence`}; resynchronize it after loading.
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default IdentityColumnsPanel;
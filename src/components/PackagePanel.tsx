@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import JSZip from 'jszip';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, Info, RotateCcw } from 'lucide-react';
+import {
+  clearPackageAssignments,
+  generatePackageArtifacts,
+  getPackageAssignments,
+  isValidPackageName,
+  planPackages,
+  setPackageAssignment,
+  PackageMember,
+  PackageSource,
+} from '@/utils/packageGrouping';
+
+interface PackagePanelProps {
+  files: PackageSource[];
+}
+
+const PackagePanel: React.FC<PackagePanelProps> = ({ files }) => {
+  const [assignments, setAssignments] = useState(getPackageAssignments());
+  const [error, setError] = useState<string>();
+  const plan = useMemo(() => planPackages(files, assignments), [files, assignments]);
+  const { artifacts, warnings } = useMemo(() => generatePackageArtifacts(files, assignments), [files, assignments]);
+  const standalone = plan.members.filter(member => !member.packageName);
+
+  const handleAssign = (member: PackageMember, value: string) => {
+    const packageName = value.trim().toLowerCase();
+    if (packageName === member.packageName) return;
+    if (!isValidPackageName(packageName)) {
+      setError(`"${packageName}" is not a valid Oracle package name`);
+      return;
+    }
+    setAssignments(setPackageAssignment(member.key, packageName === member.suggested ? undefined : packageName));
+    setError(undefined);
+  };
+
+  const handleDownload = async () => {
+    const zip = new JSZip();
+    artifacts.forEach(artifact => zip.file(artifact.fileName, artifact.content));
+    const blob = await zip.generateAsync({ type: 'blob' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'packages.zip';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const renderMember = (member: PackageMember) => (
+    <div key={member.key} className="flex items-center gap-2">
+      <span className="font-mono text-xs truncate">{member.name}</span>
+      <Badge variant="outline" className="text-xs">{member.kind}</Badge>
+      <span className="text-xs text-muted-foreground truncate">{member.fileName}</span>
+      <Input
+        key={`${member.key}-${member.packageName}`}
+        defaultValue={member.packageName}
+        placeholder="standalone"
+        onBlur={e => handleAssign(member, e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && handleAssign(member, e.currentTarget.value)}
+        className={`ml-auto h-7 w-44 font-mono text-xs ${member.packageName !== member.suggested ? 'border-blue-500' : ''}`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Procedures and functions are grouped by the prefix of their names; routines without one follow the package of
+          the routines they call or are called by. Type a package name to move a routine, or clear it to keep the routine
+          standalone. Constants and types declared the same way in several members move to the package spec, and calls
+          into a package are qualified with its name. Packages are built from the converted code and are also part of the
+          migration download, in packages/.
+        </AlertDescription>
+      </Alert>
+
+      {plan.members.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No procedures or functions found in the uploaded files.</div>
+      ) : (
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-2">
+            {plan.packages.map(({ name, members }) => (
+              <div key={name} className="border rounded-md p-2 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium">{name}</span>
+                  <Badge variant="secondary" className="text-xs">{members.length} members</Badge>
+                </div>
+                {members.map(renderMember)}
+              </div>
+            ))}
+            {standalone.length > 0 && (
+              <div className="border border-dashed rounded-md p-2 space-y-1">
+                <span className="text-sm font-medium text-muted-foreground">Standalone</span>
+                {standalone.map(renderMember)}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      )}
+
+      {warnings.map(warning => (
+        <div key={warning} className="text-xs text-amber-600">{warning}</div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        {error ? <div className="text-xs text-red-600">{error}</div> : <span className="text-xs text-muted-foreground">Blue names differ from the suggestion.</span>}
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" disabled={Object.keys(assignments).length === 0} onClick={() => setAssignments(clearPackageAssignments())}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Back to suggestions
+          </Button>
+          <Button size="sm" variant="outline" disabled={artifacts.length === 0} onClick={handleDownload}>
+            <Download className="h-3 w-3 mr-1" />
+            Download packages
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PackagePanel;
@@ -21,6 +21,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { toast } from '@/components/ui/use-toast';
+import { convertedFileName } from '@/utils/targetDialect';
 
 interface DevReviewPanelProps {
   canCompleteMigration: boolean;
@@ -110,13 +111,7 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({
             else if (lower.includes('tab') || lower.includes('table')) type = 'table';
             
             // Generate the converted filename
-            const fileExtension = f.file_name.includes('.') 
-              ? f.file_name.split('.').pop() 
-              : 'sql';
-            const baseName = f.file_name.includes('.')
-              ? f.file_name.substring(0, f.file_name.lastIndexOf('.'))
-              : f.file_name;
-            const convertedFilename = `${baseName}_oracle.${fileExtension}`;
+            const convertedFilename = convertedFileName(f.file_name);
             
             return {
               ...f,
@@ -615,17 +610,11 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({
                     variant="outline"
                     onClick={() => {
                       const code = selectedFile.converted_code || '';
-                      const fileExtension = selectedFile.file_name.includes('.') 
-                        ? selectedFile.file_name.split('.').pop() 
-                        : 'sql';
-                      const baseName = selectedFile.file_name.includes('.')
-                        ? selectedFile.file_name.substring(0, selectedFile.file_name.lastIndexOf('.'))
-                        : selectedFile.file_name;
                       const blob = new Blob([code], { type: 'text/plain' });
                       const url = URL.createObjectURL(blob);
                       const a = document.createElement('a');
                       a.href = url;
-                      a.download = `${baseName}_oracle.${fileExtension}`;
+                      a.download = convertedFileName(selectedFile.file_name);
                       document.body.appendChild(a);
                       a.click();
                       document.body.removeChild(a);
@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter }
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Check, AlertTriangle, X, Download, Upload, Database, FileText, Info, Lightbulb, Trash2 } from 'lucide-react';
+import { Check, AlertTriangle, X, Download, Upload, Database, FileText, Info, Lightbulb, Trash2, PlugZap, FileCode } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ConversionReport } from '@/types';
 import { deployToOracle } from '@/utils/databaseUtils';
@@ -14,6 +14,15 @@ import { BarChart, Bar, XAxis, YAxis, Tooltip as RechartsTooltip, ResponsiveCont
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { diffChars } from 'diff';
 import { analyzeCodeComplexity, generateBalancedPerformanceMetrics } from '@/utils/componentUtilswithlangchain';
+import { orderByDependencies } from '@/utils/dependencyGraph';
+import { assembleConvertedScript } from '@/utils/scriptSplitter';
+import { getTargetDialect, targetFileTag, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
+import { buildSharedTempTableDdl } from '@/utils/tempTables';
+import { TRANSACTION_STATE_DDL, usesTransactionState } from '@/utils/globalVariableRewrites';
+import { buildErrorPackageDdl } from '@/utils/errorCatalog';
+import { generateSchemaObjectsDdl } from '@/utils/schemaMapping';
+import { formatOracleSignature, interfaceChangesFor, RESULT_SET_CONVENTION_LABELS } from '@/utils/resultSetProcedures';
+import { buildEmbeddedSqlPatch, isApplicationSource, summarizeEmbeddedSql } from '@/utils/embeddedSql';
 
 interface ReportViewerProps {
   report: ConversionReport;
@@ -35,6 +44,8 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
   const [isDeploying, setIsDeploying] = useState(false);
   const [deploymentLogs, setDeploymentLogs] = useState<DeploymentLog[]>([]);
   const [showClearLogsDialog, setShowClearLogsDialog] = useState(false);
+  const target = getTargetDialect();
+  const targetLabel = TARGET_DIALECT_LABELS[target];
   
   useEffect(() => {
     fetchDeploymentLogs();
@@ -129,7 +140,7 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `oracle-migration-report-${report.timestamp.split('T')[0]}.txt`;
+    a.download = `${targetFileTag()}-migration-report-${report.timestamp.split('T')[0]}.txt`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -140,6 +151,47 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
     });
   };
 
+  const handleDownloadInstallScript = () => {
+    const converted = report.results.filter(r => r.convertedCode && !isApplicationSource(r.originalFile.name));
+    const ordered = orderByDependencies(converted, (r, index) => ({
+      id: String(index),
+      name: r.originalFile.name,
+      content: r.originalFile.content,
+    }));
+    // Shared DDL comes from the Oracle-only rewrites
+    const sharedDdl = target !== 'oracle' ? '' : [
+      generateSchemaObjectsDdl(report.results.map(r => r.originalFile)),
+      buildSharedTempTableDdl(report.results.map(r => r.originalFile)),
+      buildErrorPackageDdl(report.results.map(r => r.originalFile)),
+      ordered.some(r => usesTransactionState(r.convertedCode)) ? TRANSACTION_STATE_DDL : '',
+    ].filter(Boolean).join('\n');
+    const script = (sharedDdl ? sharedDdl + '\n' : '') + assembleConvertedScript(
+      ordered.map((r, index) => ({ name: r.originalFile.name, code: r.convertedCode, index })),
+      'Install script (dependency order)'
+    );
+    const blob = new Blob([script], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${targetFileTag()}-install-${report.timestamp.split('T')[0]}.sql`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadPatch = () => {
+    const blob = new Blob([buildEmbeddedSqlPatch(report.results)], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${targetFileTag()}-embedded-sql-${report.timestamp.split('T')[0]}.patch`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleDeploy = async () => {
     setIsDeploying(true);
     try {
@@ -199,7 +251,33 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
           }
         }));
       }
-      for (const file of filesToInsert) {
+      // Deploy in dependency order so every object exists before something references it.
+      // Application sources only carry SQL for the application and are not deployed.
+      filesToInsert = orderByDependencies(filesToInsert.filter(f => !isApplicationSource(f.file_name)), (f, index) => ({
+        id: String(index),
+        name: f.file_name,
+        content: f.original_content || '',
+      }));
+      // Shared objects (database links and synonyms, #temp tables, transaction counter, error package) go first, once
+      const schemaDdl = generateSchemaObjectsDdl(filesToInsert.map((f, index) => ({
+        id: String(index),
+        name: f.file_name,
+        content: f.original_content || '',
+      })));
+      const tempTableDdl = buildSharedTempTableDdl(filesToInsert.map((f, index) => ({
+        id: String(index),
+        name: f.file_name,
+        content: f.original_content || '',
+      })));
+      const transactionDdl = filesToInsert.some(f => usesTransactionState(f.converted_content || '')) ? TRANSACTION_STATE_DDL : '';
+      const errorPackageDdl = buildErrorPackageDdl(filesToInsert.map((f, index) => ({
+        id: String(index),
+        name: f.file_name,
+        content: f.original_content || '',
+      })));
+      const sharedDdl = target === 'oracle' ? [schemaDdl, tempTableDdl, transactionDdl, errorPackageDdl].filter(Boolean) : [];
+      const scripts = sharedDdl.concat(filesToInsert.map(f => f.converted_content));
+      for (const script of scripts) {
         const deployResult = await deployToOracle(
           { 
             type: 'oracle',
@@ -209,7 +287,7 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
             password: 'password',
             database: 'ORCL',
           },
-          file.converted_content
+          script
         );
         if (!deployResult.success) allSuccess = false;
       }
@@ -217,7 +295,7 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
         .from('migrations')
         .insert({
           user_id: user?.id,
-          project_name: `Oracle Deployment: ${new Date().toLocaleString()}`,
+          project_name: `${targetLabel} Deployment: ${new Date().toLocaleString()}`,
         })
         .select()
         .single();
@@ -286,6 +364,13 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
   };
 
   // Prepare data for charts
+  const interfaceChanges = report.results.flatMap(result =>
+    (result.interfaceChanges ?? interfaceChangesFor(result.originalFile.content || '')).map(change => ({ fileName: result.originalFile.name, change }))
+  );
+  const applicationSql = report.results
+    .filter(result => isApplicationSource(result.originalFile.name))
+    .map(result => ({ fileName: result.originalFile.name, summary: summarizeEmbeddedSql(result.originalFile) }));
+
   const chartData = report.results.map((result: any) => {
     const perf = getConsistentPerformance(result);
     return {
@@ -328,6 +413,16 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
             <Download className="h-4 w-4 mr-2" />
             Download Report
           </Button>
+          <Button onClick={handleDownloadInstallScript} variant="secondary">
+            <Database className="h-4 w-4 mr-2" />
+            Install Script
+          </Button>
+          {applicationSql.length > 0 && (
+            <Button onClick={handleDownloadPatch} variant="secondary">
+              <FileCode className="h-4 w-4 mr-2" />
+              SQL Patch
+            </Button>
+          )}
         </div>
       </div>
 
@@ -406,6 +501,90 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
         </CardContent>
       </Card>
 
+      {/* Interface Changes: procedures whose callers have to change */}
+      {interfaceChanges.length > 0 && (
+        <Card className="shadow-none border bg-white/80 dark:bg-slate-900/60">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <PlugZap className="h-5 w-5 text-orange-500" />
+              <CardTitle className="text-lg">Interface Changes</CardTitle>
+              <span className="ml-2 text-gray-400 text-sm">({interfaceChanges.length})</span>
+            </div>
+            <CardDescription>
+              These procedures returned result sets in Sybase. Update every call site to the new signature.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-80 overflow-auto border rounded-md">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-slate-50 dark:bg-slate-800">
+                    <th className="px-4 py-2 text-left font-semibold">Procedure</th>
+                    <th className="px-4 py-2 text-left font-semibold">Sybase Parameters</th>
+                    <th className="px-4 py-2 text-left font-semibold">Oracle Signature</th>
+                    <th className="px-4 py-2 text-left font-semibold">Caller Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {interfaceChanges.map(({ fileName, change }, idx) => (
+                    <tr key={`${fileName}-${change.procedure}`} className={idx % 2 === 0 ? 'bg-white dark:bg-slate-900/60' : 'bg-slate-50 dark:bg-slate-800'}>
+                      <td className="px-4 py-2 align-top">
+                        <div className="font-mono font-medium">{change.procedure}</div>
+                        <div className="text-xs text-gray-500">{fileName}</div>
+                        <Badge variant="secondary" className="mt-1 text-xs">{RESULT_SET_CONVENTION_LABELS[change.convention]}</Badge>
+                      </td>
+                      <td className="px-4 py-2 align-top font-mono text-xs">{change.originalParameters.join(', ') || '—'}</td>
+                      <td className="px-4 py-2 align-top font-mono text-xs">{formatOracleSignature(change)}</td>
+                      <td className="px-4 py-2 align-top text-xs">{change.callerChange}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Application SQL: statements found in Java/C# sources and the procedures they call */}
+      {applicationSql.length > 0 && (
+        <Card className="shadow-none border bg-white/80 dark:bg-slate-900/60">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <FileCode className="h-5 w-5 text-blue-500" />
+              <CardTitle className="text-lg">Application SQL</CardTitle>
+              <span className="ml-2 text-gray-400 text-sm">({applicationSql.length})</span>
+            </div>
+            <CardDescription>
+              SQL found in application source files. Apply the SQL patch to the application; statements built at runtime need a manual rewrite.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-80 overflow-auto border rounded-md">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-slate-50 dark:bg-slate-800">
+                    <th className="px-4 py-2 text-left font-semibold">File</th>
+                    <th className="px-4 py-2 text-left font-semibold">Statements</th>
+                    <th className="px-4 py-2 text-left font-semibold">Built at Runtime</th>
+                    <th className="px-4 py-2 text-left font-semibold">Procedures Called</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {applicationSql.map(({ fileName, summary }, idx) => (
+                    <tr key={fileName} className={idx % 2 === 0 ? 'bg-white dark:bg-slate-900/60' : 'bg-slate-50 dark:bg-slate-800'}>
+                      <td className="px-4 py-2 align-top font-medium">{fileName}</td>
+                      <td className="px-4 py-2 align-top">{summary.statements}</td>
+                      <td className="px-4 py-2 align-top">{summary.dynamic}</td>
+                      <td className="px-4 py-2 align-top font-mono text-xs">{summary.calls.join(', ') || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-center">
         {/* Bar Chart: Performance Score per File */}
@@ -561,7 +740,7 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
           <div className="flex items-center justify-between">
             <CardTitle className="flex items-center gap-2">
               <Database className="h-5 w-5 text-blue-500" />
-              Oracle Deployment
+              {targetLabel} Deployment
             </CardTitle>
             <div className="flex items-center gap-2">
                 {deploymentLogs.length > 0 && (
@@ -580,26 +759,26 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
                       bg-gradient-to-r from-blue-500 to-indigo-600 text-white border-0
                       hover:from-blue-600 hover:to-indigo-700 hover:shadow-xl
                       focus:ring-2 focus:ring-blue-400 focus:outline-none"
-                    aria-label="Deploy to Oracle Database"
+                    aria-label={`Deploy to ${targetLabel} Database`}
                   >
                     {isDeploying ? (
                       <span className="flex items-center gap-2">
                         <span className="animate-spin inline-flex"><svg className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v8z"></path></svg></span>
                         <Upload className="h-5 w-5 text-white" />
                         <Database className="h-5 w-5 text-white" />
-                        Deploying to Oracle...
+                        Deploying to {targetLabel}...
                       </span>
                     ) : (
                       <span className="flex items-center gap-2">
                         <Upload className="h-5 w-5 text-white drop-shadow" />
                         <Database className="h-5 w-5 text-white drop-shadow" />
-                        <span>Deploy to Oracle</span>
+                        <span>Deploy to {targetLabel}</span>
                       </span>
                     )}
               </Button>
                 </TooltipTrigger>
                 <TooltipContent side="bottom" className="text-base max-w-xs">
-                  Deploy all successfully converted files to your Oracle database. This will insert the converted SQL into your configured Oracle instance and log the deployment.
+                  Deploy all successfully converted files to your {targetLabel} database. This will insert the converted SQL into your configured {targetLabel} instance and log the deployment.
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -614,7 +793,7 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
                 <div className="text-center">
                   <Database className="h-12 w-12 mx-auto mb-2 opacity-20" />
                   <p>No deployment logs yet</p>
-                  <p className="text-sm">Click "Deploy to Oracle" to start</p>
+                  <p className="text-sm">Click "Deploy to {targetLabel}" to start</p>
                 </div>
                   </div>
                 ) : (
@@ -655,7 +834,7 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
         <CardContent>
           <ul className="list-disc pl-6 space-y-1 text-sm text-yellow-900 dark:text-yellow-100">
             <li>Review all <span className="font-semibold">failed conversions</span> manually</li>
-            <li>Test converted procedures in <span className="font-semibold">Oracle environment</span></li>
+            <li>Test converted procedures in <span className="font-semibold">{targetLabel} environment</span></li>
             <li>Validate <span className="font-semibold">data integrity</span> after migration</li>
             <li>Monitor <span className="font-semibold">performance</span> after deployment</li>
           </ul>
@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Info } from 'lucide-react';
+import type { ResultSetConvention } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  buildInterfaceChange,
+  detectResultSetProcedures,
+  formatOracleSignature,
+  getResultSetConvention,
+  setResultSetConvention,
+  RESULT_SET_CONVENTION_LABELS,
+} from '@/utils/resultSetProcedures';
+
+interface ResultSetPanelProps {
+  files: DependencySource[];
+}
+
+const ResultSetPanel: React.FC<ResultSetPanelProps> = ({ files }) => {
+  const [convention, setConvention] = useState(getResultSetConvention());
+  const procedures = useMemo(
+    () => files.flatMap(file => detectResultSetProcedures(file.content || '').map(procedure => ({ file, procedure }))),
+    [files]
+  );
+
+  const handleConventionChange = (value: ResultSetConvention) => {
+    setConvention(setResultSetConvention(value));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Every procedure that returns rows from a bare SELECT is converted with the same convention.
+          The new signatures are listed in the migration report so call sites can be updated.
+          Converted files keep their old convention until they are converted again.
+        </AlertDescription>
+      </Alert>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Result sets are returned as</span>
+        <Select value={convention} onValueChange={handleConventionChange}>
+          <SelectTrigger className="w-[280px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RESULT_SET_CONVENTION_LABELS) as ResultSetConvention[]).map(option => (
+              <SelectItem key={option} value={option}>{RESULT_SET_CONVENTION_LABELS[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {procedures.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No procedure in the uploaded files returns a result set.</div>
+      ) : (
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-2">
+            {procedures.map(({ file, procedure }) => {
+              const change = buildInterfaceChange(procedure, convention);
+              return (
+                <div key={`${file.id}-${change.procedure}`} className="border rounded-md p-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm font-medium">{change.procedure}</span>
+                    <Badge variant="outline" className="text-xs">{file.name}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {change.cursors.length} result set{change.cursors.length > 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground mt-1 break-all">→ {formatOracleSignature(change)}</div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+export default ResultSetPanel;
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, Info, RotateCcw } from 'lucide-react';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import { getTargetDialect } from '@/utils/targetDialect';
+import {
+  detectSchemaQualifiers,
+  generateSchemaObjectsDdl,
+  getSchemaMappings,
+  isValidDbLinkName,
+  isValidSchemaName,
+  setSchemaMapping,
+  SchemaMapping,
+  SchemaQualifier,
+} from '@/utils/schemaMapping';
+
+interface SchemaMappingPanelProps {
+  files: DependencySource[];
+}
+
+const SchemaMappingPanel: React.FC<SchemaMappingPanelProps> = ({ files }) => {
+  const [mappings, setMappings] = useState(getSchemaMappings());
+  const [error, setError] = useState<string>();
+  const qualifiers = useMemo(() => detectSchemaQualifiers(files, mappings), [files, mappings]);
+  const oracleTarget = getTargetDialect() === 'oracle';
+  const ddl = useMemo(() => (oracleTarget ? generateSchemaObjectsDdl(files, mappings) : ''), [files, mappings, oracleTarget]);
+
+  const handleChange = (qualifier: SchemaQualifier, change: Partial<SchemaMapping>) => {
+    const mapping: SchemaMapping = { schema: '', ...qualifier.mapping, ...change };
+    if (!isValidSchemaName(mapping.schema)) {
+      setError(`"${mapping.schema}" is not a valid schema name`);
+      return;
+    }
+    if (mapping.dbLink !== undefined && !isValidDbLinkName(mapping.dbLink)) {
+      setError(`"${mapping.dbLink}" is not a valid database link name`);
+      return;
+    }
+    if (!mapping.dbLink) delete mapping.dbLink;
+    setMappings(setSchemaMapping(qualifier.key, mapping));
+    setError(undefined);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([ddl], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'schema_objects.sql';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Every db..name, db.owner.name and owner.name reference is rewritten to the schema its database or owner maps to,
+          before the AI pass. A database link appends @link to the name; a synonym keeps the bare name and the synonym is
+          created in the install script. An empty schema means the schema the code is installed in. Unmapped references are
+          left as written and reported. Database links and synonyms are Oracle only.
+        </AlertDescription>
+      </Alert>
+
+      {qualifiers.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No database or owner qualified names found in the uploaded files.</div>
+      ) : (
+        <ScrollArea className="h-[320px] pr-3">
+          <div className="space-y-2">
+            {qualifiers.map(qualifier => (
+              <div key={qualifier.key} className={`border rounded-md p-2 ${qualifier.mapping ? '' : 'border-amber-500'}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-sm font-medium truncate">{qualifier.key}</span>
+                  <Badge variant="outline" className="text-xs">{qualifier.kind}</Badge>
+                  {!qualifier.mapping && <Badge variant="secondary" className="text-xs">unmapped</Badge>}
+                  <span className="ml-auto font-mono text-xs">→</span>
+                  <Input
+                    key={`${qualifier.key}-schema-${qualifier.mapping?.schema}`}
+                    defaultValue={qualifier.mapping?.schema ?? ''}
+                    placeholder="schema"
+                    onBlur={e => e.target.value.trim() !== (qualifier.mapping?.schema ?? '') && handleChange(qualifier, { schema: e.target.value.trim() })}
+                    className="h-7 w-36 font-mono text-xs"
+                  />
+                  <span className="font-mono text-xs">@</span>
+                  <Input
+                    key={`${qualifier.key}-link-${qualifier.mapping?.dbLink}`}
+                    defaultValue={qualifier.mapping?.dbLink ?? ''}
+                    placeholder="database link"
+                    onBlur={e => e.target.value.trim() !== (qualifier.mapping?.dbLink ?? '') && handleChange(qualifier, { dbLink: e.target.value.trim() })}
+                    className="h-7 w-36 font-mono text-xs"
+                  />
+                  <label className="flex items-center gap-1 text-xs">
+                    <Checkbox
+                      checked={!!qualifier.mapping?.synonym}
+                      onCheckedChange={checked => handleChange(qualifier, { synonym: checked === true })}
+                    />
+                    synonym
+                  </label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 w-6 p-0"
+                    title="Remove the mapping"
+                    disabled={!qualifier.mapping}
+                    onClick={() => setMappings(setSchemaMapping(qualifier.key))}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {qualifier.objects.map(object => (
+                    <Badge key={object} variant="secondary" className="font-mono text-xs">{object}</Badge>
+                  ))}
+                  {qualifier.usages.map(usage => (
+                    <Badge key={usage.fileId} variant="outline" className="text-xs">{usage.fileName}:{usage.line}</Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      <div className="flex items-center justify-between">
+        {error ? <div className="text-xs text-red-600">{error}</div> : <span className="text-xs text-muted-foreground">Converted files keep their old names until they are converted again.</span>}
+        <Button size="sm" variant="outline" disabled={!ddl} onClick={handleDownload}>
+          <Download className="h-3 w-3 mr-1" />
+          Download links and synonyms
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SchemaMappingPanel;
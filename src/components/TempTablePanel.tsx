@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Info } from 'lucide-react';
+import type { TempTableStrategy } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import {
+  detectTempTables,
+  generateTempTableDdl,
+  getTempTableStrategies,
+  oracleTempTableName,
+  setTempTableStrategy,
+  strategyFor,
+  TEMP_TABLE_STRATEGY_LABELS,
+} from '@/utils/tempTables';
+
+interface TempTablePanelProps {
+  files: DependencySource[];
+}
+
+const TempTablePanel: React.FC<TempTablePanelProps> = ({ files }) => {
+  const tables = useMemo(() => detectTempTables(files), [files]);
+  const [strategies, setStrategies] = useState(getTempTableStrategies());
+  const ddl = useMemo(() => generateTempTableDdl(tables, strategies), [tables, strategies]);
+
+  const handleStrategyChange = (name: string, strategy: TempTableStrategy) => {
+    setStrategies(setTempTableStrategy(name, strategy));
+  };
+
+  const handleDownloadDdl = () => {
+    const blob = new Blob([ddl], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'temp_tables.sql';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (tables.length === 0) {
+    return <div className="text-sm text-muted-foreground">No #temp tables found in the uploaded files.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription className="text-xs">
+          Every file that uses a #temp table is converted with the same strategy and Oracle name.
+          Files that are already converted keep their old strategy until they are converted again.
+        </AlertDescription>
+      </Alert>
+
+      <ScrollArea className="h-[260px] pr-3">
+        <div className="space-y-2">
+          {tables.map(table => {
+            const strategy = strategyFor(table.name, strategies);
+            return (
+              <div key={table.name} className="border rounded-md p-2 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm font-medium">{table.displayName}</span>
+                    <span className="font-mono text-xs text-muted-foreground">→ {oracleTempTableName(table.name, strategy)}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {table.usedIn.map(usage => (
+                      <Badge
+                        key={usage.fileId}
+                        variant={table.createdIn.some(c => c.fileId === usage.fileId) ? 'secondary' : 'outline'}
+                        className="text-xs"
+                      >
+                        {usage.fileName}
+                      </Badge>
+                    ))}
+                  </div>
+                  {!table.columns && strategy !== 'private' && (
+                    <div className="text-xs text-amber-600 mt-1">Columns unknown (created by SELECT INTO); complete the DDL by hand.</div>
+                  )}
+                </div>
+                <Select value={strategy} onValueChange={(value: TempTableStrategy) => handleStrategyChange(table.name, value)}>
+                  <SelectTrigger className="w-[210px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TEMP_TABLE_STRATEGY_LABELS) as TempTableStrategy[]).map(option => (
+                      <SelectItem key={option} value={option}>{TEMP_TABLE_STRATEGY_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h3 className="text-sm font-semibold">Shared DDL</h3>
+          <Button size="sm" variant="outline" onClick={handleDownloadDdl} disabled={!ddl}>
+            <Download className="h-3 w-3 mr-1" />
+            temp_tables.sql
+          </Button>
+        </div>
+        <pre className="bg-muted rounded-md p-2 text-xs max-h-[200px] overflow-auto">
+          {ddl || '-- Private temporary tables are created by each session; no shared DDL is needed.'}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default TempTablePanel;
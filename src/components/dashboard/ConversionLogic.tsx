@@ -1,10 +1,12 @@
 import { useState, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { convertSybaseToOracle, generateBalancedConversionReport } from '@/utils/componentUtilswithlangchain';
+import { convertSybaseCode, generateBalancedConversionReport } from '@/utils/componentUtilswithlangchain';
 import { supabase } from '@/integrations/supabase/client';
-import { ConversionResult, ConversionReport } from '@/types';
+import { ConversionResult, ConversionReport, FiredFunctionMapping, ProcedureInterfaceChange, ScriptSegment } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from '@/hooks/useAuth';
+import { orderByDependencies } from '@/utils/dependencyGraph';
+import { syncProjectCatalogs } from '@/utils/projectCatalogs';
 
 interface FileItem {
   id: string;
@@ -16,8 +18,11 @@ interface FileItem {
   convertedContent?: string;
   errorMessage?: string;
   dataTypeMapping?: any[];
+  interfaceChanges?: ProcedureInterfaceChange[];
+  functionMappings?: FiredFunctionMapping[];
   issues?: any[];
   performanceMetrics?: any;
+  segment?: ScriptSegment;
 }
 
 export const useConversionLogic = (
@@ -49,9 +54,11 @@ export const useConversionLogic = (
 
     setConvertingFileIds([fileId]);
     setIsConverting(true);
+    // Project-wide mappings come from every uploaded file, not just the one being converted
+    syncProjectCatalogs(files);
     
     try {
-      const result = await convertSybaseToOracle(file, selectedAiModel);
+      const result = await convertSybaseCode(file, selectedAiModel);
       
       const conversionResult: ConversionResult = {
         id: result.id,
@@ -60,14 +67,18 @@ export const useConversionLogic = (
           name: file.name,
           content: file.content,
           type: file.type,
-          status: 'pending'
+          status: 'pending',
+          segment: file.segment
         },
         aiGeneratedCode: result.convertedCode, // Store original AI output
         convertedCode: result.convertedCode,
         issues: result.issues,
         dataTypeMapping: result.dataTypeMapping,
+        interfaceChanges: result.interfaceChanges,
+        functionMappings: result.functionMappings,
         performance: result.performance,
-        status: result.status
+        status: result.status,
+        appliedRules: result.appliedRules
       };
       
       setConversionResults(prev => [...prev, conversionResult]);
@@ -79,6 +90,8 @@ export const useConversionLogic = (
               conversionStatus: mapConversionStatus(result.status),
               convertedContent: result.convertedCode,
               dataTypeMapping: result.dataTypeMapping,
+              interfaceChanges: result.interfaceChanges,
+              functionMappings: result.functionMappings,
               issues: result.issues,
               performanceMetrics: result.performance
             }
@@ -111,10 +124,12 @@ export const useConversionLogic = (
   }, [files, selectedAiModel, setFiles, setConversionResults]);
 
   const handleConvertAllByType = useCallback(async (type: 'table' | 'procedure' | 'trigger' | 'other') => {
-    const typeFiles = files.filter(f => f.type === type && f.conversionStatus === 'pending');
+    // Dependencies first, so tables are converted before the procedures that use them
+    const typeFiles = orderByDependencies(files.filter(f => f.type === type && f.conversionStatus === 'pending'), f => f);
     if (typeFiles.length === 0) return;
 
     setIsConverting(true);
+    syncProjectCatalogs(files);
 
     // Helper to process a batch of files in parallel
     const processBatch = async (batch: FileItem[]) => {
@@ -122,7 +137,7 @@ export const useConversionLogic = (
       await Promise.all(
         batch.map(async (file) => {
           try {
-            const result = await convertSybaseToOracle(file, selectedAiModel);
+            const result = await convertSybaseCode(file, selectedAiModel);
             
             const conversionResult: ConversionResult = {
               id: result.id,
@@ -131,14 +146,18 @@ export const useConversionLogic = (
                 name: file.name,
                 content: file.content,
                 type: file.type,
-                status: 'pending'
+                status: 'pending',
+                segment: file.segment
               },
               aiGeneratedCode: result.convertedCode, // Store original AI output
               convertedCode: result.convertedCode,
               issues: result.issues,
               dataTypeMapping: result.dataTypeMapping,
+              interfaceChanges: result.interfaceChanges,
+              functionMappings: result.functionMappings,
               performance: result.performance,
-              status: result.status
+              status: result.status,
+              appliedRules: result.appliedRules
             };
             
             setConversionResults(prev => [...prev, conversionResult]);
@@ -150,6 +169,8 @@ export const useConversionLogic = (
                     conversionStatus: mapConversionStatus(result.status),
                     convertedContent: result.convertedCode,
                     dataTypeMapping: result.dataTypeMapping,
+                    interfaceChanges: result.interfaceChanges,
+                    functionMappings: result.functionMappings,
                     issues: result.issues,
                     performanceMetrics: result.performance
                   }
@@ -193,10 +214,11 @@ export const useConversionLogic = (
   }, [files, selectedAiModel, setFiles, setConversionResults]);
 
   const handleConvertAll = useCallback(async () => {
-    const pendingFiles = files.filter(f => f.conversionStatus === 'pending');
+    const pendingFiles = orderByDependencies(files.filter(f => f.conversionStatus === 'pending'), f => f);
     if (pendingFiles.length === 0) return;
 
     setIsConverting(true);
+    syncProjectCatalogs(files);
 
     // Helper to process a batch of files in parallel
     const processBatch = async (batch: FileItem[]) => {
@@ -204,7 +226,7 @@ export const useConversionLogic = (
       await Promise.all(
         batch.map(async (file) => {
           try {
-            const result = await convertSybaseToOracle(file, selectedAiModel);
+            const result = await convertSybaseCode(file, selectedAiModel);
 
             const conversionResult: ConversionResult = {
               id: result.id,
@@ -213,14 +235,18 @@ export const useConversionLogic = (
                 name: file.name,
                 content: file.content,
                 type: file.type,
-                status: 'pending'
+                status: 'pending',
+                segment: file.segment
               },
               aiGeneratedCode: result.convertedCode, // Store original AI output
               convertedCode: result.convertedCode,
               issues: result.issues,
               dataTypeMapping: result.dataTypeMapping,
+              interfaceChanges: result.interfaceChanges,
+              functionMappings: result.functionMappings,
               performance: result.performance,
-              status: result.status
+              status: result.status,
+              appliedRules: result.appliedRules
             };
 
             setConversionResults(prev => [...prev, conversionResult]);
@@ -232,6 +258,8 @@ export const useConversionLogic = (
                     conversionStatus: mapConversionStatus(result.status),
                     convertedContent: result.convertedCode,
                     dataTypeMapping: result.dataTypeMapping,
+                    interfaceChanges: result.interfaceChanges,
+                    functionMappings: result.functionMappings,
                     issues: result.issues,
                     performanceMetrics: result.performance
                   }
@@ -283,7 +311,8 @@ export const useConversionLogic = (
         return;
       }
       // Re-run the conversion logic for the failed file
-      const result = await convertSybaseToOracle(fileToFix, selectedAiModel);
+      syncProjectCatalogs(files);
+      const result = await convertSybaseCode(fileToFix, selectedAiModel);
       const conversionResult: ConversionResult = {
         id: result.id,
         originalFile: {
@@ -297,8 +326,11 @@ export const useConversionLogic = (
         convertedCode: result.convertedCode,
         issues: result.issues,
         dataTypeMapping: result.dataTypeMapping,
+        interfaceChanges: result.interfaceChanges,
+        functionMappings: result.functionMappings,
         performance: result.performance,
-        status: result.status
+        status: result.status,
+        appliedRules: result.appliedRules
       };
       setConversionResults(prev => [...prev, conversionResult]);
       setFiles(prev => prev.map(f =>
@@ -308,6 +340,8 @@ export const useConversionLogic = (
               conversionStatus: mapConversionStatus(result.status),
               convertedContent: result.convertedCode,
               dataTypeMapping: result.dataTypeMapping,
+              interfaceChanges: result.interfaceChanges,
+              functionMappings: result.functionMappings,
               issues: result.issues,
               performanceMetrics: result.performance
             }
@@ -353,7 +387,8 @@ export const useConversionLogic = (
         name: file.name,
         content: file.content,
         type: file.type,
-        status: 'pending'
+        status: 'pending',
+        segment: file.segment
       },
       aiGeneratedCode: (file as any).aiGeneratedCode || file.convertedContent || '', // Preserve if exists, fallback for legacy
       convertedCode: file.convertedContent || '',
@@ -362,6 +397,8 @@ export const useConversionLogic = (
       status: file.conversionStatus === 'success' ? 'success' : 
               file.conversionStatus === 'failed' ? 'error' : 'warning',
       dataTypeMapping: file.dataTypeMapping || [],
+      interfaceChanges: file.interfaceChanges,
+      functionMappings: file.functionMappings,
     }));
 
     const reportSummary = generateBalancedConversionReport(conversionResults);
@@ -1,9 +1,20 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Download, ChevronLeft, ChevronRight, Trash2, Rows } from 'lucide-react';
+import { FileText, Download, ChevronLeft, ChevronRight, Trash2, Rows, FileStack, Network, Table2, AlertOctagon, KeyRound, PlugZap, FunctionSquare, Binary, SpellCheck, Truck, Database, Package } from 'lucide-react';
 import FileTreeView from '@/components/FileTreeView';
 import ConversionViewer from '@/components/ConversionViewer';
+import DependencyGraphView from '@/components/DependencyGraphView';
+import TempTablePanel from '@/components/TempTablePanel';
+import ErrorCatalogPanel from '@/components/ErrorCatalogPanel';
+import IdentityColumnsPanel from '@/components/IdentityColumnsPanel';
+import ResultSetPanel from '@/components/ResultSetPanel';
+import FunctionCatalogPanel from '@/components/FunctionCatalogPanel';
+import DataTypeProfilePanel from '@/components/DataTypeProfilePanel';
+import IdentifierConflictsPanel from '@/components/IdentifierConflictsPanel';
+import DataLoadPanel from '@/components/DataLoadPanel';
+import SchemaMappingPanel from '@/components/SchemaMappingPanel';
+import PackagePanel from '@/components/PackagePanel';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
@@ -15,6 +26,9 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip"
 import { isCacheEnabled, setCacheEnabled } from '@/utils/conversionUtils';
+import { assembleConvertedScript } from '@/utils/scriptSplitter';
+import { convertedFileName, getTargetDialect } from '@/utils/targetDialect';
+import type { ScriptSegment } from '@/types';
 
 interface FileItem {
   id: string;
@@ -28,6 +42,7 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  segment?: ScriptSegment;
 }
 
 interface ConversionPanelProps {
@@ -76,6 +91,26 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
   const [searchTerm, setSearchTerm] = React.useState('');
   const [statusFilter, setStatusFilter] = React.useState('All');
   const [showResetDialog, setShowResetDialog] = React.useState(false);
+  const [showDependencies, setShowDependencies] = React.useState(false);
+  const [showTempTables, setShowTempTables] = React.useState(false);
+  const usesTempTables = React.useMemo(() => files.some(f => /#\w/.test(f.content)), [files]);
+  const [showErrorCatalog, setShowErrorCatalog] = React.useState(false);
+  const usesErrorNumbers = React.useMemo(() => files.some(f => /\b(raiserror|sp_addmessage)\b/i.test(f.content)), [files]);
+  const [showIdentityColumns, setShowIdentityColumns] = React.useState(false);
+  const usesIdentityColumns = React.useMemo(() => files.some(f => /\bidentity(_insert)?\b/i.test(f.content)), [files]);
+  const [showResultSets, setShowResultSets] = React.useState(false);
+  const usesProcedures = React.useMemo(() => files.some(f => /\bcreate\s+proc(edure)?\b/i.test(f.content)), [files]);
+  const [showFunctionCatalog, setShowFunctionCatalog] = React.useState(false);
+  const [showDataTypes, setShowDataTypes] = React.useState(false);
+  const [showIdentifiers, setShowIdentifiers] = React.useState(false);
+  const [showSchemas, setShowSchemas] = React.useState(false);
+  const usesQualifiedNames = React.useMemo(() => files.some(f => /\b\w+\.\.\w+|\b\w+\.\w+\.\w+|\bdbo\./i.test(f.content)), [files]);
+  const [showPackages, setShowPackages] = React.useState(false);
+  // Packages are an Oracle construct
+  const usesPackageRoutines = React.useMemo(() => getTargetDialect() === 'oracle' && files.some(f => /\bcreate\s+(proc(edure)?|function)\b/i.test(f.content)), [files]);
+  const [showDataLoad, setShowDataLoad] = React.useState(false);
+  // SQL*Loader and external tables are Oracle tools
+  const loadsData = React.useMemo(() => getTargetDialect() === 'oracle' && files.some(f => /\bcreate\s+table\s+[^#\s]/i.test(f.content)), [files]);
   const [isMinimized, setIsMinimized] = React.useState(false);
   const [cacheEnabled, setCacheEnabledState] = React.useState(isCacheEnabled());
 
@@ -200,6 +235,119 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                 Files to Convert
               </CardTitle>
               <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowDependencies(true)}
+                  className="text-xs px-3 py-1 h-7"
+                  title="Show object dependencies and conversion order"
+                >
+                  <Network className="h-3 w-3 mr-1" />
+                  Dependencies
+                </Button>
+                {usesTempTables && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowTempTables(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Choose how #temp tables are converted"
+                  >
+                    <Table2 className="h-3 w-3 mr-1" />
+                    Temp Tables
+                  </Button>
+                )}
+                {usesErrorNumbers && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowErrorCatalog(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Map Sybase error numbers to Oracle error codes"
+                  >
+                    <AlertOctagon className="h-3 w-3 mr-1" />
+                    Error Catalog
+                  </Button>
+                )}
+                {usesIdentityColumns && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowIdentityColumns(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Choose how identity columns are converted"
+                  >
+                    <KeyRound className="h-3 w-3 mr-1" />
+                    Identity Columns
+                  </Button>
+                )}
+                {usesProcedures && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowResultSets(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Choose how procedure result sets are returned"
+                  >
+                    <PlugZap className="h-3 w-3 mr-1" />
+                    Result Sets
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => setShowFunctionCatalog(true)}
+                  className="text-xs px-3 py-1 h-7"
+                  title="Edit how Sybase built-in functions are converted"
+                >
+                  <FunctionSquare className="h-3 w-3 mr-1" />
+                  Functions
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowDataTypes(true)}
+                  className="text-xs px-3 py-1 h-7"
+                  title="Edit the project data type profile"
+                >
+                  <Binary className="h-3 w-3 mr-1" />
+                  Data Types
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowIdentifiers(true)}
+                  className="text-xs px-3 py-1 h-7"
+                  title="Rename identifiers that are Oracle reserved words or too long"
+                >
+                  <SpellCheck className="h-3 w-3 mr-1" />
+                  Identifiers
+                </Button>
+                {usesQualifiedNames && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowSchemas(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Map Sybase databases and owners to Oracle schemas, database links and synonyms"
+                  >
+                    <Database className="h-3 w-3 mr-1" />
+                    Schemas
+                  </Button>
+                )}
+                {usesPackageRoutines && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowPackages(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Group the converted procedures and functions into Oracle packages"
+                  >
+                    <Package className="h-3 w-3 mr-1" />
+                    Packages
+                  </Button>
+                )}
+                {loadsData && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowDataLoad(true)}
+                    className="text-xs px-3 py-1 h-7"
+                    title="Generate SQL*Loader or external table files for bcp exports"
+                  >
+                    <Truck className="h-3 w-3 mr-1" />
+                    Data Load
+                  </Button>
+                )}
                 <Button
                   variant={cacheEnabled ? 'outline' : 'secondary'}
                   onClick={handleToggleCache}
@@ -275,6 +423,103 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
             </DialogFooter>
           </DialogContent>
         </Dialog>
+        <Dialog open={showDependencies} onOpenChange={setShowDependencies}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Object Dependencies</DialogTitle>
+            </DialogHeader>
+            {showDependencies && (
+              <DependencyGraphView
+                files={files}
+                onSelectFile={fileId => {
+                  const file = files.find(f => f.id === fileId);
+                  if (file) onFileSelect(file);
+                  setShowDependencies(false);
+                }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showTempTables} onOpenChange={setShowTempTables}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Temporary Table Strategy</DialogTitle>
+            </DialogHeader>
+            {showTempTables && <TempTablePanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showErrorCatalog} onOpenChange={setShowErrorCatalog}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Error Catalog</DialogTitle>
+            </DialogHeader>
+            {showErrorCatalog && <ErrorCatalogPanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showIdentityColumns} onOpenChange={setShowIdentityColumns}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Identity Columns</DialogTitle>
+            </DialogHeader>
+            {showIdentityColumns && <IdentityColumnsPanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showResultSets} onOpenChange={setShowResultSets}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Result Set Convention</DialogTitle>
+            </DialogHeader>
+            {showResultSets && <ResultSetPanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showFunctionCatalog} onOpenChange={setShowFunctionCatalog}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Function Mapping Catalog</DialogTitle>
+            </DialogHeader>
+            {showFunctionCatalog && <FunctionCatalogPanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showDataTypes} onOpenChange={setShowDataTypes}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Data Type Profile</DialogTitle>
+            </DialogHeader>
+            {showDataTypes && <DataTypeProfilePanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showIdentifiers} onOpenChange={setShowIdentifiers}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Identifier Conflicts</DialogTitle>
+            </DialogHeader>
+            {showIdentifiers && <IdentifierConflictsPanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showSchemas} onOpenChange={setShowSchemas}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Schema Mapping</DialogTitle>
+            </DialogHeader>
+            {showSchemas && <SchemaMappingPanel files={files} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showPackages} onOpenChange={setShowPackages}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Oracle Packages</DialogTitle>
+            </DialogHeader>
+            {showPackages && <PackagePanel files={files.map(f => ({ id: f.id, name: f.name, content: f.content, convertedCode: f.convertedContent }))} />}
+          </DialogContent>
+        </Dialog>
+        <Dialog open={showDataLoad} onOpenChange={setShowDataLoad}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Data Load</DialogTitle>
+            </DialogHeader>
+            {showDataLoad && <DataLoadPanel files={files} />}
+          </DialogContent>
+        </Dialog>
       </div>
 
       {/* Main Panel */}
@@ -305,17 +550,11 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                     variant="outline"
                     onClick={() => {
                       const code = selectedFile.convertedContent || '';
-                      const fileExtension = selectedFile.name.includes('.') 
-                        ? selectedFile.name.split('.').pop() 
-                        : 'sql';
-                      const baseName = selectedFile.name.includes('.')
-                        ? selectedFile.name.substring(0, selectedFile.name.lastIndexOf('.'))
-                        : selectedFile.name;
                       const blob = new Blob([code], { type: 'text/plain' });
                       const url = URL.createObjectURL(blob);
                       const a = document.createElement('a');
                       a.href = url;
-                      a.download = `${baseName}_oracle.${fileExtension}`;
+                      a.download = convertedFileName(selectedFile.name);
                       document.body.appendChild(a);
                       a.click();
                       document.body.removeChild(a);
@@ -325,6 +564,36 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                   >
                     <Download className="h-4 w-4" />
                   </Button>
+                  {selectedFile.segment && (
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => {
+                        // Reassemble every object of the original script, in script order
+                        const segment = selectedFile.segment!;
+                        const parts = files
+                          .filter(f => f.segment?.scriptId === segment.scriptId)
+                          .map(f => ({
+                            name: f.name,
+                            code: f.convertedContent || `-- ${f.name} has not been converted yet`,
+                            index: f.segment!.index,
+                            separator: f.segment!.separator,
+                          }));
+                        const blob = new Blob([assembleConvertedScript(parts, segment.scriptName)], { type: 'text/plain' });
+                        const url = URL.createObjectURL(blob);
+                        const a = document.createElement('a');
+                        a.href = url;
+                        a.download = convertedFileName(segment.scriptName);
+                        document.body.appendChild(a);
+                        a.click();
+                        document.body.removeChild(a);
+                        URL.revokeObjectURL(url);
+                      }}
+                      title={`Download the whole converted ${selectedFile.segment.scriptName} script`}
+                    >
+                      <FileStack className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="pt-4 pb-2">
@@ -343,7 +612,7 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                   onNextFile={hasNext ? () => onFileSelect(allFilteredFiles[currentIndex + 1]) : undefined}
                   hasPrev={hasPrev}
                   hasNext={hasNext}
-                  convertedFilename={`${selectedFile.name.replace(/\.[^/.]+$/, '')}_oracle.sql`}
+                  convertedFilename={convertedFileName(selectedFile.name)}
                 />
               </CardContent>
             </Card>
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { ScriptSegment } from '@/types';
 
 interface FileItem {
   id: string;
@@ -15,6 +16,7 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  segment?: ScriptSegment;
 }
 
 export const useMigrationManager = () => {
@@ -64,6 +66,7 @@ export const useMigrationManager = () => {
       performanceMetrics: undefined,
       convertedContent: undefined,
       errorMessage: undefined,
+      segment: file.segment,
     }));
     // No longer insert files into migration_files or migrations here. This is now done after deployment to Oracle.
     return convertedFiles;
@@ -5,7 +5,7 @@ import { Database, FileText, Upload, Clock, BarChart3 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { ConversionResult, ConversionReport } from '@/types';
+import { ConversionResult, ConversionReport, FiredFunctionMapping, ProcedureInterfaceChange, ScriptSegment } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -21,6 +21,7 @@ import { useConversionLogic } from '@/components/dashboard/ConversionLogic';
 import { useMigrationManager } from '@/components/dashboard/MigrationManager';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
 import { isCacheEnabled, setCacheEnabled } from '@/utils/conversionUtils';
+import { revalidateIssues } from '@/utils/plsqlValidator';
 
 interface FileItem {
   id: string;
@@ -32,8 +33,11 @@ interface FileItem {
   convertedContent?: string;
   errorMessage?: string;
   dataTypeMapping?: any[];
+  interfaceChanges?: ProcedureInterfaceChange[];
+  functionMappings?: FiredFunctionMapping[];
   issues?: any[];
   performanceMetrics?: any;
+  segment?: ScriptSegment;
 }
 
 const Dashboard = () => {
@@ -126,6 +130,8 @@ const Dashboard = () => {
         conversionStatus: r.status,
         errorMessage: r.errorMessage,
         dataTypeMapping: r.dataTypeMapping,
+        interfaceChanges: r.interfaceChanges,
+        functionMappings: r.functionMappings,
         issues: r.issues,
         performanceMetrics: r.performanceMetrics,
       })));
@@ -209,7 +215,9 @@ const Dashboard = () => {
 
   const handleManualEdit = (newContent: string) => {
     if (selectedFile) {
-      const updatedFile = { ...selectedFile, convertedContent: newContent };
+      // Re-check the edited Oracle code so syntax issues follow the new content
+      const updatedIssues = revalidateIssues(selectedFile.issues, newContent);
+      const updatedFile = { ...selectedFile, convertedContent: newContent, issues: updatedIssues };
       setFiles(prevFiles =>
         prevFiles.map(file =>
           file.id === selectedFile.id
@@ -225,6 +233,7 @@ const Dashboard = () => {
             ? {
                 ...result,
                 convertedCode: newContent,
+                issues: updatedIssues,
                 // Optionally recalculate manual edits or other metrics here
               }
             : result
@@ -327,6 +336,8 @@ const Dashboard = () => {
           convertedCode: file.convertedContent || '',
           issues: file.issues || [],
           dataTypeMapping: file.dataTypeMapping || [],
+          interfaceChanges: file.interfaceChanges,
+          functionMappings: file.functionMappings,
           performance: file.performanceMetrics || {},
           status: file.conversionStatus === 'success' ? 'success' : file.conversionStatus === 'failed' ? 'error' : 'warning',
           explanations: [],
@@ -13,6 +13,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from '@
 import { useToast } from '@/hooks/use-toast';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
 import ReportViewer from '@/components/ReportViewer';
+import { convertedFileName } from '@/utils/targetDialect';
 
 interface Migration {
   id: string;
@@ -208,13 +209,7 @@ const History = () => {
   const handleDownloadFile = (e: React.MouseEvent, file: MigrationFile) => {
     e.stopPropagation();
     const content = file.converted_content || file.original_content;
-    const fileExtension = file.file_name.includes('.') 
-      ? file.file_name.split('.').pop() 
-      : 'sql';
-    const baseName = file.file_name.includes('.')
-      ? file.file_name.substring(0, file.file_name.lastIndexOf('.'))
-      : file.file_name;
-    const downloadName = `${baseName}_oracle.${fileExtension}`;
+    const downloadName = convertedFileName(file.file_name);
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -814,7 +809,7 @@ const History = () => {
                   convertedCode={selectedFile.converted_content || selectedFile.original_content || 'No converted code available'}
                   readOnly={true}
                   originalFilename={selectedFile.file_name}
-                  convertedFilename={`${selectedFile.file_name.replace(/\.[^/.]+$/, '')}_oracle.sql`}
+                  convertedFilename={convertedFileName(selectedFile.file_name)}
                 />
               )}
             </div>
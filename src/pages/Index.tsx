@@ -9,9 +9,20 @@ import AIModelSelector from '@/components/AIModelSelector';
 import ReportViewer from '@/components/ReportViewer';
 import ConnectionForm from '@/components/ConnectionForm';
 import HomeButton from '@/components/HomeButton';
-import { convertSybaseToOracle, generateBalancedConversionReport } from '@/utils/componentUtilswithlangchain';
+import { convertSybaseCode, generateBalancedConversionReport } from '@/utils/componentUtilswithlangchain';
 import { Database as DatabaseIcon, Code, FileSearch, FileWarning, Check, RefreshCw, Play, Download, ChevronLeft } from 'lucide-react';
 import JSZip from 'jszip';
+import { assembleConvertedScript, groupBySourceScript } from '@/utils/scriptSplitter';
+import { buildEmbeddedSqlPatch, isApplicationSource } from '@/utils/embeddedSql';
+import { generateDataLoadArtifacts } from '@/utils/dataLoad';
+import { generatePackageArtifacts } from '@/utils/packageGrouping';
+import { convertedFileName, getTargetDialect, targetFileTag } from '@/utils/targetDialect';
+import { orderByDependencies } from '@/utils/dependencyGraph';
+import { syncProjectCatalogs } from '@/utils/projectCatalogs';
+import { buildSharedTempTableDdl } from '@/utils/tempTables';
+import { TRANSACTION_STATE_DDL, usesTransactionState } from '@/utils/globalVariableRewrites';
+import { buildErrorPackageDdl, detectErrorCatalog, exportErrorCatalogSql, resolveErrorMappings } from '@/utils/errorCatalog';
+import { generateSchemaObjectsDdl } from '@/utils/schemaMapping';
 
 const Index = () => {
   const { toast } = useToast();
@@ -104,23 +115,57 @@ const Index = () => {
     try {
       const zip = new JSZip();
       
-      results.forEach(result => {
-        const fileExtension = result.originalFile.name.includes('.') 
-          ? result.originalFile.name.split('.').pop() 
-          : 'sql';
-        const baseName = result.originalFile.name.includes('.')
-          ? result.originalFile.name.substring(0, result.originalFile.name.lastIndexOf('.'))
-          : result.originalFile.name;
+      // Objects split out of one script are reassembled into that script, in their original order
+      groupBySourceScript(results.map(result => ({ ...result.originalFile, convertedCode: result.convertedCode }))).forEach(group => {
+        const content = group.files.length === 1 && !group.files[0].segment
+          ? group.files[0].convertedCode
+          : assembleConvertedScript(group.files.map(f => ({ name: f.objectName || f.name, code: f.convertedCode, index: f.segment?.index, separator: f.segment?.separator })), group.name);
         
-        zip.file(`${baseName}_oracle.${fileExtension}`, result.convertedCode);
+        zip.file(convertedFileName(group.name), content);
       });
+
+      // Single install script with every object in dependency order
+      const ordered = orderByDependencies(results.filter(r => r.convertedCode && !isApplicationSource(r.originalFile.name)), r => ({
+        id: r.id,
+        name: r.originalFile.name,
+        content: r.originalFile.content,
+      }));
+      // #temp tables shared between files are created once, before anything that uses them.
+      // The shared DDL comes from the Oracle-only rewrites, so other targets have none.
+      const oracleTarget = getTargetDialect() === 'oracle';
+      const tempTableDdl = oracleTarget ? buildSharedTempTableDdl(results.map(r => r.originalFile)) : '';
+      if (tempTableDdl) zip.file('temp_tables.sql', tempTableDdl);
+      const errorCatalog = oracleTarget ? detectErrorCatalog(results.map(r => r.originalFile)) : [];
+      if (errorCatalog.length > 0) zip.file('error_catalog.sql', exportErrorCatalogSql(errorCatalog, resolveErrorMappings(errorCatalog)));
+      const schemaDdl = oracleTarget ? generateSchemaObjectsDdl(results.map(r => r.originalFile)) : '';
+      if (schemaDdl) zip.file('schema_objects.sql', schemaDdl);
+      const sharedDdl = !oracleTarget ? '' : [
+        schemaDdl,
+        tempTableDdl,
+        buildErrorPackageDdl(results.map(r => r.originalFile)),
+        ordered.some(r => usesTransactionState(r.convertedCode)) ? TRANSACTION_STATE_DDL : '',
+      ].filter(Boolean).join('\n');
+      zip.file('install.sql', (sharedDdl ? sharedDdl + '\n' : '') + assembleConvertedScript(
+        ordered.map((r, index) => ({ name: r.originalFile.objectName || r.originalFile.name, code: r.convertedCode, index })),
+        'Install script (dependency order)'
+      ));
+      // SQL*Loader or external table files for the bcp exports of the converted tables
+      if (oracleTarget) {
+        generateDataLoadArtifacts(results.map(r => r.originalFile)).forEach(artifact => zip.file(`data_load/${artifact.fileName}`, artifact.content));
+        // Package specs and bodies for the grouped routines, with the callers they change
+        generatePackageArtifacts(results.map(r => ({ ...r.originalFile, convertedCode: r.convertedCode }))).artifacts
+          .forEach(artifact => zip.file(`packages/${artifact.fileName}`, artifact.content));
+      }
+      // Java/C# files with converted SQL, as one patch against the application sources
+      const embeddedSqlPatch = buildEmbeddedSqlPatch(results);
+      if (embeddedSqlPatch) zip.file('embedded_sql.patch', embeddedSqlPatch);
       
       const content = await zip.generateAsync({ type: 'blob' });
       
       const url = URL.createObjectURL(content);
       const a = document.createElement('a');
       a.href = url;
-      a.download = 'oracle_converted_files.zip';
+      a.download = `${targetFileTag()}_converted_files.zip`;
       document.body.appendChild(a);
       a.click();
       
@@ -161,8 +206,9 @@ const Index = () => {
     try {
       // Find the original file from the results
       const originalFile = fileToReconvert.originalFile;
+      syncProjectCatalogs(files);
       
-      const newResult = await convertSybaseToOracle(originalFile, selectedAIModel);
+      const newResult = await convertSybaseCode(originalFile, selectedAIModel);
       
       setResults(prevResults => 
         prevResults.map(result => 
@@ -223,6 +269,8 @@ const Index = () => {
     
     try {
       const newResults: ConversionResult[] = [];
+      // The whole upload: `files` is not updated yet when called from the uploader
+      syncProjectCatalogs(filesToConvert);
       
       for (const file of filesToConvert) {
         setFiles(prevFiles => 
@@ -231,7 +279,7 @@ const Index = () => {
           )
         );
         
-        const result = await convertSybaseToOracle(file, selectedAIModel);
+        const result = await convertSybaseCode(file, selectedAIModel);
         newResults.push(result);
         
         setFiles(prevFiles => 
@@ -1,4 +1,13 @@
-export type DatabaseType = 'sybase' | 'oracle';
+export type DatabaseType = 'sybase' | 'sqlserver' | 'oracle' | 'postgresql';
+
+// T-SQL dialects the converter reads
+export type SourceDialect = Exclude<DatabaseType, TargetDialect>;
+
+// Database the code is converted to
+export type TargetDialect = 'oracle' | 'postgresql';
+
+// Sort order of the source server: nocase compares strings case-insensitively
+export type SourceSortOrder = 'nocase' | 'binary';
 
 export interface DatabaseConnection {
   type: DatabaseType;
@@ -16,8 +25,21 @@ export interface CodeFile {
   content: string;
   type: 'table' | 'procedure' | 'trigger' | 'other';
   status?: 'pending' | 'converting' | 'success' | 'error';
+  objectName?: string; // Object created by the file, as found by the parser
+  objectKind?: DatabaseObjectKind;
+  segment?: ScriptSegment; // Set when the file is one object split out of a larger script
+}
+
+export interface ScriptSegment {
+  scriptId: string;
+  scriptName: string;
+  index: number; // position of the object in the original script
+  count: number;
+  separator?: string; // `go` line after the object's last batch, as written (e.g. go 5)
 }
 
+export type DatabaseObjectKind = 'procedure' | 'trigger' | 'table' | 'view' | 'function' | 'index' | 'other';
+
 export interface ConversionResult {
   id: string;
   originalFile: CodeFile;
@@ -28,15 +50,84 @@ export interface ConversionResult {
   performance?: PerformanceMetrics;
   status: 'success' | 'warning' | 'error';
   explanations?: string[];
+  appliedRules?: AppliedRule[]; // Deterministic rewrites applied before the AI call
+  interfaceChanges?: ProcedureInterfaceChange[]; // Signature changes callers have to follow
+  functionMappings?: FiredFunctionMapping[]; // Function catalog entries that rewrote calls in this file
+}
+
+export interface AppliedRule {
+  ruleId: string;
+  description: string;
+  occurrences: number;
+  lineNumbers: number[];
+}
+
+// Rewrite of a Sybase built-in function call. {1}, {2}, … in the template are the call's arguments,
+// {type:n} is argument n read as a Sybase data type and {regex:n} a LIKE pattern literal as a regex.
+export interface FunctionMapping {
+  id: string;
+  sybaseFunction: string; // lower-case function name
+  argumentCount?: number; // only calls with exactly this many arguments
+  conditions?: FunctionMappingCondition[]; // all must hold
+  oracleTemplate: string; // empty for entries that only apply to PostgreSQL
+  postgresTemplate?: string; // the entry does not apply to a PostgreSQL target without one
+  description: string;
+  builtIn?: boolean; // shipped default; can be disabled but not edited
+  dialects?: SourceDialect[]; // only for these source dialects; every dialect when unset
+}
+
+export interface FunctionMappingCondition {
+  argument: number; // 1-based
+  values: string[]; // lower-case, compared without quotes and without a (length) suffix
+}
+
+// A catalog entry that fired while converting a file
+export interface FiredFunctionMapping {
+  mappingId: string;
+  sybaseFunction: string;
+  oracleTemplate: string;
+  description: string;
+  occurrences: number;
+  lineNumbers: number[];
+}
+
+// How a Sybase #temp table is represented in Oracle
+export type TempTableStrategy = 'global' | 'private' | 'collection';
+
+// How Sybase identity columns are generated in Oracle
+export type IdentityStrategy = 'identity' | 'sequence';
+
+// How procedures that return result sets hand them to the caller in Oracle
+export type ResultSetConvention = 'refcursor' | 'implicit';
+
+// New call contract of a procedure whose Sybase result sets had to become explicit
+export interface ProcedureInterfaceChange {
+  procedure: string;
+  convention: ResultSetConvention;
+  originalParameters: string[]; // as declared in Sybase
+  oracleParameters: string[]; // the converted signature, in order
+  resultSetLines: number[]; // lines of the SELECTs that return rows
+  cursors: string[]; // one per result set; SELECTs in exclusive IF/ELSE branches share one
+  callerChange: string; // what every call site has to do
+}
+
+// Oracle error for a Sybase error number (RAISERROR / sp_addmessage)
+export interface ErrorCodeMapping {
+  oracleCode: number; // -20000 .. -20999
+  exceptionName?: string; // declared in the shared error package when set
+  message?: string;
 }
 
 export interface ConversionIssue {
   id: string;
   lineNumber?: number;
+  columnNumber?: number;
   description: string;
   severity: 'info' | 'warning' | 'error';
   suggestedFix?: string;
   originalCode?: string;
+  category?: string;
+  codeSide?: 'original' | 'converted'; // Which code lineNumber/columnNumber point into
 }
 
 export interface DataTypeMapping {
@@ -45,6 +136,33 @@ export interface DataTypeMapping {
   description?: string;
 }
 
+// Project data type profile: overrides of the default Sybase -> Oracle map, the user-defined
+// types registered with sp_addtype and per-column overrides
+export interface DataTypeRule {
+  oracleType: string; // $1/$2 are the length, precision and scale as written
+  description?: string;
+}
+
+export interface DataTypeProfile {
+  typeOverrides: Record<string, DataTypeRule>; // base or user type name
+  columnOverrides: Record<string, string>; // 'table.column' -> Oracle type
+  userTypes: Record<string, string>; // user type name -> base type as registered
+}
+
+// How bcp exports are loaded into Oracle
+export type DataLoadFormat = 'sqlldr' | 'external';
+
+export interface DataLoadOptions {
+  format: DataLoadFormat;
+  fieldTerminator: string; // bcp -t
+  rowTerminator: string; // bcp -r
+  datetimeFormat: string; // Oracle masks for the text bcp writes in character mode
+  dateFormat: string;
+  timeFormat: string;
+  textSize: number; // bcp -T: longest text/image value exported, in bytes
+  directory: string; // Oracle directory object of the external tables
+}
+
 export interface PerformanceMetrics {
   originalComplexity?: number;
   convertedComplexity?: number;
@@ -2,7 +2,7 @@
 // Required Dependencies:
 // npm install @langchain/core @langchain/google-genai zod
 
-import type { ConversionResult, CodeFile, ConversionIssue, DataTypeMapping } from '@/types';
+import type { ConversionResult, CodeFile, ConversionIssue, DataTypeMapping, TargetDialect, AppliedRule, FiredFunctionMapping } from '@/types';
 
 // LangChain & Zod imports for structured, reliable AI interaction
 import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
@@ -11,6 +11,42 @@ import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
 import { supabase } from '../integrations/supabase/client';
 import { isCacheEnabled } from '@/utils/conversionUtils';
+import { applyConversionRules, describeAppliedRules } from '@/utils/conversionRules';
+import { validatePlsql, locateSnippet } from '@/utils/plsqlValidator';
+import { analyzeEmptyStrings } from '@/utils/emptyStringAnalyzer';
+import { analyzeSemantics } from '@/utils/semanticAnalyzer';
+import { getTempTableStrategies, rewriteTempTables, describeTempTableStrategies } from '@/utils/tempTables';
+import { rewriteGlobalVariables } from '@/utils/globalVariableRewrites';
+import { describeSystemCalls, rewriteSystemCalls } from '@/utils/systemCatalog';
+import { describeLockingHints, recommendHints, rewriteLockingHints } from '@/utils/lockingHints';
+import { rewriteRaiserrors } from '@/utils/errorCatalog';
+import { applyFunctionCatalog } from '@/utils/functionCatalog';
+import { describeTriggers, rewriteTriggers } from '@/utils/triggerConversion';
+import { describeDynamicSql, rewriteDynamicSql, DYNAMIC_SQL_CATEGORY } from '@/utils/dynamicSql';
+import { extractEmbeddedSql, isApplicationSource, replaceEmbeddedSql, snippetAsCodeFile, summarizeEmbeddedSql } from '@/utils/embeddedSql';
+import { describeIdentifierRenames, rewriteIdentifiers } from '@/utils/identifierConflicts';
+import { describeSchemaMappings, rewriteSchemaReferences } from '@/utils/schemaMapping';
+import { getTargetDialect, MODERN_FEATURES, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
+import { describeSourceDialect, getSourceDialect, rewriteSqlServerConstructs, DialectRewriteResult, SOURCE_DIALECT_LABELS } from '@/utils/sourceDialect';
+import { describeDataTypes, getDataTypeProfile, profileDataTypeMappings, rewriteDataTypes } from '@/utils/dataTypeProfile';
+import {
+    appendIdentitySequenceDdl,
+    describeIdentityColumns,
+    getIdentityColumns,
+    getIdentityStrategy,
+    identityDataTypeMappings,
+    identitySequences,
+    rewriteIdentityColumns,
+} from '@/utils/identityColumns';
+import {
+    checkInterfaceChanges,
+    describeResultSets,
+    formatOracleSignature,
+    getResultSetConvention,
+    interfaceChangesFor,
+    rewriteResultSets,
+} from '@/utils/resultSetProcedures';
+import { tokenizeSybase, isSignificantToken, getCodeMetrics } from '@/utils/sybaseParser';
 
 const _API_KEY = import.meta.env.VITE_API_KEY;
 // console.log('Gemini API KEY:', _API_KEY); // Removed for security
@@ -24,7 +60,7 @@ const model = new ChatGoogleGenerativeAI({
 
 // Simplified but effective output schema
 const conversionOutputSchema = z.object({
-    converted_code: z.string().describe("Clean, syntactically correct Oracle code. Apply optimization ONLY when beneficial. Keep it simple for simple operations."),
+    converted_code: z.string().describe("Clean, syntactically correct code for the target database. Apply optimization ONLY when beneficial. Keep it simple for simple operations."),
     issues: z.array(z.object({
         description: z.string(),
         severity: z.enum(["warning", "error", "critical"]),
@@ -74,7 +110,7 @@ const promptTemplate = new PromptTemplate({
 - Detailed comments for complex logic only
 
 **CONVERSION RULES:**
-1. **Data Types**: INT→NUMBER(10), DATETIME→TIMESTAMP, DECIMAL→NUMBER, GETDATE()→SYSTIMESTAMP
+1. **Data Types**: Follow the DATA TYPES section below, GETDATE()→SYSTIMESTAMP
 2. **Keep DDL Simple**: Just convert syntax, don't add unnecessary complexity
 3. **DML Optimization**: 
    - ≤10 rows: Simple INSERT statements
@@ -82,15 +118,101 @@ const promptTemplate = new PromptTemplate({
    - >100 rows: Use bulk operations (FORALL, BULK COLLECT)
 4. **Comments**: Only add comments that provide VALUE, not obvious syntax explanations
 
+**PRE-APPLIED DETERMINISTIC REWRITES (already correct - do NOT revert or re-convert them):**
+{applied_rules}
+
+**REMAINING CONSTRUCTS THAT NEED YOUR CONVERSION:**
+{unhandled_constructs}
+
+**TEMPORARY TABLES (project-wide decisions shared with other files - follow exactly, keep the names):**
+{temp_tables}
+
+**IDENTITY COLUMNS (project-wide decisions shared with other files - follow exactly, keep the names):**
+{identity_columns}
+
+**RESULT SETS (caller contracts published in the migration report - follow exactly):**
+{result_sets}
+
+**TRIGGERS (Sybase statement-level triggers - use exactly the form given for each trigger):**
+{triggers}
+
+**DYNAMIC SQL (exec of built strings - keep bind variables and DBMS_ASSERT checks as given):**
+{dynamic_sql}
+
+**SYSTEM PROCEDURES AND GLOBAL VARIABLES (Sybase system catalog - replacements already applied):**
+{system_calls}
+
+**LOCKING AND HINTS (holdlock, isolation levels and index hints already translated - keep FOR UPDATE, isolation statements and /*+ */ hints as written):**
+{locking_hints}
+
+**DATA TYPES (project data type profile - declarations are already converted, use the same mappings for every remaining type such as CAST targets):**
+{data_types}
+
+**IDENTIFIER RENAMES (project rename map for Oracle reserved words and over-long names - already applied):**
+{identifier_renames}
+
+**SCHEMA MAPPING (project mapping of Sybase databases and owners to schemas, database links and synonyms - already applied):**
+{schema_mappings}
+
+**SOURCE DIALECT:**
+{dialect_notes}
+
+{format_instructions}
+
+**Input {source_dialect} Code (partially pre-converted):**
+` + '```' + `
+{sybase_code}
+` + '```' + `
+
+Remember: SIMPLE code should produce SIMPLE output. Don't over-engineer basic operations!`,
+    inputVariables: ["sybase_code", "applied_rules", "unhandled_constructs", "temp_tables", "identity_columns", "result_sets", "data_types", "triggers", "dynamic_sql", "system_calls", "locking_hints", "identifier_renames", "schema_mappings", "source_dialect", "dialect_notes"],
+    partialVariables: { format_instructions: parser.getFormatInstructions() },
+});
+
+// PostgreSQL target: only the target-neutral rewrites ran, everything else is converted here
+const postgresPromptTemplate = new PromptTemplate({
+    template: `You are an experienced PostgreSQL migration specialist. Convert the code below to CLEAN, MAINTAINABLE PostgreSQL (PL/pgSQL) with APPROPRIATE optimization: keep simple operations simple.
+
+**CONVERSION RULES:**
+1. **Procedures**: CREATE PROCEDURE → CREATE OR REPLACE PROCEDURE / FUNCTION ... LANGUAGE plpgsql AS $$ ... $$; procedures that return rows become functions RETURNS TABLE (...) with RETURN QUERY
+2. **Variables**: @name → v_name (parameters p_name), declared in a DECLARE section; SELECT @v = col → SELECT col INTO v_name
+3. **Control flow**: IF ... BEGIN ... END → IF ... THEN ... END IF; WHILE → WHILE ... LOOP ... END LOOP
+4. **Errors**: RAISERROR / THROW → RAISE EXCEPTION with USING ERRCODE; @@error checks → EXCEPTION blocks; @@rowcount → GET DIAGNOSTICS ... = ROW_COUNT
+5. **Transactions**: BEGIN/COMMIT/ROLLBACK TRAN only in procedures (not functions); SAVE TRAN → SAVEPOINT is not allowed in PL/pgSQL, use a nested BEGIN ... EXCEPTION block
+6. **Temporary tables**: #name → CREATE TEMP TABLE IF NOT EXISTS name (...) ON COMMIT DROP or DELETE ROWS
+7. **Identity**: IDENTITY columns → GENERATED BY DEFAULT AS IDENTITY; @@identity → INSERT ... RETURNING ... INTO
+8. **Dynamic SQL**: EXEC(@sql) → EXECUTE format(...) with %I for identifiers and USING for values
+9. **Triggers**: a trigger function RETURNS trigger plus CREATE TRIGGER; inserted/deleted → REFERENCING NEW TABLE / OLD TABLE AS with FOR EACH STATEMENT
+10. **Strings and NULLs**: + on strings → ||; ISNULL → COALESCE; TOP n → LIMIT n; empty strings stay empty strings (PostgreSQL does not treat '' as NULL)
+11. **Comments**: Only add comments that provide VALUE, not obvious syntax explanations
+
+**PRE-APPLIED DETERMINISTIC REWRITES (already correct - do NOT revert or re-convert them):**
+{applied_rules}
+
+**SYSTEM PROCEDURES AND GLOBAL VARIABLES (Sybase system catalog - replacements already applied):**
+{system_calls}
+
+**LOCKING AND HINTS (holdlock, isolation levels and index hints already translated - keep FOR UPDATE, isolation statements and /*+ */ hints as written):**
+{locking_hints}
+
+**DATA TYPES (project data type profile - declarations are already converted, use the same mappings for every remaining type such as CAST targets):**
+{data_types}
+
+**SCHEMA MAPPING (project mapping of Sybase databases and owners to schemas - already applied):**
+{schema_mappings}
+
+**SOURCE DIALECT:**
+{dialect_notes}
+
 {format_instructions}
 
-**Input Sybase Code:**
+**Input {source_dialect} Code (partially pre-converted):**
 ` + '```' + `
 {sybase_code}
 ` + '```' + `
 
 Remember: SIMPLE code should produce SIMPLE output. Don't over-engineer basic operations!`,
-    inputVariables: ["sybase_code"],
+    inputVariables: ["sybase_code", "applied_rules", "system_calls", "locking_hints", "data_types", "schema_mappings", "source_dialect", "dialect_notes"],
     partialVariables: { format_instructions: parser.getFormatInstructions() },
 });
 
@@ -100,12 +222,13 @@ const analyzeCodeComplexity = (code: string) => {
     const codeLines = lines.filter(line => line.trim() && !line.trim().startsWith('--')).length;
     const commentLines = lines.filter(line => line.trim().startsWith('--')).length;
     const commentRatio = lines.length > 0 ? Math.round((commentLines / lines.length) * 100) : 0;
-    // Simple complexity scoring based on code patterns
+    // Simple complexity scoring based on tokens, so keywords inside comments and strings don't count
+    const metrics = getCodeMetrics(code);
     const complexityFactors = {
-        loops: (code.match(/\b(LOOP|WHILE|FOR)\b/g) || []).length,
-        conditionals: (code.match(/\b(IF|CASE|WHEN)\b/g) || []).length,
-        cursors: (code.match(/\bCURSOR\b/g) || []).length,
-        exceptions: (code.match(/\b(EXCEPTION|RAISE|CATCH)\b/g) || []).length
+        loops: metrics.loops,
+        conditionals: metrics.conditionals + metrics.caseExpressions + metrics.whenClauses,
+        cursors: metrics.cursors,
+        exceptions: metrics.exceptionHandlers
     };
     const complexityScore = 
         complexityFactors.loops * 2 + 
@@ -123,9 +246,14 @@ const analyzeCodeComplexity = (code: string) => {
 
 // Halstead Volume calculator for SQL code
 function calculateHalsteadVolume(code: string) {
-  // Tokenize code into operators and operands (very basic for SQL)
-  const operators = code.match(/(SELECT|INSERT|UPDATE|DELETE|FROM|WHERE|AND|OR|NOT|IN|ON|JOIN|LEFT|RIGHT|INNER|OUTER|=|<|>|\+|\-|\*|\/|,|;)/gi) || [];
-  const operands = code.match(/\b[a-zA-Z_][a-zA-Z0-9_]*\b/g) || [];
+  // Keywords and symbols are operators; names, variables and literals are operands
+  const tokens = tokenizeSybase(code).filter(isSignificantToken);
+  const operators = tokens
+    .filter(t => t.type === 'keyword' || t.type === 'operator' || t.type === 'punctuation')
+    .map(t => t.upper);
+  const operands = tokens
+    .filter(t => t.type !== 'keyword' && t.type !== 'operator' && t.type !== 'punctuation')
+    .map(t => t.value);
   const uniqueOperators = new Set(operators);
   const uniqueOperands = new Set(operands);
   const n1 = uniqueOperators.size;
@@ -182,40 +310,165 @@ async function getBackendCachedConversion(hash: string, ai_model: string) {
   return data;
 }
 
+// 1. backend (DB) cache, 2. local cache
+async function lookupCachedConversion(hash: string, cacheSource: string, aiModel: string, fileName: string): Promise<ConversionResult | null> {
+  const backendCached = await getBackendCachedConversion(hash, aiModel);
+  if (backendCached && backendCached.converted_code) {
+    console.log('[DB CACHE HIT]', fileName);
+    let result = JSON.parse(backendCached.converted_code);
+    if (result && result.performance) result.performance.conversionTimeMs = 1;
+    return result;
+  } else {
+    console.log('[DB CACHE MISS]', fileName);
+  }
+
+  const cached = await getCachedConversion(cacheSource, aiModel);
+  if (cached) {
+    console.log('[LOCAL CACHE HIT]', fileName);
+    if (cached.performance) cached.performance.conversionTimeMs = 1;
+    return cached;
+  } else {
+    console.log('[LOCAL CACHE MISS]', fileName);
+  }
+  return null;
+}
+
+async function storeCachedConversion(hash: string, cacheSource: string, normalizedContent: string, aiModel: string, result: ConversionResult) {
+  // Save to local cache
+  await setCachedConversion(cacheSource, aiModel, result);
+  // Save to backend cache
+  await setBackendCachedConversion(
+    hash,
+    normalizedContent,
+    aiModel,
+    JSON.stringify(result), // store as string
+    result.performance,
+    result.issues,
+    result.dataTypeMapping
+  );
+}
+
 // Enhanced conversion with complexity assessment
 const convertSybaseToOracle = async (file: CodeFile): Promise<ConversionResult> => {
     const startTime = Date.now();
     const normalizedContent = file.content.replace(/\r\n/g, '\n').trim();
     const aiModel = "gemini-2.5-flash";
-    const hash = await getConversionCacheKey(normalizedContent, aiModel);
+    // #temp tables follow the project-wide strategy; the rewritten names are part of the cache key
+    const tempTableStrategies = getTempTableStrategies();
+    // Identity columns follow the project strategy and share one sequence per table across files
+    const identityStrategy = getIdentityStrategy();
+    const identityRegistry = getIdentityColumns();
+    // SQL Server only constructs (TRY/CATCH, THROW, MERGE, …) are brought to the shared T-SQL form first
+    const dialect = getSourceDialect();
+    const dialectResult: DialectRewriteResult = dialect === 'sqlserver' ? rewriteSqlServerConstructs(file.content) : { code: file.content, issues: [] };
+    // Triggers get their Oracle form (row-level or compound) before @@rowcount and ROLLBACK are read elsewhere
+    const triggerResult = rewriteTriggers(dialectResult.code);
+    // exec(@sql) strings are traced to their assignments; the SQL inside them is converted and values become binds
+    const dynamicSqlResult = rewriteDynamicSql(triggerResult.code);
+    // @@error/@@rowcount/@@identity/@@trancount get fixed semantic rewrites, each with an issue
+    const globalVariableResult = rewriteGlobalVariables(dynamicSqlResult.code, {
+        identityColumns: Object.fromEntries(Object.entries(identityRegistry).map(([table, identity]) => [table, identity.column])),
+        identitySequences: identitySequences(identityRegistry, identityStrategy),
+    });
+    // System procedures, WAITFOR and the remaining @@ variables follow the system catalog
+    const systemResult = rewriteSystemCalls(globalVariableResult.code, 'oracle');
+    // holdlock, isolation levels and index hints become FOR UPDATE, session isolation and /*+ */ hints
+    const lockingResult = rewriteLockingHints(systemResult.code, 'oracle');
+    // RAISERROR numbers use the project error catalog
+    const errorResult = rewriteRaiserrors(lockingResult.code);
+    const identityResult = rewriteIdentityColumns(errorResult.code, identityRegistry, identityStrategy);
+    // Bare SELECTs in procedures become cursors under the project result set convention
+    const resultSetResult = rewriteResultSets(identityResult.code, getResultSetConvention());
+    const tempTableResult = rewriteTempTables(resultSetResult.code, tempTableStrategies);
+    // Built-in function calls go through the function catalog, project entries included
+    const functionResult = applyFunctionCatalog(tempTableResult.code);
+    // Declared types follow the project data type profile
+    const dataTypeProfile = getDataTypeProfile();
+    const dataTypeResult = rewriteDataTypes(functionResult.code, dataTypeProfile);
+    // db..name, db.owner.name and owner.name follow the project schema mapping
+    const schemaResult = rewriteSchemaReferences(dataTypeResult.code);
+    // Reserved and over-long names follow the project rename map, as do the sequences created for the file
+    const identifierResult = rewriteIdentifiers(schemaResult.code);
+    const sequenceResult = { ...identityResult, sequenceDdl: rewriteIdentifiers(identityResult.sequenceDdl).code };
+    const cacheSource = identifierResult.code.trim();
+    const hash = await getConversionCacheKey(cacheSource, aiModel);
 
     if (isCacheEnabled()) {
-      // 1. Check backend (DB) cache
-      const backendCached = await getBackendCachedConversion(hash, aiModel);
-      if (backendCached && backendCached.converted_code) {
-        console.log('[DB CACHE HIT]', file.name);
-        let result = JSON.parse(backendCached.converted_code);
-        if (result && result.performance) result.performance.conversionTimeMs = 1;
-        return result;
-      } else {
-        console.log('[DB CACHE MISS]', file.name);
-      }
-
-      // 2. Check local cache
-      const cached = await getCachedConversion(normalizedContent, aiModel);
-      if (cached) {
-        console.log('[LOCAL CACHE HIT]', file.name);
-        if (cached.performance) cached.performance.conversionTimeMs = 1;
-        return cached;
-      } else {
-        console.log('[LOCAL CACHE MISS]', file.name);
-      }
+      const cached = await lookupCachedConversion(hash, cacheSource, aiModel, file.name);
+      if (cached) return cached;
+    }
+    // Deterministic rule pass: mechanical rewrites never depend on the model
+    const ruleResult = applyConversionRules(identifierResult.code);
+    if (identifierResult.appliedRule) ruleResult.appliedRules.unshift(identifierResult.appliedRule);
+    if (schemaResult.appliedRule) ruleResult.appliedRules.unshift(schemaResult.appliedRule);
+    if (dataTypeResult.appliedRule) ruleResult.appliedRules.unshift(dataTypeResult.appliedRule);
+    if (functionResult.appliedRule) ruleResult.appliedRules.unshift(functionResult.appliedRule);
+    if (tempTableResult.appliedRule) ruleResult.appliedRules.unshift(tempTableResult.appliedRule);
+    if (resultSetResult.appliedRule) ruleResult.appliedRules.unshift(resultSetResult.appliedRule);
+    if (identityResult.appliedRule) ruleResult.appliedRules.unshift(identityResult.appliedRule);
+    if (errorResult.appliedRule) ruleResult.appliedRules.unshift(errorResult.appliedRule);
+    if (lockingResult.appliedRule) ruleResult.appliedRules.unshift(lockingResult.appliedRule);
+    if (systemResult.appliedRule) ruleResult.appliedRules.unshift(systemResult.appliedRule);
+    ruleResult.appliedRules.unshift(...globalVariableResult.appliedRules);
+    if (dynamicSqlResult.appliedRule) ruleResult.appliedRules.unshift(dynamicSqlResult.appliedRule);
+    if (triggerResult.appliedRule) ruleResult.appliedRules.unshift(triggerResult.appliedRule);
+    if (dialectResult.appliedRule) ruleResult.appliedRules.unshift(dialectResult.appliedRule);
+    if (ruleResult.fullyConverted && tempTableResult.tables.length === 0) {
+        const conversionTime = Date.now() - startTime;
+        // Sequences and their triggers follow the table DDL, outside the line-preserving rewrites
+        const convertedCode = appendIdentitySequenceDdl(ruleResult.code, sequenceResult);
+        const originalComplexity = analyzeCodeComplexity(file.content);
+        const convertedComplexity = analyzeCodeComplexity(convertedCode);
+        const inputLines = file.content.split('\n').length;
+        const outputLines = convertedCode.split('\n').length;
+        const ruleIssues = [...dialectResult.issues, ...triggerResult.issues, ...dynamicSqlResult.issues, ...globalVariableResult.issues, ...systemResult.issues, ...lockingResult.issues, ...errorResult.issues, ...identityResult.issues, ...resultSetResult.issues, ...dataTypeResult.issues, ...schemaResult.issues, ...identifierResult.issues, ...validatePlsql(convertedCode), ...analyzeEmptyStrings(file.content, convertedCode, 'oracle'), ...analyzeSemantics(file.content, 'oracle')];
+        return {
+            id: crypto.randomUUID(),
+            originalFile: file,
+            aiGeneratedCode: ruleResult.code,
+            convertedCode,
+            issues: ruleIssues,
+            dataTypeMapping: extractDataTypeMappings(file.content, identityStrategy, dataTypeProfile),
+            performance: generateBalancedPerformanceMetrics(
+                originalComplexity,
+                convertedComplexity,
+                conversionTime,
+                'simple',
+                'none',
+                outputLines / inputLines,
+                convertedCode,
+                file.content
+            ),
+            // A system call without an Oracle equivalent blocks the file
+            status: systemResult.unresolved.length > 0 ? 'error' : ruleIssues.length > 0 ? 'warning' : 'success',
+            explanations: [
+                'All changes were applied by deterministic rules; no AI pass was needed.',
+                describeAppliedRules(ruleResult.appliedRules)
+            ],
+            appliedRules: ruleResult.appliedRules,
+            interfaceChanges: resultSetResult.interfaceChanges,
+            functionMappings: functionResult.fired
+        };
     }
     const chain = promptTemplate.pipe(model).pipe(parser);
     let aiOutput;
     try {
         aiOutput = await chain.invoke({
-            sybase_code: file.content,
+            sybase_code: ruleResult.code,
+            applied_rules: describeAppliedRules(ruleResult.appliedRules),
+            unhandled_constructs: ruleResult.unhandledConstructs.join(', '),
+            temp_tables: describeTempTableStrategies(tempTableResult.tables, tempTableStrategies),
+            identity_columns: describeIdentityColumns(file.content, identityRegistry, identityStrategy),
+            result_sets: describeResultSets(resultSetResult.interfaceChanges),
+            data_types: describeDataTypes(file.content, dataTypeProfile),
+            identifier_renames: describeIdentifierRenames(identifierResult.renamed),
+            schema_mappings: describeSchemaMappings(schemaResult),
+            triggers: describeTriggers(triggerResult.triggers),
+            dynamic_sql: describeDynamicSql(dynamicSqlResult.traces),
+            system_calls: describeSystemCalls(systemResult, 'oracle'),
+            locking_hints: describeLockingHints(lockingResult),
+            source_dialect: SOURCE_DIALECT_LABELS[dialect],
+            dialect_notes: describeSourceDialect(dialect),
         });
     } catch (e) {
         return {
@@ -225,6 +478,7 @@ const convertSybaseToOracle = async (file: CodeFile): Promise<ConversionResult>
             issues: [{
                 id: crypto.randomUUID(),
                 lineNumber: 1,
+                codeSide: 'original',
                 description: 'CRITICAL: AI model failed to return valid structured output.',
                 severity: 'critical',
                 originalCode: file.content.substring(0, 100),
@@ -236,6 +490,7 @@ const convertSybaseToOracle = async (file: CodeFile): Promise<ConversionResult>
             performance: { originalComplexity: 0, convertedComplexity: 0, improvementPercentage: 0, conversionTimeMs: Date.now() - startTime, performanceScore: 0, maintainabilityIndex: 0, codeQuality: { totalLines: 0, codeLines: 0, commentRatio: 0, complexityLevel: 'Low' }, recommendations: [], scalabilityMetrics: { bulkOperationsUsed: false, bulkCollectUsed: false, modernOracleFeaturesCount: 0, scalabilityScore: 1, maintainabilityScore: 1 } },
             status: 'error',
             explanations: ['Conversion failed due to model output parsing error.'],
+            appliedRules: ruleResult.appliedRules,
             scalabilityScore: 1,
             maintainabilityScore: 1,
             performanceOptimizations: [],
@@ -243,21 +498,36 @@ const convertSybaseToOracle = async (file: CodeFile): Promise<ConversionResult>
         };
     }
     const conversionTime = Date.now() - startTime;
-    const outputLines = aiOutput.converted_code.split('\n').length;
+    const convertedCode = appendIdentitySequenceDdl(aiOutput.converted_code, sequenceResult);
+    const outputLines = convertedCode.split('\n').length;
     const inputLines = file.content.split('\n').length;
     const expansionRatio = outputLines / inputLines;
-    const issues: ConversionIssue[] = aiOutput.issues.map(issue => ({
-        id: crypto.randomUUID(),
-        lineNumber: 1,
-        description: `[${issue.category.toUpperCase()}] ${issue.description}`,
-        severity: issue.severity,
-        originalCode: issue.original_code_snippet,
-        suggestedFix: issue.suggested_fix,
-        performanceImpact: issue.performanceImpact,
-        category: issue.category
-    }));
+    const issues: ConversionIssue[] = aiOutput.issues.map(issue => {
+        // The model quotes the Sybase code it is talking about; find it to get a real position
+        const location = locateSnippet(file.content, issue.original_code_snippet);
+        return {
+            id: crypto.randomUUID(),
+            lineNumber: location?.line,
+            columnNumber: location?.column,
+            codeSide: 'original',
+            description: `[${issue.category.toUpperCase()}] ${issue.description}`,
+            severity: issue.severity,
+            originalCode: issue.original_code_snippet,
+            suggestedFix: issue.suggested_fix,
+            performanceImpact: issue.performanceImpact,
+            category: issue.category
+        };
+    });
+    issues.push(...dialectResult.issues, ...triggerResult.issues, ...dynamicSqlResult.issues, ...globalVariableResult.issues, ...systemResult.issues, ...lockingResult.issues, ...errorResult.issues, ...identityResult.issues, ...resultSetResult.issues, ...dataTypeResult.issues, ...schemaResult.issues, ...identifierResult.issues);
+    issues.push(...checkInterfaceChanges(convertedCode, resultSetResult.interfaceChanges));
+    // Check the Oracle output itself; syntax problems point into the converted code
+    issues.push(...validatePlsql(convertedCode));
+    // '' is NULL in Oracle; the source and the output are both checked for code that relies on it
+    issues.push(...analyzeEmptyStrings(file.content, convertedCode, 'oracle'));
+    // Integer division, datetime equality and case-insensitive comparisons compute differently in Oracle
+    issues.push(...analyzeSemantics(file.content, 'oracle'));
     const originalComplexity = analyzeCodeComplexity(file.content);
-    const convertedComplexity = analyzeCodeComplexity(aiOutput.converted_code);
+    const convertedComplexity = analyzeCodeComplexity(convertedCode);
     const performanceMetrics = generateBalancedPerformanceMetrics(
         originalComplexity,
         convertedComplexity,
@@ -265,44 +535,225 @@ const convertSybaseToOracle = async (file: CodeFile): Promise<ConversionResult>
         aiOutput.complexity_assessment,
         aiOutput.optimization_applied,
         expansionRatio,
-        aiOutput.converted_code,
+        convertedCode,
         file.content
     );
     const result: ConversionResult = {
         id: crypto.randomUUID(),
         originalFile: file,
-        convertedCode: aiOutput.converted_code,
+        convertedCode,
         issues,
-        dataTypeMapping: extractDataTypeMappings(file.content),
+        dataTypeMapping: extractDataTypeMappings(file.content, identityStrategy, dataTypeProfile),
         performance: performanceMetrics,
-        status: issues.some(i => i.severity === 'critical') ? 'error' : issues.length > 0 ? 'warning' : 'success',
+        status: issues.some(i => i.severity === 'critical') || systemResult.unresolved.length > 0 ? 'error' : issues.length > 0 ? 'warning' : 'success',
         explanations: [
             aiOutput.explanation,
             `Complexity: ${aiOutput.complexity_assessment}, Optimization: ${aiOutput.optimization_applied}`,
-            `Code expansion: ${inputLines} → ${outputLines} lines (${expansionRatio.toFixed(1)}x)`
+            `Code expansion: ${inputLines} → ${outputLines} lines (${expansionRatio.toFixed(1)}x)`,
+            `Deterministic rules: ${describeAppliedRules(ruleResult.appliedRules)}`
         ],
+        appliedRules: ruleResult.appliedRules,
+        interfaceChanges: resultSetResult.interfaceChanges,
+        functionMappings: functionResult.fired,
         scalabilityScore: aiOutput.scalability_score,
         maintainabilityScore: aiOutput.maintainability_score,
         performanceOptimizations: aiOutput.performance_optimizations,
         oracleFeatures: aiOutput.oracle_features
     };
+    if (isCacheEnabled()) await storeCachedConversion(hash, cacheSource, normalizedContent, aiModel, result);
+    return result;
+};
+
+// PostgreSQL target: source dialect, function catalog and data type profile are applied; the Oracle-only
+// rewrites (triggers, identity sequences, result set cursors, error catalog, …) are left to the model
+const convertSybaseToPostgres = async (file: CodeFile): Promise<ConversionResult> => {
+    const startTime = Date.now();
+    const normalizedContent = file.content.replace(/\r\n/g, '\n').trim();
+    const aiModel = "gemini-2.5-flash";
+    const dialect = getSourceDialect();
+    const dialectResult: DialectRewriteResult = dialect === 'sqlserver' ? rewriteSqlServerConstructs(file.content) : { code: file.content, issues: [] };
+    const systemResult = rewriteSystemCalls(dialectResult.code, 'postgresql');
+    const lockingResult = rewriteLockingHints(systemResult.code, 'postgresql');
+    const functionResult = applyFunctionCatalog(lockingResult.code);
+    const dataTypeProfile = getDataTypeProfile();
+    const dataTypeResult = rewriteDataTypes(functionResult.code, dataTypeProfile);
+    const schemaResult = rewriteSchemaReferences(dataTypeResult.code, undefined, 'postgresql');
+    // The target is part of the cache key: the same source converts differently per target
+    const cacheSource = `postgresql:${schemaResult.code.trim()}`;
+    const hash = await getConversionCacheKey(cacheSource, aiModel);
     if (isCacheEnabled()) {
-      // Save to local cache
-      await setCachedConversion(normalizedContent, aiModel, result);
-      // Save to backend cache
-      await setBackendCachedConversion(
-        hash,
-        normalizedContent,
-        aiModel,
-        JSON.stringify(result), // store as string
-        result.performance,
-        result.issues,
-        result.dataTypeMapping
-      );
+      const cached = await lookupCachedConversion(hash, cacheSource, aiModel, file.name);
+      if (cached) return cached;
     }
+    const appliedRules = [dialectResult.appliedRule, systemResult.appliedRule, lockingResult.appliedRule, functionResult.appliedRule, dataTypeResult.appliedRule, schemaResult.appliedRule].filter(Boolean);
+    const ruleIssues = [...dialectResult.issues, ...systemResult.issues, ...lockingResult.issues, ...dataTypeResult.issues, ...schemaResult.issues];
+    let aiOutput;
+    try {
+        aiOutput = await postgresPromptTemplate.pipe(model).pipe(parser).invoke({
+            sybase_code: schemaResult.code,
+            applied_rules: describeAppliedRules(appliedRules),
+            system_calls: describeSystemCalls(systemResult, 'postgresql'),
+            locking_hints: describeLockingHints(lockingResult),
+            data_types: describeDataTypes(file.content, dataTypeProfile),
+            schema_mappings: describeSchemaMappings(schemaResult),
+            source_dialect: SOURCE_DIALECT_LABELS[dialect],
+            dialect_notes: describeSourceDialect(dialect),
+        });
+    } catch (e) {
+        return {
+            id: crypto.randomUUID(),
+            originalFile: file,
+            aiGeneratedCode: '',
+            convertedCode: '-- ERROR: AI failed to generate valid structured output.',
+            issues: [{
+                id: crypto.randomUUID(),
+                lineNumber: 1,
+                codeSide: 'original',
+                description: 'CRITICAL: AI model failed to return valid structured output.',
+                severity: 'error',
+                originalCode: file.content.substring(0, 100),
+                suggestedFix: 'Review input file for syntax errors.',
+                category: 'syntax'
+            }, ...ruleIssues],
+            dataTypeMapping: [],
+            status: 'error',
+            explanations: ['Conversion failed due to model output parsing error.'],
+            appliedRules,
+        };
+    }
+    const convertedCode = aiOutput.converted_code;
+    const inputLines = file.content.split('\n').length;
+    const outputLines = convertedCode.split('\n').length;
+    const issues: ConversionIssue[] = aiOutput.issues.map(issue => {
+        const location = locateSnippet(file.content, issue.original_code_snippet);
+        return {
+            id: crypto.randomUUID(),
+            lineNumber: location?.line,
+            columnNumber: location?.column,
+            codeSide: 'original',
+            description: `[${issue.category.toUpperCase()}] ${issue.description}`,
+            severity: issue.severity === 'critical' ? 'error' : issue.severity,
+            originalCode: issue.original_code_snippet,
+            suggestedFix: issue.suggested_fix,
+            performanceImpact: issue.performanceImpact,
+            category: issue.category
+        };
+    });
+    issues.push(...ruleIssues);
+    // PostgreSQL keeps '' but || propagates the NULLs Sybase concatenated as ''
+    issues.push(...analyzeEmptyStrings(file.content, convertedCode, 'postgresql'));
+    issues.push(...analyzeSemantics(file.content, 'postgresql'));
+    const result: ConversionResult = {
+        id: crypto.randomUUID(),
+        originalFile: file,
+        aiGeneratedCode: aiOutput.converted_code,
+        convertedCode,
+        issues,
+        dataTypeMapping: profileDataTypeMappings(file.content, dataTypeProfile),
+        performance: generateBalancedPerformanceMetrics(
+            analyzeCodeComplexity(file.content),
+            analyzeCodeComplexity(convertedCode),
+            Date.now() - startTime,
+            aiOutput.complexity_assessment,
+            aiOutput.optimization_applied,
+            outputLines / inputLines,
+            convertedCode,
+            file.content,
+            'postgresql'
+        ),
+        status: issues.some(i => i.severity === 'error') ? 'error' : issues.length > 0 ? 'warning' : 'success',
+        explanations: [
+            aiOutput.explanation,
+            `Complexity: ${aiOutput.complexity_assessment}, Optimization: ${aiOutput.optimization_applied}`,
+            `Code expansion: ${inputLines} → ${outputLines} lines (${(outputLines / inputLines).toFixed(1)}x)`,
+            `Deterministic rules: ${describeAppliedRules(appliedRules)}`
+        ],
+        appliedRules,
+        // Result set procedures become set-returning functions; callers keep calling them by name
+        interfaceChanges: [],
+        functionMappings: functionResult.fired
+    };
+    if (isCacheEnabled()) await storeCachedConversion(hash, cacheSource, normalizedContent, aiModel, result);
     return result;
 };
 
+// Java/C# source: every SQL literal is converted as its own file and written back in place.
+// Issues point at the literal's line in the application file.
+const convertApplicationSource = async (file: CodeFile): Promise<ConversionResult> => {
+    const convertStatement = getTargetDialect() === 'postgresql' ? convertSybaseToPostgres : convertSybaseToOracle;
+    const snippets = extractEmbeddedSql(file);
+    const replacements = new Map<string, string>();
+    const issues: ConversionIssue[] = [];
+    const rules = new Map<string, AppliedRule>();
+    const functionMappings: FiredFunctionMapping[] = [];
+    let failed = 0;
+    for (const snippet of snippets) {
+        // JDBC {call …} escapes are portable; the procedure itself is converted with the database code
+        if (snippet.call) continue;
+        if (snippet.dynamic) {
+            issues.push({
+                id: crypto.randomUUID(),
+                lineNumber: snippet.line,
+                columnNumber: snippet.column,
+                codeSide: 'original',
+                severity: 'warning',
+                description: 'SQL built at runtime from variables: only its literal parts are known, so it is not converted',
+                originalCode: snippet.sql,
+                suggestedFix: 'Convert the statement by hand and pass the values as bind parameters instead of concatenating them',
+                category: DYNAMIC_SQL_CATEGORY,
+            });
+            continue;
+        }
+        // One statement at a time, like the batch conversion, to stay within the model's rate limits
+        const result = await convertStatement(snippetAsCodeFile(snippet));
+        issues.push(...result.issues.map(issue => ({
+            ...issue,
+            lineNumber: issue.codeSide === 'converted' ? snippet.line : snippet.line + (issue.lineNumber ?? 1) - 1,
+            columnNumber: undefined,
+            codeSide: 'original' as const,
+            description: `[SQL at line ${snippet.line}] ${issue.description}`,
+        })));
+        if (result.status === 'error') {
+            failed++;
+            continue;
+        }
+        replacements.set(snippet.id, result.convertedCode);
+        result.appliedRules?.forEach(rule => {
+            const merged = rules.get(rule.ruleId) ?? { ...rule, occurrences: 0, lineNumbers: [] };
+            merged.occurrences += rule.occurrences;
+            merged.lineNumbers.push(...rule.lineNumbers.map(line => snippet.line + line - 1));
+            rules.set(rule.ruleId, merged);
+        });
+        functionMappings.push(...(result.functionMappings ?? []).map(mapping => ({
+            ...mapping,
+            lineNumbers: mapping.lineNumbers.map(line => snippet.line + line - 1),
+        })));
+    }
+    const summary = summarizeEmbeddedSql(file);
+    const convertedCode = replaceEmbeddedSql(file.content, snippets, replacements);
+    return {
+        id: crypto.randomUUID(),
+        originalFile: file,
+        aiGeneratedCode: convertedCode,
+        convertedCode,
+        issues,
+        dataTypeMapping: [],
+        status: failed > 0 || issues.some(i => i.severity === 'error') ? 'error' : issues.length > 0 ? 'warning' : 'success',
+        explanations: [
+            `Embedded SQL: ${snippets.length} statements found, ${replacements.size} converted, ${summary.dynamic} built at runtime, ${failed} failed`,
+            `Procedures called: ${summary.calls.join(', ') || 'none'}`,
+        ],
+        appliedRules: [...rules.values()],
+        interfaceChanges: [],
+        functionMappings,
+    };
+};
+
+// Conversion under the project target
+const convertSybaseCode = (file: CodeFile): Promise<ConversionResult> =>
+    isApplicationSource(file.name) ? convertApplicationSource(file)
+        : getTargetDialect() === 'postgresql' ? convertSybaseToPostgres(file) : convertSybaseToOracle(file);
+
 // Balanced performance metrics that account for appropriate sizing
 const generateBalancedPerformanceMetrics = (
     originalComplexity: any,
@@ -312,7 +763,8 @@ const generateBalancedPerformanceMetrics = (
     optimizationLevel: string,
     expansionRatio: number,
     convertedCode: string,
-    originalCode: string // <-- add this parameter
+    originalCode: string, // <-- add this parameter
+    target: TargetDialect = getTargetDialect()
 ) => {
     let performanceScore = 70; // Base score
     const safeConvertedCode = typeof convertedCode === 'string' ? convertedCode : '';
@@ -328,7 +780,7 @@ const generateBalancedPerformanceMetrics = (
     } else if (complexityAssessment === 'simple' && optimizationLevel === 'none') {
         performanceScore += 10;
     }
-    const recommendations = generateRecommendations(safeConvertedCode, performanceScore);
+    const recommendations = generateRecommendations(safeConvertedCode, performanceScore, target);
     if (expansionRatio > 3 && complexityAssessment === 'simple') {
         recommendations.push('⚠️ Consider simplifying - output is over-engineered for input complexity');
     }
@@ -376,52 +828,44 @@ const generateBalancedPerformanceMetrics = (
         },
         recommendations,
         scalabilityMetrics: {
-            bulkOperationsUsed: safeConvertedCode.includes('FORALL'),
-            bulkCollectUsed: safeConvertedCode.includes('BULK COLLECT'),
-            modernOracleFeaturesCount: countModernFeatures(safeConvertedCode),
-            scalabilityScore: calculateScalabilityScore(safeConvertedCode),
+            // PostgreSQL has no bulk binds; set-based arrays are its equivalent
+            bulkOperationsUsed: target === 'postgresql' ? /\bUNNEST\s*\(/i.test(safeConvertedCode) : safeConvertedCode.includes('FORALL'),
+            bulkCollectUsed: target === 'postgresql' ? /\bARRAY_AGG\s*\(/i.test(safeConvertedCode) : safeConvertedCode.includes('BULK COLLECT'),
+            modernOracleFeaturesCount: countModernFeatures(safeConvertedCode, target),
+            scalabilityScore: calculateScalabilityScore(safeConvertedCode, target),
             maintainabilityScore: Math.round(convertedComplexity.commentRatio * 10 * 100) / 100
         },
         // Add these fields for dashboard and viewer
         originalLines: originalComplexity.codeLines,
         convertedLines: convertedComplexity.codeLines,
-        originalLoops: originalComplexity.complexityScore && originalCode ? (originalCode.match(/\b(LOOP|WHILE|FOR)\b/g) || []).length : 0,
-        convertedLoops: convertedComplexity.complexityScore && convertedCode ? (convertedCode.match(/\b(LOOP|WHILE|FOR)\b/g) || []).length : 0
+        originalLoops: originalComplexity.complexityScore && originalCode ? getCodeMetrics(originalCode).loops : 0,
+        convertedLoops: convertedComplexity.complexityScore && convertedCode ? getCodeMetrics(convertedCode).loops : 0
     };
 };
 
-// Helper function to extract data type mappings
-const extractDataTypeMappings = (code: string): DataTypeMapping[] => {
-    const mappings: DataTypeMapping[] = [];
-    const sybaseTypes = code.match(/\b(int|varchar|datetime|text|numeric|decimal|char|bit)\b/gi) || [];
-    const typeMap: Record<string, { oracle: string; description: string }> = {
-        'int': { oracle: 'NUMBER(10)', description: 'Integer numeric type' },
-        'varchar': { oracle: 'VARCHAR2', description: 'Variable-length character type' },
-        'datetime': { oracle: 'TIMESTAMP', description: 'Date and time type' },
-        'text': { oracle: 'CLOB', description: 'Character large object type' },
-        'numeric': { oracle: 'NUMBER', description: 'Exact numeric type' },
-        'decimal': { oracle: 'NUMBER', description: 'Decimal numeric type' },
-        'char': { oracle: 'CHAR', description: 'Fixed-length character type' },
-        'bit': { oracle: 'NUMBER(1)', description: 'Boolean type' }
-    };
-    const uniqueTypes = [...new Set(sybaseTypes.map(t => t.toLowerCase()))];
-    uniqueTypes.forEach(type => {
-        const mapping = typeMap[type];
-        if (mapping) {
-            mappings.push({
-                sybaseType: type,
-                oracleType: mapping.oracle,
-                description: mapping.description
-            });
-        }
-    });
-    return mappings;
-};
+// Helper function to extract data type mappings, under the project data type profile
+const extractDataTypeMappings = (code: string, identityStrategy = getIdentityStrategy(), profile = getDataTypeProfile()): DataTypeMapping[] => [
+    ...profileDataTypeMappings(code, profile),
+    // Identity columns are reported separately: their Oracle form depends on the project strategy
+    ...identityDataTypeMappings(code, identityStrategy),
+];
 
 // Helper function to generate recommendations
-const generateRecommendations = (code: string, performanceScore: number): string[] => {
+const generateRecommendations = (code: string, performanceScore: number, target: TargetDialect = getTargetDialect()): string[] => {
     const recommendations: string[] = [];
     if (!code || typeof code !== 'string') return recommendations;
+    if (target === 'postgresql') {
+        if (/\bLOOP\b/i.test(code) && /\bINSERT\b/i.test(code)) {
+            recommendations.push('Replace row-by-row loops with set-based INSERT … SELECT');
+        }
+        if (/\bEXECUTE\b/i.test(code) && !/\bUSING\b/i.test(code)) {
+            recommendations.push('Pass values to dynamic SQL with EXECUTE … USING instead of concatenation');
+        }
+        if (performanceScore < 70) {
+            recommendations.push('Review overall performance optimizations');
+        }
+        return recommendations;
+    }
     if (!code.includes('FORALL') && code.includes('INSERT')) {
         recommendations.push('Consider using FORALL for bulk DML operations');
     }
@@ -431,36 +875,30 @@ const generateRecommendations = (code: string, performanceScore: number): string
     if (code.includes('EXECUTE IMMEDIATE')) {
         recommendations.push('Minimize dynamic SQL usage to reduce parsing overhead');
     }
-    if (!code.includes('/*+')) {
-        recommendations.push('Consider using optimizer hints for complex queries');
-    }
+    recommendations.push(...recommendHints(code));
     if (performanceScore < 70) {
         recommendations.push('Review overall performance optimizations');
     }
     return recommendations;
 };
 
-// Helper function to count modern Oracle features
-const countModernFeatures = (code: string): number => {
-    const features = [
-        'BULK COLLECT',
-        'FORALL',
-        'MERGE',
-        'WITH',
-        'PARALLEL',
-        'PARTITION',
-        'RESULT_CACHE',
-        'MULTISET',
-        'CROSS APPLY',
-        'PIVOT'
-    ];
-    return features.reduce((count, feature) => 
+// Helper function to count modern features of the target
+const countModernFeatures = (code: string, target: TargetDialect = getTargetDialect()): number =>
+    MODERN_FEATURES[target].reduce((count, feature) =>
         count + (code.includes(feature) ? 1 : 0), 0);
-};
 
 // Helper function to calculate scalability score
-const calculateScalabilityScore = (code: string): number => {
+const calculateScalabilityScore = (code: string, target: TargetDialect = getTargetDialect()): number => {
     let score = 5; // Base score
+    if (target === 'postgresql') {
+        if (code.includes('RETURN QUERY')) score += 1;
+        if (code.includes('UNNEST')) score += 1;
+        if (code.includes('ON CONFLICT')) score += 1;
+        if (code.includes('PARTITION')) score += 1;
+        if (code.includes('WITH')) score += 0.5;
+        if (!code.includes('EXECUTE')) score += 0.5;
+        return Math.min(10, score);
+    }
     if (code.includes('BULK COLLECT')) score += 1;
     if (code.includes('FORALL')) score += 1;
     if (code.includes('PARALLEL')) score += 1;
@@ -487,8 +925,13 @@ const generateBalancedConversionReport = (results: ConversionResult[]): string =
         acc[level] = (acc[level] || 0) + 1;
         return acc;
     }, {} as Record<string, number>);
+    const interfaceChanges = results.flatMap(r =>
+        (r.interfaceChanges ?? interfaceChangesFor(r.originalFile.content || '')).map(change => ({ fileName: r.originalFile.name, change })));
+    const applicationSql = results
+        .filter(r => isApplicationSource(r.originalFile.name))
+        .map(r => ({ fileName: r.originalFile.name, summary: summarizeEmbeddedSql(r.originalFile) }));
     return `
-# Balanced Oracle Migration Report
+# Balanced ${TARGET_DIALECT_LABELS[getTargetDialect()]} Migration Report
 Generated: ${new Date().toLocaleString()}
 
 ## Conversion Summary
@@ -511,6 +954,16 @@ ${overEngineeredFiles > 0 ? `- 🚨 Review ${overEngineeredFiles} over-engineere
 - 🔍 Focus testing on ${results.filter(r => r.performance?.codeQuality?.complexityLevel === 'High').length} complex conversions
 - 📊 Monitor performance of files with bulk operations: ${results.filter(r => r.performance?.scalabilityMetrics?.bulkOperationsUsed).length}
 
+## Interface Changes
+${interfaceChanges.length === 0 ? '- ✅ No procedure signatures changed' : interfaceChanges
+    .map(({ fileName, change }) => `- **${change.procedure}** (${fileName}): ${formatOracleSignature(change)}\n  - Before: ${change.procedure}${change.originalParameters.length > 0 ? ` ${change.originalParameters.join(', ')}` : ''}\n  - Callers: ${change.callerChange}`)
+    .join('\n')}
+
+## Application SQL
+${applicationSql.length === 0 ? '- No application source files' : applicationSql
+    .map(({ fileName, summary }) => `- **${fileName}**: ${summary.statements} statements${summary.dynamic > 0 ? `, ${summary.dynamic} built at runtime` : ''}\n  - Calls: ${summary.calls.join(', ') || 'none'}`)
+    .join('\n')}
+
 ## Storage Impact
 - Total converted lines: ${results.reduce((sum, r) => sum + (r.performance?.codeQuality?.totalLines || 0), 0).toLocaleString()}
 - Original lines: ${results.reduce((sum, r) => sum + r.originalFile.content.split('\n').length, 0).toLocaleString()}
@@ -520,6 +973,7 @@ ${overEngineeredFiles > 0 ? `- 🚨 Review ${overEngineeredFiles} over-engineere
 
 export {
   analyzeCodeComplexity,
+  convertSybaseCode,
   convertSybaseToOracle,
   generateBalancedConversionReport,
   generateBalancedPerformanceMetrics
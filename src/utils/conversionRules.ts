@@ -0,0 +1,313 @@
+import type { AppliedRule } from '@/types';
+
+// Deterministic Sybase T-SQL -> Oracle PL/SQL rewrites that run before the AI call.
+// Every rule here must be safe to apply without understanding the surrounding logic;
+// anything that needs judgement is left for the model.
+
+export interface RuleTransformResult {
+  code: string;
+  offsets: number[]; // offsets (in the input code) where the rule fired
+}
+
+export interface ConversionRule {
+  id: string;
+  description: string;
+  pattern?: RegExp; // must be global
+  replacement?: string | ((match: string, ...groups: string[]) => string);
+  transform?: (code: string) => RuleTransformResult;
+}
+
+export interface RuleEngineResult {
+  code: string;
+  appliedRules: AppliedRule[];
+  unhandledConstructs: string[];
+  fullyConverted: boolean;
+}
+
+// Placeholders keep string literals and comments out of reach of the rules.
+// Newlines inside a masked segment are preserved so line numbers stay stable.
+const STRING_MARK = '\u0001';
+const COMMENT_MARK = '\u0002';
+
+interface MaskedCode {
+  masked: string;
+  segments: string[];
+}
+
+const maskLiteralsAndComments = (code: string): MaskedCode => {
+  const segments: string[] = [];
+  let masked = '';
+  let i = 0;
+  const push = (text: string, mark: string) => {
+    const newlines = (text.match(/\n/g) || []).length;
+    masked += `${mark}${segments.length}${'\n'.repeat(newlines)}${mark}`;
+    segments.push(text);
+  };
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+    if (ch === '-' && next === '-') {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push(code.slice(i, stop), COMMENT_MARK);
+      i = stop;
+    } else if (ch === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      push(code.slice(i, stop), COMMENT_MARK);
+      i = stop;
+    } else if (ch === '\'' || ch === '"') {
+      let j = i + 1;
+      while (j < code.length) {
+        if (code[j] === ch) {
+          if (code[j + 1] === ch) { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      const stop = Math.min(j + 1, code.length);
+      push(code.slice(i, stop), STRING_MARK);
+      i = stop;
+    } else {
+      masked += ch;
+      i++;
+    }
+  }
+  return { masked, segments };
+};
+
+const MASK_PATTERN = new RegExp(`[${STRING_MARK}${COMMENT_MARK}](\\d+)\\n*[${STRING_MARK}${COMMENT_MARK}]`, 'g');
+
+const unmask = (masked: string, segments: string[]): string =>
+  masked.replace(MASK_PATTERN, (_, index) => segments[parseInt(index)]);
+
+const lineAt = (code: string, offset: number): number => {
+  let line = 1;
+  for (let i = 0; i < offset && i < code.length; i++) {
+    if (code[i] === '\n') line++;
+  }
+  return line;
+};
+
+// Helper: find where the statement that contains `from` ends, so a trailing clause can be appended.
+// Stops at `;`, at a closing parenthesis that leaves the current nesting level, or at the next
+// line that starts a new T-SQL statement.
+const STATEMENT_START = /^\s*(select|insert|update|delete|if|else|while|return|end|begin|declare|exec|execute|print|set|go|create|drop|alter|truncate|commit|rollback|raiserror|fetch|open|close|deallocate)\b/i;
+
+const findStatementEnd = (code: string, from: number): number => {
+  let depth = 0;
+  for (let i = from; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === '(') depth++;
+    else if (ch === ')') {
+      if (depth === 0) return i;
+      depth--;
+    } else if (ch === ';' && depth === 0) return i;
+    else if (ch === '\n' && depth === 0) {
+      const rest = code.slice(i + 1);
+      const nextLine = rest.split('\n', 1)[0];
+      if (nextLine.trim() === '' || STATEMENT_START.test(nextLine)) {
+        // Skip trailing blank lines so the clause is appended to the last line of the statement
+        let end = i;
+        while (end > from && /\s/.test(code[end - 1])) end--;
+        return end;
+      }
+    }
+  }
+  let end = code.length;
+  while (end > from && /\s/.test(code[end - 1])) end--;
+  return end;
+};
+
+const SET_OPERATOR = /\b(union|intersect|except|minus)\b/i;
+
+// UNION/INTERSECT/EXCEPT in the statement itself, not in its subqueries
+const hasSetOperator = (text: string) => {
+  let depth = 0;
+  let level = '';
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (depth === 0) level += ch;
+  }
+  return SET_OPERATOR.test(level);
+};
+
+// TOP limits one branch of a set operation; FETCH FIRST at the end would limit the whole result
+// (or be added twice), so those statements are left for the model
+const selectTopTransform = (code: string): RuleTransformResult => {
+  const offsets: number[] = [];
+  let result = code;
+  const pattern = /\bselect(\s+distinct)?\s+top\s+(\d+)\s+/gi;
+  let match: RegExpExecArray | null;
+  // Offsets are collected against the original text; rewrites are applied back-to-front
+  const matches: { index: number; length: number; distinct: string; count: string }[] = [];
+  while ((match = pattern.exec(code)) !== null) {
+    matches.push({ index: match.index, length: match[0].length, distinct: match[1] || '', count: match[2] });
+  }
+  for (const m of [...matches].reverse()) {
+    const end = findStatementEnd(result, m.index + m.length);
+    if (hasSetOperator(result.slice(m.index, end)) || /\b(union(\s+all)?|intersect|except|minus)\s*$/i.test(result.slice(0, m.index))) continue;
+    const select = result.slice(m.index, m.index + m.length).replace(/\s+top\s+\d+\s+/i, ' ');
+    result =
+      result.slice(0, m.index) +
+      select +
+      result.slice(m.index + m.length, end) +
+      ` FETCH FIRST ${m.count} ROWS ONLY` +
+      result.slice(end);
+    offsets.unshift(m.index);
+  }
+  return { code: result, offsets };
+};
+
+// String concatenation is only rewritten when both sides are known strings: literals or variables
+// declared as char/varchar (VARCHAR2/CHAR/CLOB once the data type pass has run). `'5' + 1` is
+// numeric addition in T-SQL (the string converts to a number), and `a + b` between columns may be
+// either, so mixed cases are left for the model.
+const STRING_VARIABLE_DECLARATION = /(?<!@)(@\w+)\s+(?:as\s+)?(?:n?(?:var)?char2?|uni(?:var)?char|n?text|unitext|n?clob|sysname|longsysname)\b/gi;
+
+const stringConcatTransform = (code: string): RuleTransformResult => {
+  const stringVariables = new Set([...code.matchAll(STRING_VARIABLE_DECLARATION)].map(match => match[1].toLowerCase()));
+  const literal = `${STRING_MARK}\\d+\\n*${STRING_MARK}`;
+  const leftOperand = new RegExp(`(?:${literal}|(?<![@\\w])@\\w+)\\s*$`);
+  const rightOperand = new RegExp(`^\\s*(?:${literal}|@\\w+(?![\\w(.]))`);
+  const isString = (operand: string) => operand.includes(STRING_MARK) || stringVariables.has(operand.toLowerCase());
+  const offsets: number[] = [];
+  const rewritten = code.replace(/\+(?!=)/g, (match, offset: number) => {
+    const left = leftOperand.exec(code.slice(Math.max(0, offset - 2000), offset))?.[0].trim();
+    const right = rightOperand.exec(code.slice(offset + 1, offset + 2001))?.[0].trim();
+    if (!left || !right || !isString(left) || !isString(right)) return match;
+    offsets.push(offset);
+    return '||';
+  });
+  return { code: rewritten, offsets };
+};
+
+export const DEFAULT_CONVERSION_RULES: ConversionRule[] = [
+  {
+    id: 'getdate',
+    description: 'GETDATE() → SYSTIMESTAMP',
+    pattern: /\bgetdate\s*\(\s*\)/gi,
+    replacement: 'SYSTIMESTAMP',
+  },
+  {
+    id: 'getutcdate',
+    description: 'GETUTCDATE() → SYS_EXTRACT_UTC(SYSTIMESTAMP)',
+    pattern: /\bgetutcdate\s*\(\s*\)/gi,
+    replacement: 'SYS_EXTRACT_UTC(SYSTIMESTAMP)',
+  },
+  {
+    id: 'isnull',
+    description: 'ISNULL(expr, default) → NVL(expr, default)',
+    pattern: /\bisnull\s*\(/gi,
+    replacement: 'NVL(',
+  },
+  {
+    id: 'len',
+    description: 'LEN(expr) → LENGTH(expr)',
+    pattern: /\blen\s*\(/gi,
+    replacement: 'LENGTH(',
+  },
+  {
+    id: 'substring',
+    description: 'SUBSTRING(expr, start, len) → SUBSTR(expr, start, len)',
+    pattern: /\bsubstring\s*\(/gi,
+    replacement: 'SUBSTR(',
+  },
+  {
+    id: 'ceiling',
+    description: 'CEILING(expr) → CEIL(expr)',
+    pattern: /\bceiling\s*\(/gi,
+    replacement: 'CEIL(',
+  },
+  {
+    id: 'newid',
+    description: 'NEWID() → SYS_GUID()',
+    pattern: /\bnewid\s*\(\s*\)/gi,
+    replacement: 'SYS_GUID()',
+  },
+  {
+    id: 'string-concat',
+    description: "String concatenation of literals and char variables: 'a' + @name → 'a' || @name",
+    transform: stringConcatTransform,
+  },
+  {
+    id: 'select-top',
+    description: 'SELECT TOP n … → SELECT … FETCH FIRST n ROWS ONLY',
+    transform: selectTopTransform,
+  },
+];
+
+// Constructs the rules never touch. If none of these remain the file needs no AI pass.
+const UNHANDLED_CONSTRUCTS: { label: string; pattern: RegExp }[] = [
+  // a name@link after the schema mapping is a database link, not a variable
+  { label: 'T-SQL variables (@var)', pattern: /(?<![\w$#])@\w+/ },
+  { label: 'Procedure/trigger/function definitions', pattern: /\bcreate\s+(proc|procedure|trigger|function|view)\b/i },
+  { label: 'Control flow (IF/WHILE/BEGIN…END)', pattern: /\b(if|while|begin|goto|break|continue)\b/i },
+  { label: 'Batch separators (go)', pattern: /^\s*go\s*$/im },
+  { label: 'Temporary tables (#table)', pattern: /#\w+/ },
+  { label: 'EXEC / dynamic SQL', pattern: /\bexec(ute)?\b/i },
+  { label: 'PRINT / RAISERROR', pattern: /\b(print|raiserror)\b/i },
+  { label: 'Identity columns', pattern: /\bidentity\b/i },
+  { label: 'CONVERT / date functions', pattern: /\b(convert|dateadd|datediff|datepart|datename|charindex|patindex|stuff|str)\s*\(/i },
+  { label: 'Sybase data types', pattern: /\b(datetime|smalldatetime|money|smallmoney|bit|text|image|tinyint|varchar|int|unichar|univarchar)\b/i },
+  { label: 'Locking / isolation hints', pattern: /\b(holdlock|noholdlock|readpast|at\s+isolation)\b/i },
+  { label: 'Table hints (index …)', pattern: /\(\s*index\s+\w+\s*\)/i },
+  { label: 'Cross-database / owner references', pattern: /\b\w+\.\.\w+|\bdbo\./i },
+];
+
+const applyRule = (rule: ConversionRule, code: string): RuleTransformResult => {
+  if (rule.transform) return rule.transform(code);
+  if (!rule.pattern) return { code, offsets: [] };
+  const offsets: number[] = [];
+  const rewritten = code.replace(rule.pattern, (...args) => {
+    const offset = args[args.length - 2] as number;
+    offsets.push(offset);
+    const match = args[0] as string;
+    if (typeof rule.replacement === 'function') {
+      return rule.replacement(match, ...(args.slice(1, -2) as string[]));
+    }
+    return rule.replacement ?? match;
+  });
+  return { code: rewritten, offsets };
+};
+
+// Apply the rule catalog to raw Sybase code. Rules never see string literals or comments.
+export const applyConversionRules = (
+  code: string,
+  rules: ConversionRule[] = DEFAULT_CONVERSION_RULES
+): RuleEngineResult => {
+  const { masked, segments } = maskLiteralsAndComments(code.replace(/\r\n/g, '\n'));
+  let working = masked;
+  const appliedRules: AppliedRule[] = [];
+
+  rules.forEach(rule => {
+    const { code: rewritten, offsets } = applyRule(rule, working);
+    if (offsets.length > 0) {
+      appliedRules.push({
+        ruleId: rule.id,
+        description: rule.description,
+        occurrences: offsets.length,
+        lineNumbers: [...new Set(offsets.map(offset => lineAt(working, offset)))],
+      });
+    }
+    working = rewritten;
+  });
+
+  const unhandledConstructs = UNHANDLED_CONSTRUCTS
+    .filter(({ pattern }) => pattern.test(working))
+    .map(({ label }) => label);
+
+  return {
+    code: unmask(working, segments),
+    appliedRules,
+    unhandledConstructs,
+    fullyConverted: unhandledConstructs.length === 0,
+  };
+};
+
+// Summary line used in prompts and explanations
+export const describeAppliedRules = (appliedRules: AppliedRule[]): string =>
+  appliedRules.length === 0
+    ? 'No deterministic rules applied.'
+    : appliedRules.map(r => `${r.description} (${r.occurrences}x, line${r.lineNumbers.length > 1 ? 's' : ''} ${r.lineNumbers.join(', ')})`).join('; ');
@@ -2,6 +2,13 @@ import { ConversionResult, CodeFile, ConversionIssue, DataTypeMapping } from '@/
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { v4 as uuidv4 } from 'uuid';
 import { supabase } from '../integrations/supabase/client';
+import { getCodeMetrics } from '@/utils/sybaseParser';
+import { profileDataTypeMappings } from '@/utils/dataTypeProfile';
+import { validatePlsql } from '@/utils/plsqlValidator';
+import { analyzeEmptyStrings } from '@/utils/emptyStringAnalyzer';
+import { analyzeSemantics } from '@/utils/semanticAnalyzer';
+import { rewriteSystemCalls } from '@/utils/systemCatalog';
+import { identityDataTypeMappings } from '@/utils/identityColumns';
 
 let cacheEnabled = true;
 
@@ -187,85 +194,12 @@ export const convertMultipleFiles = async (
   return Promise.all(conversionPromises);
 };
 
-// Helper: extract data type mappings from code
-const extractDataTypeMappings = (code: string): DataTypeMapping[] => {
-  const mappings: DataTypeMapping[] = [];
-  const sybaseTypes = [
-    // Numeric types
-    { pattern: /\bint\b/gi, oracle: 'NUMBER(10)', desc: 'Integer type' },
-    { pattern: /\bsmallint\b/gi, oracle: 'NUMBER(5)', desc: 'Small integer type' },
-    { pattern: /\bbigint\b/gi, oracle: 'NUMBER(19)', desc: 'Big integer type' },
-    { pattern: /\btinyint\b/gi, oracle: 'NUMBER(3)', desc: 'Tiny integer type' },
-    { pattern: /\bdecimal\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Decimal with precision and scale' },
-    { pattern: /\bnumeric\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Numeric with precision and scale' },
-    { pattern: /\bfloat\b/gi, oracle: 'BINARY_FLOAT', desc: 'Floating point number' },
-    { pattern: /\breal\b/gi, oracle: 'BINARY_FLOAT', desc: 'Real number' },
-    { pattern: /\bmoney\b/gi, oracle: 'NUMBER(19,4)', desc: 'Money type' },
-    { pattern: /\bsmallmoney\b/gi, oracle: 'NUMBER(10,4)', desc: 'Small money type' },
-    
-    // Character types
-    { pattern: /\bchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'CHAR($1)', desc: 'Fixed-length character string' },
-    { pattern: /\bvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'VARCHAR2($1)', desc: 'Variable-length character string' },
-    { pattern: /\bnchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NCHAR($1)', desc: 'Fixed-length Unicode string' },
-    { pattern: /\bnvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NVARCHAR2($1)', desc: 'Variable-length Unicode string' },
-    { pattern: /\btext\b/gi, oracle: 'CLOB', desc: 'Large text data' },
-    { pattern: /\bntext\b/gi, oracle: 'NCLOB', desc: 'Large Unicode text data' },
-    
-    // Binary types
-    { pattern: /\bbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Fixed-length binary data' },
-    { pattern: /\bvarbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Variable-length binary data' },
-    { pattern: /\bimage\b/gi, oracle: 'BLOB', desc: 'Large binary data' },
-    
-    // Date/Time types
-    { pattern: /\bdatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Date and time' },
-    { pattern: /\bsmalldatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Small date and time' },
-    { pattern: /\bdate\b/gi, oracle: 'DATE', desc: 'Date only' },
-    { pattern: /\btime\b/gi, oracle: 'TIMESTAMP', desc: 'Time only' },
-    { pattern: /\btimestamp\b/gi, oracle: 'TIMESTAMP', desc: 'Timestamp' },
-    
-    // Boolean type
-    { pattern: /\bbit\b/gi, oracle: 'NUMBER(1)', desc: 'Boolean type (0 or 1)' },
-    
-    // Other types
-    { pattern: /\buniqueidentifier\b/gi, oracle: 'RAW(16)', desc: 'Unique identifier' },
-    { pattern: /\bsql_variant\b/gi, oracle: 'VARCHAR2(4000)', desc: 'SQL variant type' },
-    { pattern: /\bxml\b/gi, oracle: 'XMLTYPE', desc: 'XML data type' }
-  ];
-
-  const foundTypes = new Set<string>();
-  
-  sybaseTypes.forEach(({ pattern, oracle, desc }) => {
-    const matches = code.match(pattern);
-    if (matches) {
-      matches.forEach(match => {
-        const sybaseType = match.toLowerCase();
-        if (!foundTypes.has(sybaseType)) {
-          foundTypes.add(sybaseType);
-          
-          // Handle parameterized types
-          let oracleType = oracle;
-          if (match.includes('(')) {
-            const params = match.match(/\(([^)]+)\)/);
-            if (params) {
-              oracleType = oracle.replace(/\$(\d+)/g, (_, index) => {
-                const parts = params[1].split(',').map(p => p.trim());
-                return parts[parseInt(index) - 1] || '255';
-              });
-            }
-          }
-          
-          mappings.push({
-            sybaseType: match,
-            oracleType: oracleType,
-            description: desc
-          });
-        }
-      });
-    }
-  });
-
-  return mappings;
-};
+// Helper: extract data type mappings from code, under the project data type profile
+const extractDataTypeMappings = (code: string): DataTypeMapping[] => [
+  ...profileDataTypeMappings(code),
+  // Identity columns map to an identity column or a sequence, depending on the project strategy
+  ...identityDataTypeMappings(code),
+];
 
 // Analyze code complexity quantitatively
 const analyzeCodeComplexity = (code: string) => {
@@ -277,9 +211,10 @@ const analyzeCodeComplexity = (code: string) => {
   const emptyLines = lines.filter(line => line.trim() === '').length;
   const codeLines = totalLines - commentLines - emptyLines;
   
-  // Calculate cyclomatic complexity (simplified)
-  const controlStructures = (code.match(/\b(if|while|for|case|when|loop)\b/gi) || []).length;
-  const functions = (code.match(/\b(create|procedure|function|trigger)\b/gi) || []).length;
+  // Calculate cyclomatic complexity (simplified); keywords in comments and strings don't count
+  const metrics = getCodeMetrics(code);
+  const controlStructures = metrics.conditionals + metrics.loops + metrics.caseExpressions + metrics.whenClauses;
+  const functions = metrics.objects;
   const complexity = controlStructures + functions + 1;
   
   // Custom maintainability index: more sensitive, not stuck at 100
@@ -303,25 +238,7 @@ const analyzeCodeComplexity = (code: string) => {
 };
 
 // Analyze loops in code
-const analyzeLoops = (code: string) => {
-  const loopPatterns = [
-    /\bwhile\s+/gi,
-    /\bfor\s+/gi,
-    /\bloop\b/gi,
-    /\bcursor\s+for\s+/gi,
-    /\bopen\s+.*\s+for\s+/gi
-  ];
-  
-  let totalLoops = 0;
-  loopPatterns.forEach(pattern => {
-    const matches = code.match(pattern);
-    if (matches) {
-      totalLoops += matches.length;
-    }
-  });
-  
-  return totalLoops;
-};
+const analyzeLoops = (code: string) => getCodeMetrics(code).loops;
 
 // Generate quantitative performance metrics
 const generatePerformanceMetrics = (
@@ -430,7 +347,6 @@ const generateQuantitativeIssues = (
   if (convertedComplexity.cyclomaticComplexity > 15) {
     issues.push({
       id: uuidv4(),
-      lineNumber: 1,
       description: `High cyclomatic complexity (${convertedComplexity.cyclomaticComplexity}). Consider refactoring to improve maintainability.`,
       severity: 'warning',
       originalCode: 'Complex procedure',
@@ -441,13 +357,21 @@ const generateQuantitativeIssues = (
   if (convertedComplexity.maintainabilityIndex < 50) {
     issues.push({
       id: uuidv4(),
-      lineNumber: 1,
       description: `Low maintainability index (${convertedComplexity.maintainabilityIndex}/100). Code may be difficult to maintain.`,
       severity: 'warning',
       originalCode: 'Low maintainability',
       suggestedFix: 'Refactor code structure and add documentation'
     });
   }
+
+  // Syntax problems in the Oracle output, with their real positions
+  issues.push(...validatePlsql(convertedCode));
+  // '' is NULL in Oracle: empty-string comparisons, assignments and concatenations on both sides
+  issues.push(...analyzeEmptyStrings(originalCode, convertedCode, 'oracle'));
+  // Integer division, datetime equality and case-insensitive comparisons in the source
+  issues.push(...analyzeSemantics(originalCode, 'oracle'));
+  // System procedures and @@ variables the model cannot have converted: Oracle has no equivalent
+  issues.push(...rewriteSystemCalls(originalCode, 'oracle').issues.filter(issue => issue.severity === 'error'));
   
   return issues;
 };
@@ -0,0 +1,327 @@
+import type { DataLoadFormat, DataLoadOptions, DataTypeProfile, IdentityStrategy } from '@/types';
+import { parseSybase, allStatements, parseDataTypeText, SybaseColumn } from '@/utils/sybaseParser';
+import { normalizeObjectName, orderByDependencies, DependencySource } from '@/utils/dependencyGraph';
+import { columnOverrideKey, getDataTypeProfile, mapDataType } from '@/utils/dataTypeProfile';
+import { getIdentifierLengthLimit, getIdentifierRenames } from '@/utils/identifierConflicts';
+import { getIdentityStrategy, sequenceNameFor } from '@/utils/identityColumns';
+import { isApplicationSource } from '@/utils/embeddedSql';
+
+// Data load for the converted tables. Sybase bcp exports in character mode (bcp … out -c) are loaded
+// with SQL*Loader control files or through external tables. Fields follow the project data type
+// mapping and rename map, so every column is read the way bcp writes it and lands in the column the
+// converted DDL creates.
+
+export const DATA_LOAD_FORMAT_LABELS: Record<DataLoadFormat, string> = {
+  sqlldr: 'SQL*Loader control files',
+  external: 'External tables',
+};
+
+export const DEFAULT_DATA_LOAD_OPTIONS: DataLoadOptions = {
+  format: 'sqlldr',
+  fieldTerminator: '\t', // bcp -c default
+  rowTerminator: '\n',
+  datetimeFormat: 'Mon DD YYYY HH:MI:SS:FF3AM', // bcp -c writes Jan 15 2024 10:30:00:000AM
+  dateFormat: 'Mon DD YYYY',
+  timeFormat: 'HH:MI:SS:FF3AM',
+  textSize: 32768, // bcp -T default
+  directory: 'MIGRATION_DATA',
+};
+
+// --- Options (persisted per browser, like the identity strategy) ---
+const OPTIONS_STORAGE_KEY = 'data-load-options';
+
+export const getDataLoadOptions = (): DataLoadOptions => {
+  if (typeof localStorage === 'undefined') return DEFAULT_DATA_LOAD_OPTIONS;
+  const saved = localStorage.getItem(OPTIONS_STORAGE_KEY);
+  return saved ? { ...DEFAULT_DATA_LOAD_OPTIONS, ...JSON.parse(saved) } : DEFAULT_DATA_LOAD_OPTIONS;
+};
+
+export const setDataLoadOptions = (options: Partial<DataLoadOptions>) => {
+  const merged = { ...getDataLoadOptions(), ...options };
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(merged));
+  return merged;
+};
+
+export interface DataLoadColumn {
+  name: string; // Sybase name; bcp writes the columns in CREATE TABLE order
+  targetName: string; // after the project rename map
+  sybaseType: string; // as written
+  oracleType: string;
+  field: string; // field definition in the control file or access parameters
+  expression?: string; // SQL applied to the field value on insert, :field is the value
+  skipped: boolean; // read but not loaded
+  identity: boolean;
+}
+
+export interface DataLoadTable {
+  name: string; // as written in CREATE TABLE
+  targetName: string;
+  dataFile: string; // bcp output file
+  fileId: string;
+  fileName: string;
+  columns: DataLoadColumn[];
+  warnings: string[];
+}
+
+export interface DataLoadArtifact {
+  fileName: string;
+  content: string;
+}
+
+// --- Fields ---
+
+type SourceCategory = 'datetime' | 'date' | 'time' | 'text' | 'image' | 'binary' | 'rowversion' | 'integer' | 'decimal' | 'float' | 'character';
+
+const SOURCE_CATEGORIES: Record<string, SourceCategory> = {
+  datetime: 'datetime', smalldatetime: 'datetime', bigdatetime: 'datetime', datetime2: 'datetime',
+  date: 'date',
+  time: 'time', bigtime: 'time',
+  text: 'text', ntext: 'text', unitext: 'text', xml: 'text',
+  image: 'image',
+  binary: 'binary', varbinary: 'binary', uniqueidentifier: 'binary',
+  timestamp: 'rowversion',
+  int: 'integer', integer: 'integer', smallint: 'integer', bigint: 'integer', tinyint: 'integer', bit: 'integer',
+  'unsigned smallint': 'integer', 'unsigned int': 'integer', 'unsigned bigint': 'integer',
+  decimal: 'decimal', dec: 'decimal', numeric: 'decimal', money: 'decimal', smallmoney: 'decimal',
+  float: 'float', real: 'float', 'double precision': 'float',
+};
+
+// User-defined types are read like the base type they were registered with
+const sourceCategory = (column: SybaseColumn, profile: DataTypeProfile): SourceCategory => {
+  const name = column.dataType.name.split('.').pop()!.toLowerCase();
+  const base = profile.userTypes[name] ? parseDataTypeText(profile.userTypes[name]).name : name;
+  return SOURCE_CATEGORIES[base] ?? 'character';
+};
+
+const fieldLength = (column: SybaseColumn, options: DataLoadOptions) => {
+  const length = column.dataType.params[0];
+  if (length?.toLowerCase() === 'max') return options.textSize;
+  return Number(length) || 255;
+};
+
+// SQL*Loader and ORACLE_LOADER share the field syntax except for datetime masks and SQL expressions
+const fieldFor = (column: SybaseColumn, category: SourceCategory, options: DataLoadOptions, targetName: string) => {
+  const external = options.format === 'external';
+  const datetime = (kind: 'DATE' | 'TIMESTAMP', mask: string) =>
+    external ? `CHAR(40) DATE_FORMAT ${kind} MASK "${mask}"` : `${kind} "${mask}"`;
+  switch (category) {
+    case 'datetime': return { field: datetime('TIMESTAMP', options.datetimeFormat) };
+    case 'date': return { field: datetime('DATE', options.dateFormat) };
+    case 'time': return { field: datetime('TIMESTAMP', options.timeFormat) };
+    case 'text': return { field: `CHAR(${options.textSize})` };
+    // bcp writes binary data as hex; RAW columns convert it implicitly, BLOBs need HEXTORAW
+    case 'image': return { field: `CHAR(${options.textSize * 2})`, expression: `TO_BLOB(HEXTORAW(:${targetName}))` };
+    case 'binary': return { field: `CHAR(${fieldLength(column, options) * 2})` };
+    case 'rowversion': return { field: 'CHAR(16)', skipped: true };
+    case 'integer': return { field: 'INTEGER EXTERNAL' };
+    case 'decimal': return { field: 'DECIMAL EXTERNAL' };
+    case 'float': return { field: 'FLOAT EXTERNAL' };
+    default: return { field: `CHAR(${fieldLength(column, options)})` };
+  }
+};
+
+// --- Tables ---
+
+// Every permanent table created in the upload, dependencies (foreign key parents) first
+export const detectDataLoadTables = (
+  files: DependencySource[],
+  options: DataLoadOptions = getDataLoadOptions(),
+  profile: DataTypeProfile = getDataTypeProfile(),
+  renames: Record<string, string> = getIdentifierRenames()
+): DataLoadTable[] => {
+  const rename = (name: string) => renames[name.toLowerCase()] ?? name;
+  const seen = new Set<string>();
+  const tables: DataLoadTable[] = [];
+  orderByDependencies(files.filter(file => !isApplicationSource(file.name)), file => file).forEach(file => {
+    allStatements(parseSybase(file.content || '')).forEach(statement => {
+      if (statement.kind !== 'createTable' || !statement.name || statement.name.startsWith('#')) return;
+      const table = normalizeObjectName(statement.name);
+      if (seen.has(table)) return;
+      seen.add(table);
+
+      const warnings: string[] = [];
+      const lobs: string[] = [];
+      const columns = (statement.columns ?? []).map(column => {
+        const category = sourceCategory(column, profile);
+        if (category === 'text' || category === 'image') lobs.push(column.name);
+        const targetName = rename(column.name);
+        const oracleType = profile.columnOverrides[columnOverrideKey(statement.name!, column.name)] ?? mapDataType(column.dataType, profile);
+        if (!oracleType) warnings.push(`${column.name}: type ${column.dataType.text} is not in the data type profile and is read as character data`);
+        return {
+          name: column.name,
+          targetName,
+          sybaseType: column.dataType.text,
+          oracleType: oracleType ?? `VARCHAR2(${fieldLength(column, options)})`,
+          skipped: false,
+          identity: column.identity,
+          ...fieldFor(column, category, options, targetName),
+        };
+      });
+
+      if (lobs.length > 0) {
+        warnings.push(`${lobs.join(', ')}: bcp truncates text/image values longer than ${options.textSize} bytes (-T); raise the text size to the longest value`);
+        if (options.fieldTerminator === '\t' && options.rowTerminator === '\n') {
+          warnings.push('Text can contain tabs and line breaks: export with terminators that do not occur in the data, e.g. -t "|~|" -r "|!|\\n"');
+        }
+      }
+      columns.filter(column => column.expression).forEach(column => {
+        warnings.push(`${column.name}: HEXTORAW reads up to 2000 bytes (32767 with MAX_STRING_SIZE=EXTENDED); load larger images from separate files with LOBFILE`);
+      });
+      columns.filter(column => column.skipped).forEach(column => {
+        warnings.push(`${column.name}: Sybase timestamp values are row versions and are not loaded`);
+      });
+      if (columns.some(column => column.identity)) {
+        warnings.push('Identity values are loaded as exported; run post_load.sql afterwards so new rows continue after them');
+      }
+
+      tables.push({
+        name: statement.name,
+        targetName: rename(table),
+        dataFile: `${table}.bcp`,
+        fileId: file.id,
+        fileName: file.name,
+        columns,
+        warnings,
+      });
+    });
+  });
+  return tables;
+};
+
+// --- Artifacts ---
+
+// Quoted terminator, in hex when it has control characters or quotes
+const terminatorLiteral = (text: string) =>
+  /^[\x20-\x7e]+$/.test(text) && !text.includes("'")
+    ? `'${text}'`
+    : `X'${[...new TextEncoder().encode(text)].map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join('')}'`;
+
+// Terminators as typed on the bcp command line, with \t, \n and \r escapes
+export const escapeTerminator = (text: string) => text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+
+export const unescapeTerminator = (text: string) =>
+  text.replace(/\\([\s\S])/g, (_, ch: string) => ({ t: '\t', n: '\n', r: '\r' }[ch] ?? ch));
+
+const bcpCommand = (table: DataLoadTable, options: DataLoadOptions) => [
+  `bcp "<database>..${normalizeObjectName(table.name)}" out ${table.dataFile} -c`,
+  options.fieldTerminator !== '\t' ? ` -t "${escapeTerminator(options.fieldTerminator)}"` : '',
+  options.rowTerminator !== '\n' ? ` -r "${escapeTerminator(options.rowTerminator)}"` : '',
+  ` -T ${options.textSize} -J utf8 -U "$SYBASE_USER" -P "$SYBASE_PASSWORD" -S "$SYBASE_SERVER"`,
+].join('');
+
+const tableHeader = (table: DataLoadTable, options: DataLoadOptions) => [
+  `-- ${table.name} (${table.fileName}) → ${table.targetName}`,
+  `-- Export: ${bcpCommand(table, options)}`,
+  ...table.warnings.map(warning => `-- NOTE: ${warning}`),
+].join('\n');
+
+export const generateControlFile = (table: DataLoadTable, options: DataLoadOptions = getDataLoadOptions()) => {
+  const fields = table.columns.map(column => {
+    if (column.skipped) return `  ${column.targetName} FILLER ${column.field}`;
+    return `  ${column.targetName} ${column.field}${column.expression ? ` "${column.expression}"` : ''}`;
+  });
+  const stream = options.rowTerminator !== '\n' ? ` "STR ${terminatorLiteral(options.rowTerminator)}"` : '';
+  return `${tableHeader(table, options)}
+LOAD DATA
+CHARACTERSET AL32UTF8
+INFILE '${table.dataFile}'${stream}
+BADFILE '${normalizeObjectName(table.name)}.bad'
+DISCARDFILE '${normalizeObjectName(table.name)}.dsc'
+APPEND
+INTO TABLE ${table.targetName}
+FIELDS TERMINATED BY ${terminatorLiteral(options.fieldTerminator)}
+TRAILING NULLCOLS
+(
+${fields.join(',\n')}
+)
+`;
+};
+
+// External table over the bcp file and the INSERT that copies it into the converted table
+export const externalTableName = (table: DataLoadTable, limit: number = getIdentifierLengthLimit()) =>
+  `${table.targetName.slice(0, limit - 4)}_ext`;
+
+export const generateExternalTable = (table: DataLoadTable, options: DataLoadOptions = getDataLoadOptions()) => {
+  const name = externalTableName(table);
+  const loaded = table.columns.filter(column => !column.skipped);
+  // Images arrive as hex text and become BLOBs on insert
+  const columnType = (column: DataLoadColumn) => (column.expression ? 'CLOB' : column.oracleType);
+  const records = options.rowTerminator === '\n' ? 'NEWLINE' : terminatorLiteral(options.rowTerminator);
+  return `${tableHeader(table, options)}
+CREATE TABLE ${name} (
+${loaded.map(column => `  ${column.targetName} ${columnType(column)}`).join(',\n')}
+)
+ORGANIZATION EXTERNAL (
+  TYPE ORACLE_LOADER
+  DEFAULT DIRECTORY ${options.directory}
+  ACCESS PARAMETERS (
+    RECORDS DELIMITED BY ${records}
+    CHARACTERSET AL32UTF8
+    BADFILE '${normalizeObjectName(table.name)}.bad'
+    LOGFILE '${normalizeObjectName(table.name)}.log'
+    FIELDS TERMINATED BY ${terminatorLiteral(options.fieldTerminator)}
+    MISSING FIELD VALUES ARE NULL
+    (
+${table.columns.map(column => `      ${column.targetName} ${column.field}`).join(',\n')}
+    )
+  )
+  LOCATION ('${table.dataFile}')
+)
+REJECT LIMIT UNLIMITED;
+
+INSERT /*+ APPEND */ INTO ${table.targetName} (${loaded.map(column => column.targetName).join(', ')})
+SELECT ${loaded.map(column => column.expression ? column.expression.replace(`:${column.targetName}`, column.targetName) : column.targetName).join(', ')}
+FROM ${name};
+COMMIT;
+
+DROP TABLE ${name};
+`;
+};
+
+// Moves identity generators past the loaded values
+export const generatePostLoadSql = (tables: DataLoadTable[], strategy: IdentityStrategy = getIdentityStrategy(), renames: Record<string, string> = getIdentifierRenames()) =>
+  tables
+    .map(table => ({ table, column: table.columns.find(column => column.identity) }))
+    .filter(({ column }) => column)
+    .map(({ table, column }) => {
+      if (strategy === 'identity') {
+        return `ALTER TABLE ${table.targetName} MODIFY (${column!.targetName} GENERATED BY DEFAULT AS IDENTITY (START WITH LIMIT VALUE));`;
+      }
+      const sequence = sequenceNameFor(table.name);
+      // ALTER SEQUENCE … RESTART needs Oracle 18c or later
+      return `DECLARE
+  v_next NUMBER;
+BEGIN
+  SELECT NVL(MAX(${column!.targetName}), 0) + 1 INTO v_next FROM ${table.targetName};
+  EXECUTE IMMEDIATE 'ALTER SEQUENCE ${renames[sequence] ?? sequence} RESTART START WITH ' || v_next;
+END;
+/`;
+    })
+    .join('\n\n');
+
+// Everything the data load needs, as files for the migration download
+export const generateDataLoadArtifacts = (files: DependencySource[], options: DataLoadOptions = getDataLoadOptions()): DataLoadArtifact[] => {
+  const tables = detectDataLoadTables(files, options);
+  if (tables.length === 0) return [];
+  const artifacts: DataLoadArtifact[] = [{
+    fileName: 'export_data.sh',
+    content: `#!/bin/sh\n# Sybase exports in character mode, one file per table\n${tables.map(table => bcpCommand(table, options)).join('\n')}\n`,
+  }];
+  if (options.format === 'sqlldr') {
+    tables.forEach(table => artifacts.push({ fileName: `${normalizeObjectName(table.name)}.ctl`, content: generateControlFile(table, options) }));
+    artifacts.push({
+      fileName: 'load_data.sh',
+      content: `#!/bin/sh\n# Loads in dependency order, parents before the tables that reference them\n${tables
+        .map(table => `sqlldr userid="$ORACLE_USER/$ORACLE_PASSWORD@$ORACLE_SERVICE" control=${normalizeObjectName(table.name)}.ctl log=${normalizeObjectName(table.name)}.log`)
+        .join('\n')}\n`,
+    });
+  } else {
+    artifacts.push({
+      fileName: 'external_tables.sql',
+      content: `-- The bcp files go in the directory ${options.directory} points to:\n-- CREATE DIRECTORY ${options.directory} AS '/path/to/bcp/files';\n\n${tables.map(table => generateExternalTable(table, options)).join('\n')}`,
+    });
+  }
+  const postLoad = generatePostLoadSql(tables);
+  if (postLoad) artifacts.push({ fileName: 'post_load.sql', content: `${postLoad}\n` });
+  return artifacts;
+};
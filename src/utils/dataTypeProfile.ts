@@ -0,0 +1,323 @@
+import type { AppliedRule, ConversionIssue, DataTypeMapping, DataTypeProfile, DataTypeRule, SourceDialect, TargetDialect } from '@/types';
+import {
+  parseSybase,
+  allStatements,
+  collectDataTypes,
+  collectDeclaredDataTypes,
+  parseDataTypeText,
+  SybaseDataType,
+  SybaseScript,
+  SybaseToken,
+} from '@/utils/sybaseParser';
+import {
+  POSTGRES_TYPE_MAP,
+  SQL_SERVER_POSTGRES_TYPE_MAP,
+  SQL_SERVER_TYPE_MAP,
+  SYBASE_TYPE_MAP,
+  mapSybaseDataType,
+  sybaseTypeMapping,
+  SybaseTypeMap,
+} from '@/utils/sybaseTypeMap';
+import { getSourceDialect } from '@/utils/sourceDialect';
+import { getTargetDialect } from '@/utils/targetDialect';
+import { normalizeObjectName, DependencySource } from '@/utils/dependencyGraph';
+
+// The project's data type profile: the default Sybase -> Oracle map with the project's overrides,
+// the user-defined types registered with sp_addtype and per-column overrides. Declared types are
+// rewritten from it before the AI call, and the prompt, the data type table, temp table DDL and
+// interface changes all read the same profile, so one decision applies to every file.
+
+export const DATA_TYPE_CATEGORY = 'data_type';
+
+export const EMPTY_DATA_TYPE_PROFILE: DataTypeProfile = { typeOverrides: {}, columnOverrides: {}, userTypes: {} };
+
+// --- Profile (persisted per browser, like the identity strategy) ---
+// One profile per target: type overrides name target types
+const profileStorageKey = (target: TargetDialect = getTargetDialect()) =>
+  target === 'oracle' ? 'data-type-profile' : `data-type-profile-${target}`;
+
+export const getDataTypeProfile = (): DataTypeProfile => {
+  if (typeof localStorage === 'undefined') return EMPTY_DATA_TYPE_PROFILE;
+  const saved = localStorage.getItem(profileStorageKey());
+  return saved ? { ...EMPTY_DATA_TYPE_PROFILE, ...JSON.parse(saved) } : EMPTY_DATA_TYPE_PROFILE;
+};
+
+const saveDataTypeProfile = (profile: DataTypeProfile) => {
+  localStorage.setItem(profileStorageKey(), JSON.stringify(profile));
+  return profile;
+};
+
+// Owner-qualified user types (dbo.ssn_t) are looked up by their bare name
+const bareTypeName = (name: string) => name.split('.').pop()!.toLowerCase();
+
+export const columnOverrideKey = (table: string, column: string) => `${normalizeObjectName(table)}.${column.toLowerCase()}`;
+
+// Undefined removes the override and falls back to the default mapping
+export const setTypeOverride = (typeName: string, rule?: DataTypeRule) => {
+  const profile = getDataTypeProfile();
+  const typeOverrides = { ...profile.typeOverrides };
+  if (rule) typeOverrides[bareTypeName(typeName)] = rule;
+  else delete typeOverrides[bareTypeName(typeName)];
+  return saveDataTypeProfile({ ...profile, typeOverrides });
+};
+
+export const setColumnOverride = (table: string, column: string, oracleType?: string) => {
+  const profile = getDataTypeProfile();
+  const columnOverrides = { ...profile.columnOverrides };
+  if (oracleType) columnOverrides[columnOverrideKey(table, column)] = oracleType;
+  else delete columnOverrides[columnOverrideKey(table, column)];
+  return saveDataTypeProfile({ ...profile, columnOverrides });
+};
+
+// An Oracle type name with optional parameters and trailing words, e.g. VARCHAR2($1 CHAR),
+// TIMESTAMP(3) WITH TIME ZONE
+export const isValidOracleType = (type: string) => /^[a-z][\w$ ]*(\([\w$, ]*\))?[\w ]*$/i.test(type.trim());
+
+// Default map of the source dialect to the target
+export const dialectTypeMap = (dialect: SourceDialect = getSourceDialect(), target: TargetDialect = getTargetDialect()): SybaseTypeMap => {
+  const base = target === 'postgresql' ? POSTGRES_TYPE_MAP : SYBASE_TYPE_MAP;
+  if (dialect !== 'sqlserver') return base;
+  return { ...base, ...(target === 'postgresql' ? SQL_SERVER_POSTGRES_TYPE_MAP : SQL_SERVER_TYPE_MAP) };
+};
+
+// Default map with the project overrides on top
+export const profileTypeMap = (profile: DataTypeProfile = getDataTypeProfile()): SybaseTypeMap => {
+  const defaults = dialectTypeMap();
+  return {
+    ...defaults,
+    ...Object.fromEntries(Object.entries(profile.typeOverrides).map(([name, rule]) => [name, {
+      oracle: rule.oracleType,
+      desc: rule.description || `${defaults[name]?.desc ?? 'User-defined type'} (project profile)`,
+    }])),
+  };
+};
+
+export interface ResolvedDataType {
+  oracleType: string;
+  description: string;
+}
+
+const resolveWith = (dataType: SybaseDataType, profile: DataTypeProfile, typeMap: SybaseTypeMap): ResolvedDataType | undefined => {
+  const name = bareTypeName(dataType.name);
+  const mapping = sybaseTypeMapping({ ...dataType, name }, typeMap);
+  if (mapping) return { oracleType: mapSybaseDataType({ ...dataType, name }, typeMap)!, description: mapping.desc };
+  const base = profile.userTypes[name];
+  const oracleType = base && mapSybaseDataType(parseDataTypeText(base), typeMap);
+  return oracleType ? { oracleType, description: `User-defined type (${base})` } : undefined;
+};
+
+// Oracle type of a Sybase type under the profile; undefined if neither the map nor a registered user type knows it
+export const resolveDataType = (dataType: SybaseDataType, profile: DataTypeProfile = getDataTypeProfile()) =>
+  resolveWith(dataType, profile, profileTypeMap(profile));
+
+export const mapDataType = (dataType: SybaseDataType, profile: DataTypeProfile = getDataTypeProfile()) =>
+  resolveDataType(dataType, profile)?.oracleType;
+
+// Column overrides of the CREATE TABLEs in a script, keyed by the parsed column type
+const columnOverridesIn = (script: SybaseScript, profile: DataTypeProfile) => {
+  const overrides = new Map<SybaseDataType, { key: string; oracleType: string }>();
+  allStatements(script).forEach(statement => {
+    if (statement.kind !== 'createTable' || !statement.name) return;
+    statement.columns?.forEach(column => {
+      const key = columnOverrideKey(statement.name!, column.name);
+      const oracleType = profile.columnOverrides[key];
+      if (oracleType) overrides.set(column.dataType, { key, oracleType });
+    });
+  });
+  return overrides;
+};
+
+// --- User-defined types ---
+export interface UserDataType {
+  name: string;
+  baseType: string;
+  fileId: string;
+  fileName: string;
+  line: number;
+}
+
+const unquote = (token: SybaseToken) => token.type === 'string' ? token.value.slice(1, -1) : token.value;
+
+// `exec sp_addtype <name>, '<base type>' [, 'null' | 'not null' | 'identity']`
+const parseAddType = (tokens: SybaseToken[], source: string) => {
+  const index = tokens.findIndex(token => token.value.toLowerCase() === 'sp_addtype');
+  const name = tokens[index + 1];
+  const base = tokens[index + 3];
+  if (index < 0 || !name || tokens[index + 2]?.value !== ',' || !base) return undefined;
+  if (base.type === 'string') return { name: bareTypeName(unquote(name)), baseType: unquote(base) };
+  // Unquoted base type: up to the next comma outside parentheses
+  let end = index + 3;
+  let depth = 0;
+  while (tokens[end + 1] && !(depth === 0 && tokens[end + 1].value === ',')) {
+    if (tokens[end + 1].value === '(') depth++;
+    if (tokens[end + 1].value === ')') depth--;
+    end++;
+  }
+  return { name: bareTypeName(unquote(name)), baseType: source.slice(base.offset, tokens[end].offset + tokens[end].value.length) };
+};
+
+const userTypesIn = (script: SybaseScript) => allStatements(script)
+  .filter(statement => statement.kind === 'exec' && statement.name?.toLowerCase() === 'sp_addtype')
+  .map(statement => ({ statement, type: parseAddType(statement.tokens, script.source) }))
+  .filter(({ type }) => type);
+
+export const detectUserDataTypes = (files: DependencySource[]): UserDataType[] => {
+  const types = new Map<string, UserDataType>();
+  files.forEach(file => {
+    userTypesIn(parseSybase(file.content || '')).forEach(({ statement, type }) => {
+      if (!types.has(type!.name)) {
+        types.set(type!.name, { ...type!, fileId: file.id, fileName: file.name, line: statement.startLine });
+      }
+    });
+  });
+  return [...types.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Record the user types of an upload in the profile so files that only use them resolve them too
+export const syncUserDataTypes = (files: DependencySource[]) => {
+  const profile = getDataTypeProfile();
+  const userTypes = { ...profile.userTypes };
+  detectUserDataTypes(files).forEach(({ name, baseType }) => {
+    userTypes[name] = baseType;
+  });
+  return saveDataTypeProfile({ ...profile, userTypes });
+};
+
+// --- Project usage, for the profile editor ---
+export interface ProjectDataTypeUsage {
+  name: string;
+  examples: SybaseDataType[]; // distinct spellings, e.g. varchar(20) and varchar(50)
+  files: string[];
+}
+
+export interface ProjectColumn {
+  table: string;
+  column: string;
+  dataType: SybaseDataType;
+}
+
+export const detectProjectDataTypes = (files: DependencySource[]) => {
+  const types = new Map<string, ProjectDataTypeUsage>();
+  const columns = new Map<string, ProjectColumn>();
+  files.forEach(file => {
+    const script = parseSybase(file.content || '');
+    collectDataTypes(script).forEach(dataType => {
+      const name = bareTypeName(dataType.name);
+      const usage = types.get(name) ?? { name, examples: [], files: [] };
+      if (!usage.examples.some(example => example.text.toLowerCase() === dataType.text.toLowerCase())) usage.examples.push(dataType);
+      if (!usage.files.includes(file.name)) usage.files.push(file.name);
+      types.set(name, usage);
+    });
+    allStatements(script).forEach(statement => {
+      if (statement.kind !== 'createTable' || !statement.name || statement.name.startsWith('#')) return;
+      statement.columns?.forEach(column => {
+        const key = columnOverrideKey(statement.name!, column.name);
+        if (!columns.has(key)) columns.set(key, { table: normalizeObjectName(statement.name!), column: column.name.toLowerCase(), dataType: column.dataType });
+      });
+    });
+  });
+  return {
+    types: [...types.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    columns: [...columns.values()].sort((a, b) => `${a.table}.${a.column}`.localeCompare(`${b.table}.${b.column}`)),
+  };
+};
+
+// --- Conversion ---
+
+// Data type table entries of a file under the profile
+export const profileDataTypeMappings = (code: string, profile: DataTypeProfile = getDataTypeProfile()): DataTypeMapping[] => {
+  const script = parseSybase(code);
+  const typeMap = profileTypeMap(profile);
+  const overrides = columnOverridesIn(script, profile);
+  const mappings: DataTypeMapping[] = [...overrides.entries()].map(([dataType, { key, oracleType }]) => ({
+    sybaseType: `${dataType.text} (${key})`,
+    oracleType,
+    description: 'Column override (project profile)',
+  }));
+  const foundTypes = new Set<string>();
+
+  // Only real type positions count: column definitions, parameters, DECLAREs and CONVERT/CAST targets
+  collectDataTypes(script).forEach(dataType => {
+    const sybaseType = dataType.text.toLowerCase();
+    if (overrides.has(dataType) || foundTypes.has(sybaseType)) return;
+    // Parameterized types without their parameters are not reported
+    if (typeMap[bareTypeName(dataType.name)]?.oracle.includes('$') && dataType.params.length === 0) return;
+    const resolved = resolveWith(dataType, profile, typeMap);
+    if (!resolved) return;
+    foundTypes.add(sybaseType);
+    mappings.push({ sybaseType: dataType.text, oracleType: resolved.oracleType, description: resolved.description });
+  });
+  return mappings;
+};
+
+export interface DataTypeRewriteResult {
+  code: string;
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+// Rewrite declared types (columns, parameters, DECLAREs) to their profile mapping. CONVERT targets are
+// left to the function catalog, which maps them through the same profile; types the profile does not
+// know get an issue instead of a guess. PL/SQL parameters take no length or precision.
+// Edits stay within the type's own line.
+export const rewriteDataTypes = (code: string, profile: DataTypeProfile = getDataTypeProfile()): DataTypeRewriteResult => {
+  const script = parseSybase(code);
+  const typeMap = profileTypeMap(profile);
+  const overrides = columnOverridesIn(script, profile);
+  const parameterTypes = new Set(allStatements(script).flatMap(statement => statement.parameters?.map(parameter => parameter.dataType) ?? []));
+  const edits: { start: number; end: number; text: string; line: number }[] = [];
+  const issues: ConversionIssue[] = [];
+  const unmapped = new Set<string>();
+
+  collectDeclaredDataTypes(script).forEach(dataType => {
+    if (dataType.startOffset === undefined || dataType.endOffset === undefined) return;
+    const mapped = overrides.get(dataType)?.oracleType ?? resolveWith(dataType, profile, typeMap)?.oracleType;
+    const oracleType = mapped && parameterTypes.has(dataType) ? mapped.replace(/\s*\(.*\)$/, '') : mapped;
+    if (oracleType) {
+      if (script.source.slice(dataType.startOffset, dataType.endOffset) !== oracleType) {
+        edits.push({ start: dataType.startOffset, end: dataType.endOffset, text: oracleType, line: dataType.line });
+      }
+      return;
+    }
+    // Table variables are not scalar types
+    if (dataType.name === 'table' || unmapped.has(dataType.name)) return;
+    unmapped.add(dataType.name);
+    issues.push({
+      id: `data-type-${dataType.line}-${dataType.name}`,
+      lineNumber: dataType.line,
+      codeSide: 'original',
+      severity: 'warning',
+      description: `Data type ${dataType.text} has no mapping in the project data type profile, so its target type is chosen for this file only.`,
+      originalCode: dataType.text,
+      suggestedFix: `Add ${bareTypeName(dataType.name)} to the data type profile, or upload the file that registers it with sp_addtype.`,
+      category: DATA_TYPE_CATEGORY,
+    });
+  });
+
+  if (edits.length === 0) return { code: script.source, issues };
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    issues,
+    appliedRule: {
+      ruleId: 'data-type-profile',
+      description: 'Declared Sybase types → project data type profile',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt guidance: declarations are already rewritten, the same mappings apply to any type left
+export const describeDataTypes = (code: string, profile: DataTypeProfile = getDataTypeProfile()): string => {
+  const lines = profileDataTypeMappings(code, profile).map(mapping => `${mapping.sybaseType} → ${mapping.oracleType}`);
+  userTypesIn(parseSybase(code)).forEach(({ type }) => {
+    lines.push(getTargetDialect() === 'postgresql'
+      ? `sp_addtype ${type!.name}: declarations already use the mapping of ${type!.baseType}; replace the call with a comment rather than a CREATE DOMAIN`
+      : `sp_addtype ${type!.name}: Oracle has no user-defined scalar types; replace the call with a comment, uses of ${type!.name} take the mapping of ${type!.baseType}`);
+  });
+  return lines.length > 0 ? lines.join('\n') : 'None.';
+};
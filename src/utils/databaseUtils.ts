@@ -1,5 +1,5 @@
 
-import { DatabaseConnection } from '@/types';
+import { DatabaseConnection, DatabaseType } from '@/types';
 
 // Simulated function to save database connection details
 export const saveConnection = (connection: DatabaseConnection): Promise<boolean> => {
@@ -9,7 +9,7 @@ export const saveConnection = (connection: DatabaseConnection): Promise<boolean>
 };
 
 // Simulated function to load saved database connection details
-export const loadConnection = (type: 'sybase' | 'oracle'): DatabaseConnection | null => {
+export const loadConnection = (type: DatabaseType): DatabaseConnection | null => {
   const savedConnection = localStorage.getItem(`${type}-connection`);
   return savedConnection ? JSON.parse(savedConnection) : null;
 };
@@ -0,0 +1,248 @@
+import type { DatabaseObjectKind } from '@/types';
+import { parseSybase, listObjects, allStatements, isSignificantToken, readQualifiedName, SybaseToken } from '@/utils/sybaseParser';
+import { embeddedSqlText, isApplicationSource } from '@/utils/embeddedSql';
+
+// Cross-file dependency analysis for uploaded Sybase code: which objects each file
+// defines, which tables/views/procedures it uses, and the order files must be
+// converted and deployed in so that every object exists before it is referenced.
+
+export interface DependencySource {
+  id: string;
+  name: string;
+  content: string;
+}
+
+export interface DependencyNode {
+  key: string; // normalized object name
+  name: string;
+  kind: DatabaseObjectKind;
+  fileId: string;
+  fileName: string;
+}
+
+export type DependencyEdgeType = 'calls' | 'references' | 'triggers';
+
+export interface DependencyEdge {
+  from: string; // node key
+  to: string; // node key
+  type: DependencyEdgeType;
+  fileId: string;
+  line: number;
+}
+
+export interface MissingReference {
+  fileId: string;
+  fileName: string;
+  from: string;
+  name: string;
+  type: DependencyEdgeType;
+  line: number;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  missing: MissingReference[];
+  cycles: string[][]; // node keys of every circular group
+  fileOrder: string[]; // file ids, dependencies first
+}
+
+// Owner and database qualifiers don't matter for matching: db..tbl, dbo.tbl and tbl are the same object
+export const normalizeObjectName = (name: string) =>
+  name.replace(/[[\]"]/g, '').split('.').filter(Boolean).pop()?.toLowerCase() ?? '';
+
+// Objects that live in every Sybase server and are never part of an upload
+const isSystemObject = (key: string) =>
+  /^(sp_|xp_|sys)/.test(key) || ['inserted', 'deleted', 'dual'].includes(key);
+
+const TABLE_CONTEXT = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'REFERENCES', 'TABLE']);
+
+interface Reference {
+  name: string;
+  type: DependencyEdgeType;
+  line: number;
+}
+
+// Table/view names used after FROM, JOIN, INTO, UPDATE, REFERENCES and TRUNCATE TABLE,
+// including comma-separated FROM lists
+const collectTableReferences = (tokens: SybaseToken[]): Reference[] => {
+  const references: Reference[] = [];
+  tokens.forEach((token, index) => {
+    if (!TABLE_CONTEXT.has(token.upper)) return;
+    if (token.upper === 'TABLE' && tokens[index - 1]?.upper !== 'TRUNCATE') return;
+    let i = index + 1;
+    while (tokens[i]) {
+      const target = tokens[i];
+      if (target.type !== 'identifier' && target.type !== 'quotedIdentifier') break;
+      const name = readQualifiedName(tokens, i);
+      if (!name) break;
+      references.push({ name, type: 'references', line: target.line });
+      // Skip the name and an optional alias, then continue after a comma in FROM lists
+      while (tokens[i] && (tokens[i].type !== 'punctuation' || tokens[i].value === '.' || tokens[i].value === '..')) {
+        if (tokens[i].type === 'keyword' && tokens[i].upper !== 'AS') break;
+        i++;
+      }
+      if (token.upper !== 'FROM' || tokens[i]?.value !== ',') break;
+      i++;
+    }
+  });
+  return references;
+};
+
+const collectReferences = (content: string): { objects: ReturnType<typeof listObjects>; references: Reference[] } => {
+  const script = parseSybase(content);
+  const references: Reference[] = [];
+  allStatements(script).forEach(statement => {
+    if (statement.kind === 'exec' && statement.name) {
+      references.push({ name: statement.name, type: 'calls', line: statement.startLine });
+    } else if (statement.kind === 'createTrigger' && statement.table) {
+      references.push({ name: statement.table, type: 'triggers', line: statement.startLine });
+    } else if (statement.kind === 'createIndex' && statement.table) {
+      references.push({ name: statement.table, type: 'references', line: statement.startLine });
+    }
+  });
+  references.push(...collectTableReferences(script.tokens.filter(isSignificantToken)));
+  return { objects: listObjects(script), references };
+};
+
+// Application source files define nothing; the SQL in their string literals is what they use
+const collectFileReferences = (file: DependencySource) => {
+  if (!isApplicationSource(file.name)) return collectReferences(file.content || '');
+  return { objects: [], references: collectReferences(embeddedSqlText(file)).references };
+};
+
+// Tarjan's strongly connected components; groups with more than one node are cycles
+const findCycles = (keys: string[], adjacency: Map<string, Set<string>>): string[][] => {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (key: string) => {
+    indices.set(key, index);
+    lowLinks.set(key, index);
+    index++;
+    stack.push(key);
+    onStack.add(key);
+    adjacency.get(key)?.forEach(next => {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(key, Math.min(lowLinks.get(key)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(key, Math.min(lowLinks.get(key)!, indices.get(next)!));
+      }
+    });
+    if (lowLinks.get(key) === indices.get(key)) {
+      const component: string[] = [];
+      let member: string | undefined;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  keys.forEach(key => {
+    if (!indices.has(key)) visit(key);
+  });
+  return cycles;
+};
+
+export const buildDependencyGraph = (files: DependencySource[]): DependencyGraph => {
+  const nodes: DependencyNode[] = [];
+  const nodeByKey = new Map<string, DependencyNode>();
+  const parsed = files.map(file => ({ file, ...collectFileReferences(file) }));
+
+  parsed.forEach(({ file, objects }) => {
+    objects.forEach(object => {
+      const key = normalizeObjectName(object.name);
+      if (!key || nodeByKey.has(key)) return;
+      const node = { key, name: object.name, kind: object.kind, fileId: file.id, fileName: file.name };
+      nodes.push(node);
+      nodeByKey.set(key, node);
+    });
+  });
+
+  const edges: DependencyEdge[] = [];
+  const missing: MissingReference[] = [];
+  const seen = new Set<string>();
+  parsed.forEach(({ file, objects, references }) => {
+    // A file without CREATE statements still gets a node so its references show up
+    let fileNodes = objects.map(object => nodeByKey.get(normalizeObjectName(object.name))).filter(Boolean) as DependencyNode[];
+    if (fileNodes.length === 0) {
+      const node: DependencyNode = { key: `file:${file.id}`, name: file.name, kind: 'other', fileId: file.id, fileName: file.name };
+      nodes.push(node);
+      nodeByKey.set(node.key, node);
+      fileNodes = [node];
+    }
+    references.forEach(reference => {
+      const to = normalizeObjectName(reference.name);
+      if (!to || reference.name.startsWith('#') || isSystemObject(to)) return;
+      // Attribute the reference to the object whose definition contains it
+      const owner = objects.find(o => reference.line >= o.startLine && reference.line <= o.endLine);
+      const from = owner ? normalizeObjectName(owner.name) : fileNodes[0].key;
+      if (from === to) return;
+      const dedupeKey = `${from}->${to}`;
+      if (seen.has(dedupeKey)) return;
+      seen.add(dedupeKey);
+      if (nodeByKey.has(to)) {
+        edges.push({ from, to, type: reference.type, fileId: file.id, line: reference.line });
+      } else {
+        missing.push({ fileId: file.id, fileName: file.name, from, name: reference.name, type: reference.type, line: reference.line });
+      }
+    });
+  });
+
+  const adjacency = new Map<string, Set<string>>();
+  edges.forEach(edge => {
+    if (!adjacency.has(edge.from)) adjacency.set(edge.from, new Set());
+    adjacency.get(edge.from)!.add(edge.to);
+  });
+  const cycles = findCycles(nodes.map(node => node.key), adjacency);
+
+  return { nodes, edges, missing, cycles, fileOrder: orderFiles(files, edges, nodeByKey) };
+};
+
+// Kahn's algorithm over files; ties keep upload order, files caught in a cycle go last
+const orderFiles = (files: DependencySource[], edges: DependencyEdge[], nodeByKey: Map<string, DependencyNode>): string[] => {
+  const position = new Map(files.map((file, index) => [file.id, index]));
+  const dependsOn = new Map<string, Set<string>>(files.map(file => [file.id, new Set<string>()]));
+  edges.forEach(edge => {
+    const fromFile = nodeByKey.get(edge.from)?.fileId;
+    const toFile = nodeByKey.get(edge.to)?.fileId;
+    if (fromFile && toFile && fromFile !== toFile) dependsOn.get(fromFile)?.add(toFile);
+  });
+
+  const order: string[] = [];
+  const done = new Set<string>();
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (const file of files) {
+      if (done.has(file.id)) continue;
+      if ([...dependsOn.get(file.id)!].every(dep => done.has(dep))) {
+        order.push(file.id);
+        done.add(file.id);
+        progress = true;
+        break; // restart so earlier uploads win ties
+      }
+    }
+  }
+  files
+    .filter(file => !done.has(file.id))
+    .sort((a, b) => position.get(a.id)! - position.get(b.id)!)
+    .forEach(file => order.push(file.id));
+  return order;
+};
+
+// Sort any list by dependency order. `toSource` maps an item to the code the graph is built from.
+export const orderByDependencies = <T>(items: T[], toSource: (item: T, index: number) => DependencySource): T[] => {
+  const sources = items.map(toSource);
+  const { fileOrder } = buildDependencyGraph(sources);
+  const byId = new Map(sources.map((source, index) => [source.id, items[index]]));
+  return fileOrder.map(id => byId.get(id)!).filter(Boolean);
+};
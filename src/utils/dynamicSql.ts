@@ -0,0 +1,451 @@
+import type { AppliedRule, ConversionIssue } from '@/types';
+import { collectDeclaredNames, parseSybase, SybaseScript, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import { applyConversionRules } from '@/utils/conversionRules';
+import { applyFunctionCatalog } from '@/utils/functionCatalog';
+import { rewriteIdentifiers } from '@/utils/identifierConflicts';
+import { SEMANTICS_CATEGORY } from '@/utils/semanticAnalyzer';
+
+// Sybase builds dynamic SQL by concatenating strings into a variable and running it with exec(@sql).
+// Each exec is traced back to the assignments that build its string. When the string is built in
+// straight-line code, the SQL inside the literals is converted like any other code, values that are
+// concatenated into comparisons become bind variables (EXECUTE IMMEDIATE … USING), and variables used
+// as object names go through DBMS_ASSERT. Whatever stays concatenated is reported as a security issue.
+
+export const DYNAMIC_SQL_CATEGORY = 'security';
+
+type PieceRole = 'literal' | 'self' | 'bind' | 'identifier' | 'fragment';
+
+interface Piece {
+  role: PieceRole;
+  tokens: SybaseToken[];
+  text: string; // SQL text for literals, source text otherwise
+  bindValue?: string; // variable bound in place of the piece
+  objectName?: boolean; // identifier in an object position (FROM, INTO, …)
+}
+
+interface Assignment {
+  statement: SybaseStatement;
+  start: number; // offsets of the expression
+  end: number;
+  pieces: Piece[];
+}
+
+export interface DynamicSqlTrace {
+  exec: SybaseStatement;
+  variable?: string; // undefined for exec('…' + @x)
+  assignments: Assignment[];
+  straightLine: boolean; // every assignment runs, in order, whenever the exec does
+  parameters: string[]; // procedure parameters, which carry caller input
+}
+
+interface Entry {
+  statement: SybaseStatement;
+  chain: SybaseStatement[]; // enclosing statements, outermost first
+  batch: number;
+}
+
+const collectEntries = (statements: SybaseStatement[], batch: number, chain: SybaseStatement[], entries: Entry[]) => {
+  statements.forEach(statement => {
+    entries.push({ statement, chain, batch });
+    if (statement.body) collectEntries(statement.body, batch, [...chain, statement], entries);
+    if (statement.elseBody) collectEntries(statement.elseBody, batch, [...chain, statement], entries);
+  });
+  return entries;
+};
+
+const scriptEntries = (script: SybaseScript) => {
+  const entries: Entry[] = [];
+  script.batches.forEach(batch => collectEntries(batch.statements, batch.index, [], entries));
+  return entries;
+};
+
+// Text of a Sybase string literal, either quote style
+const literalText = (token: SybaseToken) => {
+  const quote = token.value[0];
+  return token.value.slice(1, -1).split(quote + quote).join(quote);
+};
+
+const endOf = (token: SybaseToken) => token.offset + token.value.length;
+
+// Split an expression on top-level + into pieces
+const splitPieces = (tokens: SybaseToken[], source: string, variable?: string): Piece[] => {
+  const pieces: Piece[] = [];
+  let depth = 0;
+  let current: SybaseToken[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    const text = source.slice(current[0].offset, endOf(current[current.length - 1]));
+    if (current.length === 1 && current[0].type === 'string') pieces.push({ role: 'literal', tokens: current, text: literalText(current[0]) });
+    else if (current.length === 1 && variable && current[0].value.toLowerCase() === variable) pieces.push({ role: 'self', tokens: current, text });
+    else pieces.push({ role: 'fragment', tokens: current, text });
+    current = [];
+  };
+  tokens.forEach(token => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (depth === 0 && token.value === '+') flush();
+    else current.push(token);
+  });
+  flush();
+  return pieces;
+};
+
+// `@sql = expr` of a SELECT or SET, up to the next top-level comma; undefined if it reads a table
+const assignmentOf = (statement: SybaseStatement, variable: string, source: string): Assignment | undefined => {
+  const tokens = statement.tokens;
+  if (!['select', 'set'].includes(statement.kind) || tokens[1]?.value.toLowerCase() !== variable || tokens[2]?.value !== '=') return undefined;
+  let depth = 0;
+  let end = 3;
+  for (; end < tokens.length; end++) {
+    if (tokens[end].value === '(') depth++;
+    if (tokens[end].value === ')') depth--;
+    if (depth === 0 && (tokens[end].value === ',' || tokens[end].value === ';' || tokens[end].upper === 'FROM')) break;
+  }
+  const expression = tokens.slice(3, end);
+  if (expression.length === 0) return undefined;
+  const fromTable = tokens[end]?.upper === 'FROM';
+  const pieces = fromTable
+    ? [{ role: 'fragment' as const, tokens: expression, text: source.slice(expression[0].offset, endOf(expression[expression.length - 1])) }]
+    : splitPieces(expression, source, variable);
+  return { statement, start: expression[0].offset, end: endOf(expression[expression.length - 1]), pieces };
+};
+
+const isPrefix = (chain: SybaseStatement[], of: SybaseStatement[]) => chain.every((statement, index) => of[index] === statement);
+
+// exec(@sql) / exec('…' + @x): the tokens between the parentheses
+const execArgument = (statement: SybaseStatement) => {
+  const tokens = statement.tokens;
+  if (statement.kind !== 'exec' || tokens[1]?.value !== '(') return undefined;
+  let depth = 0;
+  for (let index = 1; index < tokens.length; index++) {
+    if (tokens[index].value === '(') depth++;
+    if (tokens[index].value === ')' && --depth === 0) return tokens.slice(2, index);
+  }
+  return undefined;
+};
+
+export const traceDynamicSql = (script: SybaseScript): DynamicSqlTrace[] => {
+  const entries = scriptEntries(script);
+  return entries.flatMap(({ statement, chain, batch }): DynamicSqlTrace[] => {
+    const argument = execArgument(statement);
+    if (!argument || argument.length === 0) return [];
+    const procedure = chain.find(parent => parent.kind === 'createProcedure');
+    const parameters = (procedure?.parameters ?? []).map(parameter => parameter.name.toLowerCase());
+
+    if (argument.length !== 1 || argument[0].type !== 'variable') {
+      const pieces = splitPieces(argument, script.source);
+      const assignment = { statement, start: argument[0].offset, end: endOf(argument[argument.length - 1]), pieces };
+      return [{ exec: statement, assignments: [assignment], straightLine: true, parameters }];
+    }
+
+    // Assignments to the variable earlier in the same procedure or batch
+    const variable = argument[0].value.toLowerCase();
+    const scope = entries.filter(entry => entry.batch === batch && entry.chain[0] === chain[0] && entry.statement.startOffset < statement.startOffset);
+    const assignments = scope
+      .map(entry => ({ entry, assignment: assignmentOf(entry.statement, variable, script.source) }))
+      .filter(({ assignment }) => assignment);
+    // The last unconditional assignment that starts the string over
+    const resetIndex = assignments.map(({ entry, assignment }) =>
+      isPrefix(entry.chain, chain) && !assignment!.pieces.some(piece => piece.role === 'self')).lastIndexOf(true);
+    const traced = resetIndex >= 0 ? assignments.slice(resetIndex) : assignments;
+    const straightLine = resetIndex >= 0 && traced.every(({ entry, assignment }) =>
+      isPrefix(entry.chain, chain) && assignment!.pieces.every((piece, index) => piece.role !== 'self' || index === 0));
+    return [{ exec: statement, variable, assignments: traced.map(({ assignment }) => assignment!), straightLine, parameters }];
+  });
+};
+
+// --- Classifying the concatenated pieces ---
+
+// SQL text just before a value: comparisons, LIKE, BETWEEN … AND, VALUES (…) and IN (…) lists
+const VALUE_CONTEXT = /(=|<>|!=|<=|>=|<|>|\blike|\bbetween\s+\S+\s+and|\b(values|in)\s*\([^()]*)\s*$/i;
+const OBJECT_CONTEXT = /\b(from|join|into|update|table|exec|execute)\s*$/i;
+const COLUMN_CONTEXT = /(\bselect|\bby|,|\.)\s*$/i;
+const DDL = /^\s*(create|alter|drop|truncate|grant|revoke)\b/i;
+const NUMERIC_TYPES = new Set(['int', 'integer', 'smallint', 'tinyint', 'bigint', 'numeric', 'decimal', 'float', 'real', 'double', 'money', 'smallmoney', 'bit',
+  'unsigned int', 'unsigned smallint', 'unsigned bigint']);
+
+// Variables and parameters declared with a numeric type: their text in SQL is always a literal value
+const numericVariables = (script: SybaseScript) => new Set(collectDeclaredNames(script)
+  .filter(declared => declared.name.startsWith('@') && NUMERIC_TYPES.has(declared.dataType.name.toLowerCase()))
+  .map(declared => declared.name.toLowerCase()));
+
+// The variable a value piece stands for: @v, convert(type, @v) or cast(@v as type)
+const boundVariable = (piece: Piece) => {
+  const values = piece.tokens.map(token => token.value);
+  if (values.length === 1 && piece.tokens[0].type === 'variable') return values[0];
+  const upper = piece.tokens[0]?.upper;
+  if (upper === 'CONVERT' && values[1] === '(' && values[values.length - 1] === ')') {
+    const comma = values.lastIndexOf(',');
+    const variable = piece.tokens[comma + 1];
+    if (comma > 0 && variable?.type === 'variable' && comma + 2 === values.length - 1 && values.indexOf(',') === comma) return variable.value;
+  }
+  if (upper === 'CAST' && piece.tokens[2]?.type === 'variable' && piece.tokens[3]?.upper === 'AS') return piece.tokens[2].value;
+  return undefined;
+};
+
+const quoteCount = (text: string) => (text.match(/'/g) || []).length;
+
+// Nearest piece before or after, across assignments; the variable's own value is not text
+const neighbour = (pieces: Piece[], index: number, step: number) => {
+  let at = index + step;
+  while (pieces[at]?.role === 'self') at += step;
+  return at;
+};
+
+interface BuiltTemplate {
+  template: string;
+  binds: string[];
+}
+
+// Markers are comments, which every conversion pass leaves as written
+const pieceMarker = (index: number) => `/*DYNSQL_${index}*/`;
+const assignmentMarker = (index: number) => `/*DYNSQL_A${index}*/`;
+
+// Classify every piece, in execution order, against the SQL text built so far. Value pieces become
+// binds only when the whole trace is known; otherwise they are reported like any other concatenation.
+// Outside quotes a piece is only a value when it is numeric or converted: a char variable there is
+// SQL text (`where b = ' + @cond`), and binding it would change the statement.
+const classify = (trace: DynamicSqlTrace, allowBinds: boolean, numeric: Set<string>) => {
+  const pieces = trace.assignments.flatMap(assignment => assignment.pieces);
+  const ddl = DDL.test(pieces.find(piece => piece.role === 'literal')?.text ?? '');
+  let sql = '';
+  pieces.forEach((piece, index) => {
+    if (piece.role === 'literal') {
+      sql += piece.text;
+      return;
+    }
+    if (piece.role === 'self') return;
+    const variable = boundVariable(piece);
+    const inQuotes = quoteCount(sql) % 2 === 1;
+    const quoted = inQuotes && pieces[neighbour(pieces, index, -1)]?.role === 'literal' && pieces[neighbour(pieces, index, 1)]?.role === 'literal';
+    const value = piece.tokens.length > 1 || numeric.has(variable?.toLowerCase() ?? '');
+    if (variable && allowBinds && !ddl && (quoted || (!inQuotes && value && VALUE_CONTEXT.test(sql)))) {
+      piece.role = 'bind';
+      piece.bindValue = variable;
+    } else if (variable && !inQuotes && (OBJECT_CONTEXT.test(sql) || COLUMN_CONTEXT.test(sql)) && piece.tokens.length === 1) {
+      piece.role = 'identifier';
+      piece.objectName = OBJECT_CONTEXT.test(sql);
+    } else {
+      piece.role = 'fragment';
+    }
+    sql += pieceMarker(index);
+  });
+};
+
+// One template for the whole string: literal SQL with binds in place, markers for everything else
+const buildTemplate = (trace: DynamicSqlTrace): BuiltTemplate => {
+  const pieces = trace.assignments.flatMap(assignment => assignment.pieces);
+  const texts = pieces.map(piece => piece.text);
+  const binds: string[] = [];
+  pieces.forEach((piece, index) => {
+    if (piece.role !== 'bind') return;
+    binds.push(piece.bindValue!);
+    const name = `:b${binds.length}`;
+    const previous = neighbour(pieces, index, -1);
+    const next = neighbour(pieces, index, 1);
+    const inQuotes = quoteCount(pieces.slice(0, index).filter(p => p.role === 'literal').map(p => p.text).join('')) % 2 === 1;
+    if (!inQuotes) {
+      texts[index] = name;
+      return;
+    }
+    // '…''' + @v + '''…' → '… :b1 …'; '%' + @v + '%' inside quotes → '%' || :b1 || '%'
+    const closes = texts[previous].endsWith("'");
+    const reopens = texts[next].startsWith("'");
+    if (closes) texts[previous] = texts[previous].slice(0, -1);
+    if (reopens) texts[next] = texts[next].slice(1);
+    texts[index] = `${closes ? '' : "' || "}${name}${reopens ? '' : " || '"}`;
+  });
+
+  let template = '';
+  let index = 0;
+  trace.assignments.forEach((assignment, assignmentIndex) => {
+    template += assignmentMarker(assignmentIndex);
+    assignment.pieces.forEach(piece => {
+      if (piece.role === 'literal' || piece.role === 'bind') template += texts[index];
+      else if (piece.role !== 'self') template += pieceMarker(index);
+      index++;
+    });
+  });
+  return { template, binds };
+};
+
+// The SQL inside the strings goes through the same function catalog, rules and renames as the code around it
+const convertTemplate = (template: string) => {
+  const converted = applyConversionRules(rewriteIdentifiers(applyFunctionCatalog(template).code).code).code;
+  const markers = (text: string) => (text.match(/\/\*DYNSQL_A?\d+\*\//g) || []).join(',');
+  return markers(converted) === markers(template) ? converted : template;
+};
+
+const oracleLiteral = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+const padLines = (replacement: string, original: string) =>
+  replacement + '\n'.repeat(Math.max(0, newlines(original) - newlines(replacement)));
+
+// --- Issues ---
+
+const issueFor = (trace: DynamicSqlTrace, piece: Piece): ConversionIssue | undefined => {
+  const token = piece.tokens[0];
+  const variables = piece.tokens.filter(t => t.type === 'variable').map(t => t.value);
+  const fromCaller = variables.some(variable => trace.parameters.includes(variable.toLowerCase()));
+  const base = {
+    id: `dynamic-sql-${token.line}:${token.column}`,
+    lineNumber: token.line,
+    columnNumber: token.column,
+    codeSide: 'original' as const,
+    originalCode: piece.text,
+    category: DYNAMIC_SQL_CATEGORY,
+  };
+  if (piece.role === 'identifier') {
+    return {
+      ...base,
+      severity: 'warning',
+      description: `${piece.text} is concatenated into dynamic SQL as ${piece.objectName ? 'an object' : 'a column'} name, which cannot be a bind variable. It is checked with DBMS_ASSERT, which raises an error for anything that is not a plain name.`,
+      suggestedFix: 'Prefer a fixed list of allowed names if the value comes from user input.',
+    };
+  }
+  if (piece.role !== 'fragment') return undefined;
+  return {
+    ...base,
+    severity: fromCaller ? 'error' : 'warning',
+    description: `SQL injection risk: ${piece.text} is concatenated into dynamic SQL as text${fromCaller ? ' and comes from a procedure parameter' : ''}, so its value can change the statement itself.`,
+    suggestedFix: 'Pass values as bind variables (EXECUTE IMMEDIATE … USING) and validate names with DBMS_ASSERT; never concatenate caller input as SQL.',
+  };
+};
+
+export interface DynamicSqlRewriteResult {
+  code: string;
+  traces: DynamicSqlTrace[];
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+// Rewrite traceable dynamic SQL and report the rest. Edits keep each statement on its own lines.
+export const rewriteDynamicSql = (code: string): DynamicSqlRewriteResult => {
+  const script = parseSybase(code);
+  const traces = traceDynamicSql(script);
+  if (traces.length === 0) return { code: script.source, traces, issues: [] };
+
+  const edits: { start: number; end: number; text: string; line: number }[] = [];
+  const issues: ConversionIssue[] = [];
+  const rewrittenAssignments = new Set<SybaseStatement>();
+  const numeric = numericVariables(script);
+
+  traces.forEach(trace => {
+    const execToken = trace.exec.tokens[0];
+    classify(trace, trace.straightLine, numeric);
+    trace.assignments.forEach(assignment => assignment.pieces.forEach(piece => {
+      const issue = issueFor(trace, piece);
+      if (issue) issues.push(issue);
+    }));
+
+    if (trace.variable && trace.assignments.length === 0) {
+      issues.push({
+        id: `dynamic-sql-${execToken.line}:${execToken.column}`,
+        lineNumber: execToken.line,
+        columnNumber: execToken.column,
+        codeSide: 'original',
+        severity: trace.parameters.includes(trace.variable) ? 'error' : 'warning',
+        description: trace.parameters.includes(trace.variable)
+          ? `SQL injection risk: ${trace.exec.text} runs SQL text passed in by the caller.`
+          : `The string run by ${trace.exec.text} is not built in this file, so it could not be checked or converted.`,
+        originalCode: trace.exec.text,
+        suggestedFix: 'Build the statement here with bind variables, or restrict the caller to a fixed set of statements.',
+        category: DYNAMIC_SQL_CATEGORY,
+      });
+    }
+    if (!trace.straightLine || trace.assignments.length === 0) {
+      if (trace.assignments.length > 0) {
+        issues.push({
+          id: `dynamic-sql-trace-${execToken.line}:${execToken.column}`,
+          lineNumber: execToken.line,
+          columnNumber: execToken.column,
+          codeSide: 'original',
+          severity: 'warning',
+          description: `${trace.variable} is built in conditional or repeated code before ${trace.exec.text}, so its SQL was not converted and no bind variables were introduced.`,
+          originalCode: trace.exec.text,
+          suggestedFix: 'Convert the SQL inside the strings by hand and pass values with EXECUTE IMMEDIATE … USING in the order they appear.',
+          category: DYNAMIC_SQL_CATEGORY,
+        });
+      }
+      return;
+    }
+    // An assignment shared by two execs is only rewritten for the first
+    if (trace.assignments.some(assignment => rewrittenAssignments.has(assignment.statement))) return;
+    trace.assignments.forEach(assignment => rewrittenAssignments.add(assignment.statement));
+
+    const { template, binds } = buildTemplate(trace);
+    const converted = convertTemplate(template);
+    const pieces = trace.assignments.flatMap(assignment => assignment.pieces);
+    const chunks = converted.split(/\/\*DYNSQL_A\d+\*\//).slice(1);
+    const bindOrder = (converted.match(/:b\d+/g) || []).map(name => binds[parseInt(name.slice(2)) - 1]);
+
+    const expressions = trace.assignments.map((assignment, index) => {
+      const parts = chunks[index].split(/\/\*DYNSQL_(\d+)\*\//).flatMap((part, partIndex) => {
+        if (partIndex % 2 === 0) return part ? [oracleLiteral(part)] : [];
+        const piece = pieces[parseInt(part)];
+        if (piece.role === 'identifier') return [`DBMS_ASSERT.${piece.objectName ? 'QUALIFIED_SQL_NAME' : 'SIMPLE_SQL_NAME'}(${piece.text})`];
+        return [piece.text];
+      });
+      const self = assignment.pieces[0]?.role === 'self' ? [assignment.pieces[0].text] : [];
+      const all = [...self, ...parts];
+      return all.length > 0 ? all.join(' + ') : "''";
+    });
+
+    const execText = `EXECUTE IMMEDIATE ${trace.variable ?? expressions[0]}${bindOrder.length > 0 ? ` USING ${bindOrder.join(', ')}` : ''}`;
+    if (trace.variable) {
+      trace.assignments.forEach((assignment, index) => {
+        const original = script.source.slice(assignment.start, assignment.end);
+        if (expressions[index] !== original) {
+          edits.push({ start: assignment.start, end: assignment.end, text: padLines(expressions[index], original), line: assignment.statement.startLine });
+        }
+      });
+    }
+    edits.push({ start: trace.exec.startOffset, end: trace.exec.endOffset, text: padLines(execText, trace.exec.text), line: execToken.line });
+
+    if (/^\s*select\b/i.test(converted.replace(/\/\*DYNSQL_A\d+\*\//g, '')) && !/\binto\b/i.test(converted)) {
+      issues.push({
+        id: `dynamic-sql-query-${execToken.line}:${execToken.column}`,
+        lineNumber: execToken.line,
+        columnNumber: execToken.column,
+        codeSide: 'original',
+        severity: 'warning',
+        description: `${trace.exec.text} runs a query whose rows went to the client. EXECUTE IMMEDIATE discards them.`,
+        originalCode: trace.exec.text,
+        suggestedFix: `Open a SYS_REFCURSOR for the statement (OPEN cur FOR ${trace.variable ?? 'sql'}${bindOrder.length > 0 ? ` USING ${bindOrder.join(', ')}` : ''}) and return it like the procedure's other result sets.`,
+        // A behaviour change, not a security finding
+        category: SEMANTICS_CATEGORY,
+      });
+    }
+  });
+
+  if (edits.length === 0) return { code: script.source, traces, issues };
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    traces,
+    issues,
+    appliedRule: {
+      ruleId: 'dynamic-sql',
+      description: 'exec(@sql) → EXECUTE IMMEDIATE … USING binds, with the SQL inside the strings converted',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt guidance: what was already done to each dynamic statement
+export const describeDynamicSql = (traces: DynamicSqlTrace[]): string => {
+  if (traces.length === 0) return 'None.';
+  return traces.map(trace => {
+    const line = trace.exec.startLine;
+    if (!trace.straightLine || trace.assignments.length === 0) {
+      return `line ${line}: ${trace.exec.text.split('\n')[0]} was not converted; convert the SQL inside the strings, pass values with USING binds and check names with DBMS_ASSERT`;
+    }
+    return `line ${line}: already EXECUTE IMMEDIATE with the SQL inside the strings converted and values as :bN binds; keep the USING list and its order, only turn + into || and @variables into PL/SQL names`;
+  }).join('\n');
+};
@@ -0,0 +1,333 @@
+import type { CodeFile, ConversionResult } from '@/types';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import { allStatements, parseSybase } from '@/utils/sybaseParser';
+import { createTwoFilesPatch } from 'diff';
+
+// SQL embedded in application code: Java and C# string literals that hold Sybase statements.
+// Every statement is converted on its own, with the same engine as procedures, and written back
+// into its literal. The converted application file, and a patch of it, come out of the normal
+// conversion flow; the statements also feed the dependency graph so the procedures an
+// application calls show up next to the database code.
+
+export type HostLanguage = 'java' | 'csharp';
+
+const HOST_LANGUAGES: Record<string, HostLanguage> = {
+  java: 'java',
+  cs: 'csharp',
+};
+
+export const APPLICATION_SOURCE_EXTENSIONS = Object.keys(HOST_LANGUAGES);
+
+const extensionOf = (fileName: string) => fileName.toLowerCase().split('.').pop() || '';
+
+export const isApplicationSource = (fileName: string) => extensionOf(fileName) in HOST_LANGUAGES;
+
+export const hostLanguageOf = (fileName: string): HostLanguage => HOST_LANGUAGES[extensionOf(fileName)] ?? 'java';
+
+export interface EmbeddedSqlSnippet {
+  id: string;
+  fileId: string;
+  fileName: string;
+  line: number;
+  column: number;
+  endLine: number;
+  start: number; // offset of the first literal (including a C# @/$ prefix)
+  end: number; // offset after the closing quote of the last literal
+  sql: string;
+  literalCount: number; // literals joined with +
+  dynamic: boolean; // joined with variables or interpolated: only part of the statement is known
+  call?: string; // procedure of a JDBC {call …} escape
+}
+
+// --- Scanning the host language ---
+
+interface StringLiteral {
+  start: number;
+  end: number;
+  value: string;
+  interpolated: boolean;
+}
+
+type HostToken =
+  | { kind: 'string'; literal: StringLiteral }
+  | { kind: 'plus' | 'plusAssign' | 'other' };
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '0': '\0', s: ' ' };
+
+// Decodes the escape at content[index] (a backslash); returns the text and the index after it
+const readEscape = (content: string, index: number): [string, number] => {
+  const ch = content[index + 1];
+  if (ch === 'u') {
+    const hex = /^u+([0-9a-fA-F]{4})/.exec(content.slice(index + 1, index + 10));
+    if (hex) return [String.fromCharCode(parseInt(hex[1], 16)), index + 1 + hex[0].length];
+  }
+  if (ch === '\n') return ['', index + 2]; // line continuation in text blocks
+  return [ESCAPES[ch] ?? ch ?? '', index + 2];
+};
+
+// Text blocks keep their content minus the indentation common to every line
+const stripIndent = (text: string) => {
+  const lines = text.split('\n');
+  const indents = lines.filter(line => line.trim()).map(line => /^[ \t]*/.exec(line)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(indent).trimEnd()).join('\n').replace(/\n$/, '');
+};
+
+const readStringLiteral = (content: string, start: number, prefix: string, language: HostLanguage): StringLiteral => {
+  const verbatim = prefix.includes('@');
+  const interpolated = prefix.includes('$');
+  let i = start + prefix.length;
+
+  // Java text blocks and C# raw strings: """ on its own line … """
+  if (content.startsWith('"""', i)) {
+    const close = content.indexOf('"""', i + 3);
+    const end = close < 0 ? content.length : close + 3;
+    const bodyStart = content.indexOf('\n', i);
+    let body = bodyStart < 0 || bodyStart > end - 3 ? '' : content.slice(bodyStart + 1, end - 3);
+    if (language === 'java') body = body.replace(/\\(u+[0-9a-fA-F]{4}|[\s\S])/g, (match, _escape, offset, whole) => readEscape(whole, offset)[0]);
+    return { start, end, value: stripIndent(body), interpolated };
+  }
+
+  i++;
+  let value = '';
+  while (i < content.length) {
+    const ch = content[i];
+    if (verbatim && ch === '"') {
+      if (content[i + 1] !== '"') { i++; break; }
+      value += '"';
+      i += 2;
+      continue;
+    }
+    if (!verbatim) {
+      if (ch === '\\') {
+        const [decoded, next] = readEscape(content, i);
+        value += decoded;
+        i = next;
+        continue;
+      }
+      if (ch === '"') { i++; break; }
+      if (ch === '\n') break; // unterminated
+    }
+    if (interpolated && (ch === '{' || ch === '}')) {
+      if (content[i + 1] === ch) {
+        value += ch;
+        i += 2;
+        continue;
+      }
+      if (ch === '{') {
+        // The hole stays in the text as written; the statement is dynamic anyway
+        const close = content.indexOf('}', i);
+        const holeEnd = close < 0 ? content.length : close + 1;
+        value += content.slice(i, holeEnd);
+        i = holeEnd;
+        continue;
+      }
+    }
+    value += ch;
+    i++;
+  }
+  return { start, end: i, value, interpolated };
+};
+
+const WORD = /[A-Za-z0-9_$]+/y;
+
+// String literals, + operators and everything else; comments and character literals are skipped
+const scanHostSource = (content: string, language: HostLanguage): HostToken[] => {
+  const tokens: HostToken[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    const next = content[i + 1];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '/' && next === '/') {
+      const lineEnd = content.indexOf('\n', i);
+      i = lineEnd < 0 ? content.length : lineEnd;
+    } else if (ch === '/' && next === '*') {
+      const close = content.indexOf('*/', i + 2);
+      i = close < 0 ? content.length : close + 2;
+    } else if (ch === "'") {
+      i++;
+      while (i < content.length && content[i] !== "'" && content[i] !== '\n') i += content[i] === '\\' ? 2 : 1;
+      i++;
+      tokens.push({ kind: 'other' });
+    } else if (ch === '+') {
+      tokens.push({ kind: next === '=' ? 'plusAssign' : next === '+' ? 'other' : 'plus' });
+      i += next === '=' || next === '+' ? 2 : 1;
+    } else {
+      const prefix = language === 'csharp' ? /^[@$]{0,2}(?=")/.exec(content.slice(i, i + 3))?.[0] : ch === '"' ? '' : undefined;
+      if (prefix !== undefined) {
+        const literal = readStringLiteral(content, i, prefix, language);
+        tokens.push({ kind: 'string', literal });
+        i = literal.end;
+        continue;
+      }
+      WORD.lastIndex = i;
+      i = WORD.exec(content) ? WORD.lastIndex : i + 1;
+      tokens.push({ kind: 'other' });
+    }
+  }
+  return tokens;
+};
+
+// --- Recognizing SQL ---
+
+// Statement starts that ordinary UI text does not have
+const SQL_PATTERNS = [
+  /^select\b[\s\S]*\bfrom\b/i,
+  /^select\s+(@@\w+|\w+\s*\()/i,
+  /^insert\s+(into\s+)?[\w.#[\]"]+[\s\S]*\b(values|select)\b/i,
+  /^update\s+[\w.#[\]"]+\s+set\b/i,
+  /^delete\s+(from\b|[\w.#[\]"]+\s+where\b)/i,
+  /^exec(ute)?\s+[\w.[\]"]*[_.\d][\w.[\]"]*\s*($|[@?:'\d-])/i,
+  /^exec(ute)?\s+[\w.[\]"]+\s+[@?:'\d-]/i,
+  /^\{\s*(\?\s*=\s*)?call\s+[\w.[\]"]+/i,
+  /^merge\s+into\b/i,
+  /^truncate\s+table\b/i,
+  /^with\s+\w+(\s*\([^)]*\))?\s+as\s*\(/i,
+  /^(create|drop|alter)\s+(table|view|index|procedure|proc|trigger)\b/i,
+  /^declare\s+@\w+/i,
+  /^(begin\s+tran|set\s+rowcount\b|if\s+(not\s+)?exists\s*\()/i,
+];
+
+export const looksLikeSql = (text: string) => {
+  const trimmed = text.trim();
+  return SQL_PATTERNS.some(pattern => pattern.test(trimmed));
+};
+
+const JDBC_CALL = /^\{\s*(\?\s*=\s*)?call\s+([\w.[\]"]+)\s*(\(([\s\S]*)\))?\s*\}$/i;
+
+// --- Extraction ---
+
+export const extractEmbeddedSql = (file: DependencySource): EmbeddedSqlSnippet[] => {
+  const content = file.content || '';
+  const tokens = scanHostSource(content, hostLanguageOf(file.name));
+  const position = (offset: number) => {
+    const before = content.slice(0, offset);
+    const line = before.split('\n').length;
+    return { line, column: offset - before.lastIndexOf('\n') };
+  };
+
+  const snippets: EmbeddedSqlSnippet[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind !== 'string') continue;
+    // "select … " + "from …" is one statement split over several literals
+    const literals = [token.literal];
+    let last = i;
+    while (tokens[last + 1]?.kind === 'plus' && tokens[last + 2]?.kind === 'string') {
+      literals.push((tokens[last + 2] as { literal: StringLiteral }).literal);
+      last += 2;
+    }
+    const before = tokens[i - 1]?.kind;
+    const after = tokens[last + 1]?.kind;
+    i = last;
+
+    const sql = literals.map(literal => literal.value).join('');
+    if (!looksLikeSql(sql)) continue;
+    const start = literals[0].start;
+    const end = literals[literals.length - 1].end;
+    const { line, column } = position(start);
+    snippets.push({
+      id: `${file.id}:${start}`,
+      fileId: file.id,
+      fileName: file.name,
+      line,
+      column,
+      endLine: position(end).line,
+      start,
+      end,
+      sql: sql.trim(),
+      literalCount: literals.length,
+      dynamic: before === 'plus' || before === 'plusAssign' || after === 'plus' || literals.some(literal => literal.interpolated),
+      call: JDBC_CALL.exec(sql.trim())?.[2],
+    });
+  }
+  return snippets;
+};
+
+// The statements of an application file as Sybase code on the lines they appear on, so the
+// parser-based analyses (dependencies, dialect detection) can read them
+export const embeddedSqlText = (file: DependencySource, snippets = extractEmbeddedSql(file)) => {
+  const lines = (file.content || '').split('\n').map(() => '');
+  snippets.forEach(snippet => {
+    // JDBC escapes are plain procedure calls
+    const sql = snippet.call ? `exec ${snippet.call}` : snippet.sql;
+    sql.split('\n').forEach((text, index) => {
+      const line = Math.min(snippet.line - 1 + index, lines.length - 1);
+      lines[line] = lines[line] ? `${lines[line]} ${text}` : text;
+    });
+  });
+  return lines.join('\n');
+};
+
+export interface EmbeddedSqlSummary {
+  statements: number;
+  dynamic: number;
+  calls: string[]; // procedures run by the application
+}
+
+export const summarizeEmbeddedSql = (file: DependencySource): EmbeddedSqlSummary => {
+  const snippets = extractEmbeddedSql(file);
+  const calls = new Map<string, string>();
+  allStatements(parseSybase(embeddedSqlText(file, snippets))).forEach(statement => {
+    if (statement.kind === 'exec' && statement.name && !calls.has(statement.name.toLowerCase())) {
+      calls.set(statement.name.toLowerCase(), statement.name);
+    }
+  });
+  return {
+    statements: snippets.length,
+    dynamic: snippets.filter(snippet => snippet.dynamic).length,
+    calls: [...calls.values()],
+  };
+};
+
+// A statement converted on its own, like a file with a single batch
+export const snippetAsCodeFile = (snippet: EmbeddedSqlSnippet): CodeFile => ({
+  id: snippet.id,
+  name: `${snippet.fileName}:${snippet.line}`,
+  content: snippet.sql,
+  type: 'other',
+  status: 'pending',
+});
+
+// --- Writing converted statements back ---
+
+// Drivers run single statements without a terminator; PL/SQL blocks keep theirs
+const stripTerminator = (sql: string) => {
+  const code = sql.trim().replace(/\n\/\s*$/, '').trim();
+  return /^(BEGIN|DECLARE|DO)\b/i.test(code) ? code : code.replace(/;\s*$/, '');
+};
+
+const escapeLiteral = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t');
+
+// A string expression in the host language; multi-line statements become one literal per line
+export const toHostLiteral = (sql: string, indent: string) => {
+  const lines = stripTerminator(sql).split('\n').map(line => line.trimEnd()).filter(line => line.trim());
+  return lines
+    .map((line, index) => `"${escapeLiteral(line)}${index < lines.length - 1 ? '\\n' : ''}"`)
+    .join(` +\n${indent}`);
+};
+
+// Replaces the literals of every converted snippet; snippets without a replacement stay as they are
+export const replaceEmbeddedSql = (content: string, snippets: EmbeddedSqlSnippet[], replacements: Map<string, string>) => {
+  const lines = content.split('\n');
+  let code = content;
+  [...snippets].sort((a, b) => b.start - a.start).forEach(snippet => {
+    const sql = replacements.get(snippet.id);
+    if (sql === undefined) return;
+    const indent = `${/^\s*/.exec(lines[snippet.line - 1])![0]}        `;
+    code = code.slice(0, snippet.start) + toHostLiteral(sql, indent) + code.slice(snippet.end);
+  });
+  return code;
+};
+
+// Unified diff of every converted application file, to apply with git apply or patch -p1
+export const buildEmbeddedSqlPatch = (results: ConversionResult[]) =>
+  results
+    .filter(result => isApplicationSource(result.originalFile.name) && result.convertedCode && result.convertedCode !== result.originalFile.content)
+    .map(result => {
+      const name = result.originalFile.name;
+      return createTwoFilesPatch(`a/${name}`, `b/${name}`, result.originalFile.content, result.convertedCode, undefined, undefined, { context: 3 });
+    })
+    .join('');
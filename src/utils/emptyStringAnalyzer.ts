@@ -0,0 +1,237 @@
+import type { ConversionIssue, TargetDialect } from '@/types';
+import { tokenizeSybase, isSignificantToken, SybaseToken } from '@/utils/sybaseParser';
+import { getTargetDialect } from '@/utils/targetDialect';
+
+// Oracle stores '' as NULL. Sybase code that compares with, assigns, inserts or defaults to '' keeps
+// compiling after conversion but behaves differently: col = '' is never true, a NOT NULL column
+// rejects the row and NVL(x, '') is still NULL. Concatenation differs too: Sybase treats NULL as ''
+// in +, so a concatenation of empty parts becomes NULL in Oracle and any NULL part makes the whole
+// PostgreSQL || expression NULL. Both the source and the converted code are scanned, each finding
+// pointing at its own line.
+
+export type EmptyStringRiskKind = 'comparison' | 'assignment' | 'insert' | 'null-default' | 'concatenation';
+
+export const EMPTY_STRING_CATEGORIES: Record<EmptyStringRiskKind, string> = {
+  comparison: 'empty_string_comparison',
+  assignment: 'empty_string_assignment',
+  insert: 'empty_string_insert',
+  'null-default': 'empty_string_null_default',
+  concatenation: 'null_concatenation',
+};
+
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '^=', '<', '>', '<=', '>=', '!<', '!>', 'LIKE']);
+// Keywords that open the clause an expression belongs to
+const CLAUSE_KEYWORDS = new Set(['SET', 'SELECT', 'WHERE', 'ON', 'IF', 'ELSIF', 'WHEN', 'WHILE', 'AND', 'OR', 'NOT', 'HAVING', 'VALUES', 'EXEC', 'EXECUTE', 'RETURN', 'THEN', 'ELSE', 'DEFAULT', 'DECLARE', 'BEGIN', 'END', 'PROC', 'PROCEDURE', 'FUNCTION']);
+const ROUTINE_KEYWORDS = new Set(['PROC', 'PROCEDURE', 'FUNCTION']);
+const NULL_DEFAULT_FUNCTIONS = new Set(['ISNULL', 'NVL', 'COALESCE', 'IFNULL']);
+// Calls that always yield a string, so + next to them is a concatenation
+const STRING_FUNCTIONS = new Set(['RTRIM', 'LTRIM', 'TRIM', 'UPPER', 'LOWER', 'SUBSTRING', 'SUBSTR', 'LEFT', 'RIGHT', 'REPLACE', 'STR', 'CHAR', 'CHR', 'SPACE', 'REPLICATE', 'STUFF', 'CONVERT', 'CAST', 'TO_CHAR']);
+
+interface Finding {
+  kind: EmptyStringRiskKind;
+  token: SybaseToken;
+  description: string;
+  suggestedFix: string;
+}
+
+const isEmptyString = (token?: SybaseToken) => token?.type === 'string' && token.value === "''";
+
+// Nearest clause keyword or unclosed '(' before index, skipping parenthesized expressions
+export const enclosingContext = (tokens: SybaseToken[], index: number): { clause?: string; open?: number } => {
+  let depth = 0;
+  for (let i = index - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.value === ')') depth++;
+    else if (token.value === '(') {
+      if (depth === 0) return { open: i };
+      depth--;
+    } else if (depth === 0 && token.value === ';') return {};
+    else if (depth === 0 && CLAUSE_KEYWORDS.has(token.upper)) return { clause: token.upper };
+  }
+  return {};
+};
+
+// Oracle only: what an empty string literal is used for
+const classifyEmptyString = (tokens: SybaseToken[], index: number): Finding | undefined => {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+  const comparison = (): Finding => ({
+    kind: 'comparison',
+    token,
+    description: `Comparison with '' is never true in Oracle, where '' is NULL.`,
+    suggestedFix: previous?.value === '<>' || previous?.value === '!=' || next?.value === '<>' || next?.value === '!='
+      ? 'Use IS NOT NULL (and TRIM(x) IS NOT NULL if blanks counted as empty).'
+      : 'Use IS NULL (and TRIM(x) IS NULL if blanks counted as empty).',
+  });
+  const assignment = (subject: string): Finding => ({
+    kind: 'assignment',
+    token,
+    description: `${subject} is set to '', which Oracle stores as NULL; later comparisons and NOT NULL checks see NULL.`,
+    suggestedFix: 'Check the value with IS NULL afterwards, or use a sentinel such as a single space if an empty value must be distinguishable.',
+  });
+  const insert = (subject: string): Finding => ({
+    kind: 'insert',
+    token,
+    description: `${subject} '' is stored as NULL in Oracle; NOT NULL columns reject the row and queries for '' no longer find it.`,
+    suggestedFix: 'Make the column nullable and query it with IS NULL, or store a single space.',
+  });
+
+  // NVL(x, '') / ISNULL(x, '') / COALESCE(x, '')
+  if (previous?.value === ',' || previous?.value === '(') {
+    const context = enclosingContext(tokens, index);
+    const callee = context.open !== undefined ? tokens[context.open - 1] : undefined;
+    if (callee && NULL_DEFAULT_FUNCTIONS.has(callee.upper)) {
+      return {
+        kind: 'null-default',
+        token,
+        description: `${callee.value}(…, '') still returns NULL in Oracle, because '' is NULL.`,
+        suggestedFix: 'Drop the NVL and handle NULL where the value is used, or default to a single space.',
+      };
+    }
+    if (callee?.upper === 'IN') return comparison();
+    if (callee?.upper === 'VALUES') return insert('Inserting');
+    return undefined;
+  }
+  if (COMPARISON_OPERATORS.has(previous?.upper) && previous.value !== '=') return comparison();
+  if (COMPARISON_OPERATORS.has(next?.upper) && next.value !== '=') return comparison();
+  if (previous?.value === ':=') return assignment(tokens[index - 2]?.value ?? 'The variable');
+  if (previous?.upper === 'DEFAULT') {
+    const context = enclosingContext(tokens, index - 1);
+    return context.open !== undefined && tokens[context.open - 2]?.upper === 'TABLE' ? insert('Column default') : assignment('The default value');
+  }
+  if (['RETURN', 'THEN', 'ELSE'].includes(previous?.upper)) return assignment('The result');
+  if (previous?.value === '=' || next?.value === '=') {
+    const context = enclosingContext(tokens, index);
+    const left = tokens[index - 2];
+    if (context.clause === 'SET') return left?.type === 'variable' ? assignment(left.value) : insert(`Updating ${left?.value ?? 'the column'} to`);
+    if (context.clause === 'SELECT') return previous?.value === '=' && left?.type === 'variable' ? assignment(left.value) : undefined;
+    if (context.clause === 'EXEC' || context.clause === 'EXECUTE') return assignment(`Parameter ${left?.value ?? ''}`.trim());
+    // create procedure p @name varchar(30) = ''
+    if (ROUTINE_KEYWORDS.has(context.clause) || (context.open !== undefined && ROUTINE_KEYWORDS.has(tokens[context.open - 2]?.upper))) return assignment('The parameter default');
+    return comparison();
+  }
+  return undefined;
+};
+
+// --- Concatenation ---
+
+// End of the operand starting at index: a literal, variable, (qualified) name, call or parenthesized expression
+const readOperand = (tokens: SybaseToken[], index: number): number | undefined => {
+  const token = tokens[index];
+  if (!token) return undefined;
+  const skipParens = (open: number) => {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+      if (tokens[i].value === '(') depth++;
+      else if (tokens[i].value === ')' && --depth === 0) return i + 1;
+    }
+    return tokens.length;
+  };
+  if (token.value === '(') return skipParens(index);
+  if (['string', 'number', 'variable', 'globalVariable'].includes(token.type)) return index + 1;
+  if (token.type !== 'identifier' && token.type !== 'quotedIdentifier' && token.type !== 'keyword') return undefined;
+  if (CLAUSE_KEYWORDS.has(token.upper)) return undefined;
+  let end = index + 1;
+  while (tokens[end]?.value === '.' && tokens[end + 1]) end += 2;
+  return tokens[end]?.value === '(' ? skipParens(end) : end;
+};
+
+interface ConcatenationChain {
+  operands: SybaseToken[][];
+  operators: SybaseToken[];
+}
+
+const findConcatenations = (tokens: SybaseToken[], operator: string): ConcatenationChain[] => {
+  const chains: ConcatenationChain[] = [];
+  const seen = new Set<SybaseToken>();
+  for (let i = 0; i < tokens.length; i++) {
+    let end = readOperand(tokens, i);
+    if (end === undefined || tokens[end]?.value !== operator || seen.has(tokens[end])) continue;
+    const chain: ConcatenationChain = { operands: [tokens.slice(i, end)], operators: [] };
+    while (end !== undefined && tokens[end]?.value === operator) {
+      const next = readOperand(tokens, end + 1);
+      if (next === undefined) break;
+      chain.operators.push(tokens[end]);
+      seen.add(tokens[end]);
+      chain.operands.push(tokens.slice(end + 1, next));
+      end = next;
+    }
+    if (chain.operators.length > 0) chains.push(chain);
+  }
+  return chains;
+};
+
+const isLiteral = (operand: SybaseToken[]) => operand.length === 1 && (operand[0].type === 'string' || operand[0].type === 'number');
+const isNonEmptyLiteral = (operand: SybaseToken[]) => isLiteral(operand) && !isEmptyString(operand[0]);
+const isStringOperand = (operand: SybaseToken[]) =>
+  (operand.length === 1 && operand[0].type === 'string') || STRING_FUNCTIONS.has(operand[0]?.upper) && operand[1]?.value === '(';
+
+const classifyConcatenation = (chain: ConcatenationChain, side: 'original' | 'converted', target: TargetDialect): Finding | undefined => {
+  // Sybase + is also arithmetic; only chains with a string part are concatenations
+  if (side === 'original' && !chain.operands.some(isStringOperand)) return undefined;
+  const nullable = chain.operands.filter(operand => !isLiteral(operand));
+  if (nullable.length === 0) return undefined;
+  const token = chain.operators[0];
+  if (target === 'postgresql') {
+    return {
+      kind: 'concatenation',
+      token,
+      description: side === 'original'
+        ? 'Sybase treats NULL as \'\' in + concatenation; with || in PostgreSQL a NULL part makes the whole result NULL.'
+        : 'A NULL part makes this || concatenation NULL, where Sybase treated it as \'\'.',
+      suggestedFix: 'Use concat(...) or concat_ws(...), which skip NULL parts, or wrap each nullable part in coalesce(x, \'\').',
+    };
+  }
+  if (chain.operands.some(isNonEmptyLiteral)) return undefined;
+  return {
+    kind: 'concatenation',
+    token,
+    description: 'If every part of this concatenation is empty the result is \'\' in Sybase but NULL in Oracle.',
+    suggestedFix: 'Handle the NULL result explicitly (NVL on the whole expression to a sentinel, or IS NULL where it is tested).',
+  };
+};
+
+// Empty-string and NULL concatenation risks in one side of a conversion
+export const findEmptyStringRisks = (
+  code: string,
+  side: 'original' | 'converted',
+  target: TargetDialect = getTargetDialect()
+): ConversionIssue[] => {
+  const tokens = tokenizeSybase(code, { doubleQuotedStrings: side === 'original' }).filter(isSignificantToken);
+  const lines = code.split('\n');
+  const findings: Finding[] = [];
+  // PostgreSQL keeps '' distinct from NULL; only concatenation changes there
+  if (target === 'oracle') {
+    tokens.forEach((token, index) => {
+      if (!isEmptyString(token)) return;
+      const finding = classifyEmptyString(tokens, index);
+      if (finding) findings.push(finding);
+    });
+  }
+  findConcatenations(tokens, side === 'original' ? '+' : '||').forEach(chain => {
+    const finding = classifyConcatenation(chain, side, target);
+    if (finding) findings.push(finding);
+  });
+
+  return findings
+    .sort((a, b) => a.token.offset - b.token.offset)
+    .map(finding => ({
+      id: `empty-string-${finding.kind}-${side}-${finding.token.line}:${finding.token.column}`,
+      lineNumber: finding.token.line,
+      columnNumber: finding.token.column,
+      codeSide: side,
+      // Left in the Oracle output a comparison with '' is a definite bug; in the source it is a risk to review
+      severity: side === 'converted' && finding.kind === 'comparison' ? 'error' : finding.kind === 'concatenation' && target === 'oracle' ? 'info' : 'warning',
+      description: finding.description,
+      originalCode: lines[finding.token.line - 1]?.trim(),
+      suggestedFix: finding.suggestedFix,
+      category: EMPTY_STRING_CATEGORIES[finding.kind],
+    }));
+};
+
+// Source and converted code together, for the issue list of a conversion
+export const analyzeEmptyStrings = (originalCode: string, convertedCode: string, target: TargetDialect = getTargetDialect()): ConversionIssue[] => [
+  ...findEmptyStringRisks(originalCode, 'original', target),
+  ...findEmptyStringRisks(convertedCode, 'converted', target),
+];
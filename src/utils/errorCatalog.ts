@@ -0,0 +1,310 @@
+import type { AppliedRule, ConversionIssue, ErrorCodeMapping } from '@/types';
+import { parseSybase, allStatements, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import type { DependencySource } from '@/utils/dependencyGraph';
+
+// Project-wide catalog of Sybase error numbers (RAISERROR and sp_addmessage). Every number gets
+// one Oracle code in the user-defined range -20000..-20999, optionally with a named exception,
+// and every RAISERROR in every file is rewritten with that same code.
+
+export const ERROR_PACKAGE = 'app_errors';
+export const MIN_ORACLE_ERROR = -20999;
+export const MAX_ORACLE_ERROR = -20000;
+export const ERROR_CATALOG_CATEGORY = 'error_catalog';
+
+export interface ErrorCatalogUsage {
+  fileId: string;
+  fileName: string;
+  line: number;
+}
+
+export interface ErrorCatalogEntry {
+  number: number;
+  messages: string[]; // distinct message texts, sp_addmessage first
+  usages: ErrorCatalogUsage[];
+  definedBySpAddmessage: boolean;
+}
+
+// --- Mapping registry (persisted per browser, like the temp table strategies) ---
+const MAPPING_STORAGE_KEY = 'error-code-mappings';
+
+export const getErrorMappings = (): Record<number, ErrorCodeMapping> => {
+  if (typeof localStorage === 'undefined') return {};
+  const saved = localStorage.getItem(MAPPING_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const setErrorMapping = (number: number, mapping: ErrorCodeMapping) => {
+  const mappings = { ...getErrorMappings(), [number]: mapping };
+  localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(mappings));
+  return mappings;
+};
+
+export const isValidOracleErrorCode = (code: number) =>
+  Number.isInteger(code) && code >= MIN_ORACLE_ERROR && code <= MAX_ORACLE_ERROR;
+
+export const isValidExceptionName = (name: string) => /^[a-z][\w$#]{0,127}$/i.test(name);
+
+// Sybase string literal (single or double quoted) as its text
+const literalText = (token: SybaseToken) => {
+  const quote = token.value[0];
+  return token.value.slice(1, -1).split(quote + quote).join(quote);
+};
+
+const oracleLiteral = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+// Comma-separated arguments after the format string, as written
+const splitArguments = (source: string, tokens: SybaseToken[]): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let start: SybaseToken | undefined;
+  let end: SybaseToken | undefined;
+  const flush = () => {
+    if (start && end) args.push(source.slice(start.offset, end.offset + end.value.length));
+    start = end = undefined;
+  };
+  tokens.forEach(token => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (token.value === ',' && depth === 0) return flush();
+    if (token.value === ';') return;
+    start = start ?? token;
+    end = token;
+  });
+  flush();
+  return args;
+};
+
+interface ParsedRaiserror {
+  number: number;
+  message?: string; // literal text
+  messageExpression?: string; // @variable used as the format
+  args: string[];
+}
+
+// `raiserror <number> [format] [, args]`; undefined for forms that are left to the model
+const parseRaiserror = (statement: SybaseStatement, source: string): ParsedRaiserror | undefined => {
+  const [, numberToken, formatToken, ...rest] = statement.tokens;
+  if (numberToken?.type !== 'number' || !/^\d+$/.test(numberToken.value)) return undefined;
+  if (statement.tokens.some(token => token.upper === 'WITH')) return undefined; // WITH ERRORDATA
+  const number = parseInt(numberToken.value);
+  if (!formatToken || formatToken.value === ';') return { number, args: [] };
+  const hasFormat = formatToken.type === 'string' || formatToken.type === 'variable';
+  const argTokens = hasFormat ? rest : [formatToken, ...rest];
+  const args = splitArguments(source, argTokens[0]?.value === ',' ? argTokens.slice(1) : argTokens);
+  if (formatToken.type === 'string') return { number, message: literalText(formatToken), args };
+  if (formatToken.type === 'variable') return { number, messageExpression: formatToken.value, args };
+  return { number, args };
+};
+
+// `exec sp_addmessage <number>, <message>`
+const parseAddMessage = (statement: SybaseStatement) => {
+  if (statement.kind !== 'exec' || statement.name?.toLowerCase() !== 'sp_addmessage') return undefined;
+  const numberToken = statement.tokens[2];
+  const messageToken = statement.tokens.slice(3).find(token => token.type === 'string');
+  if (numberToken?.type !== 'number') return undefined;
+  return { number: parseInt(numberToken.value), message: messageToken ? literalText(messageToken) : undefined };
+};
+
+// Every error number raised or registered anywhere in the upload
+export const detectErrorCatalog = (files: DependencySource[]): ErrorCatalogEntry[] => {
+  const entries = new Map<number, ErrorCatalogEntry>();
+  const entryFor = (number: number) => {
+    if (!entries.has(number)) entries.set(number, { number, messages: [], usages: [], definedBySpAddmessage: false });
+    return entries.get(number)!;
+  };
+
+  files.forEach(file => {
+    const script = parseSybase(file.content || '');
+    allStatements(script).forEach(statement => {
+      const usage = { fileId: file.id, fileName: file.name, line: statement.startLine };
+      const added = parseAddMessage(statement);
+      if (added) {
+        const entry = entryFor(added.number);
+        entry.definedBySpAddmessage = true;
+        if (added.message && !entry.messages.includes(added.message)) entry.messages.unshift(added.message);
+        entry.usages.push(usage);
+        return;
+      }
+      const raised = statement.kind === 'raiserror' ? parseRaiserror(statement, script.source) : undefined;
+      if (!raised) return;
+      const entry = entryFor(raised.number);
+      if (raised.message && !entry.messages.includes(raised.message)) entry.messages.push(raised.message);
+      entry.usages.push(usage);
+    });
+  });
+
+  return [...entries.values()].sort((a, b) => a.number - b.number);
+};
+
+// Saved mappings win. Sybase user errors 20000-20999 keep their number; anything else gets the
+// next free code counting up from -20001, in error number order. Once -20999 is taken the rest
+// stay unmapped: RAISE_APPLICATION_ERROR rejects anything outside the range at runtime.
+export const resolveErrorMappings = (
+  entries: ErrorCatalogEntry[],
+  saved: Record<number, ErrorCodeMapping> = getErrorMappings()
+): Record<number, ErrorCodeMapping> => {
+  const resolved: Record<number, ErrorCodeMapping> = {};
+  const used = new Set<number>();
+  entries.forEach(entry => {
+    const mapping = saved[entry.number];
+    if (mapping) {
+      resolved[entry.number] = { ...mapping, message: mapping.message ?? entry.messages[0] };
+      used.add(mapping.oracleCode);
+    }
+  });
+  entries.forEach(entry => {
+    if (resolved[entry.number] || entry.number < 20000 || entry.number > 20999 || used.has(-entry.number)) return;
+    resolved[entry.number] = { oracleCode: -entry.number, message: entry.messages[0] };
+    used.add(-entry.number);
+  });
+  let next = -20001;
+  entries.forEach(entry => {
+    if (resolved[entry.number]) return;
+    while (used.has(next) && next >= MIN_ORACLE_ERROR) next--;
+    if (next < MIN_ORACLE_ERROR) return;
+    resolved[entry.number] = { oracleCode: next, message: entry.messages[0] };
+    used.add(next);
+  });
+  return resolved;
+};
+
+// Pin every number in the upload to its resolved code, so files converted one at a time agree
+export const syncErrorCatalog = (files: DependencySource[]) => {
+  const mappings = resolveErrorMappings(detectErrorCatalog(files));
+  localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify({ ...getErrorMappings(), ...mappings }));
+  return mappings;
+};
+
+// Oracle code for a number that was never catalogued
+const mappingFor = (number: number, mappings: Record<number, ErrorCodeMapping>): ErrorCodeMapping =>
+  mappings[number] ?? { oracleCode: number >= 20000 && number <= 20999 ? -number : MAX_ORACLE_ERROR };
+
+// Sybase %1!, %2! placeholders become concatenated arguments
+const formatMessage = (parsed: ParsedRaiserror, fallback?: string): string => {
+  if (parsed.messageExpression) return parsed.messageExpression;
+  const message = parsed.message ?? fallback ?? `Error ${parsed.number}`;
+  const parts = message.split(/%(\d+)!/);
+  const pieces = parts.map((part, index) => {
+    if (index % 2 === 0) return part ? oracleLiteral(part) : '';
+    return parsed.args[parseInt(part) - 1] ?? `'%${part}!'`;
+  }).filter(Boolean);
+  return pieces.length > 0 ? pieces.join(' || ') : "''";
+};
+
+export interface ErrorRewriteResult {
+  code: string;
+  numbers: number[];
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+// RAISERROR → RAISE_APPLICATION_ERROR (or RAISE of the named exception when there is no message),
+// and sp_addmessage calls become comments. The line count is kept.
+export const rewriteRaiserrors = (code: string, mappings: Record<number, ErrorCodeMapping> = getErrorMappings()): ErrorRewriteResult => {
+  const script = parseSybase(code);
+  const edits: { start: number; end: number; text: string; line: number }[] = [];
+  const numbers = new Set<number>();
+  const issues: ConversionIssue[] = [];
+  // Numbers with no catalog code and no code of their own are raised with the fallback code
+  const reportUnmapped = (number: number, statement: SybaseStatement) => {
+    if (mappings[number] || (number >= 20000 && number <= 20999)) return;
+    issues.push({
+      id: `error-unmapped-${number}-${statement.startLine}`,
+      lineNumber: statement.startLine,
+      codeSide: 'original',
+      severity: 'warning',
+      description: `Sybase error ${number} has no Oracle code: every code from -20001 to -20999 is assigned. It is raised as ORA${MAX_ORACLE_ERROR} until it gets a code in the error catalog.`,
+      originalCode: statement.text.trim(),
+      suggestedFix: 'Free a code in the error catalog, or give several error numbers the same code, and convert the file again.',
+      category: ERROR_CATALOG_CATEGORY,
+    });
+  };
+
+  allStatements(script).forEach(statement => {
+    const pad = (text: string) => text + '\n'.repeat((statement.text.match(/\n/g) || []).length);
+    const added = parseAddMessage(statement);
+    if (added) {
+      const mapping = mappingFor(added.number, mappings);
+      numbers.add(added.number);
+      reportUnmapped(added.number, statement);
+      edits.push({ start: statement.startOffset, end: statement.endOffset, text: pad(`/* sp_addmessage ${added.number}: raised as ORA${mapping.oracleCode} (see error catalog) */`), line: statement.startLine });
+      return;
+    }
+    const parsed = statement.kind === 'raiserror' ? parseRaiserror(statement, script.source) : undefined;
+    if (!parsed) return;
+    const mapping = mappingFor(parsed.number, mappings);
+    numbers.add(parsed.number);
+    reportUnmapped(parsed.number, statement);
+    const text = mapping.exceptionName && !parsed.message && !parsed.messageExpression
+      ? `RAISE ${ERROR_PACKAGE}.${mapping.exceptionName}`
+      : `RAISE_APPLICATION_ERROR(${mapping.oracleCode}, ${formatMessage(parsed, mapping.message)})`;
+    edits.push({ start: statement.startOffset, end: statement.endOffset, text: pad(text), line: statement.startLine });
+  });
+
+  if (edits.length === 0) return { code: script.source, numbers: [], issues };
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    numbers: [...numbers],
+    issues,
+    appliedRule: {
+      ruleId: 'raiserror',
+      description: 'RAISERROR n → RAISE_APPLICATION_ERROR with the project error catalog code',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))],
+    },
+  };
+};
+
+// Package with the named exceptions, so handlers can catch them by name
+export const generateErrorPackageDdl = (mappings: Record<number, ErrorCodeMapping>): string => {
+  const named = Object.entries(mappings).filter(([, mapping]) => mapping.exceptionName);
+  if (named.length === 0) return '';
+  const declarations = named.map(([number, mapping]) =>
+    `  -- Sybase error ${number}\n  ${mapping.exceptionName} EXCEPTION;\n  PRAGMA EXCEPTION_INIT(${mapping.exceptionName}, ${mapping.oracleCode});`);
+  return `CREATE OR REPLACE PACKAGE ${ERROR_PACKAGE} AS\n${declarations.join('\n')}\nEND ${ERROR_PACKAGE};\n/\n`;
+};
+
+// Reference table for application teams: Sybase number, Oracle code, exception and message
+export const exportErrorCatalogSql = (entries: ErrorCatalogEntry[], mappings: Record<number, ErrorCodeMapping>): string => {
+  const rows = entries.map(entry => {
+    const mapping = mappings[entry.number] ?? mappingFor(entry.number, mappings);
+    const exceptionName = mapping.exceptionName ? oracleLiteral(`${ERROR_PACKAGE}.${mapping.exceptionName}`) : 'NULL';
+    const message = mapping.message ?? entry.messages[0];
+    return `INSERT INTO error_code_map (sybase_error, oracle_error, exception_name, message) VALUES (${entry.number}, ${mapping.oracleCode}, ${exceptionName}, ${message ? oracleLiteral(message) : 'NULL'});`;
+  });
+  return [
+    'CREATE TABLE error_code_map (',
+    '  sybase_error   NUMBER PRIMARY KEY,',
+    '  oracle_error   NUMBER NOT NULL,',
+    '  exception_name VARCHAR2(261),',
+    '  message        VARCHAR2(4000)',
+    ');',
+    '',
+    ...rows,
+    'COMMIT;',
+    '',
+  ].join('\n');
+};
+
+export const exportErrorCatalogCsv = (entries: ErrorCatalogEntry[], mappings: Record<number, ErrorCodeMapping>): string => {
+  const csv = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+  const rows = entries.map(entry => {
+    const mapping = mappings[entry.number] ?? mappingFor(entry.number, mappings);
+    return [
+      entry.number,
+      mapping.oracleCode,
+      mapping.exceptionName ? `${ERROR_PACKAGE}.${mapping.exceptionName}` : '',
+      mapping.message ?? entry.messages[0],
+      [...new Set(entry.usages.map(usage => usage.fileName))].join('; '),
+    ].map(csv).join(',');
+  });
+  return ['sybase_error,oracle_error,exception_name,message,files', ...rows].join('\n') + '\n';
+};
+
+// Shared error package for the current upload with the saved mappings; '' when no names are assigned
+export const buildErrorPackageDdl = (files: DependencySource[]) =>
+  generateErrorPackageDdl(resolveErrorMappings(detectErrorCatalog(files)));
@@ -0,0 +1,435 @@
+import type { AppliedRule, FiredFunctionMapping, FunctionMapping, SourceDialect, TargetDialect } from '@/types';
+import { parseSybase, isSignificantToken, SybaseToken } from '@/utils/sybaseParser';
+import { mapDataType } from '@/utils/dataTypeProfile';
+import { getSourceDialect } from '@/utils/sourceDialect';
+import { getTargetDialect } from '@/utils/targetDialect';
+
+// Catalog of Sybase built-in function rewrites. The defaults cover the functions whose arguments
+// need reordering or whose style/unit argument changes the Oracle expression; teams add their own
+// entries per project. Every call is matched on name, argument count and argument values, and the
+// first matching entry (project entries before defaults) replaces it. Entries have an Oracle and
+// optionally a PostgreSQL template; the project target picks which one is used.
+
+// Date part names and their Sybase abbreviations
+const DATE_UNITS: Record<string, string[]> = {
+  year: ['year', 'yy', 'yyyy'],
+  quarter: ['quarter', 'qq', 'q'],
+  month: ['month', 'mm', 'm'],
+  week: ['week', 'wk', 'ww'],
+  day: ['day', 'dd', 'd'],
+  dayofyear: ['dayofyear', 'dy', 'y'],
+  weekday: ['weekday', 'dw'],
+  hour: ['hour', 'hh'],
+  minute: ['minute', 'mi', 'n'],
+  second: ['second', 'ss', 's'],
+};
+
+// CONVERT style codes and the matching Oracle format models
+const CONVERT_STYLES: Record<string, string> = {
+  '0': 'MON DD YYYY HH:MIAM', '100': 'MON DD YYYY HH:MIAM',
+  '1': 'MM/DD/YY', '101': 'MM/DD/YYYY',
+  '2': 'YY.MM.DD', '102': 'YYYY.MM.DD',
+  '3': 'DD/MM/YY', '103': 'DD/MM/YYYY',
+  '4': 'DD.MM.YY', '104': 'DD.MM.YYYY',
+  '5': 'DD-MM-YY', '105': 'DD-MM-YYYY',
+  '6': 'DD MON YY', '106': 'DD MON YYYY',
+  '7': 'MON DD, YY', '107': 'MON DD, YYYY',
+  '8': 'HH24:MI:SS', '108': 'HH24:MI:SS',
+  '10': 'MM-DD-YY', '110': 'MM-DD-YYYY',
+  '11': 'YY/MM/DD', '111': 'YYYY/MM/DD',
+  '12': 'YYMMDD', '112': 'YYYYMMDD',
+  '23': 'YYYY-MM-DD"T"HH24:MI:SS',
+};
+
+const CHARACTER_TYPES = ['varchar', 'char', 'nvarchar', 'nchar', 'univarchar', 'unichar'];
+const DATE_TYPES = ['datetime', 'smalldatetime', 'date', 'bigdatetime'];
+const TIME_ONLY_STYLES = ['8', '108'];
+
+const dateUnitMapping = (fn: string, unit: string, argumentCount: number, oracleTemplate: string, description: string): FunctionMapping => ({
+  id: `${fn}-${unit}`,
+  sybaseFunction: fn,
+  argumentCount,
+  conditions: [{ argument: 1, values: DATE_UNITS[unit] }],
+  oracleTemplate,
+  description,
+  builtIn: true,
+});
+
+const convertStyleMappings = (): FunctionMapping[] => Object.entries(CONVERT_STYLES).flatMap(([style, format]) => {
+  const toChar: FunctionMapping = {
+    id: `convert-${style}-char`,
+    sybaseFunction: 'convert',
+    argumentCount: 3,
+    conditions: [{ argument: 1, values: CHARACTER_TYPES }, { argument: 3, values: [style] }],
+    oracleTemplate: `TO_CHAR({2}, '${format}')`,
+    postgresTemplate: `TO_CHAR({2}, '${format}')`,
+    description: `Date to string, style ${style}`,
+    builtIn: true,
+  };
+  if (TIME_ONLY_STYLES.includes(style)) return [toChar];
+  return [toChar, {
+    id: `convert-${style}-date`,
+    sybaseFunction: 'convert',
+    argumentCount: 3,
+    conditions: [{ argument: 1, values: DATE_TYPES }, { argument: 3, values: [style] }],
+    oracleTemplate: `TO_DATE({2}, '${format}')`,
+    postgresTemplate: `TO_TIMESTAMP({2}, '${format}')`,
+    description: `String to date, style ${style}`,
+    builtIn: true,
+  }];
+});
+
+// PostgreSQL forms of the defaults, by entry id. Entries without one are left to the model under a
+// PostgreSQL target.
+const POSTGRES_TEMPLATES: Record<string, string> = {
+  'convert-cast': 'CAST({2} AS {type:1})',
+
+  'datediff-year': 'EXTRACT(YEAR FROM {3}) - EXTRACT(YEAR FROM {2})',
+  'datediff-quarter': '(EXTRACT(YEAR FROM {3}) - EXTRACT(YEAR FROM {2})) * 4 + EXTRACT(QUARTER FROM {3}) - EXTRACT(QUARTER FROM {2})',
+  'datediff-month': '(EXTRACT(YEAR FROM {3}) - EXTRACT(YEAR FROM {2})) * 12 + EXTRACT(MONTH FROM {3}) - EXTRACT(MONTH FROM {2})',
+  'datediff-week': "(CAST(DATE_TRUNC('week', {3}) AS DATE) - CAST(DATE_TRUNC('week', {2}) AS DATE)) / 7",
+  'datediff-day': 'CAST({3} AS DATE) - CAST({2} AS DATE)',
+  'datediff-hour': "EXTRACT(EPOCH FROM DATE_TRUNC('hour', {3}) - DATE_TRUNC('hour', {2})) / 3600",
+  'datediff-minute': "EXTRACT(EPOCH FROM DATE_TRUNC('minute', {3}) - DATE_TRUNC('minute', {2})) / 60",
+  'datediff-second': "EXTRACT(EPOCH FROM DATE_TRUNC('second', {3}) - DATE_TRUNC('second', {2}))",
+
+  'dateadd-year': "{3} + ({2}) * INTERVAL '1 year'",
+  'dateadd-quarter': "{3} + ({2}) * INTERVAL '3 months'",
+  'dateadd-month': "{3} + ({2}) * INTERVAL '1 month'",
+  'dateadd-week': "{3} + ({2}) * INTERVAL '1 week'",
+  'dateadd-day': "{3} + ({2}) * INTERVAL '1 day'",
+  'dateadd-hour': "{3} + ({2}) * INTERVAL '1 hour'",
+  'dateadd-minute': "{3} + ({2}) * INTERVAL '1 minute'",
+  'dateadd-second': "{3} + ({2}) * INTERVAL '1 second'",
+
+  'datepart-year': 'EXTRACT(YEAR FROM {2})',
+  'datepart-quarter': 'EXTRACT(QUARTER FROM {2})',
+  'datepart-month': 'EXTRACT(MONTH FROM {2})',
+  'datepart-week': 'EXTRACT(WEEK FROM {2})',
+  'datepart-day': 'EXTRACT(DAY FROM {2})',
+  'datepart-dayofyear': 'EXTRACT(DOY FROM {2})',
+  'datepart-weekday': 'EXTRACT(DOW FROM {2}) + 1',
+  'datepart-hour': 'EXTRACT(HOUR FROM {2})',
+  'datepart-minute': 'EXTRACT(MINUTE FROM {2})',
+  'datepart-second': 'FLOOR(EXTRACT(SECOND FROM {2}))',
+
+  'datename-month': "TO_CHAR({2}, 'FMMonth')",
+  'datename-weekday': "TO_CHAR({2}, 'FMDay')",
+
+  charindex: 'POSITION({1} IN {2})',
+  'charindex-start': 'COALESCE(NULLIF(POSITION({1} IN SUBSTR({2}, {3})), 0) + {3} - 1, 0)',
+  patindex: 'REGEXP_INSTR({2}, {regex:1})',
+  stuff: 'OVERLAY({1} PLACING {4} FROM {2} FOR {3})',
+  str: 'LPAD(CAST(ROUND({1}) AS TEXT), 10)',
+  'str-length': 'LPAD(CAST(ROUND({1}) AS TEXT), {2})',
+  'str-decimals': 'LPAD(CAST(ROUND({1}, {3}) AS TEXT), {2})',
+
+  iif: 'CASE WHEN {1} THEN {2} ELSE {3} END',
+  eomonth: "CAST(DATE_TRUNC('month', {1}) + INTERVAL '1 month - 1 day' AS DATE)",
+  datefromparts: 'MAKE_DATE({1}, {2}, {3})',
+  sysdatetime: 'LOCALTIMESTAMP',
+  sysutcdatetime: "(NOW() AT TIME ZONE 'UTC')",
+  'error-message': 'SQLERRM',
+  'error-number': 'SQLSTATE',
+};
+
+export const DEFAULT_FUNCTION_MAPPINGS: FunctionMapping[] = ([
+  ...convertStyleMappings(),
+  { id: 'convert-cast', sybaseFunction: 'convert', argumentCount: 2, oracleTemplate: 'CAST({2} AS {type:1})', description: 'Type conversion without a style', builtIn: true },
+
+  dateUnitMapping('datediff', 'year', 3, 'EXTRACT(YEAR FROM {3}) - EXTRACT(YEAR FROM {2})', 'Year boundaries crossed'),
+  dateUnitMapping('datediff', 'quarter', 3, "MONTHS_BETWEEN(TRUNC({3}, 'Q'), TRUNC({2}, 'Q')) / 3", 'Quarter boundaries crossed'),
+  dateUnitMapping('datediff', 'month', 3, "MONTHS_BETWEEN(TRUNC({3}, 'MM'), TRUNC({2}, 'MM'))", 'Month boundaries crossed'),
+  dateUnitMapping('datediff', 'week', 3, "(TRUNC({3}, 'IW') - TRUNC({2}, 'IW')) / 7", 'Week boundaries crossed (ISO weeks start on Monday, Sybase on Sunday)'),
+  dateUnitMapping('datediff', 'day', 3, 'TRUNC({3}) - TRUNC({2})', 'Day boundaries crossed'),
+  dateUnitMapping('datediff', 'hour', 3, "ROUND((TRUNC({3}, 'HH24') - TRUNC({2}, 'HH24')) * 24)", 'Hour boundaries crossed'),
+  dateUnitMapping('datediff', 'minute', 3, "ROUND((TRUNC({3}, 'MI') - TRUNC({2}, 'MI')) * 1440)", 'Minute boundaries crossed'),
+  dateUnitMapping('datediff', 'second', 3, 'ROUND((CAST({3} AS DATE) - CAST({2} AS DATE)) * 86400)', 'Seconds between the two values'),
+
+  dateUnitMapping('dateadd', 'year', 3, 'ADD_MONTHS({3}, 12 * ({2}))', 'Add years'),
+  dateUnitMapping('dateadd', 'quarter', 3, 'ADD_MONTHS({3}, 3 * ({2}))', 'Add quarters'),
+  dateUnitMapping('dateadd', 'month', 3, 'ADD_MONTHS({3}, {2})', 'Add months (ADD_MONTHS keeps month-end dates at month end)'),
+  dateUnitMapping('dateadd', 'week', 3, '{3} + 7 * ({2})', 'Add weeks'),
+  dateUnitMapping('dateadd', 'day', 3, '{3} + ({2})', 'Add days'),
+  dateUnitMapping('dateadd', 'hour', 3, "{3} + NUMTODSINTERVAL({2}, 'HOUR')", 'Add hours'),
+  dateUnitMapping('dateadd', 'minute', 3, "{3} + NUMTODSINTERVAL({2}, 'MINUTE')", 'Add minutes'),
+  dateUnitMapping('dateadd', 'second', 3, "{3} + NUMTODSINTERVAL({2}, 'SECOND')", 'Add seconds'),
+
+  dateUnitMapping('datepart', 'year', 2, 'EXTRACT(YEAR FROM {2})', 'Year'),
+  dateUnitMapping('datepart', 'quarter', 2, "TO_NUMBER(TO_CHAR({2}, 'Q'))", 'Quarter'),
+  dateUnitMapping('datepart', 'month', 2, 'EXTRACT(MONTH FROM {2})', 'Month'),
+  dateUnitMapping('datepart', 'week', 2, "TO_NUMBER(TO_CHAR({2}, 'WW'))", 'Week of year'),
+  dateUnitMapping('datepart', 'day', 2, 'EXTRACT(DAY FROM {2})', 'Day of month'),
+  dateUnitMapping('datepart', 'dayofyear', 2, "TO_NUMBER(TO_CHAR({2}, 'DDD'))", 'Day of year'),
+  dateUnitMapping('datepart', 'weekday', 2, "TO_NUMBER(TO_CHAR({2}, 'D'))", 'Day of week (depends on NLS_TERRITORY, Sybase on @@datefirst)'),
+  dateUnitMapping('datepart', 'hour', 2, "TO_NUMBER(TO_CHAR({2}, 'HH24'))", 'Hour'),
+  dateUnitMapping('datepart', 'minute', 2, "TO_NUMBER(TO_CHAR({2}, 'MI'))", 'Minute'),
+  dateUnitMapping('datepart', 'second', 2, "TO_NUMBER(TO_CHAR({2}, 'SS'))", 'Second'),
+
+  dateUnitMapping('datename', 'month', 2, "TO_CHAR({2}, 'FMMonth')", 'Month name'),
+  dateUnitMapping('datename', 'weekday', 2, "TO_CHAR({2}, 'FMDay')", 'Day name'),
+
+  { id: 'charindex', sybaseFunction: 'charindex', argumentCount: 2, oracleTemplate: 'INSTR({2}, {1})', description: 'Position of a substring (arguments swapped)', builtIn: true },
+  { id: 'charindex-start', sybaseFunction: 'charindex', argumentCount: 3, oracleTemplate: 'INSTR({2}, {1}, {3})', description: 'Position of a substring from a start position', builtIn: true },
+  { id: 'patindex', sybaseFunction: 'patindex', argumentCount: 2, oracleTemplate: 'REGEXP_INSTR({2}, {regex:1})', description: 'Position of a LIKE pattern, as a regular expression', builtIn: true },
+  { id: 'stuff', sybaseFunction: 'stuff', argumentCount: 4, oracleTemplate: 'SUBSTR({1}, 1, {2} - 1) || {4} || SUBSTR({1}, {2} + {3})', description: 'Replace a range of characters', builtIn: true },
+  { id: 'str', sybaseFunction: 'str', argumentCount: 1, oracleTemplate: 'LPAD(TO_CHAR(ROUND({1})), 10)', description: 'Number to right-aligned string (default length 10)', builtIn: true },
+  { id: 'str-length', sybaseFunction: 'str', argumentCount: 2, oracleTemplate: 'LPAD(TO_CHAR(ROUND({1})), {2})', description: 'Number to right-aligned string', builtIn: true },
+  { id: 'str-decimals', sybaseFunction: 'str', argumentCount: 3, oracleTemplate: 'LPAD(TO_CHAR(ROUND({1}, {3})), {2})', description: 'Number to right-aligned string with decimals (trailing zeros are not padded)', builtIn: true },
+
+  // SQL Server only
+  { id: 'iif', sybaseFunction: 'iif', argumentCount: 3, oracleTemplate: 'CASE WHEN {1} THEN {2} ELSE {3} END', description: 'Inline IF', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'try-convert', sybaseFunction: 'try_convert', argumentCount: 2, oracleTemplate: 'CAST({2} AS {type:1} DEFAULT NULL ON CONVERSION ERROR)', description: 'Conversion that returns NULL on failure (Oracle 12.2+)', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'eomonth', sybaseFunction: 'eomonth', argumentCount: 1, oracleTemplate: 'LAST_DAY({1})', description: 'Last day of the month', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'datefromparts', sybaseFunction: 'datefromparts', argumentCount: 3, oracleTemplate: "TO_DATE({1} || '-' || {2} || '-' || {3}, 'YYYY-MM-DD')", description: 'Date from year, month and day', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'sysdatetime', sybaseFunction: 'sysdatetime', argumentCount: 0, oracleTemplate: 'SYSTIMESTAMP', description: 'Current date and time', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'sysutcdatetime', sybaseFunction: 'sysutcdatetime', argumentCount: 0, oracleTemplate: 'SYS_EXTRACT_UTC(SYSTIMESTAMP)', description: 'Current UTC date and time', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'error-message', sybaseFunction: 'error_message', argumentCount: 0, oracleTemplate: 'SQLERRM', description: 'Message of the error caught by CATCH', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'error-number', sybaseFunction: 'error_number', argumentCount: 0, oracleTemplate: 'SQLCODE', description: 'Number of the error caught by CATCH (Oracle codes are negative)', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'error-line', sybaseFunction: 'error_line', argumentCount: 0, oracleTemplate: 'DBMS_UTILITY.FORMAT_ERROR_BACKTRACE', description: 'Where the caught error was raised (a backtrace, not a line number)', builtIn: true, dialects: ['sqlserver'] },
+  { id: 'error-procedure', sybaseFunction: 'error_procedure', argumentCount: 0, oracleTemplate: '$$PLSQL_UNIT', description: 'Program unit of the caught error (the handler\'s unit in Oracle)', builtIn: true, dialects: ['sqlserver'] },
+] as FunctionMapping[]).map(mapping => ({ ...mapping, postgresTemplate: mapping.postgresTemplate ?? POSTGRES_TEMPLATES[mapping.id] }));
+
+// --- Project entries (persisted per browser, like the error catalog) ---
+const CATALOG_STORAGE_KEY = 'function-mappings';
+
+interface SavedFunctionCatalog {
+  custom: FunctionMapping[];
+  disabled: string[]; // ids of entries switched off
+}
+
+export const getSavedFunctionCatalog = (): SavedFunctionCatalog => {
+  if (typeof localStorage === 'undefined') return { custom: [], disabled: [] };
+  const saved = localStorage.getItem(CATALOG_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : { custom: [], disabled: [] };
+};
+
+const saveFunctionCatalog = (catalog: SavedFunctionCatalog) => {
+  localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(catalog));
+  return catalog;
+};
+
+export const saveCustomFunctionMapping = (mapping: FunctionMapping) => {
+  const catalog = getSavedFunctionCatalog();
+  const custom = catalog.custom.some(entry => entry.id === mapping.id)
+    ? catalog.custom.map(entry => (entry.id === mapping.id ? mapping : entry))
+    : [...catalog.custom, mapping];
+  return saveFunctionCatalog({ ...catalog, custom });
+};
+
+export const removeCustomFunctionMapping = (id: string) => {
+  const catalog = getSavedFunctionCatalog();
+  return saveFunctionCatalog({ custom: catalog.custom.filter(entry => entry.id !== id), disabled: catalog.disabled.filter(entry => entry !== id) });
+};
+
+export const setFunctionMappingEnabled = (id: string, enabled: boolean) => {
+  const catalog = getSavedFunctionCatalog();
+  const disabled = enabled ? catalog.disabled.filter(entry => entry !== id) : [...new Set([...catalog.disabled, id])];
+  return saveFunctionCatalog({ ...catalog, disabled });
+};
+
+// Template of an entry for the target; empty when the entry has none
+export const targetTemplate = (mapping: Pick<FunctionMapping, 'oracleTemplate' | 'postgresTemplate'>, target: TargetDialect = getTargetDialect()) =>
+  (target === 'postgresql' ? mapping.postgresTemplate : mapping.oracleTemplate) ?? '';
+
+// Whether an entry applies to the source dialect and has a template for the target
+export const mappingAppliesTo = (mapping: FunctionMapping, dialect: SourceDialect = getSourceDialect(), target: TargetDialect = getTargetDialect()) =>
+  (!mapping.dialects || mapping.dialects.includes(dialect)) && targetTemplate(mapping, target) !== '';
+
+// Active entries in match order: project entries first so they can override a default
+export const getFunctionCatalog = (saved: SavedFunctionCatalog = getSavedFunctionCatalog(), dialect: SourceDialect = getSourceDialect()): FunctionMapping[] =>
+  [...saved.custom, ...DEFAULT_FUNCTION_MAPPINGS].filter(mapping => !saved.disabled.includes(mapping.id) && mappingAppliesTo(mapping, dialect));
+
+const PLACEHOLDER = /\{(?:(type|regex):)?(\d+)\}/g;
+
+// Problems with a project entry, or undefined when it can be saved
+export const validateFunctionMapping = (mapping: FunctionMapping): string | undefined => {
+  if (!/^[a-z_][\w]*$/i.test(mapping.sybaseFunction)) return 'Function name must be a plain identifier.';
+  const templates = [mapping.oracleTemplate, mapping.postgresTemplate ?? ''].filter(template => template.trim());
+  if (templates.length === 0) return 'The template is empty.';
+  const used = templates.flatMap(template => [...template.matchAll(PLACEHOLDER)].map(match => Number(match[2])));
+  if (mapping.argumentCount !== undefined && used.some(index => index < 1 || index > mapping.argumentCount!)) {
+    return `The template uses an argument above ${mapping.argumentCount}.`;
+  }
+  if (mapping.conditions?.some(condition => condition.argument < 1 || (mapping.argumentCount !== undefined && condition.argument > mapping.argumentCount))) {
+    return 'A condition refers to an argument the call does not have.';
+  }
+  return undefined;
+};
+
+interface FunctionCall {
+  name: SybaseToken;
+  start: number;
+  end: number;
+  args: { start: number; end: number }[];
+}
+
+// Calls of catalogued functions, with the source range of every argument
+const findCalls = (tokens: SybaseToken[], names: Set<string>): FunctionCall[] => {
+  const calls: FunctionCall[] = [];
+  tokens.forEach((token, index) => {
+    if (!names.has(token.value.toLowerCase()) || tokens[index + 1]?.value !== '(') return;
+    // Qualified names (owner.function) are user functions
+    if (tokens[index - 1]?.value === '.') return;
+    const args: { start: number; end: number }[] = [];
+    let depth = 0;
+    let argStart: SybaseToken | undefined;
+    let argEnd: SybaseToken | undefined;
+    for (let i = index + 1; i < tokens.length; i++) {
+      const current = tokens[i];
+      if (current.value === '(' && depth++ === 0) continue;
+      if ((current.value === ')' && --depth === 0) || (current.value === ',' && depth === 1)) {
+        if (argStart && argEnd) args.push({ start: argStart.offset, end: argEnd.offset + argEnd.value.length });
+        argStart = argEnd = undefined;
+        if (depth === 0) {
+          calls.push({ name: token, start: token.offset, end: current.offset + 1, args });
+          return;
+        }
+        continue;
+      }
+      argStart = argStart ?? current;
+      argEnd = current;
+    }
+  });
+  return calls;
+};
+
+// Argument text as compared by conditions: lower-case, unquoted, without a (length) suffix
+const normalizeArgument = (text: string) =>
+  text.trim().toLowerCase().replace(/^(['"])(.*)\1$/s, '$2').replace(/\s*\(.*\)$/s, '');
+
+const isStringLiteral = (text: string) => /^'(?:[^']|'')*'$/s.test(text.trim());
+
+// LIKE pattern literal → Oracle regex literal; % and _ become .* and ., [..] classes are kept
+const likeToRegex = (literal: string) => {
+  let pattern = literal.trim().slice(1, -1).replace(/''/g, "'");
+  const anchoredStart = !pattern.startsWith('%');
+  const anchoredEnd = !pattern.endsWith('%');
+  pattern = pattern.replace(/^%+|%+$/g, '');
+  let regex = '';
+  let inClass = false;
+  for (const ch of pattern) {
+    if (inClass) {
+      regex += ch;
+      if (ch === ']') inClass = false;
+    } else if (ch === '[') {
+      regex += ch;
+      inClass = true;
+    } else if (ch === '%') regex += '.*';
+    else if (ch === '_') regex += '.';
+    else regex += /[.*+?^${}()|\\]/.test(ch) ? `\\${ch}` : ch;
+  }
+  return `'${`${anchoredStart ? '^' : ''}${regex}${anchoredEnd ? '$' : ''}`.replace(/'/g, "''")}'`;
+};
+
+// Character and binary types without a length are 30 long in CONVERT (not 1 as in a declaration)
+const CONVERT_DEFAULT_LENGTH_TYPES = [...CHARACTER_TYPES, 'binary', 'varbinary'];
+
+// Argument text read as a Sybase data type, mapped to the target
+const mapTypeArgument = (text: string) => {
+  const match = text.trim().match(/^(\w+)\s*(?:\(([^)]*)\))?$/);
+  if (!match) return undefined;
+  const name = match[1].toLowerCase();
+  const params = match[2] ? match[2].split(',').map(param => param.trim()) : CONVERT_DEFAULT_LENGTH_TYPES.includes(name) ? ['30'] : [];
+  return mapDataType({ name, params, text: text.trim(), line: 1 });
+};
+
+const matches = (mapping: FunctionMapping, call: FunctionCall, raw: string[]) => {
+  if (mapping.sybaseFunction.toLowerCase() !== call.name.value.toLowerCase()) return false;
+  if (mapping.argumentCount !== undefined && mapping.argumentCount !== raw.length) return false;
+  if (!(mapping.conditions ?? []).every(condition => condition.values.includes(normalizeArgument(raw[condition.argument - 1] ?? '')))) return false;
+  // Every placeholder has to be fillable
+  return [...targetTemplate(mapping).matchAll(PLACEHOLDER)].every(([, kind, index]) => {
+    const argument = raw[Number(index) - 1];
+    if (argument === undefined) return false;
+    if (kind === 'regex') return isStringLiteral(argument);
+    if (kind === 'type') return mapTypeArgument(argument) !== undefined;
+    return true;
+  });
+};
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+// A replacement that is not one operand (a call, a name, CASE … END) goes in parentheses, so
+// `datediff(day, a, b) * r` keeps multiplying the whole difference
+const needsParentheses = (template: string, replaced: string) => {
+  if (/^CASE\b[\s\S]*\bEND$/i.test(template.trim())) return false;
+  let depth = 0;
+  for (const ch of replaced.trim().replace(/'(?:[^']|'')*'/g, "''")) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (depth === 0 && /[\s+\-*/|<>=%]/.test(ch)) return true;
+  }
+  return false;
+};
+
+export interface FunctionCatalogResult {
+  code: string;
+  fired: FiredFunctionMapping[];
+  appliedRule?: AppliedRule;
+}
+
+// Rewrite every catalogued call. Nested calls are rewritten inside out, so an argument can itself
+// be a converted call. Replacements keep the line count of the call they replace.
+export const applyFunctionCatalog = (code: string, catalog: FunctionMapping[] = getFunctionCatalog()): FunctionCatalogResult => {
+  const script = parseSybase(code);
+  const source = script.source;
+  const calls = findCalls(script.tokens.filter(isSignificantToken), new Set(catalog.map(mapping => mapping.sybaseFunction.toLowerCase())));
+  if (calls.length === 0) return { code: source, fired: [] };
+
+  const fired = new Map<string, { mapping: FunctionMapping; lines: number[] }>();
+
+  const render = (start: number, end: number, outer?: FunctionCall): string => {
+    const inner = calls.filter(call => call !== outer && call.start >= start && call.end <= end);
+    const topLevel = inner.filter(call => !inner.some(other => other !== call && other.start <= call.start && other.end >= call.end));
+    let text = '';
+    let position = start;
+    topLevel.forEach(call => {
+      text += source.slice(position, call.start) + renderCall(call);
+      position = call.end;
+    });
+    return text + source.slice(position, end);
+  };
+
+  const renderCall = (call: FunctionCall): string => {
+    const raw = call.args.map(arg => source.slice(arg.start, arg.end));
+    const mapping = catalog.find(entry => matches(entry, call, raw));
+    if (!mapping) return render(call.start, call.end, call);
+    const rendered = call.args.map(arg => render(arg.start, arg.end).trim());
+    const template = targetTemplate(mapping);
+    const filled = template.replace(PLACEHOLDER, (_, kind: string | undefined, index: string) => {
+      const position = Number(index) - 1;
+      if (kind === 'regex') return likeToRegex(raw[position]);
+      if (kind === 'type') return mapTypeArgument(raw[position])!;
+      return rendered[position];
+    });
+    const replaced = needsParentheses(template, filled) ? `(${filled})` : filled;
+    const entry = fired.get(mapping.id) ?? { mapping, lines: [] };
+    entry.lines.push(call.name.line);
+    fired.set(mapping.id, entry);
+    return replaced + '\n'.repeat(Math.max(0, newlines(source.slice(call.start, call.end)) - newlines(replaced)));
+  };
+
+  const rewritten = render(0, source.length);
+  const firedMappings: FiredFunctionMapping[] = [...fired.values()].map(({ mapping, lines }) => ({
+    mappingId: mapping.id,
+    sybaseFunction: mapping.sybaseFunction,
+    oracleTemplate: targetTemplate(mapping),
+    description: mapping.description,
+    occurrences: lines.length,
+    lineNumbers: [...new Set(lines)].sort((a, b) => a - b),
+  }));
+  if (firedMappings.length === 0) return { code: source, fired: [] };
+
+  const lines = firedMappings.flatMap(mapping => mapping.lineNumbers);
+  return {
+    code: rewritten,
+    fired: firedMappings,
+    appliedRule: {
+      ruleId: 'function-catalog',
+      description: `Sybase built-in functions → function catalog (${firedMappings.map(mapping => mapping.mappingId).join(', ')})`,
+      occurrences: firedMappings.reduce((sum, mapping) => sum + mapping.occurrences, 0),
+      lineNumbers: [...new Set(lines)].sort((a, b) => a - b),
+    },
+  };
+};
@@ -0,0 +1,315 @@
+import type { AppliedRule, ConversionIssue } from '@/types';
+import { parseSybase, isSignificantToken, SybaseStatement, SybaseToken, SybaseColumn } from '@/utils/sybaseParser';
+
+// Semantic rewrites for @@error, @@rowcount, @@identity and @@trancount. None of them exist in
+// Oracle, so each use is mapped to the PL/SQL construct with the closest behaviour and gets an
+// issue describing what changes. Rewrites keep the line count so issue lines stay accurate.
+
+export const GLOBAL_VARIABLE_CATEGORY = 'global_variable';
+export const TRANSACTION_STATE_PACKAGE = 'txn_state';
+
+// Sybase transaction nesting: COMMIT only commits at the outermost level, ROLLBACK undoes everything
+export const TRANSACTION_STATE_DDL = `CREATE OR REPLACE PACKAGE ${TRANSACTION_STATE_PACKAGE} AS
+  PROCEDURE begin_tran;
+  PROCEDURE commit_tran;
+  PROCEDURE rollback_tran;
+  FUNCTION trancount RETURN PLS_INTEGER;
+END ${TRANSACTION_STATE_PACKAGE};
+/
+CREATE OR REPLACE PACKAGE BODY ${TRANSACTION_STATE_PACKAGE} AS
+  g_trancount PLS_INTEGER := 0;
+
+  PROCEDURE begin_tran IS
+  BEGIN
+    g_trancount := g_trancount + 1;
+  END begin_tran;
+
+  PROCEDURE commit_tran IS
+  BEGIN
+    IF g_trancount <= 1 THEN
+      COMMIT;
+    END IF;
+    g_trancount := GREATEST(g_trancount - 1, 0);
+  END commit_tran;
+
+  PROCEDURE rollback_tran IS
+  BEGIN
+    ROLLBACK;
+    g_trancount := 0;
+  END rollback_tran;
+
+  FUNCTION trancount RETURN PLS_INTEGER IS
+  BEGIN
+    RETURN g_trancount;
+  END trancount;
+END ${TRANSACTION_STATE_PACKAGE};
+/
+`;
+
+export interface GlobalVariableRewriteOptions {
+  identityColumns?: Record<string, string>; // lower-case table name -> identity column
+  identitySequences?: Record<string, string>; // lower-case table name -> sequence filling its identity column
+}
+
+export interface GlobalVariableRewriteResult {
+  code: string;
+  appliedRules: AppliedRule[];
+  issues: ConversionIssue[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface StatementEntry {
+  statement: SybaseStatement;
+  previous?: SybaseStatement;
+  insideTrigger: boolean;
+}
+
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  'error-check': 'IF @@error != 0 → EXCEPTION WHEN OTHERS handler around the checked statement',
+  'error-value': '@@error → SQLCODE',
+  rowcount: '@@rowcount → SQL%ROWCOUNT',
+  identity: 'INSERT … ; SELECT @var = @@identity → INSERT … RETURNING … INTO or <sequence>.CURRVAL',
+  transactions: `BEGIN/COMMIT/ROLLBACK TRAN and @@trancount → ${TRANSACTION_STATE_PACKAGE} nesting counter`,
+};
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+// Keep the line count of a replaced range by padding the replacement with the newlines it removed
+const padLines = (replacement: string, original: string) =>
+  replacement + '\n'.repeat(Math.max(0, newlines(original) - newlines(replacement)));
+
+// Every statement with its previous sibling, across nested bodies
+const collectEntries = (statements: SybaseStatement[], entries: StatementEntry[], insideTrigger = false) => {
+  statements.forEach((statement, index) => {
+    entries.push({ statement, previous: statements[index - 1], insideTrigger });
+    const nested = insideTrigger || statement.kind === 'createTrigger';
+    if (statement.body) collectEntries(statement.body, entries, nested);
+    if (statement.elseBody) collectEntries(statement.elseBody, entries, nested);
+  });
+  return entries;
+};
+
+// Innermost statement containing the token
+const entryFor = (entries: StatementEntry[], token: SybaseToken) =>
+  entries
+    .filter(({ statement }) => token.offset >= statement.startOffset && token.offset < statement.endOffset)
+    .sort((a, b) => (a.statement.endOffset - a.statement.startOffset) - (b.statement.endOffset - b.statement.startOffset))[0];
+
+// `@@error != 0`, `@@error <> 0`, `@@error > 0` and the mirrored forms
+const isErrorCheck = (condition: SybaseToken[] = []) => {
+  const values = condition.filter(token => token.value !== '(' && token.value !== ')').map(token => token.value.toLowerCase());
+  if (values.length !== 3) return false;
+  const [left, op, right] = values;
+  return (left === '@@error' && ['!=', '<>', '>'].includes(op) && right === '0')
+    || (right === '@@error' && ['!=', '<>', '<'].includes(op) && left === '0');
+};
+
+// `select @v = @@identity` / `set @v = @@identity`: the variable name, if the statement is exactly that
+const identityCaptureVariable = (statement: SybaseStatement) => {
+  const tokens = statement.tokens.filter(token => token.value !== ';');
+  if (tokens.length !== 4 || !['SELECT', 'SET'].includes(tokens[0].upper)) return undefined;
+  if (tokens[1].type !== 'variable' || tokens[2].value !== '=' || tokens[3].upper !== '@@IDENTITY') return undefined;
+  return tokens[1].value;
+};
+
+const identityColumnsInScript = (statements: SybaseStatement[]): Record<string, string> => {
+  const columns: Record<string, string> = {};
+  statements.forEach(statement => {
+    const identity = statement.kind === 'createTable' && statement.columns?.find((column: SybaseColumn) => column.identity);
+    if (identity && statement.name) columns[normalizeTableName(statement.name)] = identity.name;
+  });
+  return columns;
+};
+
+const normalizeTableName = (name: string) => name.replace(/[[\]"]/g, '').split('.').filter(Boolean).pop()?.toLowerCase() ?? '';
+
+export const rewriteGlobalVariables = (code: string, options: GlobalVariableRewriteOptions = {}): GlobalVariableRewriteResult => {
+  const script = parseSybase(code);
+  const source = script.source;
+  const entries: StatementEntry[] = [];
+  script.batches.forEach(batch => collectEntries(batch.statements, entries));
+  const identityColumns = { ...identityColumnsInScript(entries.map(entry => entry.statement)), ...options.identityColumns };
+
+  const edits: Edit[] = [];
+  const issues: ConversionIssue[] = [];
+  const ruleLines = new Map<string, number[]>();
+  const handlerRanges: { start: number; end: number }[] = [];
+  const covered = (offset: number) => edits.some(edit => offset >= edit.start && offset < edit.end);
+  const inHandler = (offset: number) => handlerRanges.some(range => offset >= range.start && offset < range.end);
+
+  const checkedStatements = new Map<SybaseStatement, SybaseStatement>(); // error-check IF -> statement it guards
+  const markApplied = (ruleId: string, line: number) => ruleLines.set(ruleId, [...(ruleLines.get(ruleId) ?? []), line]);
+
+  // Every rewrite gets an issue; `applied` is false for uses that are only reported
+  const record = (ruleId: string, token: { line: number; column: number }, severity: ConversionIssue['severity'], description: string, originalCode: string, suggestedFix?: string, applied = true) => {
+    if (applied) markApplied(ruleId, token.line);
+    issues.push({
+      id: `gv-${ruleId}-${token.line}:${token.column}`,
+      lineNumber: token.line,
+      columnNumber: token.column,
+      codeSide: 'original',
+      severity,
+      description,
+      originalCode,
+      suggestedFix,
+      category: GLOBAL_VARIABLE_CATEGORY,
+    });
+  };
+
+  // 1. IF @@error != 0 <handler> right after a statement → BEGIN <statement> EXCEPTION WHEN OTHERS THEN <handler> END
+  entries.forEach(({ statement, previous }) => {
+    if (statement.kind !== 'if' || !isErrorCheck(statement.condition) || statement.elseBody || !statement.body?.length) return;
+    if (!previous || ['declare', 'declareCursor', 'label', 'createProcedure', 'createTrigger', 'createFunction'].includes(previous.kind)) return;
+    const handler = statement.body[0];
+    const inner = handler.kind === 'block' && !handler.name ? handler.body ?? [] : [handler];
+    const bodyStart = inner.length > 0 ? inner[0].startOffset : handler.endOffset;
+    const bodyEnd = inner.length > 0 ? inner[inner.length - 1].endOffset : handler.endOffset;
+    const prefix = source.slice(statement.startOffset, bodyStart);
+    const suffix = source.slice(bodyEnd, statement.endOffset);
+    const prefixIndent = prefix.includes('\n') ? prefix.slice(prefix.lastIndexOf('\n') + 1) : ' ';
+
+    edits.push({ start: previous.startOffset, end: previous.startOffset, text: 'BEGIN ' });
+    edits.push({ start: statement.startOffset, end: bodyStart, text: padLines('EXCEPTION WHEN OTHERS THEN', prefix.slice(0, prefix.lastIndexOf('\n') + 1)) + (prefix.includes('\n') ? prefixIndent : ' ') });
+    if (inner.length === 0) edits.push({ start: bodyStart, end: bodyEnd, text: 'NULL' });
+    handlerRanges.push({ start: bodyStart, end: bodyEnd });
+    checkedStatements.set(statement, previous);
+    edits.push({ start: bodyEnd, end: statement.endOffset, text: suffix.trim() ? suffix.replace(/end\s*$/i, 'END') : ' END' });
+
+    const token = statement.tokens[0];
+    record('error-check', token, 'info',
+      `@@error check on line ${token.line} became an EXCEPTION WHEN OTHERS handler around the statement on line ${previous.startLine}. Oracle raises instead of setting an error code: the handler runs for every error, and statements after a failure no longer run unless the handler continues.`,
+      statement.text,
+      'Narrow WHEN OTHERS to the specific exceptions the code expects, and re-raise anything else.');
+  });
+
+  const tokens = script.tokens.filter(isSignificantToken);
+  const transactionEntries = entries.filter(({ statement, insideTrigger }) => statement.kind === 'transaction' && !insideTrigger);
+  const usesTrancount = tokens.some(token => token.upper === '@@TRANCOUNT');
+
+  // 2. INSERT … VALUES followed by SELECT @v = @@identity → RETURNING <identity column> INTO @v
+  entries.forEach(({ statement, previous }) => {
+    const variable = identityCaptureVariable(statement);
+    if (!variable || covered(statement.startOffset)) return;
+    const token = statement.tokens[3];
+    // An @@error check between the INSERT and the capture is now an exception handler around the INSERT
+    const insert = previous && (checkedStatements.get(previous) ?? previous);
+    const column = insert?.kind === 'insert' && insert.table && identityColumns[normalizeTableName(insert.table)];
+    const isSingleRow = insert?.tokens.some(t => t.upper === 'VALUES');
+    if (!column || !isSingleRow) return;
+    const lastToken = insert.tokens[insert.tokens.length - 1];
+    const insertEnd = lastToken.value === ';' ? lastToken.offset : insert.endOffset;
+    edits.push({ start: insertEnd, end: insertEnd, text: ` RETURNING ${column} INTO ${variable}` });
+    edits.push({ start: statement.startOffset, end: statement.endOffset, text: padLines(`/* ${variable} is set by RETURNING ${column} INTO on line ${insert.endLine} */`, statement.text) });
+    record('identity', token, 'info',
+      `@@identity on line ${token.line} became RETURNING ${column} INTO ${variable} on the INSERT into ${insert.table}. Unlike @@identity, the value cannot be changed by inserts made in triggers.`,
+      statement.text);
+  });
+
+  // 3. Transaction statements and @@trancount → explicit nesting counter
+  if (usesTrancount || transactionEntries.length > 0) {
+    let firstRewrite: SybaseStatement | undefined;
+    transactionEntries.forEach(({ statement }) => {
+      const [first, second, third] = statement.tokens;
+      const isTranKeyword = (token?: SybaseToken) => token?.upper === 'TRAN' || token?.upper === 'TRANSACTION' || token?.upper === 'WORK';
+      let call: string | undefined;
+      if (first.upper === 'BEGIN' && isTranKeyword(second)) call = 'begin_tran';
+      if (first.upper === 'COMMIT') call = 'commit_tran';
+      // ROLLBACK TRAN <savepoint> stays a savepoint rollback
+      if (first.upper === 'ROLLBACK' && (!isTranKeyword(second) || !third || third.value === ';')) call = 'rollback_tran';
+      if (!call) return;
+      edits.push({ start: statement.startOffset, end: statement.endOffset, text: padLines(`${TRANSACTION_STATE_PACKAGE}.${call}`, statement.text) });
+      markApplied('transactions', first.line);
+      firstRewrite = firstRewrite ?? statement;
+    });
+    if (firstRewrite || usesTrancount) {
+      const anchor = firstRewrite?.tokens[0] ?? tokens.find(token => token.upper === '@@TRANCOUNT')!;
+      issues.push({
+        id: `gv-transactions-${anchor.line}:${anchor.column}`,
+        lineNumber: anchor.line,
+        columnNumber: anchor.column,
+        codeSide: 'original',
+        severity: 'warning',
+        description: `Transactions are tracked through the ${TRANSACTION_STATE_PACKAGE} package to keep Sybase nesting: COMMIT only commits when the outermost transaction ends, and ROLLBACK resets the count. Oracle has no nested transactions, so a plain COMMIT or ROLLBACK elsewhere is not counted.`,
+        originalCode: firstRewrite?.text ?? anchor.value,
+        suggestedFix: `Deploy the ${TRANSACTION_STATE_PACKAGE} package before the converted code.`,
+        category: GLOBAL_VARIABLE_CATEGORY,
+      });
+    }
+  }
+
+  // 4. Remaining @@ variables, token by token
+  tokens.forEach(token => {
+    if (token.type !== 'globalVariable' || covered(token.offset)) return;
+    const entry = entryFor(entries, token);
+    const replace = (text: string) => edits.push({ start: token.offset, end: token.offset + token.value.length, text });
+    if (token.upper === '@@ROWCOUNT') {
+      replace('SQL%ROWCOUNT');
+      const previousKind = entry?.statement.kind === 'if' || entry?.statement.kind === 'while' || entry?.statement.kind === 'select' || entry?.statement.kind === 'set'
+        ? entry.previous?.kind
+        : undefined;
+      const reliable = previousKind && ['insert', 'update', 'delete', 'cursorOp'].includes(previousKind);
+      record('rowcount', token, reliable ? 'info' : 'warning',
+        reliable
+          ? `@@rowcount on line ${token.line} became SQL%ROWCOUNT, which counts the rows of the preceding ${previousKind === 'cursorOp' ? 'FETCH' : previousKind.toUpperCase()}.`
+          : `@@rowcount on line ${token.line} became SQL%ROWCOUNT. SQL%ROWCOUNT only reflects the last INSERT/UPDATE/DELETE/SELECT INTO; a query that returns a result set or an assignment does not set it the way Sybase does.`,
+        entry?.statement.text ?? token.value,
+        reliable ? undefined : 'Read SQL%ROWCOUNT immediately after the DML statement it should count, or use cursor%ROWCOUNT for cursors.');
+    } else if (token.upper === '@@ERROR' && inHandler(token.offset)) {
+      // Inside the new exception handler SQLCODE holds the error that was raised
+      replace('SQLCODE');
+    } else if (token.upper === '@@ERROR') {
+      replace('SQLCODE');
+      record('error-value', token, 'warning',
+        `@@error on line ${token.line} became SQLCODE. SQLCODE is 0 outside an exception handler because Oracle raises on errors, so code that saves and tests the value never sees a failure.`,
+        entry?.statement.text ?? token.value,
+        'Move the error handling into an EXCEPTION block.');
+    } else if (token.upper === '@@TRANCOUNT') {
+      replace(`${TRANSACTION_STATE_PACKAGE}.trancount`);
+      markApplied('transactions', token.line);
+    } else if (token.upper === '@@IDENTITY') {
+      // The sequence of the most recent INSERT still holds the generated value in CURRVAL
+      const lastInsert = entries
+        .filter(({ statement }) => statement.kind === 'insert' && statement.endOffset <= token.offset)
+        .sort((a, b) => b.statement.endOffset - a.statement.endOffset)[0]?.statement;
+      const sequence = lastInsert?.table && options.identitySequences?.[normalizeTableName(lastInsert.table)];
+      if (sequence) {
+        replace(`${sequence}.CURRVAL`);
+        record('identity', token, 'info',
+          `@@identity on line ${token.line} became ${sequence}.CURRVAL, the value generated for the INSERT into ${lastInsert.table} on line ${lastInsert.startLine}. CURRVAL only changes on NEXTVAL in this session, so inserts into other tables in between do not affect it.`,
+          entry?.statement.text ?? token.value);
+        return;
+      }
+      record('identity', token, 'warning',
+        `@@identity on line ${token.line} has no Oracle equivalent and was not rewritten${entry?.previous?.kind === 'insert' ? '' : ': it does not directly follow a single-row INSERT'}.`,
+        entry?.statement.text ?? token.value,
+        'Use INSERT … RETURNING <identity column> INTO, or <sequence>.CURRVAL after the insert.',
+        false);
+    }
+  });
+
+  let rewritten = source;
+  [...edits]
+    .map((edit, index) => ({ ...edit, index }))
+    .sort((a, b) => b.start - a.start || b.index - a.index)
+    .forEach(edit => {
+      rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+    });
+
+  const appliedRules: AppliedRule[] = [...ruleLines.entries()].map(([ruleId, lines]) => ({
+    ruleId,
+    description: RULE_DESCRIPTIONS[ruleId],
+    occurrences: lines.length,
+    lineNumbers: [...new Set(lines)].sort((a, b) => a - b),
+  }));
+
+  return { code: rewritten, appliedRules, issues };
+};
+
+// True when converted code calls the transaction nesting package, so its DDL has to ship with it
+export const usesTransactionState = (convertedCode: string) =>
+  new RegExp(`\\b${TRANSACTION_STATE_PACKAGE}\\.`, 'i').test(convertedCode);
@@ -0,0 +1,316 @@
+import type { AppliedRule, ConversionIssue } from '@/types';
+import { parseSybase, allStatements, collectDataTypes, isSignificantToken, SybaseScript, SybaseStatementKind, SybaseToken } from '@/utils/sybaseParser';
+import { normalizeObjectName, DependencySource } from '@/utils/dependencyGraph';
+
+// Sybase names that Oracle cannot take: Oracle reserved words (level, size, comment, date, …) and
+// names longer than the Oracle identifier limit. Every identifier of the upload is checked, one
+// rename map is proposed for the whole project, and every converted file applies the same renames.
+
+export const IDENTIFIER_CATEGORY = 'naming';
+
+// Oracle SQL reserved words (V$RESERVED_WORDS with RESERVED = 'Y')
+export const ORACLE_RESERVED_WORDS = new Set([
+  'access', 'add', 'all', 'alter', 'and', 'any', 'as', 'asc', 'audit', 'between', 'by', 'char', 'check',
+  'cluster', 'column', 'comment', 'compress', 'connect', 'create', 'current', 'date', 'decimal', 'default',
+  'delete', 'desc', 'distinct', 'drop', 'else', 'exclusive', 'exists', 'file', 'float', 'for', 'from',
+  'grant', 'group', 'having', 'identified', 'immediate', 'in', 'increment', 'index', 'initial', 'insert',
+  'integer', 'intersect', 'into', 'is', 'level', 'like', 'lock', 'long', 'maxextents', 'minus', 'mlslabel',
+  'mode', 'modify', 'noaudit', 'nocompress', 'not', 'nowait', 'null', 'number', 'of', 'offline', 'on',
+  'online', 'option', 'or', 'order', 'pctfree', 'prior', 'privileges', 'public', 'raw', 'rename', 'resource',
+  'revoke', 'row', 'rowid', 'rownum', 'rows', 'select', 'session', 'set', 'share', 'size', 'smallint',
+  'start', 'successful', 'synonym', 'sysdate', 'table', 'then', 'to', 'trigger', 'uid', 'union', 'unique',
+  'update', 'user', 'validate', 'values', 'varchar', 'varchar2', 'view', 'whenever', 'where', 'with',
+]);
+
+// Sybase built-ins that Oracle reserves with the same meaning
+const SHARED_BUILTINS = new Set(['user', 'uid']);
+
+export const IDENTIFIER_LENGTH_LIMITS = [30, 128];
+export const DEFAULT_IDENTIFIER_LENGTH_LIMIT = 30; // before Oracle 12.2
+
+export type IdentifierKind = 'table' | 'view' | 'procedure' | 'trigger' | 'function' | 'index' | 'column' | 'reference';
+export type IdentifierConflictReason = 'reserved' | 'length';
+
+export interface IdentifierUsage {
+  fileId: string;
+  fileName: string;
+  line: number;
+}
+
+export interface IdentifierConflict {
+  name: string; // lower case, the key of the rename map
+  displayName: string; // as first written
+  kind: IdentifierKind;
+  reasons: IdentifierConflictReason[];
+  newName: string; // saved rename, else the proposal
+  proposed: boolean; // newName is a proposal nobody has saved yet
+  usages: IdentifierUsage[];
+}
+
+// --- Limit and rename map (persisted per browser, like the data type profile) ---
+const LIMIT_STORAGE_KEY = 'identifier-length-limit';
+const RENAMES_STORAGE_KEY = 'identifier-renames';
+
+export const getIdentifierLengthLimit = (): number => {
+  if (typeof localStorage === 'undefined') return DEFAULT_IDENTIFIER_LENGTH_LIMIT;
+  return Number(localStorage.getItem(LIMIT_STORAGE_KEY)) || DEFAULT_IDENTIFIER_LENGTH_LIMIT;
+};
+
+export const setIdentifierLengthLimit = (limit: number) => {
+  localStorage.setItem(LIMIT_STORAGE_KEY, String(limit));
+  return limit;
+};
+
+export const getIdentifierRenames = (): Record<string, string> => {
+  if (typeof localStorage === 'undefined') return {};
+  const saved = localStorage.getItem(RENAMES_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+const saveIdentifierRenames = (renames: Record<string, string>) => {
+  localStorage.setItem(RENAMES_STORAGE_KEY, JSON.stringify(renames));
+  return renames;
+};
+
+// Undefined removes the rename and the name is proposed again on the next scan
+export const setIdentifierRename = (name: string, newName?: string) => {
+  const renames = { ...getIdentifierRenames() };
+  if (newName) renames[name.toLowerCase()] = newName.toLowerCase();
+  else delete renames[name.toLowerCase()];
+  return saveIdentifierRenames(renames);
+};
+
+export const identifierConflictReasons = (name: string, limit: number = getIdentifierLengthLimit()): IdentifierConflictReason[] => {
+  const lower = name.toLowerCase();
+  const reasons: IdentifierConflictReason[] = [];
+  if (ORACLE_RESERVED_WORDS.has(lower) && !SHARED_BUILTINS.has(lower)) reasons.push('reserved');
+  if (name.length > limit) reasons.push('length');
+  return reasons;
+};
+
+// A name Oracle accepts unquoted
+export const isValidOracleIdentifier = (name: string, limit: number = getIdentifierLengthLimit()) =>
+  /^[a-z][\w$#]*$/i.test(name) && identifierConflictReasons(name, limit).length === 0;
+
+// --- Finding identifiers ---
+
+const DECLARED_KINDS: Partial<Record<SybaseStatementKind, IdentifierKind>> = {
+  createTable: 'table',
+  createView: 'view',
+  createProcedure: 'procedure',
+  createTrigger: 'trigger',
+  createFunction: 'function',
+  createIndex: 'index',
+};
+
+// Statements whose words are options, not names: set nocount on, set transaction isolation level,
+// grant … to public, dump/load, use <database>
+const OPTION_STATEMENTS = new Set(['SET', 'GRANT', 'REVOKE', 'DUMP', 'LOAD', 'DBCC', 'USE', 'CHECKPOINT']);
+
+// Words before a name that may be followed by a column list rather than being a function call
+const NAME_BEFORE_PARENTHESIS = new Set(['TABLE', 'INTO', 'VIEW', 'REFERENCES', 'ON', 'PROCEDURE', 'PROC', 'FUNCTION', 'INDEX', 'UPDATE', 'FROM', 'JOIN']);
+
+// Identifier tokens that name something: not data types, function calls or option words
+const namingTokens = (script: SybaseScript) => {
+  const excluded: [number, number][] = collectDataTypes(script)
+    .filter(dataType => dataType.startOffset !== undefined)
+    .map(dataType => [dataType.startOffset!, dataType.endOffset!]);
+  allStatements(script).forEach(statement => {
+    const [first, second] = statement.tokens;
+    if (OPTION_STATEMENTS.has(first?.upper) && !(first.upper === 'SET' && second?.type === 'variable')) {
+      excluded.push([statement.startOffset, statement.endOffset]);
+    }
+  });
+  const significant = script.tokens.filter(isSignificantToken);
+  // lock table <name> in share|exclusive mode: the parser keeps it inside the previous statement
+  significant.forEach((token, index) => {
+    if (token.upper !== 'LOCK' || significant[index + 1]?.upper !== 'TABLE') return;
+    const mode = significant.slice(index, index + 12).find(word => word.upper === 'MODE');
+    if (mode) excluded.push([significant[index + 2].offset + 1, mode.offset + 1]);
+  });
+  return significant.filter((token, index) => {
+    if (token.type !== 'identifier') return false;
+    if (excluded.some(([start, end]) => token.offset >= start && token.offset < end)) return false;
+    if (significant[index + 1]?.value === '(') {
+      let previous = index - 1;
+      while (significant[previous]?.value === '.' || (significant[previous]?.type === 'identifier' && significant[previous + 1]?.value === '.')) previous--;
+      return NAME_BEFORE_PARENTHESIS.has(significant[previous]?.upper);
+    }
+    return true;
+  });
+};
+
+// Declared objects and columns of a script by lower-case name
+const declaredKinds = (script: SybaseScript, kinds: Map<string, IdentifierKind>) => {
+  allStatements(script).forEach(statement => {
+    const kind = DECLARED_KINDS[statement.kind];
+    if (kind && statement.name && !statement.name.startsWith('#')) kinds.set(normalizeObjectName(statement.name), kind);
+    if (statement.kind === 'createTable') {
+      statement.columns?.forEach(column => {
+        if (!kinds.has(column.name.toLowerCase())) kinds.set(column.name.toLowerCase(), 'column');
+      });
+    }
+  });
+  return kinds;
+};
+
+// --- Proposals ---
+
+const KIND_SUFFIXES: Record<IdentifierKind, string> = {
+  table: 'tab',
+  view: 'vw',
+  procedure: 'prc',
+  trigger: 'trg',
+  function: 'fn',
+  index: 'idx',
+  column: 'col',
+  reference: 'col',
+};
+
+// Drop inner vowels, longest word first, then cut: customer_order_history_archive_flag → cstmr_order_hstry_archive_flag
+const shorten = (name: string, limit: number) => {
+  const words = name.split('_');
+  while (words.join('_').length > limit) {
+    const candidates = words.map((word, index) => ({ word, index, short: word[0] + word.slice(1).replace(/[aeiou]/gi, '') }))
+      .filter(candidate => candidate.short !== candidate.word)
+      .sort((a, b) => b.word.length - a.word.length);
+    if (candidates.length === 0) break;
+    words[candidates[0].index] = candidates[0].short;
+  }
+  return words.join('_').slice(0, limit).replace(/_+$/, '');
+};
+
+export const proposeIdentifierName = (name: string, kind: IdentifierKind, limit: number, taken: Set<string>) => {
+  const lower = name.toLowerCase();
+  const base = shorten(ORACLE_RESERVED_WORDS.has(lower) ? `${lower}_${KIND_SUFFIXES[kind]}` : lower, limit);
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate) || !isValidOracleIdentifier(candidate, limit); suffix++) {
+    candidate = `${base.slice(0, limit - String(suffix).length - 1)}_${suffix}`;
+  }
+  return candidate;
+};
+
+// Every conflicting identifier of the upload, with the saved rename or a proposal
+export const detectIdentifierConflicts = (
+  files: DependencySource[],
+  limit: number = getIdentifierLengthLimit(),
+  renames: Record<string, string> = getIdentifierRenames()
+): IdentifierConflict[] => {
+  const parsed = files.map(file => ({ file, script: parseSybase(file.content || '') }));
+  const kinds = new Map<string, IdentifierKind>();
+  parsed.forEach(({ script }) => declaredKinds(script, kinds));
+
+  const names = new Set<string>();
+  const conflicts = new Map<string, IdentifierConflict>();
+  parsed.forEach(({ file, script }) => {
+    namingTokens(script).forEach(token => {
+      const name = token.value.toLowerCase();
+      names.add(name);
+      const reasons = identifierConflictReasons(name, limit);
+      if (reasons.length === 0) return;
+      const conflict = conflicts.get(name) ?? { name, displayName: token.value, kind: kinds.get(name) ?? 'reference', reasons, newName: '', proposed: false, usages: [] };
+      conflicts.set(name, conflict);
+      if (!conflict.usages.some(usage => usage.fileId === file.id)) conflict.usages.push({ fileId: file.id, fileName: file.name, line: token.line });
+    });
+  });
+
+  // Proposals avoid every name in the upload and every rename already chosen
+  const taken = new Set([...names, ...Object.values(renames)]);
+  const sorted = [...conflicts.values()].sort((a, b) => a.name.localeCompare(b.name));
+  sorted.forEach(conflict => {
+    if (renames[conflict.name]) {
+      conflict.newName = renames[conflict.name];
+      return;
+    }
+    conflict.newName = proposeIdentifierName(conflict.name, conflict.kind, limit, taken);
+    conflict.proposed = true;
+    taken.add(conflict.newName);
+  });
+  return sorted;
+};
+
+// Save the proposals of the upload so every file, converted together or on its own, renames the same way
+export const syncIdentifierRenames = (files: DependencySource[]) => {
+  const renames = { ...getIdentifierRenames() };
+  detectIdentifierConflicts(files, getIdentifierLengthLimit(), renames)
+    .filter(conflict => conflict.proposed)
+    .forEach(conflict => { renames[conflict.name] = conflict.newName; });
+  return saveIdentifierRenames(renames);
+};
+
+// --- Applying the renames ---
+
+export interface IdentifierRename {
+  from: string; // as written in the file
+  to: string;
+  reasons: IdentifierConflictReason[];
+  line: number;
+  column: number;
+  occurrences: number;
+}
+
+export interface IdentifierRewriteResult {
+  code: string;
+  renamed: IdentifierRename[];
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+const reasonText = (reasons: IdentifierConflictReason[], limit: number) =>
+  reasons.map(reason => reason === 'reserved' ? 'an Oracle reserved word' : `longer than ${limit} characters`).join(' and ');
+
+export const rewriteIdentifiers = (
+  code: string,
+  renames: Record<string, string> = getIdentifierRenames(),
+  limit: number = getIdentifierLengthLimit()
+): IdentifierRewriteResult => {
+  const script = parseSybase(code);
+  const tokens = namingTokens(script).filter(token => renames[token.value.toLowerCase()]);
+  if (tokens.length === 0) return { code: script.source, renamed: [], issues: [] };
+
+  const renamed = new Map<string, IdentifierRename>();
+  let rewritten = script.source;
+  [...tokens].reverse().forEach((token: SybaseToken) => {
+    const name = token.value.toLowerCase();
+    rewritten = rewritten.slice(0, token.offset) + renames[name] + rewritten.slice(token.offset + token.value.length);
+  });
+  tokens.forEach(token => {
+    const name = token.value.toLowerCase();
+    const entry = renamed.get(name);
+    if (entry) entry.occurrences++;
+    else renamed.set(name, { from: token.value, to: renames[name], reasons: identifierConflictReasons(name, limit), line: token.line, column: token.column, occurrences: 1 });
+  });
+
+  const issues: ConversionIssue[] = [...renamed.values()].map(rename => ({
+    id: `identifier-${rename.from.toLowerCase()}`,
+    lineNumber: rename.line,
+    columnNumber: rename.column,
+    codeSide: 'original',
+    severity: 'info',
+    description: `${rename.from} was renamed to ${rename.to} in ${rename.occurrences} place(s)${rename.reasons.length > 0 ? ` because it is ${reasonText(rename.reasons, limit)}` : ''}. The project rename map applies the same name in every file.`,
+    originalCode: rename.from,
+    suggestedFix: `Use ${rename.to} in application code, reports and data loads that refer to ${rename.from}.`,
+    category: IDENTIFIER_CATEGORY,
+  }));
+
+  return {
+    code: rewritten,
+    renamed: [...renamed.values()],
+    issues,
+    appliedRule: {
+      ruleId: 'identifier-renames',
+      description: 'Reserved and over-long identifiers → project rename map',
+      occurrences: tokens.length,
+      lineNumbers: [...new Set(tokens.map(token => token.line))],
+    },
+  };
+};
+
+// Prompt guidance: the renames already applied, so new names are not reverted or invented
+export const describeIdentifierRenames = (renamed: IdentifierRename[], limit: number = getIdentifierLengthLimit()): string =>
+  renamed.length === 0
+    ? `None. Keep every identifier within ${limit} characters and never use an Oracle reserved word as a name.`
+    : [
+      ...renamed.map(rename => `${rename.from} → ${rename.to}${rename.reasons.length > 0 ? ` (${reasonText(rename.reasons, limit)})` : ''}`),
+      'The code already uses the new names; keep them and do not quote identifiers instead.',
+    ].join('\n');
@@ -0,0 +1,340 @@
+import type { AppliedRule, ConversionIssue, DataTypeMapping, IdentityStrategy } from '@/types';
+import { parseSybase, allStatements, SybaseDataType, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import { mapDataType } from '@/utils/dataTypeProfile';
+import { normalizeObjectName, DependencySource } from '@/utils/dependencyGraph';
+
+// Project-wide handling of Sybase identity columns. The table DDL becomes either an Oracle identity
+// column or a sequence with a BEFORE INSERT trigger, chosen once for the project, and every file that
+// inserts into such a table uses the same sequence name, wherever the table itself was created.
+
+export const DEFAULT_IDENTITY_STRATEGY: IdentityStrategy = 'identity';
+export const IDENTITY_CATEGORY = 'identity';
+
+export const IDENTITY_STRATEGY_LABELS: Record<IdentityStrategy, string> = {
+  identity: 'Identity column (GENERATED BY DEFAULT)',
+  sequence: 'Sequence + BEFORE INSERT trigger',
+};
+
+export interface IdentityColumn {
+  column: string;
+  sequence: string;
+  dataType?: string; // Sybase type as written, e.g. numeric(10,0)
+}
+
+export interface IdentityColumnUsage {
+  fileId: string;
+  fileName: string;
+  line: number;
+}
+
+export interface IdentityColumnInfo extends IdentityColumn {
+  table: string; // normalized, without owner
+  displayName: string; // as written in CREATE TABLE
+  definedIn: IdentityColumnUsage;
+  insertedIn: IdentityColumnUsage[];
+  identityInsertIn: IdentityColumnUsage[];
+}
+
+export const sequenceNameFor = (table: string) => `${normalizeObjectName(table)}_seq`;
+export const identityTriggerNameFor = (table: string) => `${normalizeObjectName(table)}_bi`;
+
+// --- Strategy and registry (persisted per browser, like the temp table strategies) ---
+const STRATEGY_STORAGE_KEY = 'identity-strategy';
+const REGISTRY_STORAGE_KEY = 'identity-columns';
+
+export const getIdentityStrategy = (): IdentityStrategy => {
+  if (typeof localStorage === 'undefined') return DEFAULT_IDENTITY_STRATEGY;
+  return (localStorage.getItem(STRATEGY_STORAGE_KEY) as IdentityStrategy) || DEFAULT_IDENTITY_STRATEGY;
+};
+
+export const setIdentityStrategy = (strategy: IdentityStrategy) => {
+  localStorage.setItem(STRATEGY_STORAGE_KEY, strategy);
+  return strategy;
+};
+
+export const getIdentityColumns = (): Record<string, IdentityColumn> => {
+  if (typeof localStorage === 'undefined') return {};
+  const saved = localStorage.getItem(REGISTRY_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+// Identity column of a CREATE TABLE, if it has one (Sybase allows at most one)
+const identityColumnOf = (statement: SybaseStatement) =>
+  statement.kind === 'createTable' && statement.name && !statement.name.startsWith('#')
+    ? statement.columns?.find(column => column.identity)
+    : undefined;
+
+// `set identity_insert <table> on|off`: the table and the new state
+const parseIdentityInsert = (statement: SybaseStatement) => {
+  const [set, option, ...rest] = statement.tokens.filter(token => token.value !== ';');
+  if (set?.upper !== 'SET' || option?.upper !== 'IDENTITY_INSERT' || rest.length < 2) return undefined;
+  const state = rest[rest.length - 1].upper;
+  if (state !== 'ON' && state !== 'OFF') return undefined;
+  return { table: rest.slice(0, -1).map(token => token.value).join(''), on: state === 'ON' };
+};
+
+// Every table with an identity column across the upload, with the files that insert into it
+export const detectIdentityColumns = (files: DependencySource[]): IdentityColumnInfo[] => {
+  const tables = new Map<string, IdentityColumnInfo>();
+  const parsed = files.map(file => ({ file, statements: allStatements(parseSybase(file.content || '')) }));
+
+  parsed.forEach(({ file, statements }) => {
+    statements.forEach(statement => {
+      const column = identityColumnOf(statement);
+      const table = column && normalizeObjectName(statement.name!);
+      if (!column || tables.has(table)) return;
+      tables.set(table, {
+        table,
+        displayName: statement.name!,
+        column: column.name,
+        sequence: sequenceNameFor(table),
+        dataType: column.dataType.text,
+        definedIn: { fileId: file.id, fileName: file.name, line: statement.startLine },
+        insertedIn: [],
+        identityInsertIn: [],
+      });
+    });
+  });
+
+  parsed.forEach(({ file, statements }) => {
+    statements.forEach(statement => {
+      const usage = { fileId: file.id, fileName: file.name, line: statement.startLine };
+      const identityInsert = parseIdentityInsert(statement);
+      const inserted = statement.kind === 'insert' && statement.table && tables.get(normalizeObjectName(statement.table));
+      if (inserted && !inserted.insertedIn.some(u => u.fileId === file.id)) inserted.insertedIn.push(usage);
+      const forced = identityInsert?.on && tables.get(normalizeObjectName(identityInsert.table));
+      if (forced && !forced.identityInsertIn.some(u => u.fileId === file.id)) forced.identityInsertIn.push(usage);
+    });
+  });
+
+  return [...tables.values()].sort((a, b) => a.table.localeCompare(b.table));
+};
+
+// Record the identity columns of the upload so files converted on their own (a procedure whose
+// table was created in another file) still find the column and its sequence
+export const syncIdentityColumns = (files: DependencySource[]) => {
+  const registry = { ...getIdentityColumns() };
+  detectIdentityColumns(files).forEach(({ table, column, sequence, dataType }) => {
+    registry[table] = { column, sequence, dataType };
+  });
+  localStorage.setItem(REGISTRY_STORAGE_KEY, JSON.stringify(registry));
+  return registry;
+};
+
+// Sequence and trigger for one table. The trigger only fills the column when the insert leaves it
+// empty, so explicit values (former identity_insert blocks) and explicit NEXTVAL both still work.
+// Only the PL/SQL trigger body ends with '/': after a plain statement it would run that statement again.
+export const generateIdentitySequenceDdl = (table: string, identity: IdentityColumn) =>
+  `CREATE SEQUENCE ${identity.sequence} START WITH 1 INCREMENT BY 1 NOCACHE;
+CREATE OR REPLACE TRIGGER ${identityTriggerNameFor(table)}
+  BEFORE INSERT ON ${table}
+  FOR EACH ROW
+  WHEN (NEW.${identity.column} IS NULL)
+BEGIN
+  :NEW.${identity.column} := ${identity.sequence}.NEXTVAL;
+END;
+/`;
+
+// Sequence DDL for the tables created in a file; '' with the identity strategy
+const buildIdentitySequenceDdl = (tables: string[], registry: Record<string, IdentityColumn>, strategy: IdentityStrategy) => {
+  if (strategy !== 'sequence') return '';
+  return tables
+    .filter(table => registry[table])
+    .map(table => `-- Identity column ${table}.${registry[table].column}\n${generateIdentitySequenceDdl(table, registry[table])}`)
+    .join('\n\n');
+};
+
+export interface IdentityRewriteResult {
+  code: string;
+  tables: string[]; // tables whose identity column is defined in the code
+  sequenceDdl: string; // sequences and triggers for those tables; '' with the identity strategy
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+// Converted code with the sequence DDL of its tables after it
+export const appendIdentitySequenceDdl = (code: string, result: IdentityRewriteResult) =>
+  result.sequenceDdl ? `${code.trimEnd()}\n\n${result.sequenceDdl}\n` : code;
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+// Index of the `(` opening the column list of an INSERT, or -1 when it has none
+const insertColumnListStart = (tokens: SybaseToken[]) => {
+  let index = 1;
+  if (tokens[index]?.upper === 'INTO') index++;
+  while (tokens[index] && tokens[index].value !== '(' && !['VALUES', 'SELECT', 'EXEC', 'EXECUTE'].includes(tokens[index].upper)) index++;
+  return tokens[index]?.value === '(' ? index : -1;
+};
+
+// Index of the `)` matching the `(` at start
+const closingParen = (tokens: SybaseToken[], start: number) => {
+  let depth = 0;
+  for (let index = start; index < tokens.length; index++) {
+    if (tokens[index].value === '(') depth++;
+    if (tokens[index].value === ')' && --depth === 0) return index;
+  }
+  return -1;
+};
+
+// Rewrite identity definitions and inserts for the project strategy. With sequences, inserts that
+// leave the identity column out get it back with <sequence>.NEXTVAL, so every file draws from the
+// same sequence. SET IDENTITY_INSERT has no Oracle equivalent and becomes a comment plus an issue.
+// The line count is kept so issue positions still match the uploaded file.
+export const rewriteIdentityColumns = (
+  code: string,
+  registry: Record<string, IdentityColumn> = getIdentityColumns(),
+  strategy: IdentityStrategy = getIdentityStrategy()
+): IdentityRewriteResult => {
+  const script = parseSybase(code);
+  const edits: { start: number; end: number; text: string; line: number }[] = [];
+  const issues: ConversionIssue[] = [];
+  const tables: string[] = [];
+  const statements = allStatements(script);
+
+  // Tables defined in this file count even before the registry has been synced
+  const identities: Record<string, IdentityColumn> = { ...registry };
+  statements.forEach(statement => {
+    const column = identityColumnOf(statement);
+    if (!column) return;
+    const table = normalizeObjectName(statement.name!);
+    identities[table] = identities[table] ?? { column: column.name, sequence: sequenceNameFor(table), dataType: column.dataType.text };
+  });
+
+  const issue = (token: SybaseToken, severity: ConversionIssue['severity'], description: string, originalCode: string, suggestedFix?: string) => {
+    issues.push({
+      id: `identity-${token.line}:${token.column}`,
+      lineNumber: token.line,
+      columnNumber: token.column,
+      codeSide: 'original',
+      severity,
+      description,
+      originalCode,
+      suggestedFix,
+      category: IDENTITY_CATEGORY,
+    });
+  };
+
+  statements.forEach(statement => {
+    // 1. CREATE TABLE … col <type> identity
+    const column = identityColumnOf(statement);
+    if (column) {
+      const table = normalizeObjectName(statement.name!);
+      const keyword = statement.tokens.find(token => token.upper === 'IDENTITY');
+      tables.push(table);
+      if (keyword) {
+        edits.push({
+          start: keyword.offset,
+          end: keyword.offset + keyword.value.length,
+          text: strategy === 'identity' ? 'GENERATED BY DEFAULT AS IDENTITY' : `/* identity: ${identities[table].sequence} */`,
+          line: keyword.line,
+        });
+      }
+      return;
+    }
+
+    // 2. SET IDENTITY_INSERT t ON|OFF
+    const identityInsert = parseIdentityInsert(statement);
+    if (identityInsert) {
+      const table = normalizeObjectName(identityInsert.table);
+      const identity = identities[table];
+      edits.push({
+        start: statement.startOffset,
+        end: statement.endOffset,
+        text: `/* ${statement.text.replace(/\s+/g, ' ').trim()}: not needed in Oracle */` + '\n'.repeat(newlines(statement.text)),
+        line: statement.startLine,
+      });
+      if (!identityInsert.on || !identity) return;
+      issue(statement.tokens[0], 'warning',
+        strategy === 'identity'
+          ? `IDENTITY_INSERT on line ${statement.startLine} was removed: GENERATED BY DEFAULT columns accept explicit values. The identity generator is not advanced past them, so later inserts can collide.`
+          : `IDENTITY_INSERT on line ${statement.startLine} was removed: the trigger keeps explicit values. ${identity.sequence} is not advanced past them, so later inserts can collide.`,
+        statement.text,
+        strategy === 'identity'
+          ? `After loading explicit values run ALTER TABLE ${table} MODIFY ${identity.column} GENERATED BY DEFAULT AS IDENTITY (START WITH LIMIT VALUE).`
+          : `After loading explicit values restart ${identity.sequence} above MAX(${identity.column}) (ALTER SEQUENCE ${identity.sequence} RESTART START WITH n).`);
+      return;
+    }
+
+    // 3. INSERT into a table with a sequence
+    const identity = statement.kind === 'insert' && statement.table && identities[normalizeObjectName(statement.table)];
+    if (!identity || strategy !== 'sequence') return;
+    const tokens = statement.tokens;
+    const listStart = insertColumnListStart(tokens);
+    if (listStart < 0) {
+      if (tokens.some(token => token.upper === 'VALUES' || token.upper === 'SELECT')) {
+        issue(tokens[0], 'warning',
+          `The INSERT into ${statement.table} on line ${statement.startLine} has no column list. Sybase skips the identity column ${identity.column}, Oracle expects a value for it.`,
+          statement.text,
+          `List the columns explicitly and leave ${identity.column} out; the trigger fills it from ${identity.sequence}.`);
+      }
+      return;
+    }
+    const listEnd = closingParen(tokens, listStart);
+    const listed = tokens.slice(listStart + 1, listEnd).some(token => normalizeObjectName(token.value) === identity.column.toLowerCase());
+    const valuesStart = tokens[listEnd + 1]?.upper === 'VALUES' && tokens[listEnd + 2]?.value === '(' ? listEnd + 2 : -1;
+    // Explicit values and INSERT … SELECT are left to the trigger
+    if (listEnd < 0 || listed || valuesStart < 0) return;
+    const afterParen = (token: SybaseToken) => token.offset + token.value.length;
+    edits.push({ start: afterParen(tokens[listStart]), end: afterParen(tokens[listStart]), text: `${identity.column}, `, line: tokens[listStart].line });
+    edits.push({ start: afterParen(tokens[valuesStart]), end: afterParen(tokens[valuesStart]), text: `${identity.sequence}.NEXTVAL, `, line: tokens[valuesStart].line });
+  });
+
+  const sequenceDdl = buildIdentitySequenceDdl(tables, identities, strategy);
+  if (edits.length === 0) return { code: script.source, tables, sequenceDdl, issues };
+
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    tables,
+    sequenceDdl,
+    issues,
+    appliedRule: {
+      ruleId: 'identity-columns',
+      description: strategy === 'identity'
+        ? 'identity columns → GENERATED BY DEFAULT AS IDENTITY'
+        : 'identity columns → project sequences (<table>_seq.NEXTVAL)',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Sequences that back @@identity: only the sequence strategy has a CURRVAL to read
+export const identitySequences = (
+  registry: Record<string, IdentityColumn> = getIdentityColumns(),
+  strategy: IdentityStrategy = getIdentityStrategy()
+): Record<string, string> => {
+  if (strategy !== 'sequence') return {};
+  return Object.fromEntries(Object.entries(registry).map(([table, identity]) => [table, identity.sequence]));
+};
+
+const mapIdentityType = (dataType: SybaseDataType) => mapDataType(dataType) ?? dataType.text.toUpperCase();
+
+// Data type report entries for identity columns, which the plain type mapping does not show
+export const identityDataTypeMappings = (code: string, strategy: IdentityStrategy = getIdentityStrategy()): DataTypeMapping[] =>
+  allStatements(parseSybase(code)).flatMap(statement => {
+    const column = identityColumnOf(statement);
+    if (!column) return [];
+    const table = normalizeObjectName(statement.name!);
+    return [{
+      sybaseType: `${column.dataType.text} identity`,
+      oracleType: strategy === 'identity'
+        ? `${mapIdentityType(column.dataType)} GENERATED BY DEFAULT AS IDENTITY`
+        : `${mapIdentityType(column.dataType)} + ${sequenceNameFor(table)} / ${identityTriggerNameFor(table)}`,
+      description: `Identity column ${table}.${column.name}`,
+    }];
+  });
+
+// Prompt guidance so the model keeps the identity handling
+export const describeIdentityColumns = (code: string, registry: Record<string, IdentityColumn> = getIdentityColumns(), strategy: IdentityStrategy = getIdentityStrategy()): string => {
+  const tokens = parseSybase(code).tokens;
+  const used = Object.entries(registry).filter(([table]) => tokens.some(token => normalizeObjectName(token.value) === table));
+  if (used.length === 0) return 'None.';
+  return used.map(([table, identity]) => strategy === 'identity'
+    ? `${table}.${identity.column} is GENERATED BY DEFAULT AS IDENTITY: leave it out of inserts and read new values with RETURNING ${identity.column} INTO`
+    : `${table}.${identity.column} is filled from ${identity.sequence} (trigger ${identityTriggerNameFor(table)}): keep ${identity.sequence}.NEXTVAL in inserts, read the last value with RETURNING or ${identity.sequence}.CURRVAL, never create another sequence`
+  ).join('\n');
+};
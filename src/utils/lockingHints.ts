@@ -0,0 +1,482 @@
+import type { AppliedRule, ConversionIssue, TargetDialect } from '@/types';
+import { parseSybase, isSignificantToken, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import { getTargetDialect, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
+
+// Sybase locking, isolation and optimizer hints. Oracle readers never block and never read dirty
+// data, so most read hints are dropped; holdlock and repeatable-read/serializable statements become
+// SELECT … FOR UPDATE where Oracle allows it, index hints become /*+ INDEX(…) */ on their query block,
+// and session isolation becomes ALTER SESSION SET ISOLATION_LEVEL. Anything without a safe form is
+// removed and reported. Rewrites keep the line count so issue lines stay accurate.
+
+export const LOCKING_CATEGORY = 'locking';
+
+export interface LockingTranslation {
+  line: number;
+  construct: string; // as written
+  to: string; // what it became; '' when it was dropped
+  safe: boolean; // false when the behaviour changes in a way the reviewer has to check
+}
+
+export interface LockingRewriteResult {
+  code: string;
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+  translations: LockingTranslation[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface TableReference {
+  table: string;
+  alias?: string;
+  index: number; // token index of the table name
+}
+
+// Sybase and SQL Server isolation levels by number and name
+const ISOLATION_LEVELS: Record<string, number> = {
+  '0': 0, 'READ UNCOMMITTED': 0,
+  '1': 1, 'READ COMMITTED': 1,
+  '2': 2, 'REPEATABLE READ': 2,
+  '3': 3, SERIALIZABLE: 3,
+};
+
+const ISOLATION_NAMES = ['READ UNCOMMITTED', 'READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE'];
+
+// SQL Server WITH (…) table hints by what they become
+const READ_HINTS = new Set(['NOLOCK', 'READUNCOMMITTED', 'READCOMMITTED', 'READCOMMITTEDLOCK', 'ROWLOCK', 'PAGLOCK', 'NOHOLDLOCK', 'FORCESEEK', 'FORCESCAN']);
+const LOCK_HINTS = new Set(['HOLDLOCK', 'UPDLOCK', 'XLOCK', 'SERIALIZABLE', 'REPEATABLEREAD']);
+const TABLE_LOCK_HINTS = new Set(['TABLOCK', 'TABLOCKX']);
+
+// First words of a Sybase (…) table hint group
+const GROUP_HINTS = new Set(['INDEX', 'PREFETCH', 'LRU', 'MRU', 'PARALLEL', ...READ_HINTS, ...LOCK_HINTS, ...TABLE_LOCK_HINTS, 'READPAST', 'NOWAIT']);
+
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+const ROUTINE_KINDS = new Set(['createProcedure', 'createTrigger', 'createFunction']);
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+const padLines = (replacement: string, original: string) =>
+  replacement + '\n'.repeat(Math.max(0, newlines(original) - newlines(replacement)));
+
+const endOf = (token: SybaseToken) => token.offset + token.value.length;
+
+const isName = (token?: SybaseToken) => token?.type === 'identifier' || token?.type === 'quotedIdentifier' || token?.type === 'tempTable';
+
+const unquote = (name: string) => name.replace(/^[[\]"]|[[\]"]$/g, '');
+
+// Matching '(' of the ')' at index, walking back
+const openingParen = (tokens: SybaseToken[], index: number) => {
+  let depth = 0;
+  for (let i = index; i >= 0; i--) {
+    if (tokens[i].value === ')') depth++;
+    else if (tokens[i].value === '(' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// Matching ')' of the '(' at index
+const closingParen = (tokens: SybaseToken[], index: number) => {
+  let depth = 0;
+  for (let i = index; i < tokens.length; i++) {
+    if (tokens[i].value === '(') depth++;
+    else if (tokens[i].value === ')' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// The table reference a hint starting at `index` belongs to: [owner.]table [[as] alias] [(…)] hint
+const tableBefore = (tokens: SybaseToken[], index: number): TableReference | undefined => {
+  let i = index - 1;
+  if (tokens[i]?.value === ')' && GROUP_HINTS.has(tokens[openingParen(tokens, i) + 1]?.upper)) i = openingParen(tokens, i) - 1;
+  if (tokens[i]?.upper === 'WITH') i--;
+  let alias: string | undefined;
+  if (isName(tokens[i]) && (isName(tokens[i - 1]) || tokens[i - 1]?.upper === 'AS')) {
+    alias = unquote(tokens[i].value);
+    i -= tokens[i - 1].upper === 'AS' ? 2 : 1;
+  }
+  if (!isName(tokens[i])) return undefined;
+  const nameIndex = i;
+  while (tokens[i - 1]?.value === '.' || tokens[i - 1]?.value === '..') i -= 2;
+  if (!['FROM', 'JOIN', 'UPDATE', 'DELETE', ','].includes(tokens[i - 1]?.upper ?? '')) return undefined;
+  return { table: unquote(tokens[nameIndex].value), alias, index: nameIndex };
+};
+
+// SELECT/UPDATE/DELETE that starts the query block containing the token at index
+const blockKeyword = (tokens: SybaseToken[], index: number, from: number) => {
+  let depth = 0;
+  for (let i = index; i >= from; i--) {
+    const token = tokens[i];
+    if (token.value === ')') depth++;
+    else if (token.value === '(') {
+      if (depth === 0) return undefined;
+      depth--;
+    } else if (depth === 0 && ['SELECT', 'UPDATE', 'DELETE'].includes(token.upper)) return i;
+  }
+  return undefined;
+};
+
+// Why Oracle rejects FOR UPDATE on the statement, if it does
+const forUpdateBlocker = (tokens: SybaseToken[]): string | undefined => {
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.value === '(') depth++;
+    else if (token.value === ')') depth--;
+    if (depth !== 0) continue;
+    if (['UNION', 'INTERSECT', 'EXCEPT'].includes(token.upper)) return 'a set operation';
+    if (token.upper === 'DISTINCT' || (token.upper === 'GROUP' && tokens[i + 1]?.upper === 'BY') || token.upper === 'HAVING') return 'DISTINCT or GROUP BY';
+    if (AGGREGATES.has(token.upper) && tokens[i + 1]?.value === '(') return 'an aggregate';
+    if (token.upper === 'TOP') return 'a row limit';
+    if (token.upper === 'INTO' && tokens[i + 1]?.type !== 'variable') return 'SELECT INTO a table';
+    if (token.upper === 'FOR' && ['READ', 'BROWSE'].includes(tokens[i + 1]?.upper)) return 'a read-only cursor';
+  }
+  return undefined;
+};
+
+const hasForUpdate = (tokens: SybaseToken[]) =>
+  tokens.some((token, index) => token.upper === 'FOR' && tokens[index + 1]?.upper === 'UPDATE');
+
+// Isolation level words starting at index: the level and the index after them
+const readIsolationLevel = (tokens: SybaseToken[], index: number): { level: number; next: number } | undefined => {
+  const one = tokens[index]?.upper;
+  const two = `${one} ${tokens[index + 1]?.upper}`;
+  if (ISOLATION_LEVELS[two] !== undefined) return { level: ISOLATION_LEVELS[two], next: index + 2 };
+  if (one !== undefined && ISOLATION_LEVELS[one] !== undefined) return { level: ISOLATION_LEVELS[one], next: index + 1 };
+  return undefined;
+};
+
+// Every statement with whether it is inside a procedure, trigger or function
+const collectStatements = (statements: SybaseStatement[], into: { statement: SybaseStatement; inRoutine: boolean }[], inRoutine = false) => {
+  statements.forEach(statement => {
+    into.push({ statement, inRoutine });
+    const nested = inRoutine || ROUTINE_KINDS.has(statement.kind);
+    if (statement.body) collectStatements(statement.body, into, nested);
+    if (statement.elseBody) collectStatements(statement.elseBody, into, nested);
+  });
+  return into;
+};
+
+export const rewriteLockingHints = (code: string, target: TargetDialect = getTargetDialect()): LockingRewriteResult => {
+  const script = parseSybase(code);
+  const source = script.source;
+  const tokens = script.tokens.filter(isSignificantToken);
+  const entries: { statement: SybaseStatement; inRoutine: boolean }[] = [];
+  script.batches.forEach(batch => collectStatements(batch.statements, entries));
+  const oracle = target === 'oracle';
+  const targetLabel = TARGET_DIALECT_LABELS[target];
+
+  const edits: Edit[] = [];
+  const issues: ConversionIssue[] = [];
+  const translations: LockingTranslation[] = [];
+  // Statements that get FOR UPDATE, with the lines that asked for it
+  const forUpdate = new Map<SybaseStatement, { nowait: boolean; reasons: SybaseToken[] }>();
+  // Query block keyword → index hints for it
+  const indexHints = new Map<number, string[]>();
+
+  const record = (token: SybaseToken, construct: string, to: string, severity: ConversionIssue['severity'], description: string, suggestedFix?: string) => {
+    translations.push({ line: token.line, construct, to, safe: severity === 'info' });
+    issues.push({
+      id: `lock-${token.line}:${token.column}-${translations.length}`,
+      lineNumber: token.line,
+      columnNumber: token.column,
+      codeSide: 'original',
+      severity,
+      description,
+      originalCode: construct,
+      suggestedFix,
+      category: LOCKING_CATEGORY,
+    });
+  };
+
+  // Remove tokens first..last together with the whitespace before them
+  const remove = (first: number, last: number, text = '') => {
+    const start = first > 0 ? endOf(tokens[first - 1]) : tokens[first].offset;
+    const original = source.slice(start, endOf(tokens[last]));
+    edits.push({ start, end: endOf(tokens[last]), text: padLines(text, original) });
+  };
+
+  // Innermost statement containing the token
+  const statementOf = (token: SybaseToken) => entries
+    .filter(({ statement }) => token.offset >= statement.startOffset && token.offset < statement.endOffset)
+    .sort((a, b) => (a.statement.endOffset - a.statement.startOffset) - (b.statement.endOffset - b.statement.startOffset))[0]?.statement;
+
+  // holdlock and its equivalents: FOR UPDATE on the statement when Oracle allows it there.
+  // `index` is a token of the locked query block: the table reference or the isolation clause.
+  const requestLock = (token: SybaseToken, index: number, construct: string, nowait = false) => {
+    const statement = statementOf(token);
+    const first = statement ? tokens.indexOf(statement.tokens[0]) : 0;
+    const keyword = blockKeyword(tokens, index, first);
+    const topLevel = statement && (statement.kind === 'select' || statement.kind === 'declareCursor')
+      && keyword !== undefined && tokens[keyword].upper === 'SELECT' && blockKeyword(tokens, keyword, first) === keyword
+      && !statement.tokens.slice(0, statement.tokens.indexOf(tokens[keyword])).some(t => t.value === '(');
+    const blocker = statement && topLevel ? forUpdateBlocker(statement.tokens) : undefined;
+    if (!statement || !topLevel || blocker) {
+      record(token, construct, '', 'warning',
+        `${construct} on line ${token.line} was removed: ${targetLabel} only locks rows read by a top-level SELECT … FOR UPDATE${blocker ? `, which is not allowed with ${blocker}` : ''}. Rows read here can change before the transaction ends.`,
+        'Lock the rows with a separate SELECT … FOR UPDATE, or the table with LOCK TABLE … IN SHARE MODE.');
+      return;
+    }
+    const entry = forUpdate.get(statement) ?? { nowait: false, reasons: [] };
+    entry.nowait = entry.nowait || nowait;
+    entry.reasons.push(token);
+    forUpdate.set(statement, entry);
+    let depth = 0;
+    let inFrom = false;
+    const joined = statement.tokens.some(t => {
+      if (t.value === '(') depth++;
+      else if (t.value === ')') depth--;
+      else if (depth === 0 && t.upper === 'FROM') inFrom = true;
+      else if (depth === 0 && ['WHERE', 'GROUP', 'ORDER'].includes(t.upper)) inFrom = false;
+      return depth === 0 && (t.upper === 'JOIN' || (inFrom && t.value === ','));
+    });
+    record(token, construct, 'FOR UPDATE', 'warning',
+      `${construct} on line ${token.line} became FOR UPDATE. Sybase holds shared locks until the transaction ends; ${targetLabel} takes exclusive row locks, so other sessions can still read the rows but cannot lock or change them${joined ? ', and the rows of every joined table are locked' : ''}.`,
+      joined ? 'Add OF <column> to FOR UPDATE to lock only the rows of the table that had the hint.' : undefined);
+  };
+
+  const indexHint = (token: SybaseToken, reference: TableReference, hint: string) => {
+    const statement = statementOf(token);
+    const first = statement ? tokens.indexOf(statement.tokens[0]) : 0;
+    const keyword = blockKeyword(tokens, reference.index, first);
+    const name = reference.alias ?? reference.table;
+    if (!oracle || keyword === undefined) {
+      record(token, hint, '', 'info',
+        `Index hint on ${reference.table} (line ${token.line}) was dropped: ${oracle ? 'it is not in a query block a hint can be attached to' : `${targetLabel} has no optimizer hints`}.`,
+        oracle ? undefined : 'Check the plan with EXPLAIN; add an index or statistics if the planner picks a poor one.');
+      return undefined;
+    }
+    return { keyword, name };
+  };
+
+  tokens.forEach((token, index) => {
+    // Sybase holdlock / noholdlock / readpast after a table
+    const bare = ['HOLDLOCK', 'NOHOLDLOCK', 'READPAST'].includes(token.upper) && tokens[index - 1]?.value !== '(' ? tableBefore(tokens, index) : undefined;
+    if (bare) {
+      remove(index, index);
+      if (token.upper === 'HOLDLOCK') requestLock(token, bare.index, token.value);
+      else if (token.upper === 'NOHOLDLOCK') record(token, token.value, '', 'info', `noholdlock on line ${token.line} was dropped: ${targetLabel} readers never hold locks.`);
+      else readpast(token);
+      return;
+    }
+
+    // (index name prefetch n lru), (prefetch n), (parallel n) and SQL Server WITH (nolock, index(name))
+    const withHint = token.upper === 'WITH' && tokens[index + 1]?.value === '(';
+    const groupStart = withHint ? index + 1 : index;
+    if (!withHint && tokens[index - 1]?.upper === 'WITH') return;
+    if (tokens[groupStart]?.value !== '(' || !GROUP_HINTS.has(tokens[groupStart + 1]?.upper)) return;
+    const reference = tableBefore(tokens, withHint ? index : groupStart);
+    if (!reference) return;
+    const groupEnd = closingParen(tokens, groupStart);
+    if (groupEnd < 0) return;
+    remove(index, groupEnd);
+
+    // Items split at the top-level commas of the group
+    const items: SybaseToken[][] = [[]];
+    for (let i = groupStart + 1, depth = 0; i < groupEnd; i++) {
+      if (tokens[i].value === '(') depth++;
+      if (tokens[i].value === ')') depth--;
+      if (tokens[i].value === ',' && depth === 0) items.push([]);
+      else items[items.length - 1].push(tokens[i]);
+    }
+    const nowait = items.some(item => item[0]?.upper === 'NOWAIT');
+    items.forEach(item => {
+      const [word] = item;
+      if (!word || word.upper === 'NOWAIT') return;
+      const text = item.map(t => t.value).join(' ');
+      if (word.upper === 'INDEX') {
+        // index name | index(name, …) | index = name; index 0 is a table scan
+        const names = item.slice(1).filter(t => t.type !== 'punctuation' && t.value !== '=' && !['PREFETCH', 'LRU', 'MRU'].includes(t.upper) && !(t.type === 'number' && item[item.indexOf(t) - 1]?.upper === 'PREFETCH'));
+        const placement = indexHint(word, reference, text);
+        if (!placement) return;
+        const hint = names.length === 1 && names[0].value === '0'
+          ? `FULL(${placement.name})`
+          : `INDEX(${placement.name} ${names.map(t => unquote(t.value)).join(' ')})`;
+        indexHints.set(placement.keyword, [...(indexHints.get(placement.keyword) ?? []), hint]);
+        record(word, text, `/*+ ${hint} */`, 'info',
+          `Index hint on ${reference.table} (line ${word.line}) became /*+ ${hint} */${item.some(t => ['PREFETCH', 'LRU', 'MRU'].includes(t.upper)) ? '; prefetch and cache strategy have no Oracle form and were dropped' : ''}.`);
+      } else if (word.upper === 'PARALLEL') {
+        const placement = indexHint(word, reference, text);
+        if (!placement) return;
+        const degree = item.find(t => t.type === 'number')?.value;
+        const hint = `PARALLEL(${placement.name}${degree ? ` ${degree}` : ''})`;
+        indexHints.set(placement.keyword, [...(indexHints.get(placement.keyword) ?? []), hint]);
+        record(word, text, `/*+ ${hint} */`, 'info', `Parallel scan of ${reference.table} (line ${word.line}) became /*+ ${hint} */.`);
+      } else if (['PREFETCH', 'LRU', 'MRU'].includes(word.upper) || READ_HINTS.has(word.upper)) {
+        record(word, text, '', 'info', `${text} on ${reference.table} (line ${word.line}) was dropped: ${READ_HINTS.has(word.upper) ? `${targetLabel} readers never block and never read uncommitted data` : `${targetLabel} manages I/O size and buffer cache strategy itself`}.`);
+      } else if (LOCK_HINTS.has(word.upper)) {
+        // The query block comes from the table, not from inside the hint's own parentheses
+        requestLock(word, reference.index, text, nowait);
+      } else if (TABLE_LOCK_HINTS.has(word.upper)) {
+        record(word, text, '', 'warning', `${text} on ${reference.table} (line ${word.line}) was removed: ${targetLabel} has no table lock hint.`,
+          `Run LOCK TABLE ${reference.table} IN ${word.upper === 'TABLOCKX' ? 'EXCLUSIVE' : 'SHARE'} MODE before the statement.`);
+      } else if (word.upper === 'READPAST') {
+        readpast(word);
+      }
+    });
+  });
+
+  // readpast skips locked rows; Oracle readers see their committed version instead
+  function readpast(token: SybaseToken) {
+    const statement = statementOf(token);
+    record(token, token.value, '', 'warning',
+      `readpast on line ${token.line} was removed: ${targetLabel} readers are not blocked by locked rows and return their last committed values instead of skipping them${statement && statement.kind !== 'select' && statement.kind !== 'declareCursor' ? ', and an UPDATE or DELETE waits for them' : ''}.`,
+      `For queue-style processing, select the rows with FOR UPDATE SKIP LOCKED${oracle ? ' and process them by ROWID' : ''}.`);
+  }
+
+  entries.forEach(({ statement, inRoutine }) => {
+    const statementTokens = statement.tokens;
+    const [first, second, third] = statementTokens;
+
+    // select … at isolation <level>
+    if (statement.kind === 'select' || statement.kind === 'declareCursor') {
+      const at = statementTokens.findIndex((t, i) => t.upper === 'AT' && statementTokens[i + 1]?.upper === 'ISOLATION');
+      const level = at >= 0 ? readIsolationLevel(statementTokens, at + 2) : undefined;
+      if (level) {
+        const firstIndex = tokens.indexOf(statementTokens[at]);
+        remove(firstIndex, tokens.indexOf(statementTokens[level.next - 1]));
+        const construct = statementTokens.slice(at, level.next).map(t => t.value).join(' ');
+        if (level.level >= 2) requestLock(statementTokens[at], firstIndex, construct);
+        else record(statementTokens[at], construct, '', 'info', `${construct} on line ${statementTokens[at].line} was dropped: ${targetLabel} ${level.level === 0 ? 'never reads uncommitted data; the statement reads committed data' : 'reads committed data by default'}.`);
+      }
+    }
+
+    if (statement.kind !== 'set') return;
+    const end = source[statement.endOffset] === ';' ? statement.endOffset + 1 : statement.endOffset;
+    const text = source.slice(statement.startOffset, end);
+    const replace = (replacement: string) => edits.push({ start: statement.startOffset, end, text: padLines(replacement, text) });
+
+    // set transaction isolation level <level>: a session setting in Sybase, as ALTER SESSION is in Oracle
+    if (second?.upper === 'TRANSACTION' && third?.upper === 'ISOLATION') {
+      const level = readIsolationLevel(statementTokens, statementTokens[3]?.upper === 'LEVEL' ? 4 : 3);
+      if (!level) return;
+      let replacement: string;
+      if (oracle) {
+        const oracleLevel = level.level >= 2 ? 'SERIALIZABLE' : 'READ COMMITTED';
+        const alter = `ALTER SESSION SET ISOLATION_LEVEL = ${oracleLevel}`;
+        replacement = inRoutine ? `EXECUTE IMMEDIATE '${alter}'` : alter;
+      } else {
+        replacement = `SET SESSION CHARACTERISTICS AS TRANSACTION ISOLATION LEVEL ${ISOLATION_NAMES[Math.max(level.level, 1)]}`;
+      }
+      replace(replacement);
+      const snapshot = level.level >= 2;
+      const scope = inRoutine
+        ? ` Inside a routine it changes the isolation of the whole session until it is set again, where Sybase restores the caller's level when the routine returns, and it only applies from the next transaction on.`
+        : '';
+      const restore = inRoutine
+        ? `Set the caller's level back (READ COMMITTED by default) before every exit of the routine, or use SET TRANSACTION ISOLATION LEVEL ${ISOLATION_NAMES[Math.max(level.level, 1)]} as the first statement of the transaction instead.`
+        : undefined;
+      const retry = snapshot ? `Retry the transaction on ${oracle ? 'ORA-08177' : 'SQLSTATE 40001'}.` : undefined;
+      record(first, text.trim(), replacement, snapshot || inRoutine ? 'warning' : 'info',
+        snapshot
+          ? `Isolation level ${ISOLATION_NAMES[level.level]} on line ${first.line} became ${replacement}. ${targetLabel} isolation is snapshot based: conflicting updates fail with a serialization error instead of waiting for locks.${scope}`
+          : `Isolation level ${ISOLATION_NAMES[level.level]} on line ${first.line} became ${replacement}${level.level === 0 ? `; ${targetLabel} never reads uncommitted data` : ''}.${scope}`,
+        [retry, restore].filter(Boolean).join(' ') || undefined);
+      return;
+    }
+
+    // set lock wait n / set lock nowait: Oracle waits per statement, not per session
+    if (second?.upper === 'LOCK' && (third?.upper === 'WAIT' || third?.upper === 'NOWAIT')) {
+      replace(`/* ${text.replace(/\s+/g, ' ').trim()} */`);
+      record(first, text.trim(), '', 'warning', `${text.trim()} on line ${first.line} was commented out: ${targetLabel} has no session lock wait time.`,
+        oracle ? 'Add WAIT n or NOWAIT to the SELECT … FOR UPDATE and LOCK TABLE statements that should not wait indefinitely.' : 'Use SET lock_timeout = \'n s\' for the session.');
+      return;
+    }
+
+    // set forceplan on|off
+    if (second?.upper === 'FORCEPLAN') {
+      replace(`/* ${text.replace(/\s+/g, ' ').trim()} */`);
+      record(first, text.trim(), '', 'info', `${text.trim()} on line ${first.line} was commented out: ${targetLabel} chooses the join order itself.`,
+        oracle ? 'Add /*+ ORDERED */ or LEADING(…) to the queries that need the join order of their FROM clause.' : undefined);
+    }
+  });
+
+  // plan '…' abstract plans
+  tokens.forEach((token, index) => {
+    if (token.upper !== 'PLAN' || tokens[index + 1]?.type !== 'string' || tokens[index - 1]?.value === '.') return;
+    remove(index, index + 1);
+    record(token, `plan ${tokens[index + 1].value}`, '', 'warning', `Abstract plan on line ${token.line} was removed: ${targetLabel} has no abstract plans.`,
+      oracle ? 'Fix the plan with a SQL plan baseline once the converted statement runs.' : undefined);
+  });
+
+  forUpdate.forEach(({ nowait }, statement) => {
+    if (hasForUpdate(statement.tokens)) return;
+    const last = statement.tokens[statement.tokens.length - 1];
+    const lastBefore = last.value === ';' && statement.tokens.length > 1 ? statement.tokens[statement.tokens.length - 2] : last;
+    // After the hints and the isolation clause removed at the end of the statement
+    const removedAtEnd = edits.find(edit => edit.end === endOf(lastBefore) && edit.start < edit.end);
+    const at = removedAtEnd ? removedAtEnd.start : endOf(lastBefore);
+    edits.push({ start: at, end: at, text: ` FOR UPDATE${nowait ? ' NOWAIT' : ''}` });
+  });
+
+  indexHints.forEach((hints, keyword) => {
+    edits.push({ start: endOf(tokens[keyword]), end: endOf(tokens[keyword]), text: ` /*+ ${hints.join(' ')} */` });
+  });
+
+  let rewritten = source;
+  edits
+    .map((edit, order) => ({ ...edit, order }))
+    // Inserts at the start of a removal go after it, so they are not removed with it
+    .sort((a, b) => b.start - a.start || (a.start === a.end ? 1 : 0) - (b.start === b.end ? 1 : 0) || b.order - a.order)
+    .forEach(edit => {
+      rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+    });
+
+  if (translations.length === 0) return { code: source, issues, translations };
+  return {
+    code: rewritten,
+    issues,
+    translations,
+    appliedRule: {
+      ruleId: 'locking-hints',
+      description: oracle
+        ? 'holdlock / at isolation / set transaction isolation level / (index …) → FOR UPDATE, ALTER SESSION SET ISOLATION_LEVEL and /*+ INDEX */ hints'
+        : 'holdlock / at isolation / set transaction isolation level / (index …) → FOR UPDATE and session isolation; index hints dropped',
+      occurrences: translations.length,
+      lineNumbers: [...new Set(translations.map(translation => translation.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt section: the translations the model has to keep
+export const describeLockingHints = (result: LockingRewriteResult): string => {
+  if (result.translations.length === 0) return 'None. The code has no locking, isolation or index hints.';
+  return result.translations
+    .map(translation => translation.to
+      ? `- ${translation.construct} (line ${translation.line}) → ${translation.to} (already rewritten; keep it)`
+      : `- ${translation.construct} (line ${translation.line}) was removed${translation.safe ? '' : ' and reported'}; do not add locking or hints for it`)
+    .join('\n');
+};
+
+// --- Recommendations for converted Oracle code ---
+
+const HINT_ANCHOR = /\b(select|insert|update|delete|merge)\s*$/i;
+const ALIAS_HINTS = /\b(INDEX|NO_INDEX|FULL|PARALLEL|INDEX_FFS|INDEX_DESC|USE_NL|USE_HASH|USE_MERGE|LEADING)\s*\(\s*([\w$#"]+)/gi;
+
+// Hints Oracle ignores and FOR UPDATE without a wait limit; replaces the old "any /*+ at all" check
+export const recommendHints = (code: string): string[] => {
+  const recommendations: string[] = [];
+  const lineOf = (offset: number) => code.slice(0, offset).split('\n').length;
+  for (const match of code.matchAll(/\/\*\+([\s\S]*?)\*\//g)) {
+    const line = lineOf(match.index!);
+    if (!HINT_ANCHOR.test(code.slice(0, match.index))) {
+      recommendations.push(`Hint on line ${line} does not directly follow SELECT/INSERT/UPDATE/DELETE/MERGE, so Oracle treats it as a comment`);
+      continue;
+    }
+    // The statement the hint belongs to, up to its terminator
+    const statementEnd = code.indexOf(';', match.index!);
+    const statement = code.slice(match.index! + match[0].length, statementEnd < 0 ? undefined : statementEnd);
+    for (const [, hint, alias] of match[1].matchAll(ALIAS_HINTS)) {
+      if (!new RegExp(`(^|[^\\w$#])${alias.replace(/[$"]/g, '\\$&')}([^\\w$#]|$)`, 'i').test(statement)) {
+        recommendations.push(`${hint.toUpperCase()} hint on line ${line} names ${alias}, which is not a table or alias of its query; Oracle ignores it silently`);
+      }
+    }
+  }
+  if (/\bFOR\s+UPDATE\b(?![^;]*\b(NOWAIT|WAIT\s+\d+|SKIP\s+LOCKED)\b)/i.test(code)) {
+    recommendations.push('Add WAIT n or NOWAIT to SELECT … FOR UPDATE so sessions do not wait indefinitely for locked rows');
+  }
+  return recommendations;
+};
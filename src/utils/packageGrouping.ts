@@ -0,0 +1,313 @@
+import { buildDependencyGraph, DependencyGraph, DependencyNode, DependencySource } from '@/utils/dependencyGraph';
+import { tokenizeSybase, isSignificantToken, SybaseToken } from '@/utils/sybaseParser';
+import { getIdentifierRenames } from '@/utils/identifierConflicts';
+import { assembleOracleScript } from '@/utils/scriptSplitter';
+import { convertedFileName } from '@/utils/targetDialect';
+
+// Oracle packages for the converted procedures and functions. Routines are grouped by the module
+// prefix of their names (usp_order_create and usp_order_cancel → order_pkg), routines without a
+// prefix group follow the package of the routines they call or are called by, and every grouping can
+// be overridden per routine. The packages are built from the converted code: constants and types
+// declared identically in several members move to the spec, and calls into a package are qualified
+// with its name everywhere else.
+
+export interface PackageSource extends DependencySource {
+  convertedCode?: string;
+}
+
+export interface PackageMember {
+  key: string; // normalized Sybase name
+  name: string; // name in the converted code, after identifier renames
+  kind: 'procedure' | 'function';
+  fileId: string;
+  fileName: string;
+  suggested: string; // '' is standalone
+  packageName: string;
+}
+
+export interface PackagePlan {
+  members: PackageMember[];
+  packages: { name: string; members: PackageMember[] }[];
+}
+
+export interface PackageArtifact {
+  fileName: string;
+  content: string;
+}
+
+// --- Assignments (persisted per browser, like the identifier renames) ---
+const ASSIGNMENTS_STORAGE_KEY = 'package-assignments';
+
+export const getPackageAssignments = (): Record<string, string> => {
+  if (typeof localStorage === 'undefined') return {};
+  const saved = localStorage.getItem(ASSIGNMENTS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+// '' keeps the routine standalone; undefined goes back to the suggestion
+export const setPackageAssignment = (key: string, packageName?: string) => {
+  const assignments = getPackageAssignments();
+  if (packageName === undefined) delete assignments[key];
+  else assignments[key] = packageName.toLowerCase();
+  localStorage.setItem(ASSIGNMENTS_STORAGE_KEY, JSON.stringify(assignments));
+  return assignments;
+};
+
+export const clearPackageAssignments = () => {
+  localStorage.removeItem(ASSIGNMENTS_STORAGE_KEY);
+  return {};
+};
+
+export const isValidPackageName = (name: string) => name === '' || /^[a-z][\w$#]*$/i.test(name);
+
+// --- Suggestions ---
+
+const ROUTINE_PREFIX = /^(usp|sp|up|proc|prc|p|fn|udf|f)_/i;
+
+const isRoutine = (node: DependencyNode) => node.kind === 'procedure' || node.kind === 'function';
+
+// Module of a routine name: usp_order_create → order. Single-word names have none.
+export const modulePrefix = (name: string) => {
+  const parts = name.replace(ROUTINE_PREFIX, '').split('_').filter(Boolean);
+  return parts.length > 1 ? parts[0].toLowerCase() : undefined;
+};
+
+export const packageNameFor = (prefix: string) => `${prefix}_pkg`;
+
+export const suggestPackages = (graph: DependencyGraph): Record<string, string> => {
+  const routines = graph.nodes.filter(isRoutine);
+  const suggestions: Record<string, string> = {};
+  const byPrefix = new Map<string, string[]>();
+  routines.forEach(routine => {
+    const prefix = modulePrefix(routine.key);
+    if (prefix) byPrefix.set(prefix, [...(byPrefix.get(prefix) ?? []), routine.key]);
+  });
+  byPrefix.forEach((keys, prefix) => {
+    if (keys.length >= 2) keys.forEach(key => { suggestions[key] = packageNameFor(prefix); });
+  });
+
+  // The rest join the package most of their callers and callees are in, if one clearly leads
+  let changed = true;
+  while (changed) {
+    changed = false;
+    routines.filter(routine => !suggestions[routine.key]).forEach(routine => {
+      const counts = new Map<string, number>();
+      graph.edges.forEach(edge => {
+        const other = edge.from === routine.key ? edge.to : edge.to === routine.key ? edge.from : undefined;
+        const packageName = other && suggestions[other];
+        if (packageName) counts.set(packageName, (counts.get(packageName) ?? 0) + 1);
+      });
+      const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+      if (ranked.length > 0 && ranked[0][1] !== ranked[1]?.[1]) {
+        suggestions[routine.key] = ranked[0][0];
+        changed = true;
+      }
+    });
+  }
+  return suggestions;
+};
+
+export const planPackages = (files: DependencySource[], assignments: Record<string, string> = getPackageAssignments()): PackagePlan => {
+  const graph = buildDependencyGraph(files);
+  const suggestions = suggestPackages(graph);
+  const renames = getIdentifierRenames();
+  const members: PackageMember[] = graph.nodes.filter(isRoutine).map(node => {
+    const suggested = suggestions[node.key] ?? '';
+    return {
+      key: node.key,
+      name: renames[node.key] ?? node.key,
+      kind: node.kind as PackageMember['kind'],
+      fileId: node.fileId,
+      fileName: node.fileName,
+      suggested,
+      packageName: assignments[node.key] ?? suggested,
+    };
+  });
+  const names = [...new Set(members.map(member => member.packageName).filter(Boolean))].sort();
+  return { members, packages: names.map(name => ({ name, members: members.filter(member => member.packageName === name) })) };
+};
+
+// --- Package code ---
+
+interface Declaration {
+  name: string;
+  text: string;
+  start: number; // removal range in the converted code, whole lines
+  end: number;
+}
+
+interface RoutineUnit {
+  member: PackageMember;
+  header: string; // PROCEDURE name (…) / FUNCTION name (…) RETURN type
+  code: string;
+  bodyStart: number; // IS/AS
+  bodyEnd: number;
+  declarations: Declaration[];
+  rest: string; // whatever else the converted file holds
+}
+
+const normalizeDeclaration = (text: string) => text.replace(/\s+/g, ' ').trim().toUpperCase();
+
+const indent = (text: string) => text.split('\n').map(line => (line.trim() ? `  ${line}` : '')).join('\n');
+
+// The CREATE PROCEDURE/FUNCTION of a member in its converted code
+const extractRoutine = (code: string, member: PackageMember): RoutineUnit | undefined => {
+  const tokens = tokenizeSybase(code, { doubleQuotedStrings: false }).filter(isSignificantToken);
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].upper !== 'CREATE') continue;
+    let k = i + 1;
+    while (['OR', 'REPLACE', 'EDITIONABLE', 'NONEDITIONABLE'].includes(tokens[k]?.upper)) k++;
+    if (tokens[k]?.upper !== member.kind.toUpperCase()) continue;
+    let n = k + 1;
+    while (tokens[n + 1]?.value === '.' && tokens[n + 2]) n += 2;
+    if (tokens[n]?.value.replace(/"/g, '').toLowerCase() !== member.name.toLowerCase()) continue;
+
+    // The header ends at the first IS/AS outside the parameter list
+    let depth = 0;
+    let as = -1;
+    for (let j = n + 1; j < tokens.length && as < 0; j++) {
+      if (tokens[j].value === '(') depth++;
+      else if (tokens[j].value === ')') depth--;
+      else if (depth === 0 && (tokens[j].upper === 'IS' || tokens[j].upper === 'AS')) as = j;
+    }
+    if (as < 0) return undefined;
+    const afterName = tokens[n].offset + tokens[n].value.length;
+    const header = `${tokens[k].value.toUpperCase()} ${member.name}${code.slice(afterName, tokens[as].offset).trimEnd()}`;
+    // The unit ends at the SQL*Plus '/' line
+    const slash = /\n[ \t]*\/[ \t]*(\n|$)/.exec(code.slice(tokens[as].offset));
+    const bodyEnd = slash ? tokens[as].offset + slash.index : code.length;
+
+    // Constants and types declared before the first BEGIN
+    const declarations: Declaration[] = [];
+    let start = as + 1;
+    depth = 0;
+    for (let j = as + 1; j < tokens.length && tokens[j].upper !== 'BEGIN'; j++) {
+      if (tokens[j].value === '(') depth++;
+      else if (tokens[j].value === ')') depth--;
+      else if (depth === 0 && tokens[j].value === ';') {
+        const first = tokens[start];
+        const name = tokens[start + 1]?.upper === 'CONSTANT' ? first.value : ['TYPE', 'SUBTYPE'].includes(first.upper) ? tokens[start + 1]?.value : undefined;
+        if (name) {
+          const lineStart = code.lastIndexOf('\n', first.offset - 1) + 1;
+          const lineEnd = code.indexOf('\n', tokens[j].offset);
+          declarations.push({
+            name: name.toLowerCase(),
+            text: code.slice(first.offset, tokens[j].offset + 1),
+            start: code.slice(lineStart, first.offset).trim() ? first.offset : lineStart,
+            end: lineEnd < 0 ? code.length : lineEnd + 1,
+          });
+        }
+        start = j + 1;
+      }
+    }
+    const rest = code.slice(0, tokens[i].offset) + code.slice(bodyEnd).replace(/^\s*\/[ \t]*/, '');
+    return { member, header, code, bodyStart: tokens[as].offset, bodyEnd, declarations, rest };
+  }
+  return undefined;
+};
+
+// PROCEDURE name (…) IS … END name; without the declarations moved to the spec
+const routineBody = (unit: RoutineUnit, shared: Set<string>) => {
+  let body = unit.code.slice(unit.bodyStart, unit.bodyEnd);
+  [...unit.declarations].reverse().forEach(declaration => {
+    if (!shared.has(declaration.name)) return;
+    body = body.slice(0, declaration.start - unit.bodyStart) + body.slice(declaration.end - unit.bodyStart);
+  });
+  body = body.trimEnd();
+  return `${unit.header} ${body.endsWith(';') ? body : `${body};`}`;
+};
+
+// Calls to packaged routines get the package name, except inside their own package
+export const qualifyPackageCalls = (code: string, packageOf: Map<string, string>, ownPackage?: string) => {
+  const tokens = tokenizeSybase(code, { doubleQuotedStrings: false }).filter(isSignificantToken);
+  const calls: SybaseToken[] = [];
+  tokens.forEach((token, index) => {
+    const packageName = token.type === 'identifier' ? packageOf.get(token.value.toLowerCase()) : undefined;
+    if (!packageName || packageName === ownPackage) return;
+    const previous = tokens[index - 1];
+    if (previous?.value === '.' || ['PROCEDURE', 'FUNCTION', 'END'].includes(previous?.upper)) return;
+    // name(…) and name; are calls, anything else is a column or variable of the same name
+    if (!['(', ';'].includes(tokens[index + 1]?.value)) return;
+    calls.push(token);
+  });
+  return calls.reverse().reduce(
+    (rewritten, token) => rewritten.slice(0, token.offset) + `${packageOf.get(token.value.toLowerCase())}.${token.value}` + rewritten.slice(token.offset + token.value.length),
+    code
+  );
+};
+
+// Spec and body per package, the callers with qualified calls, an install script and the drops
+// of the standalone routines the packages replace
+export const generatePackageArtifacts = (
+  files: PackageSource[],
+  assignments: Record<string, string> = getPackageAssignments()
+): { artifacts: PackageArtifact[]; warnings: string[] } => {
+  const plan = planPackages(files, assignments);
+  const warnings: string[] = [];
+  const units = new Map<string, RoutineUnit[]>();
+  plan.packages.forEach(({ name, members }) => {
+    units.set(name, members.map(member => {
+      const code = files.find(file => file.id === member.fileId)?.convertedCode;
+      const unit = code ? extractRoutine(code, member) : undefined;
+      if (!code) warnings.push(`${member.name} is not converted yet and stays out of ${name}.`);
+      else if (!unit) warnings.push(`No CREATE ${member.kind.toUpperCase()} ${member.name} found in the converted ${member.fileName}; it stays out of ${name}.`);
+      else if (unit.rest.trim()) warnings.push(`${member.fileName} holds more than ${member.name}; the rest stays in the standalone file.`);
+      return unit;
+    }).filter(Boolean) as RoutineUnit[]);
+  });
+  const packaged = [...units.values()].flat();
+  const packageOf = new Map(packaged.map(unit => [unit.member.name.toLowerCase(), unit.member.packageName]));
+
+  const specs: PackageArtifact[] = [];
+  const bodies: PackageArtifact[] = [];
+  units.forEach((members, name) => {
+    if (members.length === 0) return;
+    // Declared the same way in two or more members: declared once in the spec
+    const byName = new Map<string, Declaration[]>();
+    members.forEach(unit => unit.declarations.forEach(declaration => byName.set(declaration.name, [...(byName.get(declaration.name) ?? []), declaration])));
+    const shared = [...byName.values()].filter(declarations =>
+      declarations.length >= 2 && declarations.every(declaration => normalizeDeclaration(declaration.text) === normalizeDeclaration(declarations[0].text)));
+    const sharedNames = new Set(shared.map(declarations => declarations[0].name));
+
+    specs.push({
+      fileName: `${name}.pks`,
+      content: [
+        `CREATE OR REPLACE PACKAGE ${name} AS`,
+        ...(shared.length > 0 ? ['  -- Shared constants and types', ...shared.map(declarations => indent(declarations[0].text)), ''] : []),
+        ...members.map(unit => `${indent(unit.header)};`),
+        `END ${name};`,
+        '/',
+      ].join('\n') + '\n',
+    });
+    bodies.push({
+      fileName: `${name}.pkb`,
+      content: [
+        `CREATE OR REPLACE PACKAGE BODY ${name} AS`,
+        '',
+        members.map(unit => indent(qualifyPackageCalls(routineBody(unit, sharedNames), packageOf, name))).join('\n\n'),
+        '',
+        `END ${name};`,
+        '/',
+      ].join('\n') + '\n',
+    });
+  });
+
+  // Other converted files call packaged routines through their package
+  const packagedFiles = new Set(packaged.filter(unit => !unit.rest.trim()).map(unit => unit.member.fileId));
+  const callers = files
+    .filter(file => file.convertedCode && !packagedFiles.has(file.id))
+    .map(file => ({ file, code: qualifyPackageCalls(file.convertedCode!, packageOf) }))
+    .filter(({ file, code }) => code !== file.convertedCode)
+    .map(({ file, code }) => ({ fileName: convertedFileName(file.name, 'oracle'), content: code }));
+
+  if (specs.length === 0) return { artifacts: [], warnings };
+  const install = assembleOracleScript(
+    [...specs, ...bodies, ...callers].map((artifact, index) => ({ name: artifact.fileName, code: artifact.content, index })),
+    'Packages, then the objects that call them'
+  );
+  const drops = packaged.map(unit => `DROP ${unit.member.kind.toUpperCase()} ${unit.member.name};`).join('\n') + '\n';
+  return {
+    artifacts: [...specs, ...bodies, ...callers, { fileName: 'install_packages.sql', content: install }, { fileName: 'drop_standalone.sql', content: drops }],
+    warnings,
+  };
+};
@@ -0,0 +1,583 @@
+import type { ConversionIssue, TargetDialect } from '@/types';
+import { getTargetDialect } from '@/utils/targetDialect';
+
+// Offline Oracle PL/SQL syntax checker for converted code.
+// This is not a full grammar: it lexes the script, checks block structure
+// (BEGIN/END, IF/END IF, LOOP/END LOOP, CASE/END CASE), parentheses, statement
+// terminators and leftover T-SQL, and reports every problem with its line and column.
+
+export const PLSQL_SYNTAX_CATEGORY = 'plsql_syntax';
+
+type PlsqlTokenType = 'word' | 'quotedIdentifier' | 'string' | 'number' | 'symbol' | 'variable' | 'tempTable' | 'terminator';
+
+interface PlsqlToken {
+  type: PlsqlTokenType;
+  value: string;
+  upper: string;
+  line: number;
+  column: number;
+  lineStart: boolean; // first token on its line
+}
+
+interface ValidationContext {
+  issues: ConversionIssue[];
+  lines: string[];
+}
+
+const report = (
+  ctx: ValidationContext,
+  at: { line: number; column: number },
+  rule: string,
+  severity: ConversionIssue['severity'],
+  description: string,
+  suggestedFix?: string
+) => {
+  const id = `plsql-${rule}-${at.line}:${at.column}`;
+  if (ctx.issues.some(issue => issue.id === id)) return;
+  ctx.issues.push({
+    id,
+    lineNumber: at.line,
+    columnNumber: at.column,
+    description,
+    severity,
+    suggestedFix,
+    originalCode: ctx.lines[at.line - 1]?.trim(),
+    category: PLSQL_SYNTAX_CATEGORY,
+    codeSide: 'converted',
+  });
+};
+
+const SYMBOLS = ['<<', '>>', ':=', '=>', '||', '..', '<>', '!=', '^=', '~=', '>=', '<=', '**'];
+
+const tokenizePlsql = (code: string, ctx: ValidationContext): PlsqlToken[] => {
+  const tokens: PlsqlToken[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+  let atLineStart = true;
+
+  const advance = (to: number) => {
+    for (let k = i; k < to; k++) {
+      if (code[k] === '\n') {
+        line++;
+        lineStart = k + 1;
+        atLineStart = true;
+      }
+    }
+    i = to;
+  };
+  const push = (type: PlsqlTokenType, value: string, tokenLine: number, column: number) => {
+    tokens.push({ type, value, upper: value.toUpperCase(), line: tokenLine, column, lineStart: atLineStart });
+    atLineStart = false;
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+    const tokenLine = line;
+    const column = i - lineStart + 1;
+
+    if (/\s/.test(ch)) {
+      advance(i + 1);
+    } else if (ch === '-' && next === '-') {
+      const end = code.indexOf('\n', i);
+      advance(end === -1 ? code.length : end);
+    } else if (ch === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      if (end === -1) {
+        report(ctx, { line: tokenLine, column }, 'unterminated-comment', 'error', 'Block comment is never closed.', "Close the comment with '*/'.");
+        advance(code.length);
+      } else {
+        advance(end + 2);
+      }
+    } else if (ch === '/' && atLineStart && /^\/[ \t]*(\n|$)/.test(code.slice(i))) {
+      // SQL*Plus block terminator: a '/' alone on its line
+      push('terminator', '/', tokenLine, column);
+      advance(i + 1);
+    } else if ((ch === 'q' || ch === 'Q') && next === '\'') {
+      // Alternative quoting: q'[...]', q'{...}', q'!...!'
+      const open = code[i + 2] || '';
+      const close = ({ '[': ']', '{': '}', '(': ')', '<': '>' } as Record<string, string>)[open] || open;
+      const end = open ? code.indexOf(`${close}'`, i + 3) : -1;
+      if (end === -1) {
+        report(ctx, { line: tokenLine, column }, 'unterminated-string', 'error', 'Quoted string literal is never closed.', `Close the literal with ${close}'.`);
+        advance(code.length);
+      } else {
+        push('string', code.slice(i, end + 2), tokenLine, column);
+        advance(end + 2);
+      }
+    } else if (ch === '\'') {
+      let j = i + 1;
+      while (j < code.length) {
+        if (code[j] === '\'') {
+          if (code[j + 1] === '\'') { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      if (j >= code.length) {
+        report(ctx, { line: tokenLine, column }, 'unterminated-string', 'error', 'String literal is never closed.', "Add the closing quote (escape embedded quotes as '').");
+        advance(code.length);
+      } else {
+        push('string', code.slice(i, j + 1), tokenLine, column);
+        advance(j + 1);
+      }
+    } else if (ch === '"') {
+      const end = code.indexOf('"', i + 1);
+      if (end === -1) {
+        report(ctx, { line: tokenLine, column }, 'unterminated-identifier', 'error', 'Quoted identifier is never closed.', 'Add the closing double quote.');
+        advance(code.length);
+      } else {
+        push('quotedIdentifier', code.slice(i, end + 1), tokenLine, column);
+        advance(end + 1);
+      }
+    } else if ((ch === '@' && !/[\w$#"]/.test(code[i - 1] || '')) || (ch === '#' && /\w/.test(next || ''))) {
+      // table@dblink is valid Oracle; only a free-standing @name is a T-SQL variable
+      let j = i + (ch === '@' && next === '@' ? 2 : 1);
+      while (j < code.length && /[\w$#]/.test(code[j])) j++;
+      push(ch === '@' ? 'variable' : 'tempTable', code.slice(i, j), tokenLine, column);
+      advance(j);
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(next || ''))) {
+      let j = i;
+      while (j < code.length && /\d/.test(code[j])) j++;
+      if (code[j] === '.' && code[j + 1] !== '.') {
+        j++;
+        while (j < code.length && /\d/.test(code[j])) j++;
+      }
+      if (/[eE]/.test(code[j] || '') && /[\d+-]/.test(code[j + 1] || '')) {
+        j += 2;
+        while (j < code.length && /\d/.test(code[j])) j++;
+      }
+      push('number', code.slice(i, j), tokenLine, column);
+      advance(j);
+    } else if (/[A-Za-z_]/.test(ch)) {
+      let j = i;
+      while (j < code.length && /[\w$#]/.test(code[j])) j++;
+      push('word', code.slice(i, j), tokenLine, column);
+      advance(j);
+    } else {
+      const symbol = SYMBOLS.find(candidate => code.startsWith(candidate, i)) || ch;
+      push('symbol', symbol, tokenLine, column);
+      advance(i + symbol.length);
+    }
+  }
+  return tokens;
+};
+
+// T-SQL that survived conversion. Oracle rejects all of these.
+const TSQL_FUNCTIONS: Record<string, string> = {
+  GETDATE: 'Use SYSDATE or SYSTIMESTAMP.',
+  GETUTCDATE: 'Use SYS_EXTRACT_UTC(SYSTIMESTAMP).',
+  ISNULL: 'Use NVL(expr, default).',
+  LEN: 'Use LENGTH(expr).',
+  SUBSTRING: 'Use SUBSTR(expr, start, length).',
+  CHARINDEX: 'Use INSTR(string, substring).',
+  DATEADD: 'Use date arithmetic or ADD_MONTHS / NUMTODSINTERVAL.',
+  DATEDIFF: 'Subtract the dates, or use MONTHS_BETWEEN.',
+  DATEPART: 'Use EXTRACT(part FROM date) or TO_CHAR.',
+  DATENAME: 'Use TO_CHAR(date, format).',
+  NEWID: 'Use SYS_GUID().',
+  CEILING: 'Use CEIL(expr).',
+};
+
+const TSQL_GLOBALS: Record<string, string> = {
+  '@@ROWCOUNT': 'Use SQL%ROWCOUNT.',
+  '@@ERROR': 'Use SQLCODE inside an exception handler.',
+  '@@IDENTITY': 'Use a sequence with RETURNING ... INTO.',
+  '@@TRANCOUNT': 'Oracle has no transaction nesting counter; restructure the COMMIT/ROLLBACK logic.',
+  '@@SQLSTATUS': 'Use cursor%FOUND / cursor%NOTFOUND.',
+  '@@FETCH_STATUS': 'Use cursor%FOUND / cursor%NOTFOUND.',
+};
+
+const checkTsqlLeftovers = (tokens: PlsqlToken[], ctx: ValidationContext) => {
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    const prev = tokens[index - 1];
+    if (token.type === 'variable') {
+      const fix = TSQL_GLOBALS[token.upper];
+      if (fix) {
+        report(ctx, token, 'tsql-global', 'error', `T-SQL global variable ${token.value} does not exist in PL/SQL.`, fix);
+      } else {
+        report(ctx, token, 'tsql-variable', 'error', `T-SQL variable ${token.value} is not valid in PL/SQL.`, `Declare it as a PL/SQL variable (e.g. v_${token.value.replace(/^@+/, '')}) or a parameter.`);
+      }
+    } else if (token.type === 'tempTable') {
+      report(ctx, token, 'tsql-temp-table', 'error', `T-SQL temporary table ${token.value} is not valid in Oracle.`, 'Use a global temporary table or a PL/SQL collection.');
+    } else if (token.type === 'word' && token.lineStart && token.upper === 'GO' && (!next || next.line !== token.line)) {
+      report(ctx, token, 'tsql-go', 'error', "T-SQL batch separator 'go' is not valid in Oracle.", "Replace with '/' on its own line after each PL/SQL unit.");
+    } else if (token.type === 'word' && next?.value === '(' && TSQL_FUNCTIONS[token.upper] && prev?.value !== '.') {
+      report(ctx, token, 'tsql-function', 'error', `${token.value}() is a T-SQL function with no Oracle equivalent by that name.`, TSQL_FUNCTIONS[token.upper]);
+    } else if (token.type === 'word' && token.upper === 'TOP' && prev?.upper === 'SELECT') {
+      report(ctx, token, 'tsql-top', 'error', 'SELECT TOP is T-SQL syntax.', 'Use FETCH FIRST n ROWS ONLY or ROWNUM.');
+    } else if (token.type === 'word' && token.upper === 'PRINT' && isStatementStart(tokens, index)) {
+      report(ctx, token, 'tsql-print', 'error', 'PRINT is a T-SQL statement.', 'Use DBMS_OUTPUT.PUT_LINE(...).');
+    } else if (token.type === 'word' && token.upper === 'RAISERROR') {
+      report(ctx, token, 'tsql-raiserror', 'error', 'RAISERROR is a T-SQL statement.', 'Use RAISE_APPLICATION_ERROR(-20nnn, message).');
+    }
+  });
+};
+
+// Tokens after which a new statement may begin without a ';'
+const STATEMENT_BOUNDARY = new Set([';', 'THEN', 'ELSE', 'LOOP', 'BEGIN', 'IS', 'AS', 'DECLARE', 'EXCEPTION', '>>']);
+
+const isStatementStart = (tokens: PlsqlToken[], index: number) => {
+  const prev = tokens[index - 1];
+  return !prev || prev.type === 'terminator' || STATEMENT_BOUNDARY.has(prev.upper);
+};
+
+const checkParentheses = (tokens: PlsqlToken[], ctx: ValidationContext) => {
+  let open: PlsqlToken[] = [];
+  const flushUnclosed = () => {
+    open.forEach(token => report(ctx, token, 'unclosed-paren', 'error', "Opening parenthesis is never closed.", "Add the matching ')'."));
+    open = [];
+  };
+  tokens.forEach(token => {
+    if (token.value === '(') open.push(token);
+    else if (token.value === ')') {
+      if (open.length === 0) report(ctx, token, 'unmatched-paren', 'error', "Closing parenthesis has no matching '('.", "Remove the extra ')' or add the missing '('.");
+      else open.pop();
+    } else if (token.value === ';' || token.type === 'terminator') {
+      // A statement cannot end inside parentheses
+      flushUnclosed();
+    }
+  });
+  flushUnclosed();
+};
+
+type FrameKind = 'SUBPROGRAM' | 'PACKAGE' | 'DECLARE' | 'BEGIN' | 'IF' | 'LOOP' | 'CASE';
+
+interface Frame {
+  kind: FrameKind;
+  token: PlsqlToken;
+  name?: string;
+  ownsParent?: boolean; // BEGIN that belongs to the enclosing subprogram/DECLARE/package
+  isStatement?: boolean; // CASE statement (needs END CASE) vs CASE expression
+}
+
+const describeFrame = (frame: Frame) => {
+  switch (frame.kind) {
+    case 'SUBPROGRAM': return `${frame.name ? `'${frame.name}'` : 'subprogram'} declared at line ${frame.token.line}`;
+    case 'PACKAGE': return `package declared at line ${frame.token.line}`;
+    case 'DECLARE': return `DECLARE block at line ${frame.token.line}`;
+    default: return `${frame.kind} at line ${frame.token.line}`;
+  }
+};
+
+const CLOSER: Record<FrameKind, string> = {
+  SUBPROGRAM: 'BEGIN ... END',
+  PACKAGE: 'END',
+  DECLARE: 'BEGIN ... END',
+  BEGIN: 'END',
+  IF: 'END IF',
+  LOOP: 'END LOOP',
+  CASE: 'END CASE',
+};
+
+const STATEMENT_KEYWORDS_NEEDING_TERMINATOR = new Set([
+  'IF', 'RETURN', 'RAISE', 'COMMIT', 'ROLLBACK', 'OPEN', 'CLOSE', 'FETCH', 'EXIT', 'CONTINUE',
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'SELECT', 'EXECUTE', 'NULL', 'LOOP', 'WHILE', 'FOR', 'FORALL',
+]);
+
+const UNIT_KINDS = new Set(['PROCEDURE', 'FUNCTION', 'PACKAGE', 'TRIGGER', 'TYPE']);
+
+interface UnitHeader {
+  kind: string; // PROCEDURE, FUNCTION, PACKAGE, PACKAGE BODY, TRIGGER, TYPE BODY, DECLARE, BEGIN
+  name?: string;
+  start: number; // index of the first token after the header keywords
+}
+
+// Recognizes the start of a PL/SQL unit at `index`; plain SQL statements return undefined.
+const readUnitHeader = (tokens: PlsqlToken[], index: number): UnitHeader | undefined => {
+  const first = tokens[index];
+  if (!first) return undefined;
+  if (first.upper === 'DECLARE' || first.upper === 'BEGIN' || first.value === '<<') {
+    return { kind: first.upper === 'DECLARE' ? 'DECLARE' : 'BEGIN', start: index };
+  }
+  if (first.upper !== 'CREATE') return undefined;
+  let i = index + 1;
+  if (tokens[i]?.upper === 'OR' && tokens[i + 1]?.upper === 'REPLACE') i += 2;
+  while (['EDITIONABLE', 'NONEDITIONABLE', 'EDITIONING'].includes(tokens[i]?.upper)) i++;
+  const kindToken = tokens[i];
+  if (!kindToken || !UNIT_KINDS.has(kindToken.upper)) return undefined;
+  let kind = kindToken.upper;
+  i++;
+  if (tokens[i]?.upper === 'BODY') {
+    kind = `${kind} BODY`;
+    i++;
+  }
+  // A type spec is a SQL statement; only a type body contains PL/SQL
+  if (kind === 'TYPE') return undefined;
+  let name = tokens[i]?.value;
+  while (tokens[i + 1]?.value === '.' && tokens[i + 2]) {
+    i += 2;
+    name = tokens[i].value;
+  }
+  return { kind, name: name?.replace(/"/g, ''), start: i + 1 };
+};
+
+// Walks one PL/SQL unit and returns the index just past its final END ...;
+const checkUnit = (tokens: PlsqlToken[], header: UnitHeader, ctx: ValidationContext): number => {
+  const stack: Frame[] = [];
+  const top = () => stack[stack.length - 1];
+  let pendingHeader: { token: PlsqlToken; name?: string; kind: string } | undefined;
+  let depth = 0;
+  let i = header.start;
+
+  const unitToken = tokens[Math.max(0, header.start - 1)];
+  if (header.kind === 'PROCEDURE' || header.kind === 'FUNCTION') {
+    pendingHeader = { token: unitToken, name: header.name, kind: header.kind };
+  } else if (header.kind === 'PACKAGE' || header.kind === 'PACKAGE BODY' || header.kind === 'TYPE BODY') {
+    pendingHeader = { token: unitToken, name: header.name, kind: 'PACKAGE' };
+  } else if (header.kind === 'TRIGGER') {
+    // Compound triggers have their own section grammar; only the generic checks apply
+    const headerEnd = tokens.findIndex((t, k) => k >= header.start && (t.upper === 'BEGIN' || t.upper === 'DECLARE' || t.upper === 'COMPOUND'));
+    if (tokens[headerEnd]?.upper === 'COMPOUND') {
+      const end = tokens.findIndex((t, k) => k > headerEnd && t.type === 'terminator');
+      return end === -1 ? tokens.length : end;
+    }
+  }
+
+  const expectSemicolon = (index: number, after: PlsqlToken, what: string) => {
+    if (tokens[index]?.value === ';') return index + 1;
+    report(ctx, after, 'missing-semicolon', 'error', `Missing ';' after ${what}.`, `Add ';' after ${what}.`);
+    return index;
+  };
+
+  const closeFrame = (frame: Frame, endToken: PlsqlToken) => {
+    if (frame.ownsParent) {
+      const parent = stack.pop();
+      if (parent?.kind === 'SUBPROGRAM' && parent.name) {
+        // END <name>; must repeat the subprogram name if it names anything at all
+        const label = tokens[tokens.indexOf(endToken) + 1];
+        if (label?.type === 'word' && label.upper !== parent.name.toUpperCase() && tokens[tokens.indexOf(endToken) + 2]?.value === ';') {
+          report(ctx, label, 'end-name', 'warning', `END ${label.value} does not match the name '${parent.name}'.`, `Use END ${parent.name};`);
+        }
+      }
+    }
+  };
+
+  while (i < tokens.length) {
+    const token = tokens[i];
+    const prev = tokens[i - 1];
+
+    if (token.type === 'terminator') {
+      break;
+    }
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth = Math.max(0, depth - 1);
+
+    // Subprogram / package headers: everything up to IS or AS
+    if (pendingHeader) {
+      if (depth === 0 && (token.upper === 'IS' || token.upper === 'AS')) {
+        stack.push({ kind: pendingHeader.kind === 'PACKAGE' ? 'PACKAGE' : 'SUBPROGRAM', token: pendingHeader.token, name: pendingHeader.name });
+        pendingHeader = undefined;
+      } else if (depth === 0 && token.value === ';' && stack.length > 0) {
+        // Forward declaration or package spec entry
+        pendingHeader = undefined;
+      } else if (token.upper === 'BEGIN') {
+        report(ctx, token, 'missing-is-as', 'error', `${pendingHeader.kind} header must be followed by IS or AS before BEGIN.`, 'Add IS (or AS) after the parameter list.');
+        stack.push({ kind: 'SUBPROGRAM', token: pendingHeader.token, name: pendingHeader.name });
+        pendingHeader = undefined;
+        continue;
+      }
+      i++;
+      continue;
+    }
+
+    const current = top();
+    const inDeclarations = current && (current.kind === 'SUBPROGRAM' || current.kind === 'PACKAGE' || current.kind === 'DECLARE');
+
+    if ((token.upper === 'PROCEDURE' || token.upper === 'FUNCTION') && inDeclarations) {
+      pendingHeader = { token, name: tokens[i + 1]?.value, kind: token.upper };
+      i += 2;
+      continue;
+    }
+
+    switch (token.upper) {
+      case 'DECLARE':
+        if (!current || current.kind !== 'DECLARE') stack.push({ kind: 'DECLARE', token });
+        break;
+      case 'BEGIN': {
+        const ownsParent = !!current && (current.kind === 'SUBPROGRAM' || current.kind === 'DECLARE' || current.kind === 'PACKAGE');
+        stack.push({ kind: 'BEGIN', token, ownsParent });
+        break;
+      }
+      case 'IF':
+        if (prev?.upper !== 'END') stack.push({ kind: 'IF', token });
+        break;
+      case 'LOOP':
+        if (prev?.upper !== 'END') stack.push({ kind: 'LOOP', token });
+        break;
+      case 'CASE':
+        if (prev?.upper !== 'END') stack.push({ kind: 'CASE', token, isStatement: isStatementStart(tokens, i) });
+        break;
+      case 'ELSIF':
+      case 'ELSEIF':
+        if (token.upper === 'ELSEIF') {
+          report(ctx, token, 'elseif', 'error', 'ELSEIF is not a PL/SQL keyword.', 'Use ELSIF.');
+        } else if (current?.kind !== 'IF') {
+          report(ctx, token, 'stray-elsif', 'error', 'ELSIF without a matching IF.', 'Check the IF ... END IF structure above this line.');
+        }
+        break;
+      case 'END': {
+        const next = tokens[i + 1];
+        const closes = next && ['IF', 'LOOP', 'CASE'].includes(next.upper) ? next.upper as FrameKind : undefined;
+        if (closes) {
+          if (current?.kind !== closes) {
+            const match = [...stack].reverse().find(frame => frame.kind === closes);
+            if (current) {
+              report(ctx, token, 'mismatched-end', 'error', `END ${closes} found, but the innermost open block is ${describeFrame(current)}.`, `Close it with ${CLOSER[current.kind]} first.`);
+            } else {
+              report(ctx, token, 'unmatched-end', 'error', `END ${closes} without a matching ${closes}.`, `Remove END ${closes} or add the missing ${closes}.`);
+            }
+            // Recover by unwinding to the block this END actually closes
+            if (match) while (stack.length > 0 && stack.pop() !== match) { /* unwind */ }
+          } else {
+            stack.pop();
+          }
+          i += 2;
+          if (closes === 'LOOP' && tokens[i]?.type === 'word' && tokens[i + 1]?.value === ';') i++; // END LOOP label;
+          i = expectSemicolon(i, tokens[i - 1], `END ${closes}`);
+          if (stack.length === 0) return i;
+          continue;
+        }
+        if (!current) {
+          report(ctx, token, 'unmatched-end', 'error', 'END without a matching BEGIN.', 'Remove the extra END or add the missing BEGIN.');
+          i++;
+          continue;
+        }
+        if (current.kind === 'CASE' && !current.isStatement) {
+          stack.pop();
+          i++;
+          continue;
+        }
+        if (current.kind === 'CASE') {
+          report(ctx, token, 'case-end', 'error', `CASE statement opened at line ${current.token.line} must be closed with END CASE.`, 'Use END CASE;');
+        } else if (current.kind === 'IF' || current.kind === 'LOOP') {
+          report(ctx, token, 'mismatched-end', 'error', `END found, but ${describeFrame(current)} is still open.`, `Close it with ${CLOSER[current.kind]}; first.`);
+        } else if (current.kind === 'SUBPROGRAM' || current.kind === 'DECLARE') {
+          report(ctx, token, 'missing-begin', 'error', `${describeFrame(current)} has no BEGIN.`, 'Add BEGIN before the executable statements.');
+        }
+        const frame = stack.pop();
+        if (frame) closeFrame(frame, token);
+        i++;
+        // Optional block label / subprogram name
+        if ((tokens[i]?.type === 'word' && tokens[i].upper !== 'END') || tokens[i]?.type === 'quotedIdentifier') {
+          if (tokens[i + 1]?.value === ';' || tokens[i + 1]?.type === 'terminator' || !tokens[i + 1]) i++;
+        }
+        i = expectSemicolon(i, tokens[i - 1], 'END');
+        if (stack.length === 0) return i;
+        continue;
+      }
+      default:
+        break;
+    }
+
+    // A statement keyword at the start of a line right after an unterminated statement
+    if (
+      token.lineStart &&
+      depth === 0 &&
+      STATEMENT_KEYWORDS_NEEDING_TERMINATOR.has(token.upper) &&
+      stack.some(frame => frame.kind === 'BEGIN') &&
+      prev && prev.line < token.line &&
+      !STATEMENT_BOUNDARY.has(prev.upper) &&
+      !['END', 'IF', 'AND', 'OR', 'NOT', 'IN', 'FOR', 'WHEN', 'RETURNING', 'INTO', 'UNION', 'ALL', 'EXISTS'].includes(prev.upper) &&
+      !(prev.type === 'symbol' && prev.value !== ')') &&
+      !continuesStatement(tokens, i)
+    ) {
+      report(ctx, prev, 'missing-semicolon', 'warning', `Statement ending on line ${prev.line} appears to be missing its ';'.`, `Add ';' at the end of line ${prev.line}.`);
+    }
+
+    i++;
+  }
+
+  if (pendingHeader) {
+    report(ctx, pendingHeader.token, 'incomplete-header', 'error', `${pendingHeader.kind} header is never completed with IS/AS and a body.`, 'Add IS ... BEGIN ... END;');
+  }
+  stack.forEach(frame => {
+    report(ctx, frame.token, 'unclosed-block', 'error', `${describeFrame(frame)} is never closed.`, `Add the missing ${CLOSER[frame.kind]};`);
+  });
+  return i;
+};
+
+// SELECT ... FOR UPDATE, INSERT ... SELECT and FORALL ... DML span lines legitimately
+const continuesStatement = (tokens: PlsqlToken[], index: number) => {
+  const token = tokens[index];
+  for (let k = index - 1; k >= 0; k--) {
+    const t = tokens[k];
+    if (t.value === ';' || STATEMENT_BOUNDARY.has(t.upper)) {
+      const statementStart = tokens[k + 1];
+      if (!statementStart) return false;
+      if (statementStart.upper === 'FORALL') return true;
+      if (token.upper === 'SELECT' && ['INSERT', 'OPEN', 'CURSOR', 'MERGE'].includes(statementStart.upper)) return true;
+      if (token.upper === 'LOOP' && ['WHILE', 'FOR'].includes(statementStart.upper)) return true;
+      return false;
+    }
+  }
+  return false;
+};
+
+// Validate converted Oracle code. Returns one ConversionIssue per problem with real positions.
+export const validatePlsql = (code: string): ConversionIssue[] => {
+  const source = (code || '').replace(/\r\n/g, '\n');
+  const ctx: ValidationContext = { issues: [], lines: source.split('\n') };
+  if (!source.trim()) return [];
+
+  const tokens = tokenizePlsql(source, ctx);
+  checkParentheses(tokens, ctx);
+  checkTsqlLeftovers(tokens, ctx);
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.type === 'terminator' || token.value === ';') {
+      i++;
+      continue;
+    }
+    const header = readUnitHeader(tokens, i);
+    if (header) {
+      const end = checkUnit(tokens, header, ctx);
+      const next = tokens[end];
+      // Each PL/SQL unit must be followed by '/' before the next statement
+      if (next && next.type !== 'terminator') {
+        const last = tokens[end - 1] || token;
+        report(ctx, last, 'missing-slash', 'warning', `PL/SQL unit starting at line ${token.line} is not followed by '/'.`, "Add a line containing only '/' after the unit.");
+      }
+      i = Math.max(end, i + 1);
+      continue;
+    }
+    // Plain SQL statement: runs to ';' or '/'
+    let j = i;
+    while (j < tokens.length && tokens[j].value !== ';' && tokens[j].type !== 'terminator') j++;
+    i = j + 1;
+  }
+
+  return ctx.issues.sort((a, b) => (a.lineNumber! - b.lineNumber!) || ((a.columnNumber || 0) - (b.columnNumber || 0)));
+};
+
+// Replace validator findings in an issue list with a fresh validation of `convertedCode`,
+// keeping everything else (AI findings, manual dismissals of other issues) untouched.
+// Only Oracle output is PL/SQL: other targets keep their issues without a syntax check.
+export const revalidateIssues = <T extends { category?: string }>(
+  issues: T[] | undefined,
+  convertedCode: string,
+  target: TargetDialect = getTargetDialect(),
+): (T | ConversionIssue)[] => [
+  ...(issues || []).filter(issue => issue.category !== PLSQL_SYNTAX_CATEGORY),
+  ...(target === 'oracle' ? validatePlsql(convertedCode) : []),
+];
+
+// Find where a snippet quoted by the model occurs, ignoring differences in whitespace and case.
+export const locateSnippet = (code: string, snippet?: string): { line: number; column: number } | undefined => {
+  const trimmed = snippet?.trim();
+  if (!code || !trimmed) return undefined;
+  const source = code.replace(/\r\n/g, '\n');
+  const escaped = trimmed
+    .split(/\s+/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  const match = new RegExp(escaped, 'i').exec(source);
+  if (!match) return undefined;
+  const before = source.slice(0, match.index);
+  const line = before.split('\n').length;
+  return { line, column: match.index - before.lastIndexOf('\n') };
+};
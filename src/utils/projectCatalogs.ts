@@ -0,0 +1,16 @@
+import type { DependencySource } from '@/utils/dependencyGraph';
+import { syncErrorCatalog } from '@/utils/errorCatalog';
+import { syncIdentityColumns } from '@/utils/identityColumns';
+import { syncUserDataTypes } from '@/utils/dataTypeProfile';
+import { syncIdentifierRenames } from '@/utils/identifierConflicts';
+import { syncTableColumns } from '@/utils/triggerConversion';
+
+// Error numbers, identity columns, user data types, identifier renames and table columns get their
+// project-wide mappings from the whole upload before any file is converted, so every path agrees
+export const syncProjectCatalogs = (files: DependencySource[]) => {
+  syncErrorCatalog(files);
+  syncIdentityColumns(files);
+  syncUserDataTypes(files);
+  syncIdentifierRenames(files);
+  syncTableColumns(files);
+};
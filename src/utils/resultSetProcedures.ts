@@ -0,0 +1,266 @@
+import type { AppliedRule, ConversionIssue, ProcedureInterfaceChange, ResultSetConvention } from '@/types';
+import { parseSybase, allStatements, SybaseParameter, SybaseStatement } from '@/utils/sybaseParser';
+import { mapDataType } from '@/utils/dataTypeProfile';
+
+// Sybase procedures return the rows of every bare SELECT to the caller. Oracle needs them made
+// explicit, either as SYS_REFCURSOR OUT parameters or as implicit results (DBMS_SQL.RETURN_RESULT).
+// The project picks one convention, each SELECT is opened on a named cursor, and every affected
+// procedure gets an interface change record so call sites can be updated. SELECTs in branches that
+// exclude each other (IF/ELSE) are the same result set for the caller and share a cursor.
+
+export const DEFAULT_RESULT_SET_CONVENTION: ResultSetConvention = 'refcursor';
+export const RESULT_SET_CATEGORY = 'result_set';
+
+export const RESULT_SET_CONVENTION_LABELS: Record<ResultSetConvention, string> = {
+  refcursor: 'SYS_REFCURSOR OUT parameters',
+  implicit: 'Implicit results (DBMS_SQL.RETURN_RESULT)',
+};
+
+// --- Convention (persisted per browser, like the identity strategy) ---
+const CONVENTION_STORAGE_KEY = 'result-set-convention';
+
+export const getResultSetConvention = (): ResultSetConvention => {
+  if (typeof localStorage === 'undefined') return DEFAULT_RESULT_SET_CONVENTION;
+  return (localStorage.getItem(CONVENTION_STORAGE_KEY) as ResultSetConvention) || DEFAULT_RESULT_SET_CONVENTION;
+};
+
+export const setResultSetConvention = (convention: ResultSetConvention) => {
+  localStorage.setItem(CONVENTION_STORAGE_KEY, convention);
+  return convention;
+};
+
+// p_result_set for a single result set, p_result_set1..n when there are several
+export const resultSetCursorName = (index: number, count: number, convention: ResultSetConvention) => {
+  const base = convention === 'refcursor' ? 'p_result_set' : 'l_result_set';
+  return count === 1 ? base : `${base}${index + 1}`;
+};
+
+export const oracleParameterName = (name: string) => `p_${name.replace(/^@+/, '').toLowerCase()}`;
+
+// A SELECT that sends rows to the client: no INTO and no variable assignment
+const returnsRows = (statement: SybaseStatement) => {
+  if (statement.kind !== 'select') return false;
+  const [, second, third] = statement.tokens;
+  if (second?.type === 'variable' && third?.value === '=') return false;
+  let depth = 0;
+  return !statement.tokens.some(token => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    return depth === 0 && token.upper === 'INTO';
+  });
+};
+
+export interface ResultSetSelect {
+  statement: SybaseStatement;
+  cursor: number; // index of the cursor it is opened on
+  looped: boolean; // inside a WHILE: each iteration reopens the cursor
+  conditional: boolean; // some paths through the procedure skip it
+}
+
+interface CollectedResultSets {
+  selects: ResultSetSelect[];
+  cursorCount: number;
+  mayReturn: boolean; // a RETURN or GOTO can leave the block before its end
+}
+
+// Result-set SELECTs of a procedure body, in source order, across nested blocks. The cursors of an
+// IF start at the same index in both branches; a branch with fewer SELECTs leaves the rest unopened.
+const collectResultSets = (statements: SybaseStatement[] = [], firstCursor = 0, looped = false): CollectedResultSets => {
+  const selects: ResultSetSelect[] = [];
+  let cursorCount = 0;
+  let mayReturn = false;
+  const add = (collected: CollectedResultSets) => {
+    selects.push(...collected.selects.map(select => ({ ...select, conditional: select.conditional || mayReturn })));
+    mayReturn = mayReturn || collected.mayReturn;
+  };
+  statements.forEach(statement => {
+    const cursor = firstCursor + cursorCount;
+    if (returnsRows(statement)) {
+      selects.push({ statement, cursor, looped, conditional: mayReturn });
+      cursorCount++;
+    } else if (statement.kind === 'if') {
+      const branches = [collectResultSets(statement.body, cursor, looped), collectResultSets(statement.elseBody, cursor, looped)];
+      const shared = Math.min(...branches.map(branch => branch.cursorCount));
+      branches.forEach(branch => add({ ...branch, selects: branch.selects.map(select => ({ ...select, conditional: select.conditional || select.cursor >= cursor + shared })) }));
+      cursorCount += Math.max(...branches.map(branch => branch.cursorCount));
+    } else if (statement.kind === 'return' || statement.kind === 'goto') {
+      mayReturn = true;
+    } else {
+      const loop = statement.kind === 'while';
+      const body = collectResultSets(statement.body, cursor, looped || loop);
+      add(loop ? { ...body, selects: body.selects.map(select => ({ ...select, conditional: true })) } : body);
+      cursorCount += body.cursorCount;
+    }
+  });
+  return { selects, cursorCount, mayReturn };
+};
+
+export interface ResultSetProcedure {
+  procedure: SybaseStatement;
+  selects: ResultSetSelect[];
+  cursorCount: number;
+}
+
+export const detectResultSetProcedures = (code: string): ResultSetProcedure[] =>
+  allStatements(parseSybase(code))
+    .filter(statement => statement.kind === 'createProcedure')
+    .map(procedure => {
+      const { selects, cursorCount } = collectResultSets(procedure.body);
+      return { procedure, selects, cursorCount };
+    })
+    .filter(({ selects }) => selects.length > 0);
+
+const sybaseParameter = (parameter: SybaseParameter) =>
+  `${parameter.name} ${parameter.dataType.text}${parameter.defaultValue !== undefined ? ` = ${parameter.defaultValue}` : ''}${parameter.output ? ' OUTPUT' : ''}`;
+
+// PL/SQL parameters take no length or precision
+const oracleParameter = (parameter: SybaseParameter) => {
+  const type = (mapDataType(parameter.dataType) ?? parameter.dataType.text.toUpperCase()).replace(/\s*\(.*\)$/, '');
+  const defaultValue = parameter.defaultValue !== undefined ? ` DEFAULT ${parameter.defaultValue.toLowerCase() === 'null' ? 'NULL' : parameter.defaultValue}` : '';
+  return `${oracleParameterName(parameter.name)} ${parameter.output ? 'IN OUT' : 'IN'} ${type}${defaultValue}`;
+};
+
+const callerChangeFor = (convention: ResultSetConvention, cursors: string[]) => convention === 'refcursor'
+  ? `Bind ${cursors.length === 1 ? 'an OUT parameter' : `${cursors.length} OUT parameters`} of type SYS_REFCURSOR (${cursors.join(', ')}; JDBC Types.REF_CURSOR, ODP.NET OracleDbType.RefCursor), fetch the rows from ${cursors.length === 1 ? 'it' : 'each in order'} and close ${cursors.length === 1 ? 'it' : 'them'}. Named Sybase arguments (@name = value) use the p_ names.`
+  : `The parameter list only changes names (p_ prefix). Read the ${cursors.length === 1 ? 'result set' : `${cursors.length} result sets`} as implicit results (Oracle 12c+ clients: JDBC getMoreResults/getResultSet, ODP.NET OracleDataReader.NextResult).`;
+
+export const buildInterfaceChange = ({ procedure, selects, cursorCount }: ResultSetProcedure, convention: ResultSetConvention): ProcedureInterfaceChange => {
+  const cursors = Array.from({ length: cursorCount }, (_, index) => resultSetCursorName(index, cursorCount, convention));
+  const parameters = procedure.parameters ?? [];
+  return {
+    procedure: procedure.name ?? '',
+    convention,
+    originalParameters: parameters.map(sybaseParameter),
+    oracleParameters: [
+      ...parameters.map(oracleParameter),
+      ...(convention === 'refcursor' ? cursors.map(cursor => `${cursor} OUT SYS_REFCURSOR`) : []),
+    ],
+    resultSetLines: selects.map(select => select.statement.startLine),
+    cursors,
+    callerChange: callerChangeFor(convention, cursors),
+  };
+};
+
+// Interface changes of a file's procedures; used for results saved without them (e.g. Dev Review)
+export const interfaceChangesFor = (code: string, convention: ResultSetConvention = getResultSetConvention()) =>
+  detectResultSetProcedures(code).map(procedure => buildInterfaceChange(procedure, convention));
+
+// Oracle signature as it should be declared; procedures without parameters take no parentheses
+export const formatOracleSignature = (change: ProcedureInterfaceChange) =>
+  change.oracleParameters.length > 0 ? `${change.procedure}(${change.oracleParameters.join(', ')})` : change.procedure;
+
+// A SELECT the caller does not get exactly once: in a loop only the last iteration's rows stay on
+// the cursor, and on the paths that skip it the cursor is never opened
+const partialResultSetIssue = (select: SybaseStatement, cursor: string, looped: boolean, convention: ResultSetConvention): ConversionIssue => {
+  const first = select.tokens[0];
+  const skipped = convention === 'refcursor'
+    ? `${cursor} stays unopened and callers fetching from it get ORA-01001 (invalid cursor)`
+    : 'callers receive fewer implicit results';
+  return {
+    id: `result-set-partial-${first.line}:${first.column}`,
+    lineNumber: first.line,
+    columnNumber: first.column,
+    codeSide: 'original',
+    severity: 'warning',
+    description: looped
+      ? `The result set at line ${select.startLine} is returned inside a WHILE loop. Sybase sends one result set per iteration, but OPEN ${cursor} FOR replaces the cursor each time, so callers only get the rows of the last iteration (and none when the loop does not run).`
+      : `The result set at line ${select.startLine} is only returned on some paths through the procedure. On the others ${skipped}.`,
+    originalCode: select.text.split('\n')[0],
+    suggestedFix: looped
+      ? `Collect the rows of every iteration (a single set-based query, or a global temporary table) and open ${cursor} once after the loop.`
+      : `Open ${cursor} on every path, e.g. with an empty SELECT … WHERE 1 = 0 where the result set is skipped.`,
+    category: RESULT_SET_CATEGORY,
+  };
+};
+
+export interface ResultSetRewriteResult {
+  code: string;
+  interfaceChanges: ProcedureInterfaceChange[];
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+// Open every result-set SELECT on its cursor. Only the SELECTs change here; the signature in the
+// interface change record is passed to the model, which rewrites the procedure header.
+// Edits stay on the SELECT's own lines so issue positions still match the uploaded file.
+export const rewriteResultSets = (code: string, convention: ResultSetConvention = getResultSetConvention()): ResultSetRewriteResult => {
+  const script = parseSybase(code);
+  const procedures = detectResultSetProcedures(code);
+  if (procedures.length === 0) return { code: script.source, interfaceChanges: [], issues: [] };
+
+  const edits: { start: number; end: number; text: string }[] = [];
+  const issues: ConversionIssue[] = [];
+  const interfaceChanges = procedures.map(entry => {
+    const change = buildInterfaceChange(entry, convention);
+    entry.selects.forEach(({ statement: select, cursor: index, looped, conditional }) => {
+      const cursor = resultSetCursorName(index, entry.cursorCount, convention);
+      if (looped || conditional) issues.push(partialResultSetIssue(select, cursor, looped, convention));
+      edits.push({ start: select.startOffset, end: select.startOffset, text: `OPEN ${cursor} FOR ` });
+      if (convention === 'implicit') {
+        const last = select.tokens[select.tokens.length - 1];
+        edits.push(last.value === ';'
+          ? { start: select.endOffset, end: select.endOffset, text: ` DBMS_SQL.RETURN_RESULT(${cursor});` }
+          : { start: select.endOffset, end: select.endOffset, text: `; DBMS_SQL.RETURN_RESULT(${cursor})` });
+      }
+    });
+    const first = entry.procedure.tokens[0];
+    issues.push({
+      id: `result-set-${first.line}:${first.column}`,
+      lineNumber: first.line,
+      columnNumber: first.column,
+      codeSide: 'original',
+      severity: 'warning',
+      description: `${change.procedure} returns ${entry.cursorCount === 1 ? 'a result set' : `${entry.cursorCount} result sets`} (line${entry.selects.length > 1 ? 's' : ''} ${change.resultSetLines.join(', ')}). In Oracle it becomes ${formatOracleSignature(change)} and every caller has to follow the interface change.`,
+      originalCode: entry.procedure.text.split('\n')[0],
+      suggestedFix: change.callerChange,
+      category: RESULT_SET_CATEGORY,
+    });
+    return change;
+  });
+
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  const lines = procedures.flatMap(({ selects }) => selects.map(select => select.statement.startLine));
+  return {
+    code: rewritten,
+    interfaceChanges,
+    issues,
+    appliedRule: {
+      ruleId: 'result-sets',
+      description: convention === 'refcursor'
+        ? 'result-set SELECT → OPEN <SYS_REFCURSOR OUT parameter> FOR'
+        : 'result-set SELECT → OPEN <cursor> FOR … ; DBMS_SQL.RETURN_RESULT',
+      occurrences: lines.length,
+      lineNumbers: [...new Set(lines)].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt guidance: the signature is a contract with the callers and must come out exactly
+export const describeResultSets = (changes: ProcedureInterfaceChange[]): string => {
+  if (changes.length === 0) return 'None.';
+  return changes.map(change => {
+    const signature = formatOracleSignature(change);
+    if (change.convention === 'refcursor') {
+      return `${signature}: use exactly this signature; the OPEN … FOR statements are already in place, do not close the cursors`;
+    }
+    return `${signature}: use exactly this signature, declare ${change.cursors.map(cursor => `${cursor} SYS_REFCURSOR`).join(', ')} locally; the OPEN … FOR and DBMS_SQL.RETURN_RESULT calls are already in place`;
+  }).join('\n');
+};
+
+// The model is asked to keep the signature; flag converted code where a parameter went missing
+export const checkInterfaceChanges = (convertedCode: string, changes: ProcedureInterfaceChange[]): ConversionIssue[] =>
+  changes.flatMap(change => change.oracleParameters
+    .map(parameter => parameter.split(' ')[0])
+    .filter(name => !new RegExp(`\\b${name}\\b`, 'i').test(convertedCode))
+    .map(name => ({
+      id: `result-set-missing-${change.procedure}-${name}`,
+      codeSide: 'converted' as const,
+      severity: 'warning' as const,
+      description: `Parameter ${name} of the ${change.procedure} interface change is missing from the converted code; callers following the report will not match it.`,
+      originalCode: formatOracleSignature(change),
+      suggestedFix: `Declare the procedure as ${formatOracleSignature(change)}.`,
+      category: RESULT_SET_CATEGORY,
+    })));
@@ -0,0 +1,297 @@
+import type { AppliedRule, ConversionIssue, TargetDialect } from '@/types';
+import { tokenizeSybase, isSignificantToken, SybaseToken } from '@/utils/sybaseParser';
+import type { DependencySource } from '@/utils/dependencyGraph';
+import { embeddedSqlText, isApplicationSource } from '@/utils/embeddedSql';
+import { getTargetDialect } from '@/utils/targetDialect';
+
+// Sybase addresses objects as db.owner.name, db..name or owner.name. Every database or owner
+// qualifier maps to an Oracle schema once for the project, optionally through a database link or a
+// private synonym, and every qualified reference in every file is rewritten from that map.
+// References whose qualifier has no mapping are left as written and reported.
+
+export const SCHEMA_CATEGORY = 'schema';
+
+export interface SchemaMapping {
+  schema: string; // '' is the schema the code is installed in
+  dbLink?: string;
+  synonym?: boolean; // code uses the bare name; a synonym points it at schema.name[@link]
+}
+
+// dbo is the default owner: its objects are created in the installing schema
+export const DEFAULT_SCHEMA_MAPPINGS: Record<string, SchemaMapping> = {
+  dbo: { schema: '' },
+};
+
+// --- Mappings (persisted per browser, like the identifier renames) ---
+const MAPPINGS_STORAGE_KEY = 'schema-mappings';
+
+export const getSchemaMappings = (): Record<string, SchemaMapping> => {
+  if (typeof localStorage === 'undefined') return DEFAULT_SCHEMA_MAPPINGS;
+  const saved = localStorage.getItem(MAPPINGS_STORAGE_KEY);
+  return { ...DEFAULT_SCHEMA_MAPPINGS, ...(saved ? JSON.parse(saved) : {}) };
+};
+
+// Undefined removes the mapping (dbo goes back to the installing schema)
+export const setSchemaMapping = (qualifier: string, mapping?: SchemaMapping) => {
+  const saved = localStorage.getItem(MAPPINGS_STORAGE_KEY);
+  const mappings = saved ? JSON.parse(saved) : {};
+  if (mapping) mappings[qualifier.toLowerCase()] = mapping;
+  else delete mappings[qualifier.toLowerCase()];
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(mappings));
+  return getSchemaMappings();
+};
+
+export const isValidSchemaName = (name: string) => name === '' || /^[a-z][\w$#]*$/i.test(name);
+
+// Link names may carry a domain, e.g. sales.example.com
+export const isValidDbLinkName = (name: string) => name === '' || /^[a-z][\w$#]*(\.[a-z][\w$#]*)*$/i.test(name);
+
+// --- References ---
+
+export interface QualifiedReference {
+  database?: string;
+  owner?: string;
+  name: string;
+  text: string; // as written
+  definition: boolean; // the name of a CREATE/ALTER/DROP, never reached through a link or synonym
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+// Keywords after which a name is an object, not a column
+const OBJECT_CONTEXT = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'DELETE', 'REFERENCES', 'TABLE', 'EXEC', 'EXECUTE', 'PROCEDURE', 'PROC', 'VIEW', 'TRIGGER', 'FUNCTION']);
+const DEFINITION_VERBS = new Set(['CREATE', 'ALTER', 'DROP']);
+// Keywords that may continue a FROM list
+const FROM_LIST_KEYWORDS = new Set(['FROM', 'AS', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'JOIN', 'HOLDLOCK', 'NOHOLDLOCK', 'NOLOCK', 'READPAST']);
+
+const isNamePart = (token?: SybaseToken) =>
+  !!token && (token.type === 'identifier' || token.type === 'quotedIdentifier' || token.type === 'keyword');
+
+const unquote = (name: string) => name.replace(/^[["]|[\]"]$/g, '');
+
+// Name parts from index on; '..' leaves an empty owner
+const readParts = (tokens: SybaseToken[], index: number) => {
+  const parts: string[] = [];
+  let i = index;
+  while (isNamePart(tokens[i])) {
+    parts.push(unquote(tokens[i].value));
+    i++;
+    if (tokens[i]?.value === '..' && isNamePart(tokens[i + 1])) {
+      parts.push('');
+      i++;
+    } else if (tokens[i]?.value === '.' && isNamePart(tokens[i + 1])) {
+      i++;
+    } else {
+      break;
+    }
+  }
+  return { parts, end: i };
+};
+
+export const findQualifiedReferences = (code: string): QualifiedReference[] => {
+  const tokens = tokenizeSybase(code).filter(isSignificantToken);
+  const references: QualifiedReference[] = [];
+  let inFromList = false;
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.upper === 'FROM') inFromList = true;
+    else if ((token.type === 'keyword' && !FROM_LIST_KEYWORDS.has(token.upper)) || ['(', ')', ';'].includes(token.value)) inFromList = false;
+    if (!isNamePart(token) || ['.', '..'].includes(tokens[i - 1]?.value)) {
+      i++;
+      continue;
+    }
+
+    const { parts, end } = readParts(tokens, i);
+    const previous = tokens[i - 1];
+    // exec @status = owner.proc
+    const execResult = previous?.value === '=' && tokens[i - 2]?.type === 'variable' && ['EXEC', 'EXECUTE'].includes(tokens[i - 3]?.upper);
+    // create index … on owner.table (…), create trigger … on owner.table for …
+    const onTable = previous?.upper === 'ON' && (tokens[end]?.value === '(' || ['FOR', 'AFTER', 'INSTEAD'].includes(tokens[end]?.upper));
+    const objectContext = !!previous && (OBJECT_CONTEXT.has(previous.upper) || (previous.value === ',' && inFromList) || execResult || onTable);
+    const crossDatabase = parts.length === 3 && parts[1] === '';
+    if ((parts.length === 2 || parts.length === 3) && (objectContext || crossDatabase)) {
+      const last = tokens[end - 1];
+      references.push({
+        database: parts.length === 3 ? parts[0] : undefined,
+        owner: parts.length === 3 ? parts[1] || undefined : parts[0],
+        name: parts[parts.length - 1],
+        text: code.slice(token.offset, last.offset + last.value.length),
+        definition: OBJECT_CONTEXT.has(previous?.upper) && DEFINITION_VERBS.has(tokens[i - 2]?.upper),
+        start: token.offset,
+        end: last.offset + last.value.length,
+        line: token.line,
+        column: token.column,
+      });
+    }
+    i = end;
+  }
+  return references;
+};
+
+// Key a reference is mapped under in the panel: the database, or db.owner for a non-default owner
+export const qualifierKey = (reference: QualifiedReference) => {
+  if (!reference.database) return reference.owner!.toLowerCase();
+  const owner = reference.owner?.toLowerCase();
+  return owner && owner !== 'dbo' ? `${reference.database.toLowerCase()}.${owner}` : reference.database.toLowerCase();
+};
+
+// db.owner falls back to db; owner-only references use the owner
+export const resolveSchemaMapping = (reference: QualifiedReference, mappings: Record<string, SchemaMapping> = getSchemaMappings()) => {
+  const database = reference.database?.toLowerCase();
+  const owner = reference.owner?.toLowerCase();
+  const candidates = database ? [owner ? `${database}.${owner}` : '', database] : [owner!];
+  const key = candidates.find(candidate => candidate && mappings[candidate]);
+  return key ? { key, mapping: mappings[key] } : undefined;
+};
+
+// Name of the object in target code
+export const mappedObjectName = (reference: QualifiedReference, mapping: SchemaMapping, target: TargetDialect = getTargetDialect()) => {
+  const remote = !reference.definition && target === 'oracle';
+  if (remote && mapping.synonym) return reference.name;
+  const qualified = mapping.schema ? `${mapping.schema}.${reference.name}` : reference.name;
+  return remote && mapping.dbLink ? `${qualified}@${mapping.dbLink}` : qualified;
+};
+
+export interface SchemaRewriteResult {
+  code: string;
+  mapped: { text: string; to: string; line: number }[];
+  unmapped: QualifiedReference[];
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+export const rewriteSchemaReferences = (
+  code: string,
+  mappings: Record<string, SchemaMapping> = getSchemaMappings(),
+  target: TargetDialect = getTargetDialect()
+): SchemaRewriteResult => {
+  const references = findQualifiedReferences(code);
+  const mapped: SchemaRewriteResult['mapped'] = [];
+  const unmapped: QualifiedReference[] = [];
+  const issues: ConversionIssue[] = [];
+  let rewritten = code;
+  [...references].reverse().forEach(reference => {
+    const resolved = resolveSchemaMapping(reference, mappings);
+    if (!resolved) {
+      unmapped.unshift(reference);
+      return;
+    }
+    const to = mappedObjectName(reference, resolved.mapping, target);
+    mapped.unshift({ text: reference.text, to, line: reference.line });
+    rewritten = rewritten.slice(0, reference.start) + to + rewritten.slice(reference.end);
+    if (target !== 'oracle' && resolved.mapping.dbLink && !reference.definition && !issues.some(issue => issue.originalCode === resolved.key)) {
+      issues.push({
+        id: `schema-link-${resolved.key}`,
+        lineNumber: reference.line,
+        columnNumber: reference.column,
+        codeSide: 'original',
+        severity: 'warning',
+        description: `${reference.text} is mapped through the database link ${resolved.mapping.dbLink}, which only exists in Oracle. The reference now points at the local schema.`,
+        originalCode: resolved.key,
+        suggestedFix: 'Import the remote tables as foreign tables with postgres_fdw into the mapped schema.',
+        category: SCHEMA_CATEGORY,
+      });
+    }
+  });
+
+  // One issue per unmapped qualifier and file
+  const reported = new Set<string>();
+  unmapped.forEach(reference => {
+    const key = qualifierKey(reference);
+    if (reported.has(key)) return;
+    reported.add(key);
+    const count = unmapped.filter(other => qualifierKey(other) === key).length;
+    issues.push({
+      id: `schema-unmapped-${key}`,
+      lineNumber: reference.line,
+      columnNumber: reference.column,
+      codeSide: 'original',
+      severity: 'warning',
+      description: `${reference.database ? 'Database' : 'Owner'} "${key}" has no schema mapping; ${count} reference(s) such as ${reference.text} are left as written.`,
+      originalCode: reference.text,
+      suggestedFix: `Map "${key}" to a schema, database link or synonym in the project schema mapping and convert the file again.`,
+      category: SCHEMA_CATEGORY,
+    });
+  });
+
+  return {
+    code: rewritten,
+    mapped,
+    unmapped,
+    issues,
+    appliedRule: mapped.length === 0 ? undefined : {
+      ruleId: 'schema-mapping',
+      description: 'Database/owner qualified names → project schema mapping',
+      occurrences: mapped.length,
+      lineNumbers: [...new Set(mapped.map(reference => reference.line))],
+    },
+  };
+};
+
+// Prompt guidance: what the qualified names became and which ones must stay untouched
+export const describeSchemaMappings = (result: SchemaRewriteResult): string => {
+  if (result.mapped.length === 0 && result.unmapped.length === 0) return 'None. The code has no database or owner qualified names.';
+  const lines = [...new Map(result.mapped.map(reference => [reference.text.toLowerCase(), reference])).values()]
+    .map(reference => `- ${reference.text} → ${reference.to} (already rewritten; keep the schema, database link and synonym names exactly)`);
+  [...new Set(result.unmapped.map(reference => reference.text))].forEach(text => {
+    lines.push(`- ${text}: no mapping yet; keep the reference as written and do not invent a schema`);
+  });
+  return lines.join('\n');
+};
+
+// --- Project overview and DDL ---
+
+export interface SchemaQualifier {
+  key: string;
+  kind: 'database' | 'owner';
+  objects: string[];
+  usages: { fileId: string; fileName: string; line: number }[];
+  mapping?: SchemaMapping;
+}
+
+export const detectSchemaQualifiers = (
+  files: DependencySource[],
+  mappings: Record<string, SchemaMapping> = getSchemaMappings()
+): SchemaQualifier[] => {
+  const qualifiers = new Map<string, SchemaQualifier>();
+  files.forEach(file => {
+    // Java/C# sources contribute the SQL in their string literals
+    const code = isApplicationSource(file.name) ? embeddedSqlText(file) : file.content || '';
+    findQualifiedReferences(code).forEach(reference => {
+      const key = qualifierKey(reference);
+      const qualifier = qualifiers.get(key) ?? { key, kind: reference.database ? 'database' : 'owner', objects: [], usages: [], mapping: resolveSchemaMapping(reference, mappings)?.mapping };
+      qualifiers.set(key, qualifier);
+      const object = reference.name.toLowerCase();
+      if (!reference.definition && !qualifier.objects.includes(object)) qualifier.objects.push(object);
+      if (!qualifier.usages.some(usage => usage.fileId === file.id)) qualifier.usages.push({ fileId: file.id, fileName: file.name, line: reference.line });
+    });
+  });
+  return [...qualifiers.values()].sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Database links and synonyms the mapping relies on. Credentials and TNS aliases are placeholders.
+export const generateSchemaObjectsDdl = (files: DependencySource[], mappings: Record<string, SchemaMapping> = getSchemaMappings()) => {
+  const qualifiers = detectSchemaQualifiers(files, mappings).filter(qualifier => qualifier.mapping);
+  const links = new Map<string, SchemaQualifier>();
+  qualifiers.forEach(qualifier => {
+    if (qualifier.mapping!.dbLink && !links.has(qualifier.mapping!.dbLink.toLowerCase())) links.set(qualifier.mapping!.dbLink.toLowerCase(), qualifier);
+  });
+  const linkDdl = [...links.values()].map(({ key, mapping }) =>
+    `-- Database link for Sybase ${key}: fill in the password and the TNS alias\nCREATE DATABASE LINK ${mapping!.dbLink} CONNECT TO ${mapping!.schema || 'remote_user'} IDENTIFIED BY "change_me" USING '${mapping!.dbLink!.toUpperCase()}';`);
+
+  const synonyms = new Map<string, string>();
+  const clashes: string[] = [];
+  qualifiers.filter(qualifier => qualifier.mapping!.synonym).forEach(({ mapping, objects }) => {
+    objects.forEach(object => {
+      const target = `${mapping!.schema ? `${mapping!.schema}.` : ''}${object}${mapping!.dbLink ? `@${mapping!.dbLink}` : ''}`;
+      if (synonyms.has(object) && synonyms.get(object) !== target) clashes.push(`-- WARNING: ${object} also maps to ${target}; only one synonym of that name can exist`);
+      else synonyms.set(object, target);
+    });
+  });
+  const synonymDdl = [...synonyms.entries()].map(([object, target]) => `CREATE OR REPLACE SYNONYM ${object} FOR ${target};`);
+
+  return [...linkDdl, ...synonymDdl, ...clashes].join('\n');
+};
@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CodeFile, DatabaseObjectKind, TargetDialect } from '@/types';
+import { parseSybase, listObjects, SybaseObjectInfo } from '@/utils/sybaseParser';
+import { getTargetDialect } from '@/utils/targetDialect';
+
+// Splits multi-object Sybase scripts (procedures separated by `go`) into one CodeFile
+// per object, and reassembles the converted pieces into a single ordered Oracle script.
+
+const GO_LINE = /^[ \t]*go(?:[ \t]+\d+)?[ \t]*;?[ \t]*$/im;
+
+export const fileTypeForObject = (kind: DatabaseObjectKind): CodeFile['type'] => {
+  if (kind === 'procedure' || kind === 'function') return 'procedure';
+  if (kind === 'trigger') return 'trigger';
+  if (kind === 'table' || kind === 'index') return 'table';
+  return 'other';
+};
+
+interface BatchSegment {
+  text: string;
+  separator: string; // the `go` line that ends the batch, as written (go 5 runs it five times)
+}
+
+// Text of every batch, including the comments between the previous `go` and the batch itself
+const batchSegments = (source: string, batchEnds: number[]): BatchSegment[] => {
+  let start = 0;
+  return batchEnds.map(end => {
+    const text = source.slice(start, end);
+    const rest = source.slice(end);
+    const go = GO_LINE.exec(rest);
+    start = go ? end + go.index + go[0].length : source.length;
+    return { text: text.replace(/^\s*\n/, '').replace(/\s+$/, ''), separator: go ? go[0].trim() : 'go' };
+  });
+};
+
+const sanitizeFileName = (name: string) => name.replace(/[^\w.$#-]+/g, '_');
+
+// One child CodeFile per object. Batches that create nothing (grants, `use`, `set` options)
+// stay with the object they follow, or the first object if they come before any.
+// Scripts with fewer than two objects are returned unchanged.
+export const splitScriptIntoObjects = (file: CodeFile): CodeFile[] => {
+  const script = parseSybase(file.content);
+  if (script.batches.length < 2) return [file];
+
+  const objects = listObjects(script);
+  const objectByBatch = new Map<number, SybaseObjectInfo>();
+  objects.forEach(object => {
+    if (!objectByBatch.has(object.batchIndex)) objectByBatch.set(object.batchIndex, object);
+  });
+  if (objectByBatch.size < 2) return [file];
+
+  const segments = batchSegments(script.source, script.batches.map(batch => batch.endOffset));
+  const groups: { object: SybaseObjectInfo; parts: BatchSegment[] }[] = [];
+  const leading: BatchSegment[] = [];
+  script.batches.forEach((batch, index) => {
+    const object = objectByBatch.get(batch.index);
+    if (object) {
+      groups.push({ object, parts: [...leading.splice(0), segments[index]] });
+    } else if (groups.length > 0) {
+      groups[groups.length - 1].parts.push(segments[index]);
+    } else {
+      leading.push(segments[index]);
+    }
+  });
+
+  const scriptId = file.id;
+  const usedNames = new Set<string>();
+  return groups.map(({ object, parts }, index) => {
+    let name = `${sanitizeFileName(object.name)}.sql`;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${sanitizeFileName(object.name)}_${n}.sql`;
+    usedNames.add(name.toLowerCase());
+    return {
+      id: uuidv4(),
+      name,
+      content: parts.map(part => `${part.text}\n${part.separator}`).join('\n') + '\n',
+      type: fileTypeForObject(object.kind),
+      status: 'pending',
+      objectName: object.name,
+      objectKind: object.kind,
+      segment: { scriptId, scriptName: file.name, index, count: groups.length, separator: parts[parts.length - 1].separator },
+    };
+  });
+};
+
+const PLSQL_UNIT = /^\s*create\s+(or\s+replace\s+)?((non)?editionable\s+)?(procedure|function|package|trigger|type\s+body)\b/im;
+
+// Concatenate converted objects in their original order. PL/SQL units get the '/'
+// terminator SQL*Plus needs between them if the converter left it out; PostgreSQL
+// bodies are dollar-quoted and end at their own semicolon. A `go N` separator has no
+// target form and is written back as a comment so the repeat count is not lost.
+export const assembleConvertedScript = (
+  parts: { name: string; code: string; index?: number; separator?: string }[],
+  title?: string,
+  target: TargetDialect = getTargetDialect()
+): string => {
+  const ordered = [...parts].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  const body = ordered.map(part => {
+    let code = part.code.replace(/\s+$/, '');
+    if (target === 'oracle' && PLSQL_UNIT.test(code) && !/\n[ \t]*\/$/.test(code)) code += '\n/';
+    const repeat = Number(part.separator?.match(/^go\s+(\d+)/i)?.[1] ?? 1);
+    if (repeat > 1) code += `\n-- ${part.separator}: the source script ran this batch ${repeat} times`;
+    return `-- ${part.name}\n${code}`;
+  });
+  return [title ? `-- ${title}` : '', ...body].filter(Boolean).join('\n\n') + '\n';
+};
+
+export const assembleOracleScript = (parts: { name: string; code: string; index?: number }[], title?: string) =>
+  assembleConvertedScript(parts, title, 'oracle');
+
+// Group files by the script they were split from; files that were never split form their own group.
+export const groupBySourceScript = <T extends { id: string; name: string; segment?: CodeFile['segment'] }>(files: T[]) => {
+  const groups = new Map<string, { name: string; files: T[] }>();
+  files.forEach(file => {
+    const key = file.segment?.scriptId ?? file.id;
+    const name = file.segment?.scriptName ?? file.name;
+    if (!groups.has(key)) groups.set(key, { name, files: [] });
+    groups.get(key)!.files.push(file);
+  });
+  groups.forEach(group => group.files.sort((a, b) => (a.segment?.index ?? 0) - (b.segment?.index ?? 0)));
+  return [...groups.values()];
+};
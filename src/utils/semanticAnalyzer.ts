@@ -0,0 +1,232 @@
+import type { ConversionIssue, SourceSortOrder, TargetDialect } from '@/types';
+import { collectDeclaredNames, isSignificantToken, parseDataTypeText, parseSybase, SybaseDataType, SybaseToken } from '@/utils/sybaseParser';
+import { enclosingContext } from '@/utils/emptyStringAnalyzer';
+import { mapDataType } from '@/utils/dataTypeProfile';
+import { getTargetDialect, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
+
+// Expressions that compile unchanged but compute something else after conversion: integer division
+// (5/2 is 2 in Sybase, 2.5 in Oracle), equality of datetime values (Sybase stores 1/300-second steps,
+// the target type does not) and string comparisons on a case-insensitive source server. Types come
+// from the parameters, variables and CREATE TABLE columns of the same file.
+
+export const SEMANTICS_CATEGORY = 'semantics';
+
+export const DEFAULT_SOURCE_SORT_ORDER: SourceSortOrder = 'nocase';
+
+export const SOURCE_SORT_ORDER_LABELS: Record<SourceSortOrder, string> = {
+  nocase: 'Case-insensitive sort order',
+  binary: 'Binary sort order',
+};
+
+// --- Source sort order (persisted per browser, like the source dialect) ---
+// Case-insensitive until known, so string comparisons are reported rather than missed
+const SORT_ORDER_STORAGE_KEY = 'source-sort-order';
+
+export const getSourceSortOrder = (): SourceSortOrder => {
+  if (typeof localStorage === 'undefined') return DEFAULT_SOURCE_SORT_ORDER;
+  return (localStorage.getItem(SORT_ORDER_STORAGE_KEY) as SourceSortOrder) || DEFAULT_SOURCE_SORT_ORDER;
+};
+
+export const setSourceSortOrder = (sortOrder: SourceSortOrder) => {
+  localStorage.setItem(SORT_ORDER_STORAGE_KEY, sortOrder);
+  return sortOrder;
+};
+
+// --- Operands ---
+
+const INTEGER_TYPES = new Set(['int', 'integer', 'smallint', 'tinyint', 'bigint']);
+const DATETIME_TYPES = new Set(['datetime', 'smalldatetime', 'bigdatetime']);
+const STRING_TYPES = new Set(['char', 'varchar', 'nchar', 'nvarchar', 'unichar', 'univarchar', 'text', 'unitext', 'sysname', 'longsysname']);
+const INTEGER_FUNCTIONS = new Set(['DATEDIFF', 'DATEPART', 'CHAR_LENGTH', 'LEN', 'DATALENGTH', 'CHARINDEX', 'PATINDEX', 'COUNT', 'ASCII', 'SIGN']);
+const INTEGER_GLOBALS = new Set(['@@ROWCOUNT', '@@ERROR', '@@TRANCOUNT', '@@NESTLEVEL', '@@FETCH_STATUS', '@@SQLSTATUS', '@@SPID']);
+const DATETIME_FUNCTIONS = new Set(['GETDATE', 'GETUTCDATE', 'DATEADD', 'CURRENT_TIMESTAMP', 'SYSDATETIME']);
+const CASE_FUNCTIONS = new Set(['UPPER', 'LOWER']);
+const COMPARISON_CLAUSES = new Set(['WHERE', 'ON', 'IF', 'ELSIF', 'WHEN', 'WHILE', 'AND', 'OR', 'NOT', 'HAVING']);
+const ROUTINE_KEYWORDS = new Set(['PROC', 'PROCEDURE', 'FUNCTION']);
+
+// Token range [start, end)
+interface Operand {
+  start: number;
+  end: number;
+}
+
+const isName = (token?: SybaseToken) => token?.type === 'identifier' || token?.type === 'quotedIdentifier';
+// Some built-ins lex as keywords
+const isCallee = (token?: SybaseToken) =>
+  isName(token) || [INTEGER_FUNCTIONS, DATETIME_FUNCTIONS, CASE_FUNCTIONS, new Set(['CONVERT', 'CAST'])].some(names => names.has(token?.upper));
+
+const matchingParen = (tokens: SybaseToken[], index: number, step: 1 | -1) => {
+  let depth = 0;
+  for (let i = index; i >= 0 && i < tokens.length; i += step) {
+    if (tokens[i].value === (step === 1 ? '(' : ')')) depth++;
+    else if (tokens[i].value === (step === 1 ? ')' : '(') && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// The operand just before an operator: a literal, variable, (qualified) column or call
+const operandBefore = (tokens: SybaseToken[], index: number): Operand | undefined => {
+  const token = tokens[index - 1];
+  if (!token) return undefined;
+  if (token.value === ')') {
+    const open = matchingParen(tokens, index - 1, -1);
+    if (open < 0) return undefined;
+    return { start: isCallee(tokens[open - 1]) ? open - 1 : open, end: index };
+  }
+  if (['number', 'string', 'variable', 'globalVariable'].includes(token.type)) return { start: index - 1, end: index };
+  if (!isName(token)) return undefined;
+  let start = index - 1;
+  while (tokens[start - 1]?.value === '.' && isName(tokens[start - 2])) start -= 2;
+  return { start, end: index };
+};
+
+// The operand just after an operator
+const operandAfter = (tokens: SybaseToken[], index: number): Operand | undefined => {
+  const token = tokens[index + 1];
+  if (!token) return undefined;
+  if (token.value === '(') {
+    const close = matchingParen(tokens, index + 1, 1);
+    return close < 0 ? undefined : { start: index + 1, end: close + 1 };
+  }
+  if (['number', 'string', 'variable', 'globalVariable'].includes(token.type)) return { start: index + 1, end: index + 2 };
+  if (!isCallee(token)) return undefined;
+  let end = index + 2;
+  while (tokens[end]?.value === '.' && isName(tokens[end + 1])) end += 2;
+  if (tokens[end]?.value === '(') {
+    const close = matchingParen(tokens, end, 1);
+    return close < 0 ? undefined : { start: index + 1, end: close + 1 };
+  }
+  return { start: index + 1, end };
+};
+
+// Base type name of an operand, when it can be told
+const operandType = (tokens: SybaseToken[], operand: Operand, types: Map<string, SybaseDataType>): string | undefined => {
+  const first = tokens[operand.start];
+  const last = tokens[operand.end - 1];
+  if (operand.end - operand.start === 1) {
+    if (first.type === 'number') return /^\d+$/.test(first.value) ? 'int' : /^0x/i.test(first.value) ? 'varbinary' : 'numeric';
+    if (first.type === 'string') return 'varchar';
+    if (first.type === 'globalVariable') return INTEGER_GLOBALS.has(first.upper) ? 'int' : undefined;
+    if (first.upper === 'CURRENT_TIMESTAMP') return 'datetime';
+  }
+  if (last.value !== ')') return types.get(last.value.replace(/^\[|\]$/g, '').toLowerCase())?.name;
+  if (first.value === '(') return operand.end - operand.start === 3 ? operandType(tokens, { start: operand.start + 1, end: operand.start + 2 }, types) : undefined;
+  if (INTEGER_FUNCTIONS.has(first.upper)) return 'int';
+  if (DATETIME_FUNCTIONS.has(first.upper)) return 'datetime';
+  if (CASE_FUNCTIONS.has(first.upper)) return 'varchar';
+  // convert(int, x), cast(x as int)
+  if (first.upper === 'CONVERT') return tokens[operand.start + 2]?.value.toLowerCase();
+  if (first.upper === 'CAST') {
+    const as = tokens.slice(operand.start, operand.end).findIndex(token => token.upper === 'AS');
+    return as > 0 ? tokens[operand.start + as + 1]?.value.toLowerCase() : undefined;
+  }
+  return undefined;
+};
+
+// = is a comparison in conditions; after SET, SELECT @v, EXEC and in parameter lists it assigns
+const isComparison = (tokens: SybaseToken[], index: number) => {
+  if (tokens[index].value !== '=') return true;
+  const context = enclosingContext(tokens, index);
+  if (context.open !== undefined) return !ROUTINE_KEYWORDS.has(tokens[context.open - 2]?.upper) && tokens[context.open - 1]?.upper !== 'VALUES';
+  return COMPARISON_CLAUSES.has(context.clause);
+};
+
+interface Finding {
+  rule: 'integer-division' | 'datetime-equality' | 'case-insensitive';
+  token: SybaseToken;
+  severity: ConversionIssue['severity'];
+  description: string;
+  suggestedFix: string;
+}
+
+// Results that may change after conversion, with a suggested rewrite for each
+export const analyzeSemantics = (
+  code: string,
+  target: TargetDialect = getTargetDialect(),
+  sortOrder: SourceSortOrder = getSourceSortOrder()
+): ConversionIssue[] => {
+  const script = parseSybase(code);
+  const tokens = script.tokens.filter(isSignificantToken);
+  const types = new Map(collectDeclaredNames(script).map(declared => [declared.name.toLowerCase(), declared.dataType]));
+  const lines = code.split('\n');
+  const text = (operand: Operand) => code.slice(tokens[operand.start].offset, tokens[operand.end - 1].offset + tokens[operand.end - 1].value.length);
+  const targetLabel = TARGET_DIALECT_LABELS[target];
+  const datetimeType = mapDataType(parseDataTypeText('datetime')) ?? 'DATE';
+  const findings: Finding[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'operator' && token.upper !== 'LIKE') return;
+    const left = operandBefore(tokens, index);
+    const right = operandAfter(tokens, index);
+    if (!left || !right) return;
+    const leftType = operandType(tokens, left, types);
+    const rightType = operandType(tokens, right, types);
+
+    // PostgreSQL divides integers like Sybase does
+    if (token.value === '/' && target === 'oracle' && INTEGER_TYPES.has(leftType) && INTEGER_TYPES.has(rightType)) {
+      findings.push({
+        rule: 'integer-division',
+        token,
+        severity: 'warning',
+        description: `${text(left)} / ${text(right)} divides two integers: Sybase truncates the quotient (5/2 = 2), Oracle keeps the fraction (2.5).`,
+        suggestedFix: `TRUNC(${text(left)} / ${text(right)})`,
+      });
+      return;
+    }
+    if (!['=', '<>', '!=', '<', '>', '<=', '>=', 'LIKE'].includes(token.upper) || !isComparison(tokens, index)) return;
+
+    if (['=', '<>', '!='].includes(token.value) && (DATETIME_TYPES.has(leftType) || DATETIME_TYPES.has(rightType))) {
+      const negated = token.value !== '=' ? 'NOT ' : '';
+      findings.push({
+        rule: 'datetime-equality',
+        token,
+        severity: 'warning',
+        description: `${text(left)} ${token.value} ${text(right)} tests datetime values for equality. Sybase stores datetime in 1/300-second steps; ` +
+          (/^DATE$/i.test(datetimeType)
+            ? `${datetimeType} drops the fraction, so values that differed by milliseconds now compare equal.`
+            : `${datetimeType} keeps exact milliseconds, so values Sybase rounded to the same step can now differ.`),
+        suggestedFix: /^DATE$/i.test(datetimeType)
+          ? `CAST(${text(left)} AS DATE) ${token.value} CAST(${text(right)} AS DATE)`
+          : target === 'postgresql'
+            ? `${text(left)} ${negated}BETWEEN ${text(right)} - interval '3 milliseconds' AND ${text(right)} + interval '3 milliseconds'`
+            : `${text(left)} ${negated}BETWEEN ${text(right)} - INTERVAL '0.003' SECOND AND ${text(right)} + INTERVAL '0.003' SECOND`,
+      });
+      return;
+    }
+
+    if (sortOrder !== 'nocase') return;
+    const isLiteral = (operand: Operand) => operand.end - operand.start === 1 && tokens[operand.start].type === 'string';
+    const hasLetters = (operand: Operand) => !isLiteral(operand) || /[a-z]/i.test(tokens[operand.start].value);
+    const caseFolded = (operand: Operand) => CASE_FUNCTIONS.has(tokens[operand.start].upper);
+    const stringOperand = (operand: Operand, type?: string) => STRING_TYPES.has(type) && hasLetters(operand);
+    if (isLiteral(left) && isLiteral(right)) return;
+    if (caseFolded(left) || caseFolded(right)) return;
+    if (!stringOperand(left, leftType) && !stringOperand(right, rightType)) return;
+    if (!hasLetters(left) || !hasLetters(right)) return;
+    // Literals are folded in place: UPPER(status) = 'OPEN'
+    const fold = (operand: Operand) => target === 'postgresql'
+      ? isLiteral(operand) ? text(operand).toLowerCase() : `lower(${text(operand)})`
+      : isLiteral(operand) ? text(operand).toUpperCase() : `UPPER(${text(operand)})`;
+    findings.push({
+      rule: 'case-insensitive',
+      token,
+      severity: 'info',
+      description: `${text(left)} ${token.value} ${text(right)} compares strings. The source server sorts case-insensitively, so 'abc' matched 'ABC'; ${targetLabel} compares case-sensitively.`,
+      suggestedFix: target === 'postgresql'
+        ? `${fold(left)} ${token.upper === 'LIKE' ? 'LIKE' : token.value} ${fold(right)}, or ILIKE, or a citext / nondeterministic collation column`
+        : `${fold(left)} ${token.upper === 'LIKE' ? 'LIKE' : token.value} ${fold(right)} with a function-based index on UPPER(column), or a COLLATE BINARY_CI column`,
+    });
+  });
+
+  return findings.map(finding => ({
+    id: `semantics-${finding.rule}-${finding.token.line}:${finding.token.column}`,
+    lineNumber: finding.token.line,
+    columnNumber: finding.token.column,
+    codeSide: 'original',
+    severity: finding.severity,
+    description: finding.description,
+    originalCode: lines[finding.token.line - 1]?.trim(),
+    suggestedFix: finding.suggestedFix,
+    category: SEMANTICS_CATEGORY,
+  }));
+};
@@ -0,0 +1,229 @@
+import type { AppliedRule, ConversionIssue, SourceDialect } from '@/types';
+import { parseSybase, allStatements, isSignificantToken, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import { DependencySource } from '@/utils/dependencyGraph';
+
+// The T-SQL dialect of the uploaded code. Sybase ASE and Microsoft SQL Server share the parser and
+// every other rewrite; what only SQL Server has is handled here (TRY/CATCH, THROW, OUTPUT clauses,
+// MERGE syntax), in the SQL Server type map (varchar(max), datetime2, …) and in the function catalog
+// entries limited to SQL Server.
+
+export const DEFAULT_SOURCE_DIALECT: SourceDialect = 'sybase';
+export const DIALECT_CATEGORY = 'dialect';
+
+export const SOURCE_DIALECT_LABELS: Record<SourceDialect, string> = {
+  sybase: 'Sybase ASE',
+  sqlserver: 'Microsoft SQL Server',
+};
+
+// --- Project dialect (persisted per browser, like the identity strategy) ---
+const DIALECT_STORAGE_KEY = 'source-dialect';
+
+export const getSourceDialect = (): SourceDialect => {
+  if (typeof localStorage === 'undefined') return DEFAULT_SOURCE_DIALECT;
+  return (localStorage.getItem(DIALECT_STORAGE_KEY) as SourceDialect) || DEFAULT_SOURCE_DIALECT;
+};
+
+export const setSourceDialect = (dialect: SourceDialect) => {
+  localStorage.setItem(DIALECT_STORAGE_KEY, dialect);
+  return dialect;
+};
+
+// Constructs Sybase does not accept; everything else is shared and decides nothing
+const SQL_SERVER_MARKERS = [
+  /\bbegin\s+try\b/i,
+  /\bthrow\b/i,
+  /\(\s*max\s*\)/i,
+  /\boutput\s+(inserted|deleted)\./i,
+  /\bscope_identity\s*\(/i,
+  /\btry_(convert|cast|parse)\s*\(/i,
+  /\biif\s*\(/i,
+  /\bdatetime(2|offset)\b/i,
+  /\bset\s+xact_abort\b/i,
+  /\bcreate\s+or\s+alter\b/i,
+];
+
+// SQL Server when any file uses a construct only SQL Server has; undefined when the code fits both
+export const detectSourceDialect = (files: DependencySource[]): SourceDialect | undefined =>
+  files.some(file => SQL_SERVER_MARKERS.some(marker => marker.test(file.content || ''))) ? 'sqlserver' : undefined;
+
+// --- SQL Server rewrites ---
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+const padLines = (replacement: string, original: string) =>
+  replacement + '\n'.repeat(Math.max(0, newlines(original) - newlines(replacement)));
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+  line: number;
+}
+
+const endOf = (token: SybaseToken) => token.offset + token.value.length;
+
+const issueAt = (token: SybaseToken, severity: ConversionIssue['severity'], description: string, suggestedFix: string, originalCode: string): ConversionIssue => ({
+  id: `dialect-${token.line}:${token.column}`,
+  lineNumber: token.line,
+  columnNumber: token.column,
+  codeSide: 'original',
+  severity,
+  description,
+  originalCode,
+  suggestedFix,
+  category: DIALECT_CATEGORY,
+});
+
+// BEGIN TRY … END TRY BEGIN CATCH … END CATCH → BEGIN … EXCEPTION WHEN OTHERS THEN … END;
+const rewriteTryCatch = (tokens: SybaseToken[], source: string, edits: Edit[]) => {
+  const replace = (from: SybaseToken, to: SybaseToken, text: string) =>
+    edits.push({ start: from.offset, end: endOf(to), text: padLines(text, source.slice(from.offset, endOf(to))), line: from.line });
+  tokens.forEach((token, index) => {
+    const next = tokens[index + 1];
+    if (token.upper === 'BEGIN' && next?.upper === 'TRY') replace(token, next, 'BEGIN');
+    if (token.upper === 'END' && next?.upper === 'TRY' && tokens[index + 2]?.upper === 'BEGIN' && tokens[index + 3]?.upper === 'CATCH') {
+      replace(token, next, 'EXCEPTION');
+      replace(tokens[index + 2], tokens[index + 3], 'WHEN OTHERS THEN');
+    }
+    if (token.upper === 'END' && next?.upper === 'CATCH') replace(token, next, tokens[index + 2]?.value === ';' ? 'END' : 'END;');
+  });
+};
+
+// THROW; re-raises; THROW n, message, state becomes RAISERROR so the error catalog maps the number
+const rewriteThrow = (statement: SybaseStatement, source: string, edits: Edit[], issues: ConversionIssue[]) => {
+  const [, number, comma, message, ...rest] = statement.tokens.filter(token => token.value !== ';');
+  const pad = (text: string) => padLines(text, statement.text);
+  if (!number) {
+    edits.push({ start: statement.startOffset, end: statement.endOffset, text: pad('RAISE'), line: statement.startLine });
+    return;
+  }
+  if (number.type === 'number' && comma?.value === ',' && (message?.type === 'string' || message?.type === 'variable') && rest[0]?.value === ',') {
+    edits.push({ start: statement.startOffset, end: statement.endOffset, text: pad(`raiserror ${number.value} ${message.value}`), line: statement.startLine });
+    return;
+  }
+  issues.push(issueAt(statement.tokens[0], 'warning', 'THROW with computed arguments was left for manual conversion.', 'Use RAISE_APPLICATION_ERROR with the error catalog code for the number and the message expression.', statement.text));
+};
+
+// MERGE: Oracle needs INTO, no AS before aliases and the ON condition in parentheses, and has
+// no BY SOURCE branch, no AND on WHEN and no OUTPUT $action
+const rewriteMerge = (statement: SybaseStatement, source: string, edits: Edit[], issues: ConversionIssue[]) => {
+  const tokens = statement.tokens;
+  const remove = (token: SybaseToken) => edits.push({ start: token.offset, end: endOf(token) + (source[endOf(token)] === ' ' ? 1 : 0), text: '', line: token.line });
+  if (tokens[1] && tokens[1].upper !== 'INTO') edits.push({ start: tokens[1].offset, end: tokens[1].offset, text: 'INTO ', line: tokens[1].line });
+
+  let depth = 0;
+  let onIndex = -1;
+  let onWrapped = false;
+  tokens.forEach((token, index) => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (depth !== 0) return;
+    if (token.upper === 'AS' && index > 1 && tokens[index + 1]?.type === 'identifier' && onIndex < 0) remove(token);
+    if (token.upper === 'ON' && onIndex < 0) onIndex = index;
+    if (token.upper === 'WHEN' && onIndex >= 0 && !onWrapped) {
+      onWrapped = true;
+      const first = tokens[onIndex + 1];
+      const last = tokens[index - 1];
+      if (first.value !== '(' || last.value !== ')') {
+        edits.push({ start: first.offset, end: first.offset, text: '(', line: first.line });
+        edits.push({ start: endOf(last), end: endOf(last), text: ')', line: last.line });
+      }
+    }
+    if (token.upper === 'BY' && tokens[index - 1]?.upper === 'MATCHED') {
+      if (tokens[index + 1]?.upper === 'TARGET') {
+        remove(token);
+        remove(tokens[index + 1]);
+      } else if (tokens[index + 1]?.upper === 'SOURCE') {
+        issues.push(issueAt(token, 'error', 'Oracle MERGE has no WHEN NOT MATCHED BY SOURCE branch.', 'Delete the target rows missing from the source in a separate DELETE … WHERE NOT EXISTS after the MERGE.', statement.text.split('\n')[0]));
+      }
+    }
+    const previous = tokens[index - 1]?.upper;
+    if (token.upper === 'AND' && (previous === 'MATCHED' || ((previous === 'TARGET' || previous === 'SOURCE') && tokens[index - 2]?.upper === 'BY'))) {
+      issues.push(issueAt(token, 'warning', 'Oracle MERGE has no AND condition on WHEN [NOT] MATCHED.', 'Move the condition into a WHERE clause of the UPDATE or INSERT branch.', statement.text.split('\n')[0]));
+    }
+    const branch = tokens.slice(0, index).map(t => t.upper).lastIndexOf('WHEN');
+    if (token.upper === 'DELETE' && tokens[index - 1]?.upper === 'THEN' && !tokens.slice(branch, index).some(t => t.upper === 'NOT')) {
+      issues.push(issueAt(token, 'warning', 'WHEN MATCHED THEN DELETE has no direct Oracle form.', 'Use WHEN MATCHED THEN UPDATE SET … DELETE WHERE <condition>.', statement.text.split('\n')[0]));
+    }
+  });
+};
+
+// OUTPUT inserted./deleted. columns in DML (not OUTPUT parameters)
+const checkOutputClause = (statement: SybaseStatement, issues: ConversionIssue[]) => {
+  if (!['insert', 'update', 'delete', 'merge'].includes(statement.kind)) return;
+  const output = statement.tokens.find((token, index) => token.upper === 'OUTPUT' && statement.tokens[index - 1]?.type !== 'variable');
+  if (!output) return;
+  const action = statement.tokens.some(token => token.value.toLowerCase() === '$action');
+  issues.push(issueAt(output, action ? 'error' : 'warning',
+    `The OUTPUT clause has no Oracle equivalent${action ? ', and $action cannot be returned from MERGE' : ''}.`,
+    'Use RETURNING … INTO for single rows or RETURNING … BULK COLLECT INTO a collection; OUTPUT … INTO a table becomes an INSERT from that collection.',
+    statement.text.split('\n')[0]));
+};
+
+export interface DialectRewriteResult {
+  code: string;
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+// SQL Server constructs with a fixed Oracle form are rewritten before the shared pipeline; the rest
+// is reported. The line count is kept so issue positions still match the uploaded file.
+export const rewriteSqlServerConstructs = (code: string): DialectRewriteResult => {
+  const script = parseSybase(code);
+  const source = script.source;
+  const edits: Edit[] = [];
+  const issues: ConversionIssue[] = [];
+  const tokens = script.tokens.filter(isSignificantToken);
+
+  // CREATE OR ALTER → CREATE, so the parser sees the procedure
+  tokens.forEach((token, index) => {
+    if (token.upper === 'CREATE' && tokens[index + 1]?.upper === 'OR' && tokens[index + 2]?.upper === 'ALTER') {
+      edits.push({ start: endOf(token), end: endOf(tokens[index + 2]), text: '', line: token.line });
+    }
+  });
+  rewriteTryCatch(tokens, source, edits);
+  allStatements(script).forEach(statement => {
+    const [first, option, value] = statement.tokens;
+    if (statement.kind === 'throw') rewriteThrow(statement, source, edits, issues);
+    if (statement.kind === 'merge') rewriteMerge(statement, source, edits, issues);
+    checkOutputClause(statement, issues);
+    // Oracle rolls back the failing statement, never the whole transaction on its own
+    if (first?.upper === 'SET' && option?.upper === 'XACT_ABORT') {
+      // the comment takes the `;` too: an empty statement is not valid PL/SQL
+      const end = source[statement.endOffset] === ';' ? statement.endOffset + 1 : statement.endOffset;
+      const text = source.slice(statement.startOffset, end);
+      edits.push({ start: statement.startOffset, end, text: padLines(`/* ${text.replace(/\s+/g, ' ')} */`, text), line: statement.startLine });
+      if (value?.upper === 'ON') {
+        issues.push(issueAt(first, 'info', 'SET XACT_ABORT ON has no Oracle equivalent: a failing statement is rolled back on its own and the transaction stays open.', 'Roll back in the exception handler when the whole transaction must be undone.', statement.text));
+      }
+    }
+  });
+
+  if (edits.length === 0) return { code: source, issues };
+  let rewritten = source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    issues,
+    appliedRule: {
+      ruleId: 'sql-server-dialect',
+      description: 'SQL Server TRY/CATCH, THROW, MERGE and XACT_ABORT → Oracle forms',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt guidance for the dialect
+export const describeSourceDialect = (dialect: SourceDialect): string =>
+  dialect === 'sqlserver'
+    ? [
+      'Microsoft SQL Server T-SQL. TRY/CATCH, THROW, MERGE syntax and XACT_ABORT are already converted.',
+      'ERROR_MESSAGE()/ERROR_NUMBER() → SQLERRM/SQLCODE; RAISERROR(msg, severity, state) → RAISE_APPLICATION_ERROR.',
+      'OUTPUT clauses → RETURNING … INTO (BULK COLLECT for several rows); table variables → collections or global temporary tables.',
+      'varchar(max)/nvarchar(max)/varbinary(max) are CLOB/NCLOB/BLOB; SCOPE_IDENTITY() is the identity value of the last INSERT (RETURNING … INTO).',
+      '[bracketed] names are plain identifiers; drop the brackets.',
+    ].join('\n')
+    : 'Sybase ASE T-SQL.';
@@ -0,0 +1,1000 @@
+import type { DatabaseObjectKind } from '@/types';
+
+// Sybase ASE T-SQL lexer and parser.
+// The parser is deliberately forgiving: it never throws, and anything it does not
+// recognise becomes an 'other' statement so analyses can still run over the tokens.
+
+export type SybaseTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'quotedIdentifier'
+  | 'variable'
+  | 'globalVariable'
+  | 'tempTable'
+  | 'number'
+  | 'string'
+  | 'comment'
+  | 'operator'
+  | 'punctuation'
+  | 'whitespace';
+
+export interface SybaseToken {
+  type: SybaseTokenType;
+  value: string;
+  upper: string;
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface TokenizeOptions {
+  // Sybase treats "text" as a string literal unless quoted_identifier is on;
+  // PL/SQL always treats it as an identifier.
+  doubleQuotedStrings?: boolean;
+}
+
+export type SybaseStatementKind =
+  | 'createProcedure'
+  | 'createTrigger'
+  | 'createTable'
+  | 'createView'
+  | 'createFunction'
+  | 'createIndex'
+  | 'createOther'
+  | 'alter'
+  | 'drop'
+  | 'block'
+  | 'if'
+  | 'while'
+  | 'declare'
+  | 'declareCursor'
+  | 'select'
+  | 'insert'
+  | 'update'
+  | 'delete'
+  | 'exec'
+  | 'set'
+  | 'return'
+  | 'print'
+  | 'raiserror'
+  | 'transaction'
+  | 'cursorOp'
+  | 'goto'
+  | 'label'
+  | 'break'
+  | 'continue'
+  | 'waitfor'
+  | 'truncate'
+  | 'merge'
+  | 'throw'
+  | 'other';
+
+export interface SybaseDataType {
+  name: string; // lower-case base type name, e.g. 'varchar'
+  params: string[]; // length / precision / scale
+  text: string; // as written, e.g. 'varchar(20)'
+  line: number;
+  startOffset?: number;
+  endOffset?: number;
+}
+
+export interface SybaseParameter {
+  name: string;
+  dataType: SybaseDataType;
+  output: boolean;
+  defaultValue?: string;
+}
+
+export interface SybaseColumn {
+  name: string;
+  dataType: SybaseDataType;
+  identity: boolean;
+  nullable?: boolean;
+  defaultValue?: string;
+  line: number;
+}
+
+export interface SybaseStatement {
+  kind: SybaseStatementKind;
+  tokens: SybaseToken[]; // significant tokens only
+  text: string;
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
+  name?: string; // created object, label, cursor or executed procedure
+  table?: string; // trigger table or DML target
+  events?: string[]; // trigger events
+  parameters?: SybaseParameter[];
+  columns?: SybaseColumn[];
+  condition?: SybaseToken[];
+  body?: SybaseStatement[];
+  elseBody?: SybaseStatement[];
+}
+
+export interface SybaseBatch {
+  index: number;
+  text: string;
+  startLine: number;
+  endLine: number;
+  startOffset: number;
+  endOffset: number;
+  statements: SybaseStatement[];
+}
+
+export interface SybaseScript {
+  source: string;
+  tokens: SybaseToken[];
+  batches: SybaseBatch[];
+}
+
+export type SybaseObjectKind = DatabaseObjectKind;
+
+export interface SybaseObjectInfo {
+  name: string;
+  kind: SybaseObjectKind;
+  batchIndex: number;
+  startLine: number;
+  endLine: number;
+}
+
+const KEYWORDS = new Set([
+  'add', 'all', 'alter', 'and', 'any', 'as', 'asc', 'at', 'authorization', 'begin', 'between', 'break',
+  'browse', 'by', 'cascade', 'case', 'check', 'checkpoint', 'close', 'clustered', 'commit', 'compute',
+  'constraint', 'continue', 'convert', 'create', 'cross', 'current', 'cursor', 'deallocate', 'declare',
+  'default', 'delete', 'desc', 'distinct', 'distributed', 'drop', 'dump', 'else', 'end', 'errexit',
+  'escape', 'except', 'exec', 'execute', 'exists', 'exit', 'fetch', 'fillfactor', 'for', 'foreign', 'from',
+  'full', 'function', 'go', 'goto', 'grant', 'group', 'having', 'holdlock', 'identity', 'if', 'in', 'index',
+  'inner', 'insert', 'intersect', 'into', 'is', 'isolation', 'join', 'key', 'kill', 'left', 'like', 'load',
+  'lock', 'nocount', 'noholdlock', 'nonclustered', 'not', 'null', 'of', 'off', 'on', 'open', 'option', 'or',
+  'order', 'outer', 'output', 'over', 'plan', 'primary', 'print', 'proc', 'procedure', 'raiserror',
+  'read', 'readpast', 'readtext', 'reconfigure', 'references', 'replace', 'return', 'returns', 'revoke',
+  'right', 'rollback', 'rowcount', 'save', 'select', 'set', 'shutdown', 'table', 'then', 'to', 'top', 'tran',
+  'transaction', 'trigger', 'truncate', 'union', 'unique', 'update', 'use', 'values', 'view', 'waitfor',
+  'when', 'where', 'while', 'with', 'writetext', 'after', 'instead', 'loop', 'exception', 'raise', 'cursor',
+  'elsif', 'is', 'out', 'nowait', 'catch', 'try', 'merge', 'matched',
+]);
+
+const MULTI_CHAR_OPERATORS = ['<>', '!=', '>=', '<=', '!<', '!>', '||', ':=', '=>', '..', '*=', '=*', '+=', '-=', '/=', '%=', '&=', '|=', '^='];
+const SINGLE_CHAR_OPERATORS = '+-*/%=<>!&|^~:';
+const PUNCTUATION = '(),;.';
+
+export const tokenizeSybase = (code: string, options: TokenizeOptions = {}): SybaseToken[] => {
+  const { doubleQuotedStrings = true } = options;
+  const source = code.replace(/\r\n/g, '\n');
+  const tokens: SybaseToken[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: SybaseTokenType, value: string, start: number, startLine: number, startColumn: number) => {
+    tokens.push({ type, value, upper: value.toUpperCase(), line: startLine, column: startColumn, offset: start });
+  };
+  const advance = (to: number) => {
+    for (let k = i; k < to; k++) {
+      if (source[k] === '\n') {
+        line++;
+        lineStart = k + 1;
+      }
+    }
+    i = to;
+  };
+
+  while (i < source.length) {
+    const start = i;
+    const startLine = line;
+    const startColumn = i - lineStart + 1;
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (/\s/.test(ch)) {
+      let j = i;
+      while (j < source.length && /\s/.test(source[j])) j++;
+      advance(j);
+      push('whitespace', source.slice(start, j), start, startLine, startColumn);
+    } else if (ch === '-' && next === '-') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      advance(stop);
+      push('comment', source.slice(start, stop), start, startLine, startColumn);
+    } else if (ch === '/' && next === '*') {
+      // T-SQL block comments nest
+      let depth = 1;
+      let j = i + 2;
+      while (j < source.length && depth > 0) {
+        if (source[j] === '/' && source[j + 1] === '*') { depth++; j += 2; }
+        else if (source[j] === '*' && source[j + 1] === '/') { depth--; j += 2; }
+        else j++;
+      }
+      advance(j);
+      push('comment', source.slice(start, j), start, startLine, startColumn);
+    } else if (ch === '\'' || (ch === '"' && doubleQuotedStrings)) {
+      let j = i + 1;
+      while (j < source.length) {
+        if (source[j] === ch) {
+          if (source[j + 1] === ch) { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      const stop = Math.min(j + 1, source.length);
+      advance(stop);
+      push('string', source.slice(start, stop), start, startLine, startColumn);
+    } else if (ch === '"' || ch === '[') {
+      const close = ch === '"' ? '"' : ']';
+      const end = source.indexOf(close, i + 1);
+      const stop = end === -1 ? source.length : end + 1;
+      advance(stop);
+      push('quotedIdentifier', source.slice(start, stop), start, startLine, startColumn);
+    } else if (ch === '@') {
+      let j = i + (next === '@' ? 2 : 1);
+      while (j < source.length && /[\w$#]/.test(source[j])) j++;
+      advance(j);
+      push(next === '@' ? 'globalVariable' : 'variable', source.slice(start, j), start, startLine, startColumn);
+    } else if (ch === '#' && /[\w#]/.test(next || '')) {
+      let j = i + 1;
+      while (j < source.length && /[\w$#]/.test(source[j])) j++;
+      advance(j);
+      push('tempTable', source.slice(start, j), start, startLine, startColumn);
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(next || ''))) {
+      let j = i;
+      if (ch === '0' && (next === 'x' || next === 'X')) {
+        j += 2;
+        while (j < source.length && /[0-9a-fA-F]/.test(source[j])) j++;
+      } else {
+        while (j < source.length && /\d/.test(source[j])) j++;
+        if (source[j] === '.' && source[j + 1] !== '.') {
+          j++;
+          while (j < source.length && /\d/.test(source[j])) j++;
+        }
+        if (/[eE]/.test(source[j] || '') && /[\d+-]/.test(source[j + 1] || '')) {
+          j += 2;
+          while (j < source.length && /\d/.test(source[j])) j++;
+        }
+      }
+      advance(j);
+      push('number', source.slice(start, j), start, startLine, startColumn);
+    } else if (/[A-Za-z_$]/.test(ch)) {
+      let j = i;
+      while (j < source.length && /[\w$#]/.test(source[j])) j++;
+      advance(j);
+      const word = source.slice(start, j);
+      push(KEYWORDS.has(word.toLowerCase()) ? 'keyword' : 'identifier', word, start, startLine, startColumn);
+    } else {
+      const op = MULTI_CHAR_OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (op) {
+        advance(i + op.length);
+        push(op === '..' ? 'punctuation' : 'operator', op, start, startLine, startColumn);
+      } else {
+        advance(i + 1);
+        push(PUNCTUATION.includes(ch) ? 'punctuation' : SINGLE_CHAR_OPERATORS.includes(ch) ? 'operator' : 'punctuation', ch, start, startLine, startColumn);
+      }
+    }
+  }
+  return tokens;
+};
+
+export const isSignificantToken = (token: SybaseToken) =>
+  token.type !== 'whitespace' && token.type !== 'comment';
+
+// Keywords that start a new statement when T-SQL omits the `;` terminator
+const STATEMENT_KEYWORDS = new Set([
+  'ALTER', 'BEGIN', 'BREAK', 'CHECKPOINT', 'CLOSE', 'COMMIT', 'CONTINUE', 'CREATE', 'DEALLOCATE', 'DECLARE',
+  'DELETE', 'DROP', 'DUMP', 'ELSE', 'END', 'EXEC', 'EXECUTE', 'FETCH', 'GOTO', 'GRANT', 'IF', 'INSERT',
+  'KILL', 'LOAD', 'MERGE', 'OPEN', 'PRINT', 'RAISERROR', 'READTEXT', 'RETURN', 'REVOKE', 'ROLLBACK', 'SAVE', 'SELECT',
+  'SET', 'THROW', 'TRUNCATE', 'UPDATE', 'USE', 'WAITFOR', 'WHILE', 'WRITETEXT',
+]);
+
+const SIMPLE_KINDS: Record<string, SybaseStatementKind> = {
+  ALTER: 'alter',
+  BREAK: 'break',
+  CLOSE: 'cursorOp',
+  COMMIT: 'transaction',
+  CONTINUE: 'continue',
+  DEALLOCATE: 'cursorOp',
+  DELETE: 'delete',
+  DROP: 'drop',
+  EXEC: 'exec',
+  EXECUTE: 'exec',
+  FETCH: 'cursorOp',
+  GOTO: 'goto',
+  INSERT: 'insert',
+  MERGE: 'merge',
+  OPEN: 'cursorOp',
+  PRINT: 'print',
+  RAISERROR: 'raiserror',
+  RETURN: 'return',
+  ROLLBACK: 'transaction',
+  SAVE: 'transaction',
+  SELECT: 'select',
+  SET: 'set',
+  THROW: 'throw',
+  TRUNCATE: 'truncate',
+  UPDATE: 'update',
+  WAITFOR: 'waitfor',
+};
+
+// Base names of Sybase (and SQL Server, and common user) data types, used to recognise type positions
+export const SYBASE_TYPE_NAMES = new Set([
+  'bigint', 'binary', 'bit', 'char', 'date', 'datetime', 'dec', 'decimal', 'double', 'float', 'image', 'int',
+  'integer', 'money', 'nchar', 'numeric', 'nvarchar', 'real', 'smalldatetime', 'smallint', 'smallmoney',
+  'sysname', 'text', 'time', 'timestamp', 'tinyint', 'unichar', 'unitext', 'univarchar', 'unsigned',
+  'varbinary', 'varchar', 'bigdatetime', 'bigtime', 'ntext', 'uniqueidentifier', 'xml', 'sql_variant',
+  'longsysname', 'datetime2', 'datetimeoffset', 'rowversion', 'hierarchyid',
+]);
+
+class Parser {
+  constructor(private tokens: SybaseToken[], private source: string, private pos = 0) {}
+
+  parseStatements(stopAtEnd = false): SybaseStatement[] {
+    const statements: SybaseStatement[] = [];
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (stopAtEnd && token.upper === 'END') break;
+      if (token.value === ';') {
+        this.pos++;
+        continue;
+      }
+      const before = this.pos;
+      const statement = this.parseStatement();
+      if (statement) statements.push(statement);
+      if (this.pos === before) this.pos++; // never stall on unexpected input
+    }
+    return statements;
+  }
+
+  private atEnd() {
+    return this.pos >= this.tokens.length;
+  }
+
+  private peek(ahead = 0): SybaseToken | undefined {
+    return this.tokens[this.pos + ahead];
+  }
+
+  private build(kind: SybaseStatementKind, startPos: number, extra: Partial<SybaseStatement> = {}): SybaseStatement {
+    const tokens = this.tokens.slice(startPos, this.pos);
+    const first = tokens[0] ?? this.tokens[startPos];
+    const last = tokens[tokens.length - 1] ?? first;
+    const endOffset = last ? last.offset + last.value.length : 0;
+    return {
+      kind,
+      tokens,
+      text: first ? this.source.slice(first.offset, endOffset) : '',
+      startLine: first?.line ?? 1,
+      endLine: last ? last.line + (last.value.match(/\n/g) || []).length : 1,
+      startOffset: first?.offset ?? 0,
+      endOffset,
+      ...extra,
+    };
+  }
+
+  private isStatementStart(index: number): boolean {
+    const token = this.tokens[index];
+    if (!token || !STATEMENT_KEYWORDS.has(token.upper)) {
+      // `label:` also starts a statement
+      return !!token && token.type === 'identifier' && this.tokens[index + 1]?.value === ':' && this.tokens[index + 2]?.value !== '=';
+    }
+    // update(col) inside trigger conditions is a function call, not an UPDATE statement
+    if (token.upper === 'UPDATE' && this.tokens[index + 1]?.value === '(') return false;
+    return true;
+  }
+
+  // Consume tokens until the next statement keyword at nesting depth 0.
+  private consumeUntilStatementEnd(kind: SybaseStatementKind) {
+    let depth = 0;
+    let caseDepth = 0;
+    let sawValuesOrSelect = false;
+    const first = this.peek();
+    this.pos++;
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (token.value === '(') depth++;
+      else if (token.value === ')') depth = Math.max(0, depth - 1);
+      else if (depth === 0 && token.value === ';') return;
+      if (depth === 0) {
+        if (token.upper === 'CASE') caseDepth++;
+        else if (caseDepth > 0 && (token.upper === 'END' || token.upper === 'ELSE')) {
+          if (token.upper === 'END') caseDepth--;
+          this.pos++;
+          continue;
+        }
+        if (token.upper === 'VALUES') sawValuesOrSelect = true;
+        if (this.isStatementStart(this.pos) && !this.continuesStatement(kind, token, first, sawValuesOrSelect)) return;
+        if (token.upper === 'SELECT') sawValuesOrSelect = true;
+      }
+      this.pos++;
+    }
+  }
+
+  private continuesStatement(kind: SybaseStatementKind, token: SybaseToken, first: SybaseToken | undefined, sawValuesOrSelect: boolean) {
+    const previous = this.tokens[this.pos - 1];
+    // MERGE (SQL Server, ASE 15.7) must end with `;`, and its WHEN branches hold UPDATE/INSERT/DELETE
+    if (kind === 'merge') return true;
+    // `set identity_insert t on` / `set nocount off` end at the switch, even before INSERT or DELETE
+    if (kind === 'set' && (previous?.upper === 'ON' || previous?.upper === 'OFF')) return false;
+    if (token.upper === 'SELECT') {
+      if (previous && ['UNION', 'ALL', 'EXCEPT', 'INTERSECT', 'AS', 'FOR'].includes(previous.upper)) return true;
+      if (kind === 'insert' && !sawValuesOrSelect) return true;
+    }
+    if ((token.upper === 'EXEC' || token.upper === 'EXECUTE') && kind === 'insert' && !sawValuesOrSelect) return true;
+    if (token.upper === 'SET' && kind === 'update' && first?.upper === 'UPDATE') return true;
+    // rollback trigger with raiserror …
+    if (token.upper === 'RAISERROR' && previous?.upper === 'WITH') return true;
+    // `declare @x int, @y int` and the `for update` cursor clause
+    if (token.upper === 'UPDATE' && previous?.upper === 'FOR') return true;
+    if (token.upper === 'READ' || token.upper === 'DELETE' || token.upper === 'INSERT') {
+      if (previous && (previous.upper === 'ON' || previous.value === ',' || previous.upper === 'FOR' || previous.upper === 'OF')) return true;
+    }
+    return false;
+  }
+
+  private parseStatement(): SybaseStatement | null {
+    const start = this.pos;
+    const token = this.peek();
+    const upper = token.upper;
+
+    if (token.type === 'identifier' && this.peek(1)?.value === ':' && this.peek(2)?.value !== '=') {
+      this.pos += 2;
+      return this.build('label', start, { name: token.value });
+    }
+
+    switch (upper) {
+      case 'BEGIN': {
+        const next = this.peek(1)?.upper;
+        if (next === 'TRAN' || next === 'TRANSACTION' || next === 'DISTRIBUTED') {
+          this.consumeUntilStatementEnd('transaction');
+          return this.build('transaction', start);
+        }
+        if (next === 'TRY' || next === 'CATCH') {
+          // SQL Server BEGIN TRY / BEGIN CATCH blocks
+          this.pos += 2;
+          const body = this.parseStatements(true);
+          if (this.peek()?.upper === 'END') this.pos += this.peek(1)?.upper === next ? 2 : 1;
+          return this.build('block', start, { name: next.toLowerCase(), body });
+        }
+        this.pos++;
+        const body = this.parseStatements(true);
+        if (this.peek()?.upper === 'END') this.pos++;
+        return this.build('block', start, { body });
+      }
+      case 'IF': {
+        this.pos++;
+        const condition = this.consumeCondition();
+        const thenStatement = this.atEnd() ? null : this.parseStatement();
+        let elseBody: SybaseStatement[] | undefined;
+        if (this.peek()?.upper === 'ELSE') {
+          this.pos++;
+          const elseStatement = this.atEnd() ? null : this.parseStatement();
+          elseBody = elseStatement ? [elseStatement] : [];
+        }
+        return this.build('if', start, { condition, body: thenStatement ? [thenStatement] : [], elseBody });
+      }
+      case 'WHILE': {
+        this.pos++;
+        const condition = this.consumeCondition();
+        const bodyStatement = this.atEnd() ? null : this.parseStatement();
+        return this.build('while', start, { condition, body: bodyStatement ? [bodyStatement] : [] });
+      }
+      case 'ELSE':
+      case 'END':
+        // Stray terminator (unbalanced input); consume it as its own statement
+        this.pos++;
+        return this.build('other', start);
+      case 'CREATE':
+        return this.parseCreate(start);
+      case 'DECLARE': {
+        const isCursor = this.peek(2)?.upper === 'CURSOR' || this.peek(3)?.upper === 'CURSOR';
+        const name = this.peek(1)?.value;
+        this.consumeUntilStatementEnd(isCursor ? 'declareCursor' : 'declare');
+        return this.build(isCursor ? 'declareCursor' : 'declare', start, { name: isCursor ? name : undefined });
+      }
+      default: {
+        const kind = SIMPLE_KINDS[upper] ?? 'other';
+        this.consumeUntilStatementEnd(kind);
+        const statement = this.build(kind, start);
+        if (kind === 'exec') {
+          // exec proc …, exec @status = proc …; exec (@sql) and exec @procvar have no static target
+          const index = statement.tokens[1]?.type === 'variable' && statement.tokens[2]?.value === '=' ? 3 : 1;
+          const target = statement.tokens[index];
+          if (target && target.type !== 'variable' && target.value !== '(') {
+            statement.name = readQualifiedName(statement.tokens, index);
+          }
+        } else if (kind === 'insert' || kind === 'update' || kind === 'delete' || kind === 'truncate' || kind === 'merge') {
+          const skip = new Set(['INTO', 'FROM', 'TABLE']);
+          let index = 1;
+          while (statement.tokens[index] && skip.has(statement.tokens[index].upper)) index++;
+          statement.table = readQualifiedName(statement.tokens, index);
+        } else if (kind === 'cursorOp') {
+          // fetch [next|prior|first|last] [from] cursor into …
+          const fetchOrientation = new Set(['NEXT', 'PRIOR', 'FIRST', 'LAST', 'ABSOLUTE', 'RELATIVE']);
+          const nameToken = statement.tokens.slice(1).find(t => t.type === 'identifier' && !fetchOrientation.has(t.upper));
+          statement.name = nameToken?.value;
+        }
+        return statement;
+      }
+    }
+  }
+
+  private consumeCondition(): SybaseToken[] {
+    const start = this.pos;
+    let depth = 0;
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (token.value === '(') depth++;
+      else if (token.value === ')') depth = Math.max(0, depth - 1);
+      else if (depth === 0 && this.isStatementStart(this.pos) && this.pos > start) break;
+      this.pos++;
+    }
+    return this.tokens.slice(start, this.pos);
+  }
+
+  private parseCreate(start: number): SybaseStatement {
+    this.pos++;
+    // Skip modifiers such as `or replace`, `unique`, `clustered`
+    while (!this.atEnd() && ['OR', 'REPLACE', 'UNIQUE', 'CLUSTERED', 'NONCLUSTERED'].includes(this.peek().upper)) this.pos++;
+    const objectType = this.peek()?.upper;
+    this.pos++;
+    const nameIndex = this.pos;
+    const name = readQualifiedName(this.tokens, nameIndex);
+    this.pos = skipQualifiedName(this.tokens, nameIndex);
+
+    switch (objectType) {
+      case 'PROC':
+      case 'PROCEDURE': {
+        // Optional `;number` group suffix
+        if (this.peek()?.value === ';' && this.peek(1)?.type === 'number') this.pos += 2;
+        const parameters = this.parseParameters();
+        this.skipUntil('AS');
+        const body = this.parseStatements();
+        return this.build('createProcedure', start, { name, parameters, body });
+      }
+      case 'FUNCTION': {
+        const parameters = this.parseParameters();
+        this.skipUntil('AS');
+        const body = this.parseStatements();
+        return this.build('createFunction', start, { name, parameters, body });
+      }
+      case 'TRIGGER': {
+        let table: string | undefined;
+        if (this.peek()?.upper === 'ON') {
+          this.pos++;
+          table = readQualifiedName(this.tokens, this.pos);
+          this.pos = skipQualifiedName(this.tokens, this.pos);
+        }
+        const events: string[] = [];
+        while (!this.atEnd() && this.peek().upper !== 'AS') {
+          const upper = this.peek().upper;
+          if (upper === 'INSERT' || upper === 'UPDATE' || upper === 'DELETE') events.push(upper.toLowerCase());
+          this.pos++;
+        }
+        if (this.peek()?.upper === 'AS') this.pos++;
+        const body = this.parseStatements();
+        return this.build('createTrigger', start, { name, table, events, body });
+      }
+      case 'TABLE': {
+        const columns = this.parseColumnList();
+        // Trailing `lock datarows`, `with ...`, `on segment` clauses
+        while (!this.atEnd() && !this.isStatementStart(this.pos) && this.peek().value !== ';') this.pos++;
+        return this.build('createTable', start, { name, columns });
+      }
+      case 'VIEW': {
+        this.skipUntil('AS');
+        if (!this.atEnd() && this.peek().upper === 'SELECT') this.consumeUntilStatementEnd('select');
+        return this.build('createView', start, { name });
+      }
+      case 'INDEX': {
+        if (this.peek()?.upper === 'ON') {
+          this.pos++;
+          const table = readQualifiedName(this.tokens, this.pos);
+          this.pos = skipQualifiedName(this.tokens, this.pos);
+          this.skipBalancedParens();
+          while (!this.atEnd() && !this.isStatementStart(this.pos) && this.peek().value !== ';') this.pos++;
+          return this.build('createIndex', start, { name, table });
+        }
+        return this.build('createIndex', start, { name });
+      }
+      default:
+        while (!this.atEnd() && !this.isStatementStart(this.pos) && this.peek().value !== ';') this.pos++;
+        return this.build('createOther', start, { name });
+    }
+  }
+
+  private skipUntil(upper: string) {
+    let depth = 0;
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (token.value === '(') depth++;
+      else if (token.value === ')') depth--;
+      else if (depth <= 0 && token.upper === upper) {
+        this.pos++;
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  private skipBalancedParens() {
+    if (this.peek()?.value !== '(') return;
+    let depth = 0;
+    while (!this.atEnd()) {
+      const value = this.peek().value;
+      this.pos++;
+      if (value === '(') depth++;
+      else if (value === ')' && --depth === 0) return;
+    }
+  }
+
+  private parseParameters(): SybaseParameter[] {
+    const parameters: SybaseParameter[] = [];
+    const hasParens = this.peek()?.value === '(';
+    if (hasParens) this.pos++;
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (token.upper === 'AS' || token.upper === 'WITH' || token.upper === 'RETURNS') break;
+      if (hasParens && token.value === ')') {
+        this.pos++;
+        break;
+      }
+      if (token.type !== 'variable') {
+        this.pos++;
+        continue;
+      }
+      this.pos++;
+      if (this.peek()?.upper === 'AS') this.pos++;
+      const dataType = this.parseDataType();
+      const parameter: SybaseParameter = { name: token.value, dataType, output: false };
+      while (!this.atEnd() && this.peek().value !== ',' && !(hasParens && this.peek().value === ')') && !['AS', 'WITH', 'RETURNS'].includes(this.peek().upper)) {
+        const current = this.peek();
+        if (current.upper === 'OUTPUT' || current.upper === 'OUT') parameter.output = true;
+        else if (current.value === '=') {
+          const value = this.peek(1);
+          if (value) {
+            parameter.defaultValue = value.value === '-' && this.peek(2) ? `-${this.peek(2).value}` : value.value;
+          }
+        }
+        this.pos++;
+      }
+      if (this.peek()?.value === ',') this.pos++;
+      parameters.push(parameter);
+    }
+    return parameters;
+  }
+
+  parseDataType(): SybaseDataType {
+    const first = this.peek();
+    if (!first) return { name: '', params: [], text: '', line: 1 };
+    let name = first.value;
+    this.pos++;
+    // Multi-word types
+    if (first.upper === 'UNSIGNED' && this.peek()) {
+      name = `${name} ${this.peek().value}`;
+      this.pos++;
+    } else if (first.upper === 'DOUBLE' && this.peek()?.upper === 'PRECISION') {
+      name = `${name} ${this.peek().value}`;
+      this.pos++;
+    } else if (this.peek()?.value === '.' && this.peek(1)) {
+      // owner-qualified user type
+      name = `${name}.${this.peek(1).value}`;
+      this.pos += 2;
+    }
+    const params: string[] = [];
+    if (this.peek()?.value === '(') {
+      this.pos++;
+      let current = '';
+      while (!this.atEnd() && this.peek().value !== ')') {
+        const value = this.peek().value;
+        if (value === ',') {
+          params.push(current.trim());
+          current = '';
+        } else {
+          current += value;
+        }
+        this.pos++;
+      }
+      if (current.trim()) params.push(current.trim());
+      if (this.peek()?.value === ')') this.pos++;
+    }
+    const text = params.length > 0 ? `${name}(${params.join(',')})` : name;
+    const last = this.tokens[this.pos - 1];
+    return { name: name.toLowerCase(), params, text, line: first.line, startOffset: first.offset, endOffset: last.offset + last.value.length };
+  }
+
+  private parseColumnList(): SybaseColumn[] {
+    const columns: SybaseColumn[] = [];
+    if (this.peek()?.value !== '(') return columns;
+    this.pos++;
+    const constraintStarts = new Set(['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK', 'INDEX']);
+    while (!this.atEnd()) {
+      const token = this.peek();
+      if (token.value === ')') {
+        this.pos++;
+        break;
+      }
+      if (token.value === ',') {
+        this.pos++;
+        continue;
+      }
+      if (constraintStarts.has(token.upper)) {
+        this.skipColumnDefinition();
+        continue;
+      }
+      this.pos++;
+      const dataType = this.parseDataType();
+      const column: SybaseColumn = { name: token.value, dataType, identity: false, line: token.line };
+      let depth = 0;
+      while (!this.atEnd()) {
+        const current = this.peek();
+        if (depth === 0 && (current.value === ',' || current.value === ')')) break;
+        if (current.value === '(') depth++;
+        else if (current.value === ')') depth--;
+        else if (current.upper === 'IDENTITY') column.identity = true;
+        else if (current.upper === 'NULL') column.nullable = this.tokens[this.pos - 1]?.upper !== 'NOT';
+        else if (current.upper === 'DEFAULT' && this.peek(1)) column.defaultValue = this.peek(1).value;
+        this.pos++;
+      }
+      columns.push(column);
+    }
+    return columns;
+  }
+
+  private skipColumnDefinition() {
+    let depth = 0;
+    while (!this.atEnd()) {
+      const value = this.peek().value;
+      if (depth === 0 && (value === ',' || value === ')')) return;
+      if (value === '(') depth++;
+      else if (value === ')') depth--;
+      this.pos++;
+    }
+  }
+}
+
+// Helper: read `owner.name`, `db..name` or `db.owner.name` starting at index
+export const readQualifiedName = (tokens: SybaseToken[], index: number): string | undefined => {
+  if (index < 0 || !tokens[index]) return undefined;
+  let name = '';
+  let i = index;
+  while (tokens[i]) {
+    const token = tokens[i];
+    if (token.type === 'identifier' || token.type === 'quotedIdentifier' || token.type === 'tempTable' || token.type === 'keyword') {
+      name += token.value;
+      i++;
+      if (tokens[i]?.value === '.' || tokens[i]?.value === '..') {
+        name += tokens[i].value;
+        i++;
+        continue;
+      }
+    }
+    break;
+  }
+  return name || undefined;
+};
+
+const skipQualifiedName = (tokens: SybaseToken[], index: number): number => {
+  let i = index;
+  while (tokens[i]) {
+    const token = tokens[i];
+    if (token.type === 'identifier' || token.type === 'quotedIdentifier' || token.type === 'tempTable' || token.type === 'keyword') {
+      i++;
+      if (tokens[i]?.value === '.' || tokens[i]?.value === '..') {
+        i++;
+        continue;
+      }
+    }
+    break;
+  }
+  return i;
+};
+
+// Split significant tokens into batches on lines that contain only `go` (optionally `go <count>`)
+const splitTokenBatches = (tokens: SybaseToken[]): SybaseToken[][] => {
+  const batches: SybaseToken[][] = [[]];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.upper === 'GO' && isAloneOnLine(tokens, i)) {
+      batches.push([]);
+      continue;
+    }
+    if (token.type === 'number' && tokens[i - 1]?.upper === 'GO' && tokens[i - 1].line === token.line && isAloneOnLine(tokens, i - 1)) continue;
+    batches[batches.length - 1].push(token);
+  }
+  return batches.filter(batch => batch.length > 0);
+};
+
+const isAloneOnLine = (tokens: SybaseToken[], index: number): boolean => {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+  const nextIsCount = next && next.type === 'number' && next.line === token.line;
+  const after = nextIsCount ? tokens[index + 2] : next;
+  return (!previous || previous.line < token.line) && (!after || after.line > token.line);
+};
+
+export const parseSybase = (code: string): SybaseScript => {
+  const source = code.replace(/\r\n/g, '\n');
+  const tokens = tokenizeSybase(source);
+  const significant = tokens.filter(isSignificantToken);
+  const batches = splitTokenBatches(significant).map((batchTokens, index) => {
+    const statements = new Parser(batchTokens, source).parseStatements();
+    const first = batchTokens[0];
+    const last = batchTokens[batchTokens.length - 1];
+    const endOffset = last.offset + last.value.length;
+    return {
+      index,
+      text: source.slice(first.offset, endOffset),
+      startLine: first.line,
+      endLine: last.line + (last.value.match(/\n/g) || []).length,
+      startOffset: first.offset,
+      endOffset,
+      statements,
+    };
+  });
+  return { source, tokens, batches };
+};
+
+// Depth-first walk over every statement, including nested bodies
+export const walkStatements = (
+  statements: SybaseStatement[],
+  visit: (statement: SybaseStatement, depth: number) => void,
+  depth = 0
+) => {
+  statements.forEach(statement => {
+    visit(statement, depth);
+    if (statement.body) walkStatements(statement.body, visit, depth + 1);
+    if (statement.elseBody) walkStatements(statement.elseBody, visit, depth + 1);
+  });
+};
+
+export const allStatements = (script: SybaseScript): SybaseStatement[] => {
+  const result: SybaseStatement[] = [];
+  script.batches.forEach(batch => walkStatements(batch.statements, statement => result.push(statement)));
+  return result;
+};
+
+const OBJECT_KINDS: Partial<Record<SybaseStatementKind, SybaseObjectKind>> = {
+  createProcedure: 'procedure',
+  createTrigger: 'trigger',
+  createTable: 'table',
+  createView: 'view',
+  createFunction: 'function',
+  createIndex: 'index',
+};
+
+// Every object created by the script, in source order
+export const listObjects = (script: SybaseScript): SybaseObjectInfo[] => {
+  const objects: SybaseObjectInfo[] = [];
+  script.batches.forEach(batch => {
+    batch.statements.forEach(statement => {
+      const kind = OBJECT_KINDS[statement.kind];
+      if (kind && statement.name) {
+        objects.push({ name: statement.name, kind, batchIndex: batch.index, startLine: statement.startLine, endLine: statement.endLine });
+      }
+    });
+  });
+  return objects;
+};
+
+// The object a file is "about": the first procedure/trigger/view/function, else the first table
+export const getObjectInfo = (script: SybaseScript): SybaseObjectInfo | undefined => {
+  const objects = listObjects(script);
+  return objects.find(o => o.kind !== 'table' && o.kind !== 'index') ?? objects[0];
+};
+
+export interface CodeMetrics {
+  loops: number;
+  conditionals: number;
+  caseExpressions: number;
+  whenClauses: number;
+  cursors: number;
+  exceptionHandlers: number;
+  objects: number;
+}
+
+const countUpper = (tokens: SybaseToken[], words: string[]) => {
+  const set = new Set(words);
+  return tokens.filter(t => (t.type === 'keyword' || t.type === 'identifier') && set.has(t.upper)).length;
+};
+
+// Loop count that works for both dialects: a T-SQL WHILE, a PL/SQL WHILE…LOOP or
+// FOR…LOOP and a bare LOOP each count once, and END LOOP never counts.
+export const countLoops = (tokens: SybaseToken[]): number => {
+  const significant = tokens.filter(isSignificantToken);
+  let loops = 0;
+  let pendingHeaders = 0;
+  significant.forEach((token, index) => {
+    const previous = significant[index - 1];
+    if (token.upper === 'WHILE') {
+      if (previous?.upper === 'END') return;
+      loops++;
+      pendingHeaders++;
+    } else if (token.upper === 'FOR' && significant[index + 2]?.upper === 'IN') {
+      loops++;
+      pendingHeaders++;
+    } else if (token.upper === 'FORALL') {
+      loops++;
+    } else if (token.upper === 'LOOP') {
+      if (previous?.upper === 'END') return;
+      if (pendingHeaders > 0) pendingHeaders--;
+      else loops++;
+    }
+  });
+  return loops;
+};
+
+// Token-based metrics; comments and string literals never count
+export const getCodeMetrics = (code: string, options: TokenizeOptions = {}): CodeMetrics => {
+  const tokens = tokenizeSybase(code, options).filter(isSignificantToken);
+  const notAfterEnd = (words: string[]) =>
+    tokens.filter((t, i) => words.includes(t.upper) && tokens[i - 1]?.upper !== 'END' && (t.type === 'keyword' || t.type === 'identifier')).length;
+  return {
+    loops: countLoops(tokens),
+    conditionals: notAfterEnd(['IF', 'ELSIF']),
+    caseExpressions: notAfterEnd(['CASE']),
+    whenClauses: countUpper(tokens, ['WHEN']),
+    cursors: countUpper(tokens, ['CURSOR']),
+    exceptionHandlers: countUpper(tokens, ['EXCEPTION', 'RAISE', 'CATCH', 'RAISERROR', 'RAISE_APPLICATION_ERROR']),
+    objects: tokens.filter((t, i) => t.upper === 'CREATE' && tokens[i + 1]).length,
+  };
+};
+
+export interface SybaseDeclaredName {
+  name: string; // column name or @variable, as written
+  dataType: SybaseDataType;
+}
+
+// Names with a declared type: column definitions, parameters and DECLAREs
+export const collectDeclaredNames = (script: SybaseScript): SybaseDeclaredName[] => {
+  const names: SybaseDeclaredName[] = [];
+  allStatements(script).forEach(statement => {
+    statement.columns?.forEach(column => names.push({ name: column.name, dataType: column.dataType }));
+    statement.parameters?.forEach(parameter => names.push({ name: parameter.name, dataType: parameter.dataType }));
+    if (statement.kind === 'declare') {
+      const tokens = statement.tokens;
+      tokens.forEach((token, index) => {
+        if (token.type === 'variable' && (index === 1 || tokens[index - 1]?.value === ',')) {
+          const typeIndex = tokens[index + 1]?.upper === 'AS' ? index + 2 : index + 1;
+          const dataType = new Parser(tokens, script.source, typeIndex).parseDataType();
+          if (dataType.name) names.push({ name: token.value, dataType });
+        }
+      });
+    }
+  });
+  return names;
+};
+
+// Types that declare something: column definitions, parameters and DECLAREs
+export const collectDeclaredDataTypes = (script: SybaseScript): SybaseDataType[] =>
+  collectDeclaredNames(script).map(declared => declared.dataType);
+
+// Every data type reference in a Sybase script: column definitions, parameters,
+// DECLARE statements and CONVERT/CAST targets.
+export const collectDataTypes = (script: SybaseScript): SybaseDataType[] => {
+  const types = collectDeclaredDataTypes(script);
+  // CONVERT(type, expr) and CAST(expr AS type) anywhere in the code
+  const significant = script.tokens.filter(isSignificantToken);
+  significant.forEach((token, index) => {
+    let typeIndex = -1;
+    if (token.upper === 'CONVERT' && significant[index + 1]?.value === '(') typeIndex = index + 2;
+    else if (token.upper === 'AS' && isInsideCast(significant, index)) typeIndex = index + 1;
+    if (typeIndex >= 0 && significant[typeIndex] && SYBASE_TYPE_NAMES.has(significant[typeIndex].value.toLowerCase())) {
+      types.push(new Parser(significant, script.source, typeIndex).parseDataType());
+    }
+  });
+  return types;
+};
+
+const isInsideCast = (tokens: SybaseToken[], asIndex: number): boolean => {
+  let depth = 0;
+  for (let i = asIndex - 1; i >= 0; i--) {
+    if (tokens[i].value === ')') depth++;
+    else if (tokens[i].value === '(') {
+      if (depth === 0) return tokens[i - 1]?.upper === 'CAST';
+      depth--;
+    }
+  }
+  return false;
+};
+
+// A type written on its own, e.g. the base type string of sp_addtype
+export const parseDataTypeText = (text: string): SybaseDataType =>
+  new Parser(tokenizeSybase(text).filter(isSignificantToken), text).parseDataType();
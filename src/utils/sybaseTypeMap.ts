@@ -0,0 +1,175 @@
+import type { SybaseDataType } from '@/utils/sybaseParser';
+
+// Default Sybase -> Oracle type mapping. $1/$2 are the length, precision and scale as written.
+// `name(a-b)` entries apply when the first parameter is between a and b, e.g. float(1-15).
+export type SybaseTypeMap = Record<string, { oracle: string; desc: string }>;
+
+export const SYBASE_TYPE_MAP: SybaseTypeMap = {
+  // Numeric types
+  int: { oracle: 'NUMBER(10)', desc: 'Integer type' },
+  integer: { oracle: 'NUMBER(10)', desc: 'Integer type' },
+  smallint: { oracle: 'NUMBER(5)', desc: 'Small integer type' },
+  bigint: { oracle: 'NUMBER(19)', desc: 'Big integer type' },
+  tinyint: { oracle: 'NUMBER(3)', desc: 'Tiny integer type' },
+  decimal: { oracle: 'NUMBER($1,$2)', desc: 'Decimal with precision and scale' },
+  dec: { oracle: 'NUMBER($1,$2)', desc: 'Decimal with precision and scale' },
+  numeric: { oracle: 'NUMBER($1,$2)', desc: 'Numeric with precision and scale' },
+  'unsigned smallint': { oracle: 'NUMBER(5)', desc: 'Unsigned small integer type' },
+  'unsigned int': { oracle: 'NUMBER(10)', desc: 'Unsigned integer type' },
+  'unsigned bigint': { oracle: 'NUMBER(20)', desc: 'Unsigned big integer type' },
+  float: { oracle: 'BINARY_DOUBLE', desc: 'Floating point number (8 bytes unless the precision is 15 or less)' },
+  'float(1-15)': { oracle: 'BINARY_FLOAT', desc: 'Single precision floating point number' },
+  'double precision': { oracle: 'BINARY_DOUBLE', desc: 'Double precision floating point number' },
+  real: { oracle: 'BINARY_FLOAT', desc: 'Real number' },
+  money: { oracle: 'NUMBER(19,4)', desc: 'Money type' },
+  smallmoney: { oracle: 'NUMBER(10,4)', desc: 'Small money type' },
+
+  // Character types
+  char: { oracle: 'CHAR($1)', desc: 'Fixed-length character string' },
+  varchar: { oracle: 'VARCHAR2($1)', desc: 'Variable-length character string' },
+  nchar: { oracle: 'NCHAR($1)', desc: 'Fixed-length Unicode string' },
+  nvarchar: { oracle: 'NVARCHAR2($1)', desc: 'Variable-length Unicode string' },
+  unichar: { oracle: 'NCHAR($1)', desc: 'Fixed-length Unicode string' },
+  univarchar: { oracle: 'NVARCHAR2($1)', desc: 'Variable-length Unicode string' },
+  text: { oracle: 'CLOB', desc: 'Large text data' },
+  ntext: { oracle: 'NCLOB', desc: 'Large Unicode text data' },
+  unitext: { oracle: 'NCLOB', desc: 'Large Unicode text data' },
+  sysname: { oracle: 'VARCHAR2(30)', desc: 'System object name' },
+  longsysname: { oracle: 'VARCHAR2(255)', desc: 'Long system object name' },
+
+  // Binary types
+  binary: { oracle: 'RAW($1)', desc: 'Fixed-length binary data' },
+  varbinary: { oracle: 'RAW($1)', desc: 'Variable-length binary data' },
+  image: { oracle: 'BLOB', desc: 'Large binary data' },
+
+  // Date/Time types
+  datetime: { oracle: 'TIMESTAMP', desc: 'Date and time' },
+  smalldatetime: { oracle: 'TIMESTAMP', desc: 'Small date and time' },
+  bigdatetime: { oracle: 'TIMESTAMP(6)', desc: 'Date and time with microseconds' },
+  date: { oracle: 'DATE', desc: 'Date only' },
+  time: { oracle: 'TIMESTAMP', desc: 'Time only' },
+  bigtime: { oracle: 'TIMESTAMP(6)', desc: 'Time with microseconds' },
+  timestamp: { oracle: 'TIMESTAMP', desc: 'Timestamp' },
+
+  // Boolean type
+  bit: { oracle: 'NUMBER(1)', desc: 'Boolean type (0 or 1)' },
+
+  // Other types
+  uniqueidentifier: { oracle: 'RAW(16)', desc: 'Unique identifier' },
+  sql_variant: { oracle: 'VARCHAR2(4000)', desc: 'SQL variant type' },
+  xml: { oracle: 'XMLTYPE', desc: 'XML data type' }
+};
+
+// SQL Server types Sybase does not have, and SQL Server meanings that differ (timestamp is a row
+// version). Fractional seconds keep SQL Server's default precision of 7. `name(max)` entries
+// apply when the length is MAX.
+export const SQL_SERVER_TYPE_MAP: SybaseTypeMap = {
+  'varchar(max)': { oracle: 'CLOB', desc: 'Large text data (varchar(max))' },
+  'nvarchar(max)': { oracle: 'NCLOB', desc: 'Large Unicode text data (nvarchar(max))' },
+  'varbinary(max)': { oracle: 'BLOB', desc: 'Large binary data (varbinary(max))' },
+  datetime2: { oracle: 'TIMESTAMP(7)', desc: 'Date and time with fractional seconds' },
+  datetimeoffset: { oracle: 'TIMESTAMP(7) WITH TIME ZONE', desc: 'Date and time with time zone offset' },
+  time: { oracle: 'INTERVAL DAY(0) TO SECOND(7)', desc: 'Time of day' },
+  timestamp: { oracle: 'RAW(8)', desc: 'Row version (not a date in SQL Server)' },
+  rowversion: { oracle: 'RAW(8)', desc: 'Row version' },
+  hierarchyid: { oracle: 'VARCHAR2(4000)', desc: 'Hierarchy path' },
+  geography: { oracle: 'SDO_GEOMETRY', desc: 'Geodetic spatial data' },
+  geometry: { oracle: 'SDO_GEOMETRY', desc: 'Planar spatial data' },
+  sysname: { oracle: 'NVARCHAR2(128)', desc: 'System object name' },
+};
+
+// Default Sybase -> PostgreSQL mapping, in the same shape: `oracle` holds the target type
+export const POSTGRES_TYPE_MAP: SybaseTypeMap = {
+  // Numeric types
+  int: { oracle: 'INTEGER', desc: 'Integer type' },
+  integer: { oracle: 'INTEGER', desc: 'Integer type' },
+  smallint: { oracle: 'SMALLINT', desc: 'Small integer type' },
+  bigint: { oracle: 'BIGINT', desc: 'Big integer type' },
+  tinyint: { oracle: 'SMALLINT', desc: 'Tiny integer type' },
+  decimal: { oracle: 'NUMERIC($1,$2)', desc: 'Decimal with precision and scale' },
+  dec: { oracle: 'NUMERIC($1,$2)', desc: 'Decimal with precision and scale' },
+  numeric: { oracle: 'NUMERIC($1,$2)', desc: 'Numeric with precision and scale' },
+  'unsigned smallint': { oracle: 'INTEGER', desc: 'Unsigned small integer type' },
+  'unsigned int': { oracle: 'BIGINT', desc: 'Unsigned integer type' },
+  'unsigned bigint': { oracle: 'NUMERIC(20)', desc: 'Unsigned big integer type' },
+  float: { oracle: 'DOUBLE PRECISION', desc: 'Floating point number (8 bytes unless the precision is 15 or less)' },
+  'float(1-15)': { oracle: 'REAL', desc: 'Single precision floating point number' },
+  'double precision': { oracle: 'DOUBLE PRECISION', desc: 'Double precision floating point number' },
+  real: { oracle: 'REAL', desc: 'Real number' },
+  money: { oracle: 'NUMERIC(19,4)', desc: 'Money type (PostgreSQL MONEY depends on lc_monetary)' },
+  smallmoney: { oracle: 'NUMERIC(10,4)', desc: 'Small money type' },
+
+  // Character types
+  char: { oracle: 'CHAR($1)', desc: 'Fixed-length character string' },
+  varchar: { oracle: 'VARCHAR($1)', desc: 'Variable-length character string' },
+  nchar: { oracle: 'CHAR($1)', desc: 'Fixed-length Unicode string (the database encoding is Unicode)' },
+  nvarchar: { oracle: 'VARCHAR($1)', desc: 'Variable-length Unicode string (the database encoding is Unicode)' },
+  unichar: { oracle: 'CHAR($1)', desc: 'Fixed-length Unicode string' },
+  univarchar: { oracle: 'VARCHAR($1)', desc: 'Variable-length Unicode string' },
+  text: { oracle: 'TEXT', desc: 'Large text data' },
+  ntext: { oracle: 'TEXT', desc: 'Large Unicode text data' },
+  unitext: { oracle: 'TEXT', desc: 'Large Unicode text data' },
+  sysname: { oracle: 'VARCHAR(30)', desc: 'System object name' },
+  longsysname: { oracle: 'VARCHAR(255)', desc: 'Long system object name' },
+
+  // Binary types
+  binary: { oracle: 'BYTEA', desc: 'Fixed-length binary data' },
+  varbinary: { oracle: 'BYTEA', desc: 'Variable-length binary data' },
+  image: { oracle: 'BYTEA', desc: 'Large binary data' },
+
+  // Date/Time types
+  datetime: { oracle: 'TIMESTAMP(3)', desc: 'Date and time' },
+  smalldatetime: { oracle: 'TIMESTAMP(0)', desc: 'Small date and time' },
+  bigdatetime: { oracle: 'TIMESTAMP(6)', desc: 'Date and time with microseconds' },
+  date: { oracle: 'DATE', desc: 'Date only' },
+  time: { oracle: 'TIME(3)', desc: 'Time only' },
+  bigtime: { oracle: 'TIME(6)', desc: 'Time with microseconds' },
+  timestamp: { oracle: 'BYTEA', desc: 'Row version (not a date in Sybase)' },
+
+  // Boolean type
+  bit: { oracle: 'BOOLEAN', desc: 'Boolean type (comparisons with 0 and 1 need TRUE and FALSE)' },
+
+  // Other types
+  uniqueidentifier: { oracle: 'UUID', desc: 'Unique identifier' },
+  sql_variant: { oracle: 'TEXT', desc: 'SQL variant type' },
+  xml: { oracle: 'XML', desc: 'XML data type' }
+};
+
+export const SQL_SERVER_POSTGRES_TYPE_MAP: SybaseTypeMap = {
+  'varchar(max)': { oracle: 'TEXT', desc: 'Large text data (varchar(max))' },
+  'nvarchar(max)': { oracle: 'TEXT', desc: 'Large Unicode text data (nvarchar(max))' },
+  'varbinary(max)': { oracle: 'BYTEA', desc: 'Large binary data (varbinary(max))' },
+  datetime2: { oracle: 'TIMESTAMP(6)', desc: 'Date and time (PostgreSQL stops at microseconds)' },
+  datetimeoffset: { oracle: 'TIMESTAMPTZ(6)', desc: 'Date and time with time zone offset (the offset itself is not kept)' },
+  time: { oracle: 'TIME(6)', desc: 'Time of day' },
+  timestamp: { oracle: 'BYTEA', desc: 'Row version (not a date in SQL Server)' },
+  rowversion: { oracle: 'BYTEA', desc: 'Row version' },
+  hierarchyid: { oracle: 'TEXT', desc: 'Hierarchy path (ltree if the extension is available)' },
+  geography: { oracle: 'GEOGRAPHY', desc: 'Geodetic spatial data (PostGIS)' },
+  geometry: { oracle: 'GEOMETRY', desc: 'Planar spatial data (PostGIS)' },
+  sysname: { oracle: 'VARCHAR(128)', desc: 'System object name' },
+};
+
+// Entry for a parsed Sybase type: the `name(max)` or `name(a-b)` entry its first parameter
+// selects, else the one for the bare name
+export const sybaseTypeMapping = (dataType: SybaseDataType, typeMap: SybaseTypeMap = SYBASE_TYPE_MAP) => {
+  const first = dataType.params[0]?.toLowerCase();
+  if (first === 'max' && typeMap[`${dataType.name}(max)`]) return typeMap[`${dataType.name}(max)`];
+  const ranged = /^\d+$/.test(first ?? '') && Object.keys(typeMap).find(key => {
+    const range = key.match(/^(.+)\((\d+)-(\d+)\)$/);
+    return range?.[1] === dataType.name && Number(first) >= Number(range[2]) && Number(first) <= Number(range[3]);
+  });
+  return ranged ? typeMap[ranged] : typeMap[dataType.name];
+};
+
+// Target type for a parsed Sybase type, e.g. varchar(20) -> VARCHAR2(20); undefined if unknown
+export const mapSybaseDataType = (dataType: SybaseDataType, typeMap: SybaseTypeMap = SYBASE_TYPE_MAP): string | undefined => {
+  const mapping = sybaseTypeMapping(dataType, typeMap);
+  if (!mapping) return undefined;
+  const param = (index: string) => dataType.params[parseInt(index) - 1];
+  // Missing precision/scale fall back to the target's defaults; missing lengths keep the old 255 default
+  if (/^(NUMBER|NUMERIC)\(\$/.test(mapping.oracle) && dataType.params.length === 0) return mapping.oracle.split('(')[0];
+  return mapping.oracle
+    .replace(/,\$(\d+)/g, (_, index) => (param(index) ? `,${param(index)}` : ''))
+    .replace(/\$(\d+)/g, (_, index) => param(index) || '255');
+};
@@ -0,0 +1,689 @@
+import type { AppliedRule, ConversionIssue, TargetDialect } from '@/types';
+import { parseSybase, isSignificantToken, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import { getTargetDialect, TARGET_DIALECT_LABELS } from '@/utils/targetDialect';
+
+// Catalog of Sybase system procedures, WAITFOR forms and the @@ variables not covered by the global
+// variable rewrites, with their Oracle and PostgreSQL replacements. Calls are rewritten before the
+// AI pass so the model neither keeps them nor invents replacements. A null template means the target
+// has no equivalent: the call is replaced by NULL and reported as an error, so the file cannot pass
+// as converted. A missing template leaves the call to the model. Descriptions explain the Oracle form
+// and are only quoted in issues under an Oracle target.
+//
+// Templates use {param} for arguments (by position or @param = name), {return} for the variable of
+// `exec @status = proc`, and [...] for a part that is dropped when a placeholder in it has no value.
+
+export const SYSTEM_CATALOG_CATEGORY = 'system_catalog';
+
+export type SystemCatalogKind = 'procedure' | 'globalVariable' | 'waitfor';
+
+export interface SystemCatalogEntry {
+  id: string;
+  kind: SystemCatalogKind;
+  name: string; // lower-case: sp_who, @@spid, delay (waitfor delay)
+  params?: string[]; // procedure parameters in order, lower-case without @
+  defaults?: Record<string, string>; // Sybase value of an omitted parameter
+  conditions?: Record<string, string[]>; // the entry only applies for these (normalized) argument values
+  values?: Record<string, Record<string, string>>; // (normalized) argument value → target text
+  oracleTemplate?: string | null;
+  postgresTemplate?: string | null;
+  description: string;
+  severity?: 'info' | 'warning'; // of the issue reported for a replacement
+}
+
+const LOCK_MODES: Record<string, string> = {
+  shared: 'DBMS_LOCK.S_MODE',
+  update: 'DBMS_LOCK.SSX_MODE',
+  intentshared: 'DBMS_LOCK.SS_MODE',
+  intentexclusive: 'DBMS_LOCK.SX_MODE',
+  exclusive: 'DBMS_LOCK.X_MODE',
+};
+
+const ORACLE_LOCK_HANDLE = 'DECLARE v_lockhandle VARCHAR2(128); v_status PLS_INTEGER; BEGIN DBMS_LOCK.ALLOCATE_UNIQUE({resource}, v_lockhandle);';
+
+const NO_EQUIVALENT_PROCEDURES: [string, string][] = [
+  ['sp_configure', 'Server configuration is set by the DBA with ALTER SYSTEM, outside application code.'],
+  ['sp_dboption', 'Database options are set by the DBA with ALTER DATABASE or ALTER SYSTEM, outside application code.'],
+  ['sp_bindrule', 'Rules do not exist in Oracle; add a CHECK constraint to the column instead.'],
+  ['sp_unbindrule', 'Rules do not exist in Oracle; drop the CHECK constraint that replaced the rule.'],
+  ['sp_bindefault', 'Bound defaults do not exist in Oracle; give the column a DEFAULT clause instead.'],
+  ['sp_unbindefault', 'Bound defaults do not exist in Oracle; use ALTER TABLE … MODIFY … DEFAULT NULL.'],
+  ['sp_addtype', 'Oracle has no user-defined aliases for scalar types; declare a SUBTYPE in a package or use the base type.'],
+  ['sp_procxmode', 'Oracle has no per-procedure transaction mode; every transaction is chained.'],
+  ['sp_bindcache', 'Named caches do not exist in Oracle; use the KEEP buffer pool through the table storage clause.'],
+  ['sp_sendmsg', 'Oracle cannot send UDP messages; use DBMS_ALERT, DBMS_PIPE or Advanced Queuing.'],
+  ['sp_sysmon', 'Server monitoring is done with AWR and the V$ views, not from application code.'],
+  ['sp_monitor', 'Server statistics are read from V$SYSSTAT, not from application code.'],
+  ['xp_cmdshell', 'Oracle runs operating system commands only through DBMS_SCHEDULER external jobs, which need DBA set-up.'],
+];
+
+const SERVER_STATISTICS = ['@@connections', '@@cpu_busy', '@@idle', '@@io_busy', '@@pack_received', '@@pack_sent', '@@packet_errors', '@@total_errors', '@@total_read', '@@total_write'];
+
+export const DEFAULT_SYSTEM_CATALOG: SystemCatalogEntry[] = [
+  // Application locks
+  {
+    id: 'sp-getapplock',
+    kind: 'procedure',
+    name: 'sp_getapplock',
+    params: ['resource', 'lockmode', 'lockowner', 'locktimeout', 'dbprincipal'],
+    defaults: { lockowner: 'transaction' },
+    values: { lockmode: LOCK_MODES, lockowner: { transaction: 'TRUE', session: 'FALSE' } },
+    oracleTemplate: `${ORACLE_LOCK_HANDLE} v_status := DBMS_LOCK.REQUEST(v_lockhandle, {lockmode}, [{locktimeout} / 1000, ]release_on_commit => {lockowner}); [{return} := CASE v_status WHEN 0 THEN 0 WHEN 4 THEN 1 WHEN 1 THEN -1 WHEN 2 THEN -3 ELSE -999 END; ]END`,
+    description: 'Application lock → DBMS_LOCK.REQUEST. ALLOCATE_UNIQUE commits the current transaction the first time a name is allocated. The REQUEST status (0 success, 1 timeout, 2 deadlock, 3 parameter error, 4 already held) is mapped to the sp_getapplock return codes (0 or 1 granted, -1 timeout, -3 deadlock, -999 other errors).',
+    severity: 'warning',
+  },
+  {
+    id: 'sp-releaseapplock',
+    kind: 'procedure',
+    name: 'sp_releaseapplock',
+    params: ['resource', 'lockowner', 'dbprincipal'],
+    oracleTemplate: `${ORACLE_LOCK_HANDLE} v_status := DBMS_LOCK.RELEASE(v_lockhandle); [{return} := CASE v_status WHEN 0 THEN 0 ELSE -999 END; ]END`,
+    description: 'Application lock release → DBMS_LOCK.RELEASE. Its status (0 success, 4 lock not held) is mapped to the sp_releaseapplock return codes (0 success, -999 failure).',
+    severity: 'warning',
+  },
+
+  // Sessions and locks; the queries become result sets under the project convention
+  {
+    id: 'sp-who',
+    kind: 'procedure',
+    name: 'sp_who',
+    params: ['loginame'],
+    oracleTemplate: 'SELECT sid, serial#, username, status, osuser, machine, program, sql_id FROM v$session[ WHERE username = UPPER({loginame})]',
+    postgresTemplate: 'SELECT pid, usename, state, client_addr, application_name, query FROM pg_stat_activity[ WHERE usename = {loginame}]',
+    description: 'Session list → V$SESSION (needs SELECT on V_$SESSION); the columns differ from sp_who.',
+    severity: 'warning',
+  },
+  {
+    id: 'sp-lock',
+    kind: 'procedure',
+    name: 'sp_lock',
+    params: ['spid1', 'spid2'],
+    oracleTemplate: 'SELECT l.sid, l.type, l.lmode, l.request, o.owner, o.object_name FROM v$lock l LEFT JOIN all_objects o ON o.object_id = l.id1[ WHERE l.sid IN ({spid1}[, {spid2}])]',
+    postgresTemplate: 'SELECT l.pid, l.locktype, l.mode, l.granted, l.relation::regclass AS relation FROM pg_locks l[ WHERE l.pid IN ({spid1}[, {spid2}])]',
+    description: 'Lock list → V$LOCK (needs SELECT on V_$LOCK); lock types and modes are Oracle\'s, not Sybase\'s.',
+    severity: 'warning',
+  },
+
+  // Data dictionary
+  {
+    id: 'sp-helptext',
+    kind: 'procedure',
+    name: 'sp_helptext',
+    params: ['objname'],
+    oracleTemplate: 'SELECT text FROM user_source WHERE name = UPPER({objname}) ORDER BY type, line',
+    postgresTemplate: 'SELECT pg_get_functiondef(CAST({objname} AS regproc))',
+    description: 'Source text → USER_SOURCE, one row per source line.',
+    severity: 'info',
+  },
+  {
+    id: 'sp-help',
+    kind: 'procedure',
+    name: 'sp_help',
+    params: ['objname'],
+    oracleTemplate: 'SELECT object_name, object_type, status, created FROM user_objects[ WHERE object_name = UPPER({objname})]',
+    postgresTemplate: 'SELECT table_name, table_type FROM information_schema.tables WHERE table_schema = current_schema()[ AND table_name = {objname}]',
+    description: 'Object list → USER_OBJECTS; column details are in USER_TAB_COLUMNS.',
+    severity: 'info',
+  },
+  {
+    id: 'sp-columns',
+    kind: 'procedure',
+    name: 'sp_columns',
+    params: ['table_name'],
+    oracleTemplate: 'SELECT column_name, data_type, data_length, data_precision, data_scale, nullable FROM user_tab_columns WHERE table_name = UPPER({table_name}) ORDER BY column_id',
+    postgresTemplate: 'SELECT column_name, data_type, character_maximum_length, numeric_precision, numeric_scale, is_nullable FROM information_schema.columns WHERE table_name = {table_name} ORDER BY ordinal_position',
+    description: 'Column list → USER_TAB_COLUMNS.',
+    severity: 'info',
+  },
+  {
+    id: 'sp-helpindex',
+    kind: 'procedure',
+    name: 'sp_helpindex',
+    params: ['objname'],
+    oracleTemplate: 'SELECT index_name, column_name, column_position FROM user_ind_columns WHERE table_name = UPPER({objname}) ORDER BY index_name, column_position',
+    postgresTemplate: 'SELECT indexname, indexdef FROM pg_indexes WHERE tablename = {objname}',
+    description: 'Index list → USER_IND_COLUMNS.',
+    severity: 'info',
+  },
+  {
+    id: 'sp-depends',
+    kind: 'procedure',
+    name: 'sp_depends',
+    params: ['objname'],
+    oracleTemplate: 'SELECT name, type, referenced_name, referenced_type FROM user_dependencies WHERE name = UPPER({objname}) OR referenced_name = UPPER({objname})',
+    description: 'Dependencies → USER_DEPENDENCIES, both directions.',
+    severity: 'info',
+  },
+  {
+    id: 'sp-spaceused',
+    kind: 'procedure',
+    name: 'sp_spaceused',
+    params: ['objname'],
+    oracleTemplate: 'SELECT segment_name, segment_type, bytes / 1024 AS kb FROM user_segments[ WHERE segment_name = UPPER({objname})]',
+    postgresTemplate: 'SELECT pg_size_pretty(pg_total_relation_size({objname}))',
+    description: 'Space used → USER_SEGMENTS, in kilobytes per segment.',
+    severity: 'info',
+  },
+
+  // DDL; EXECUTE IMMEDIATE commits, like DDL in a Sybase chained transaction
+  {
+    id: 'sp-rename-column',
+    kind: 'procedure',
+    name: 'sp_rename',
+    params: ['objname', 'newname', 'objtype'],
+    conditions: { objtype: ['column'] },
+    oracleTemplate: "EXECUTE IMMEDIATE 'ALTER TABLE ' || SUBSTR({objname}, 1, INSTR({objname}, '.') - 1) || ' RENAME COLUMN ' || SUBSTR({objname}, INSTR({objname}, '.') + 1) || ' TO ' || {newname}",
+    postgresTemplate: "EXECUTE format('ALTER TABLE %s RENAME COLUMN %s TO %I', split_part({objname}, '.', 1), split_part({objname}, '.', 2), {newname})",
+    description: 'Column rename → ALTER TABLE … RENAME COLUMN as dynamic DDL, which commits the open transaction.',
+    severity: 'warning',
+  },
+  {
+    id: 'sp-rename-index',
+    kind: 'procedure',
+    name: 'sp_rename',
+    params: ['objname', 'newname', 'objtype'],
+    conditions: { objtype: ['index'] },
+    oracleTemplate: "EXECUTE IMMEDIATE 'ALTER INDEX ' || SUBSTR({objname}, INSTR({objname}, '.') + 1) || ' RENAME TO ' || {newname}",
+    postgresTemplate: "EXECUTE format('ALTER INDEX %s RENAME TO %I', split_part({objname}, '.', 2), {newname})",
+    description: 'Index rename → ALTER INDEX … RENAME TO as dynamic DDL, which commits the open transaction.',
+    severity: 'warning',
+  },
+  {
+    id: 'sp-rename',
+    kind: 'procedure',
+    name: 'sp_rename',
+    params: ['objname', 'newname', 'objtype'],
+    oracleTemplate: "EXECUTE IMMEDIATE 'RENAME ' || {objname} || ' TO ' || {newname}",
+    postgresTemplate: "EXECUTE format('ALTER TABLE %s RENAME TO %I', {objname}, {newname})",
+    description: 'Object rename → RENAME as dynamic DDL, which commits the open transaction and only renames tables, views, sequences and synonyms of the current schema.',
+    severity: 'warning',
+  },
+  {
+    id: 'sp-recompile',
+    kind: 'procedure',
+    name: 'sp_recompile',
+    params: ['objname'],
+    oracleTemplate: 'NULL',
+    postgresTemplate: 'NULL',
+    description: 'Recompilation is not needed: dependent code is invalidated and recompiled automatically.',
+    severity: 'info',
+  },
+  ...NO_EQUIVALENT_PROCEDURES.map(([name, description]): SystemCatalogEntry => ({
+    id: name.replace(/_/g, '-'),
+    kind: 'procedure',
+    name,
+    oracleTemplate: null,
+    description,
+  })),
+
+  // WAITFOR; {seconds} is the wait as a number of seconds
+  {
+    id: 'waitfor-delay',
+    kind: 'waitfor',
+    name: 'delay',
+    oracleTemplate: 'DBMS_SESSION.SLEEP({seconds})',
+    postgresTemplate: 'PERFORM pg_sleep({seconds})',
+    description: 'WAITFOR DELAY → DBMS_SESSION.SLEEP (Oracle 18c; DBMS_LOCK.SLEEP before that).',
+    severity: 'info',
+  },
+  {
+    id: 'waitfor-time',
+    kind: 'waitfor',
+    name: 'time',
+    oracleTemplate: "DBMS_SESSION.SLEEP(MOD({seconds} - TO_NUMBER(TO_CHAR(SYSDATE, 'SSSSS')) + 86400, 86400))",
+    postgresTemplate: 'PERFORM pg_sleep(MOD(CAST({seconds} - EXTRACT(EPOCH FROM LOCALTIME) AS numeric) + 86400, 86400))',
+    description: 'WAITFOR TIME → a sleep until that time of day, tomorrow when it has passed.',
+    severity: 'info',
+  },
+  {
+    id: 'waitfor-event',
+    kind: 'waitfor',
+    name: 'event',
+    oracleTemplate: null,
+    description: 'Sybase events do not exist in Oracle; signal with DBMS_ALERT.SIGNAL and wait with DBMS_ALERT.WAITONE.',
+  },
+  ...['errorexit', 'processexit', 'mirrorexit'].map((name): SystemCatalogEntry => ({
+    id: `waitfor-${name}`,
+    kind: 'waitfor',
+    name,
+    oracleTemplate: null,
+    description: `WAITFOR ${name.toUpperCase()} waits on a Sybase server process; Oracle has no equivalent.`,
+  })),
+
+  // Global variables
+  {
+    id: 'spid',
+    kind: 'globalVariable',
+    name: '@@spid',
+    oracleTemplate: "TO_NUMBER(SYS_CONTEXT('USERENV', 'SID'))",
+    postgresTemplate: 'pg_backend_pid()',
+    description: '@@spid → the session id, which Oracle reuses once the session ends.',
+    severity: 'info',
+  },
+  {
+    id: 'servername',
+    kind: 'globalVariable',
+    name: '@@servername',
+    oracleTemplate: "SYS_CONTEXT('USERENV', 'INSTANCE_NAME')",
+    postgresTemplate: "current_setting('cluster_name')",
+    description: '@@servername → the instance name.',
+    severity: 'info',
+  },
+  {
+    id: 'hostname',
+    kind: 'globalVariable',
+    name: '@@hostname',
+    oracleTemplate: "SYS_CONTEXT('USERENV', 'SERVER_HOST')",
+    postgresTemplate: 'CAST(inet_server_addr() AS text)',
+    description: '@@hostname → the database server host.',
+    severity: 'info',
+  },
+  {
+    id: 'version',
+    kind: 'globalVariable',
+    name: '@@version',
+    oracleTemplate: "DBMS_DB_VERSION.VERSION || '.' || DBMS_DB_VERSION.RELEASE",
+    postgresTemplate: 'version()',
+    description: '@@version → the Oracle version and release; code that parses the Sybase version string needs rework.',
+    severity: 'warning',
+  },
+  {
+    id: 'nestlevel',
+    kind: 'globalVariable',
+    name: '@@nestlevel',
+    oracleTemplate: 'UTL_CALL_STACK.DYNAMIC_DEPTH',
+    description: '@@nestlevel → UTL_CALL_STACK.DYNAMIC_DEPTH (Oracle 12c), which also counts anonymous blocks and the calling client block.',
+    severity: 'warning',
+  },
+  {
+    id: 'procid',
+    kind: 'globalVariable',
+    name: '@@procid',
+    oracleTemplate: '$$PLSQL_UNIT',
+    description: '@@procid → $$PLSQL_UNIT, the name of the unit instead of an object id.',
+    severity: 'warning',
+  },
+  {
+    id: 'language',
+    kind: 'globalVariable',
+    name: '@@language',
+    oracleTemplate: "SYS_CONTEXT('USERENV', 'LANGUAGE')",
+    postgresTemplate: "current_setting('lc_messages')",
+    description: '@@language → the session NLS language, in Oracle\'s LANGUAGE_TERRITORY.CHARACTERSET form.',
+    severity: 'info',
+  },
+  {
+    id: 'datefirst',
+    kind: 'globalVariable',
+    name: '@@datefirst',
+    // 2024-01-01 is a Monday, so its day number gives the first day of the NLS week
+    oracleTemplate: "MOD(8 - TO_NUMBER(TO_CHAR(DATE '2024-01-01', 'D')), 7) + 1",
+    postgresTemplate: '1',
+    description: '@@datefirst → the first day of the week, which Oracle takes from NLS_TERRITORY (PostgreSQL weeks start on Monday).',
+    severity: 'info',
+  },
+  {
+    id: 'tranchained',
+    kind: 'globalVariable',
+    name: '@@tranchained',
+    oracleTemplate: '1',
+    description: '@@tranchained → 1: Oracle transactions are always chained.',
+    severity: 'info',
+  },
+  {
+    id: 'dbts',
+    kind: 'globalVariable',
+    name: '@@dbts',
+    oracleTemplate: 'DBMS_FLASHBACK.GET_SYSTEM_CHANGE_NUMBER',
+    postgresTemplate: 'CAST(txid_current() AS text)',
+    description: '@@dbts → the current SCN, which also increases for changes that are not to timestamp columns.',
+    severity: 'warning',
+  },
+  {
+    id: 'textsize',
+    kind: 'globalVariable',
+    name: '@@textsize',
+    oracleTemplate: null,
+    postgresTemplate: null,
+    description: 'There is no session text size: LOB reads are not truncated.',
+  },
+  {
+    id: 'isolation',
+    kind: 'globalVariable',
+    name: '@@isolation',
+    oracleTemplate: null,
+    description: 'The isolation level of the session cannot be read in PL/SQL; Oracle runs READ COMMITTED unless SET TRANSACTION says otherwise.',
+  },
+  ...SERVER_STATISTICS.map((name): SystemCatalogEntry => ({
+    id: name.slice(2).replace(/_/g, '-'),
+    kind: 'globalVariable',
+    name,
+    oracleTemplate: null,
+    postgresTemplate: null,
+    description: `${name} is a server statistic; Oracle keeps them in V$SYSSTAT, which needs a query and different units.`,
+  })),
+];
+
+const catalogNames = (kind: SystemCatalogKind, catalog: SystemCatalogEntry[]) =>
+  new Set(catalog.filter(entry => entry.kind === kind).map(entry => entry.name));
+
+// Template of an entry for the target: a string, null (no equivalent) or undefined (left to the model)
+const templateFor = (entry: SystemCatalogEntry, target: TargetDialect) =>
+  target === 'postgresql' ? entry.postgresTemplate : entry.oracleTemplate;
+
+// Argument text as compared by conditions and values: lower-case, unquoted, without spaces
+const normalizeArgument = (text: string) => text.trim().toLowerCase().replace(/^(['"])(.*)\1$/s, '$2').replace(/\s+/g, '');
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+const padLines = (replacement: string, original: string) =>
+  replacement + '\n'.repeat(Math.max(0, newlines(original) - newlines(replacement)));
+
+// 'hh:mm[:ss[.fff]]' → seconds; other arguments are converted at run time
+const waitSeconds = (argument: string, target: TargetDialect) => {
+  const literal = argument.trim().match(/^'(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?'$/);
+  if (literal) {
+    const [, hours, minutes, seconds = '0', fraction] = literal;
+    const total = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+    return fraction ? `${total}.${fraction.replace(/0+$/, '') || '0'}` : String(total);
+  }
+  return target === 'postgresql'
+    ? `EXTRACT(EPOCH FROM CAST(${argument.trim()} AS interval))`
+    : `TO_NUMBER(TO_CHAR(TO_DATE(${argument.trim()}, 'HH24:MI:SS'), 'SSSSS'))`;
+};
+
+// Fill a template; undefined when a placeholder outside [...] has no value
+const fillTemplate = (template: string, values: Record<string, string | undefined>): string | undefined => {
+  let position = 0;
+  // One part, up to its closing ] or the end of the template
+  const fillPart = (): string | undefined => {
+    let text = '';
+    let complete = true;
+    while (position < template.length && template[position] !== ']') {
+      const ch = template[position];
+      if (ch === '[') {
+        position++;
+        text += fillPart() ?? '';
+        position++;
+      } else if (ch === '{') {
+        const close = template.indexOf('}', position);
+        const value = values[template.slice(position + 1, close)];
+        if (value === undefined) complete = false;
+        text += value ?? '';
+        position = close + 1;
+      } else {
+        text += ch;
+        position++;
+      }
+    }
+    return complete ? text : undefined;
+  };
+  return fillPart();
+};
+
+export interface SystemCall {
+  entry: SystemCatalogEntry;
+  line: number;
+  column: number;
+  text: string; // the call as written
+  replacement?: string;
+}
+
+export interface SystemCatalogResult {
+  code: string;
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+  replaced: SystemCall[];
+  unresolved: SystemCall[]; // no equivalent on the target; each is an error
+  pending: SystemCall[]; // catalogued, but left to the model
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ProcedureCall {
+  name: SybaseToken;
+  returnVariable?: string;
+  positional: string[];
+  named: Record<string, string>;
+  end: number; // end of the call, before a trailing ;
+}
+
+type RenderRange = (start: number, end: number) => string;
+
+// exec [@status =] [db.owner.]sp_name args, or sp_name args as the first statement of a batch
+const readProcedureCall = (statement: SybaseStatement, names: Set<string>, render: RenderRange): ProcedureCall | undefined => {
+  const tokens = statement.tokens;
+  let index = 0;
+  let returnVariable: string | undefined;
+  if (statement.kind === 'exec') {
+    index = 1;
+    if (tokens[1]?.type === 'variable' && tokens[2]?.value === '=') {
+      returnVariable = tokens[1].value;
+      index = 3;
+    }
+  } else if (statement.kind !== 'other' || tokens[0]?.type !== 'identifier') {
+    return undefined;
+  }
+  while (tokens[index + 1]?.value === '.' || tokens[index + 1]?.value === '..') index += 2;
+  const name = tokens[index];
+  if (!name || !names.has(name.value.toLowerCase())) return undefined;
+
+  const last = tokens[tokens.length - 1]?.value === ';' ? tokens.length - 2 : tokens.length - 1;
+  const positional: string[] = [];
+  const named: Record<string, string> = {};
+  let argStart = index + 1;
+  let depth = 0;
+  const addArgument = (from: number, to: number) => {
+    if (from > to) return;
+    // @param = value [output]
+    let valueFrom = from;
+    let paramName: string | undefined;
+    if (tokens[from].type === 'variable' && tokens[from + 1]?.value === '=' && from + 2 <= to) {
+      paramName = tokens[from].value.slice(1).toLowerCase();
+      valueFrom = from + 2;
+    }
+    const valueTo = to > valueFrom && ['OUTPUT', 'OUT'].includes(tokens[to].upper) ? to - 1 : to;
+    const value = render(tokens[valueFrom].offset, tokens[valueTo].offset + tokens[valueTo].value.length).trim();
+    if (paramName) named[paramName] = value;
+    else positional.push(value);
+  };
+  for (let i = index + 1; i <= last; i++) {
+    const value = tokens[i].value;
+    if (value === '(') depth++;
+    else if (value === ')') depth--;
+    else if (value === ',' && depth === 0) {
+      addArgument(argStart, i - 1);
+      argStart = i + 1;
+    }
+  }
+  addArgument(argStart, last);
+  const lastToken = tokens[last];
+  return { name, returnVariable, positional, named, end: lastToken.offset + lastToken.value.length };
+};
+
+// Every statement across nested bodies
+const collectStatements = (statements: SybaseStatement[], into: SybaseStatement[] = []) => {
+  statements.forEach(statement => {
+    into.push(statement);
+    if (statement.body) collectStatements(statement.body, into);
+    if (statement.elseBody) collectStatements(statement.elseBody, into);
+  });
+  return into;
+};
+
+// Rewrite every catalogued system call for the target. Replacements keep the line count of the call.
+export const rewriteSystemCalls = (
+  code: string,
+  target: TargetDialect = getTargetDialect(),
+  catalog: SystemCatalogEntry[] = DEFAULT_SYSTEM_CATALOG
+): SystemCatalogResult => {
+  const script = parseSybase(code);
+  const source = script.source;
+  const statements: SybaseStatement[] = [];
+  script.batches.forEach(batch => collectStatements(batch.statements, statements));
+  const procedureNames = catalogNames('procedure', catalog);
+  const globalNames = catalogNames('globalVariable', catalog);
+  const targetLabel = TARGET_DIALECT_LABELS[target];
+
+  const replaced: SystemCall[] = [];
+  const unresolved: SystemCall[] = [];
+  const pending: SystemCall[] = [];
+  const issues: ConversionIssue[] = [];
+
+  const report = (call: SystemCall, severity: ConversionIssue['severity'], description: string, suggestedFix?: string) => {
+    issues.push({
+      id: `sys-${call.entry.id}-${call.line}:${call.column}`,
+      lineNumber: call.line,
+      columnNumber: call.column,
+      codeSide: 'original',
+      severity,
+      description,
+      originalCode: call.text,
+      suggestedFix,
+      category: SYSTEM_CATALOG_CATEGORY,
+    });
+  };
+
+  // The outcome of one call: replaced, no equivalent (error) or left to the model
+  const resolve = (call: SystemCall, label: string, filled: string | undefined, noEquivalent: boolean) => {
+    const note = target === 'oracle' ? ` ${call.entry.description}` : '';
+    if (noEquivalent) {
+      call.replacement = `NULL /* ${label}: no ${targetLabel} equivalent */`;
+      unresolved.push(call);
+      report(call, 'error', `${label} on line ${call.line} has no ${targetLabel} equivalent and was replaced by NULL.${note}`, 'Redesign the code that depends on it; the file is not converted until this is resolved.');
+    } else if (filled === undefined) {
+      pending.push(call);
+      report(call, 'warning', `${label} on line ${call.line} was left for the model: ${templateFor(call.entry, target) === undefined ? `the catalog has no ${targetLabel} form` : 'an argument is not a value the catalog knows'}.${note}`, templateFor(call.entry, target) ?? undefined);
+    } else {
+      call.replacement = filled;
+      replaced.push(call);
+      report(call, call.entry.severity ?? 'warning', `${label} on line ${call.line} became ${filled}.${note}`);
+    }
+  };
+
+  // Global variables first: procedure arguments are rendered with them replaced
+  const globalEdits: Edit[] = [];
+  script.tokens.filter(isSignificantToken).forEach(token => {
+    if (token.type !== 'globalVariable' || !globalNames.has(token.value.toLowerCase())) return;
+    const entry = catalog.find(candidate => candidate.kind === 'globalVariable' && candidate.name === token.value.toLowerCase())!;
+    const template = templateFor(entry, target);
+    const call: SystemCall = { entry, line: token.line, column: token.column, text: token.value };
+    resolve(call, token.value, template ?? undefined, template === null);
+    if (call.replacement !== undefined) globalEdits.push({ start: token.offset, end: token.offset + token.value.length, text: call.replacement });
+  });
+
+  const sliceWithGlobals = (start: number, end: number) => {
+    let text = source.slice(start, end);
+    globalEdits
+      .filter(edit => edit.start >= start && edit.end <= end)
+      .sort((a, b) => b.start - a.start)
+      .forEach(edit => {
+        text = text.slice(0, edit.start - start) + edit.text + text.slice(edit.end - start);
+      });
+    return text;
+  };
+
+  // Statement end before a trailing ;
+  const statementEnd = (statement: SybaseStatement) => {
+    const tokens = statement.tokens;
+    const last = tokens[tokens.length - 1].value === ';' && tokens.length > 1 ? tokens[tokens.length - 2] : tokens[tokens.length - 1];
+    return last.offset + last.value.length;
+  };
+
+  // Argument as a template value; unquoted names are strings in Sybase: sp_help mytable
+  const argumentValue = (text: string) => (/^[a-z_][\w$#]*$/i.test(text) ? `'${text}'` : text);
+
+  const statementEdits: Edit[] = [];
+  statements.forEach(statement => {
+    // Nested statements inside a replaced one are gone with it
+    if (statementEdits.some(edit => statement.startOffset >= edit.start && statement.startOffset < edit.end)) return;
+
+    if (statement.kind === 'waitfor') {
+      const [waitfor, mode, argument] = statement.tokens;
+      const entry = catalog.find(candidate => candidate.kind === 'waitfor' && candidate.name === mode?.value.toLowerCase());
+      if (!entry) return;
+      const end = statementEnd(statement);
+      const text = source.slice(statement.startOffset, end);
+      const template = templateFor(entry, target);
+      const seconds = argument && argument.value !== ';' ? waitSeconds(sliceWithGlobals(argument.offset, end), target) : undefined;
+      const call: SystemCall = { entry, line: waitfor.line, column: waitfor.column, text };
+      resolve(call, `WAITFOR ${mode.value.toUpperCase()}`, template ? fillTemplate(template, { seconds }) : undefined, template === null);
+      if (call.replacement !== undefined) statementEdits.push({ start: statement.startOffset, end, text: padLines(call.replacement, text) });
+      return;
+    }
+
+    const procedureCall = readProcedureCall(statement, procedureNames, sliceWithGlobals);
+    if (!procedureCall) return;
+    const { name, returnVariable, positional, named, end } = procedureCall;
+    const text = source.slice(statement.startOffset, end);
+    const argumentsOf = (entry: SystemCatalogEntry) => Object.fromEntries((entry.params ?? []).map((param, index) =>
+      [param, named[param] ?? positional[index] ?? entry.defaults?.[param]]));
+    // The first entry whose conditions hold; sp_rename has one per object type
+    const entry = catalog.find(candidate => candidate.kind === 'procedure' && candidate.name === name.value.toLowerCase()
+      && Object.entries(candidate.conditions ?? {}).every(([param, allowed]) => {
+        const value = argumentsOf(candidate)[param];
+        return value !== undefined && allowed.includes(normalizeArgument(value));
+      }));
+    if (!entry) return;
+
+    const template = templateFor(entry, target);
+    let filled: string | undefined;
+    if (template) {
+      const values: Record<string, string | undefined> = { return: returnVariable };
+      let known = true;
+      Object.entries(argumentsOf(entry)).forEach(([param, value]) => {
+        if (value === undefined) return;
+        const mapped = entry.values?.[param];
+        values[param] = mapped ? mapped[normalizeArgument(value)] : argumentValue(value);
+        if (values[param] === undefined) known = false;
+      });
+      filled = known ? fillTemplate(template, values) : undefined;
+      // A status the template does not set is 0, as Sybase returns for success
+      if (filled !== undefined && returnVariable && !template.includes('{return}')) filled += `; ${returnVariable} := 0`;
+    }
+    const call: SystemCall = { entry, line: name.line, column: name.column, text };
+    resolve(call, name.value, filled, template === null);
+    if (call.replacement !== undefined) statementEdits.push({ start: statement.startOffset, end, text: padLines(call.replacement, text) });
+  });
+
+  const edits = [...statementEdits, ...globalEdits.filter(edit => !statementEdits.some(outer => edit.start >= outer.start && edit.end <= outer.end))];
+  let rewritten = source;
+  edits
+    .sort((a, b) => b.start - a.start)
+    .forEach(edit => {
+      rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+    });
+
+  const changed = [...replaced, ...unresolved];
+  const lines = [...new Set(changed.map(call => call.line))].sort((a, b) => a - b);
+  return {
+    code: rewritten,
+    issues,
+    replaced,
+    unresolved,
+    pending,
+    appliedRule: changed.length > 0 ? {
+      ruleId: 'system-catalog',
+      description: `Sybase system procedures and global variables → system catalog (${[...new Set(changed.map(call => call.entry.id))].join(', ')})`,
+      occurrences: changed.length,
+      lineNumbers: lines,
+    } : undefined,
+  };
+};
+
+// Prompt section: what was replaced, what has no equivalent and what is left to the model
+export const describeSystemCalls = (result: SystemCatalogResult, target: TargetDialect = getTargetDialect()): string => {
+  const targetLabel = TARGET_DIALECT_LABELS[target];
+  const lines = [
+    ...result.replaced.map(call => `- ${call.text.split('\n')[0]} (line ${call.line}) → ${call.replacement} (already rewritten; keep it)`),
+    ...result.unresolved.map(call => `- ${call.text.split('\n')[0]} (line ${call.line}): no ${targetLabel} equivalent, replaced by NULL; keep the NULL and its comment`),
+    ...result.pending.map(call => `- ${call.text.split('\n')[0]} (line ${call.line}): convert it${templateFor(call.entry, target) ? ` following ${templateFor(call.entry, target)}` : ''}`),
+  ];
+  return [
+    ...(lines.length > 0 ? lines : ['None in this code.']),
+    `Do not invent ${targetLabel} replacements for any other sp_/xp_ system procedure or @@ variable: keep the call and report it as an error issue.`,
+  ].join('\n');
+};
@@ -0,0 +1,59 @@
+import type { TargetDialect } from '@/types';
+import { isApplicationSource } from '@/utils/embeddedSql';
+
+// The database the code is converted to. Oracle is the original target and every deterministic
+// rewrite (triggers, identity columns, result sets, RAISERROR, temp tables, …) produces Oracle code.
+// A PostgreSQL target keeps the target-neutral passes (source dialect, function catalog, data type
+// profile) and leaves the rest to the model, with its own prompt, metrics and file names.
+
+export const DEFAULT_TARGET_DIALECT: TargetDialect = 'oracle';
+
+export const TARGET_DIALECT_LABELS: Record<TargetDialect, string> = {
+  oracle: 'Oracle',
+  postgresql: 'PostgreSQL',
+};
+
+// Procedural language of the target, for prompts and labels
+export const TARGET_LANGUAGE_LABELS: Record<TargetDialect, string> = {
+  oracle: 'PL/SQL',
+  postgresql: 'PL/pgSQL',
+};
+
+// --- Project target (persisted per browser, like the source dialect) ---
+const TARGET_STORAGE_KEY = 'target-dialect';
+
+export const getTargetDialect = (): TargetDialect => {
+  if (typeof localStorage === 'undefined') return DEFAULT_TARGET_DIALECT;
+  return (localStorage.getItem(TARGET_STORAGE_KEY) as TargetDialect) || DEFAULT_TARGET_DIALECT;
+};
+
+export const setTargetDialect = (target: TargetDialect) => {
+  localStorage.setItem(TARGET_STORAGE_KEY, target);
+  return target;
+};
+
+// --- Downloads ---
+const TARGET_FILE_TAGS: Record<TargetDialect, string> = {
+  oracle: 'oracle',
+  postgresql: 'postgres',
+};
+
+// Tag in archive and report names, e.g. oracle_converted_files.zip
+export const targetFileTag = (target: TargetDialect = getTargetDialect()) => TARGET_FILE_TAGS[target];
+
+// Name of a converted file: Oracle keeps the source extension (.prc, .trg, …), PostgreSQL code is .sql.
+// Application sources stay .java/.cs for every target.
+export const convertedFileName = (fileName: string, target: TargetDialect = getTargetDialect()) => {
+  const baseName = fileName.includes('.') ? fileName.substring(0, fileName.lastIndexOf('.')) : fileName;
+  const keepExtension = (target === 'oracle' || isApplicationSource(fileName)) && fileName.includes('.');
+  const extension = keepExtension ? fileName.split('.').pop() : 'sql';
+  return `${baseName}_${TARGET_FILE_TAGS[target]}.${extension}`;
+};
+
+// --- Metrics ---
+
+// Features counted as modern use of the target in the scalability metrics
+export const MODERN_FEATURES: Record<TargetDialect, string[]> = {
+  oracle: ['BULK COLLECT', 'FORALL', 'MERGE', 'WITH', 'PARALLEL', 'PARTITION', 'RESULT_CACHE', 'MULTISET', 'CROSS APPLY', 'PIVOT'],
+  postgresql: ['RETURN QUERY', 'RETURNING', 'ON CONFLICT', 'WITH', 'LATERAL', 'FILTER (WHERE', 'PARTITION', 'UNNEST', 'JSONB', 'GENERATED'],
+};
@@ -0,0 +1,244 @@
+import type { AppliedRule, TempTableStrategy } from '@/types';
+import { parseSybase, allStatements, isSignificantToken, SybaseColumn, SybaseStatement } from '@/utils/sybaseParser';
+import { mapDataType } from '@/utils/dataTypeProfile';
+import type { DependencySource } from '@/utils/dependencyGraph';
+
+// Project-wide handling of Sybase #temp tables. Every #table in the upload is detected once,
+// the user picks a strategy per table, and every file is rewritten against the same choice so
+// a table filled in one procedure and read in another ends up with one Oracle name and one DDL.
+
+export const DEFAULT_TEMP_TABLE_STRATEGY: TempTableStrategy = 'global';
+export const TEMP_COLLECTIONS_PACKAGE = 'tmp_collections';
+
+export const TEMP_TABLE_STRATEGY_LABELS: Record<TempTableStrategy, string> = {
+  global: 'Global temporary table',
+  private: 'Private temporary table',
+  collection: 'PL/SQL collection',
+};
+
+export interface TempTableUsage {
+  fileId: string;
+  fileName: string;
+  line: number;
+}
+
+export interface TempTableInfo {
+  name: string; // normalized, without the leading #
+  displayName: string; // as first written, e.g. #Orders
+  columns?: SybaseColumn[]; // from the first CREATE TABLE #name; undefined when only SELECT INTO creates it
+  createdIn: TempTableUsage[];
+  usedIn: TempTableUsage[];
+}
+
+export const normalizeTempTableName = (name: string) => name.replace(/^#+/, '').toLowerCase();
+
+export const oracleTempTableName = (name: string, strategy: TempTableStrategy) => {
+  const base = normalizeTempTableName(name);
+  if (strategy === 'private') return `ora$ptt_${base}`; // Oracle's default private_temp_table_prefix
+  if (strategy === 'collection') return `${TEMP_COLLECTIONS_PACKAGE}.g_${base}`;
+  return `tt_${base}`;
+};
+
+// --- Strategy registry (persisted per browser, like saved connections) ---
+const STRATEGY_STORAGE_KEY = 'temp-table-strategies';
+
+export const getTempTableStrategies = (): Record<string, TempTableStrategy> => {
+  if (typeof localStorage === 'undefined') return {};
+  const saved = localStorage.getItem(STRATEGY_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const setTempTableStrategy = (name: string, strategy: TempTableStrategy) => {
+  const strategies = { ...getTempTableStrategies(), [normalizeTempTableName(name)]: strategy };
+  localStorage.setItem(STRATEGY_STORAGE_KEY, JSON.stringify(strategies));
+  return strategies;
+};
+
+export const strategyFor = (name: string, strategies: Record<string, TempTableStrategy>) =>
+  strategies[normalizeTempTableName(name)] ?? DEFAULT_TEMP_TABLE_STRATEGY;
+
+const isTempCreate = (statement: SybaseStatement) =>
+  statement.kind === 'createTable' && !!statement.name?.startsWith('#');
+
+// Temp table names in a DROP TABLE statement; empty if it drops anything else
+const droppedTempTables = (statement: SybaseStatement): string[] => {
+  if (statement.kind !== 'drop' || statement.tokens[1]?.upper !== 'TABLE') return [];
+  const names = statement.tokens.slice(2).filter(token => token.value !== ',' && token.value !== ';');
+  return names.every(token => token.type === 'tempTable') ? names.map(token => token.value) : [];
+};
+
+// Every #table across the upload, with the files that create and use it
+export const detectTempTables = (files: DependencySource[]): TempTableInfo[] => {
+  const tables = new Map<string, TempTableInfo>();
+  const tableFor = (displayName: string) => {
+    const name = normalizeTempTableName(displayName);
+    if (!tables.has(name)) tables.set(name, { name, displayName, createdIn: [], usedIn: [] });
+    return tables.get(name)!;
+  };
+
+  files.forEach(file => {
+    const script = parseSybase(file.content || '');
+    const usage = (line: number) => ({ fileId: file.id, fileName: file.name, line });
+
+    allStatements(script).filter(isTempCreate).forEach(statement => {
+      const table = tableFor(statement.name!);
+      if (!table.columns && statement.columns?.length) table.columns = statement.columns;
+      table.createdIn.push(usage(statement.startLine));
+    });
+
+    const tokens = script.tokens.filter(isSignificantToken);
+    tokens.forEach((token, index) => {
+      if (token.type !== 'tempTable') return;
+      const table = tableFor(token.value);
+      // SELECT ... INTO #name creates the table without a column list
+      if (tokens[index - 1]?.upper === 'INTO' && tokens.slice(Math.max(0, index - 50), index).some(t => t.upper === 'SELECT')
+        && !table.createdIn.some(u => u.fileId === file.id && u.line === token.line)) {
+        table.createdIn.push(usage(token.line));
+      }
+      if (!table.usedIn.some(u => u.fileId === file.id)) table.usedIn.push(usage(token.line));
+    });
+  });
+
+  return [...tables.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Object type attributes take neither identity nor NOT NULL, so only tables get them
+const columnDdl = (column: SybaseColumn, withConstraints: boolean) => {
+  const type = mapDataType(column.dataType) ?? column.dataType.text.toUpperCase();
+  if (!withConstraints) return `${column.name} ${type}`;
+  const identity = column.identity ? ' GENERATED BY DEFAULT AS IDENTITY' : '';
+  const nullable = column.nullable === false ? ' NOT NULL' : '';
+  return `${column.name} ${type}${identity}${nullable}`;
+};
+
+// The shared DDL, emitted once for the whole project. Private temporary tables have none:
+// each session creates them itself.
+export const generateTempTableDdl = (tables: TempTableInfo[], strategies: Record<string, TempTableStrategy>): string => {
+  const sections: string[] = [];
+  const collectionTables = tables.filter(table => strategyFor(table.name, strategies) === 'collection');
+
+  tables.filter(table => strategyFor(table.name, strategies) === 'global').forEach(table => {
+    const oracleName = oracleTempTableName(table.name, 'global');
+    if (!table.columns) {
+      const source = table.createdIn[0]?.fileName ?? 'unknown file';
+      sections.push(`-- ${table.displayName}: columns could not be determined (created by SELECT INTO in ${source})\n-- CREATE GLOBAL TEMPORARY TABLE ${oracleName} (...) ON COMMIT PRESERVE ROWS;`);
+      return;
+    }
+    const columns = table.columns.map(column => `  ${columnDdl(column, true)}`).join(',\n');
+    sections.push(`-- ${table.displayName}\nCREATE GLOBAL TEMPORARY TABLE ${oracleName} (\n${columns}\n) ON COMMIT PRESERVE ROWS;`);
+  });
+
+  if (collectionTables.length > 0) {
+    const types: string[] = [];
+    const variables: string[] = [];
+    collectionTables.forEach(table => {
+      const base = normalizeTempTableName(table.name);
+      if (!table.columns) {
+        types.push(`-- ${table.displayName}: columns could not be determined; define ${base}_row manually`);
+        return;
+      }
+      const attributes = table.columns.map(column => `  ${columnDdl(column, false)}`).join(',\n');
+      types.push(`CREATE OR REPLACE TYPE ${base}_row AS OBJECT (\n${attributes}\n);\n/\nCREATE OR REPLACE TYPE ${base}_tab AS TABLE OF ${base}_row;\n/`);
+      variables.push(`  g_${base} ${base}_tab := ${base}_tab();`);
+    });
+    sections.push(...types);
+    sections.push(`CREATE OR REPLACE PACKAGE ${TEMP_COLLECTIONS_PACKAGE} AS\n${variables.join('\n')}\nEND ${TEMP_COLLECTIONS_PACKAGE};\n/`);
+  }
+
+  return sections.length > 0 ? `-- Shared temporary table objects\n\n${sections.join('\n\n')}\n` : '';
+};
+
+export interface TempTableRewriteResult {
+  code: string;
+  tables: string[]; // normalized names found in the code
+  appliedRule?: AppliedRule;
+}
+
+// Rewrite every #table reference to its Oracle name. Global tables and collections already
+// exist, so CREATE TABLE #name is dropped and DROP TABLE #name only clears the rows.
+// The line count is kept so issue positions still match the uploaded file.
+export const rewriteTempTables = (code: string, strategies: Record<string, TempTableStrategy>): TempTableRewriteResult => {
+  const script = parseSybase(code);
+  const edits: { start: number; end: number; text: string; line: number }[] = [];
+
+  // Global tables and collections are created once in the shared DDL
+  allStatements(script).forEach(statement => {
+    if (isTempCreate(statement) && strategyFor(statement.name!, strategies) !== 'private') {
+      const strategy = strategyFor(statement.name!, strategies);
+      edits.push({
+        start: statement.startOffset,
+        end: statement.endOffset,
+        text: `/* ${statement.name}: ${oracleTempTableName(statement.name!, strategy)} is created once in the shared temp table DDL */`
+          + '\n'.repeat((statement.text.match(/\n/g) || []).length),
+        line: statement.startLine,
+      });
+      return;
+    }
+    const dropped = droppedTempTables(statement);
+    if (dropped.length > 0 && dropped.every(name => strategyFor(name, strategies) !== 'private')) {
+      edits.push({
+        start: statement.startOffset,
+        end: statement.endOffset,
+        text: dropped.map(name => strategyFor(name, strategies) === 'global'
+          ? `DELETE FROM ${oracleTempTableName(name, 'global')}`
+          : `${oracleTempTableName(name, 'collection')}.DELETE`).join('; ') + '\n'.repeat((statement.text.match(/\n/g) || []).length),
+        line: statement.startLine,
+      });
+    }
+  });
+
+  const tokens = script.tokens.filter(isSignificantToken);
+  const tables = new Set<string>();
+  tokens.forEach((token, index) => {
+    if (token.type !== 'tempTable') return;
+    tables.add(normalizeTempTableName(token.value));
+    if (edits.some(edit => token.offset >= edit.start && token.offset < edit.end)) return;
+    const strategy = strategyFor(token.value, strategies);
+    const oracleName = oracleTempTableName(token.value, strategy);
+    // Collections are queried through TABLE()
+    const inFrom = ['FROM', 'JOIN'].includes(tokens[index - 1]?.upper);
+    edits.push({
+      start: token.offset,
+      end: token.offset + token.value.length,
+      text: strategy === 'collection' && inFrom ? `TABLE(${oracleName})` : oracleName,
+      line: token.line,
+    });
+  });
+
+  if (edits.length === 0) return { code: script.source, tables: [] };
+
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    tables: [...tables],
+    appliedRule: {
+      ruleId: 'temp-tables',
+      description: '#temp tables → project temp table strategy',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt guidance so the model treats the rewritten names consistently
+export const describeTempTableStrategies = (tables: string[], strategies: Record<string, TempTableStrategy>): string => {
+  if (tables.length === 0) return 'None.';
+  return tables.map(name => {
+    const strategy = strategyFor(name, strategies);
+    const oracleName = oracleTempTableName(name, strategy);
+    if (strategy === 'global') {
+      return `#${name} is the existing global temporary table ${oracleName}: do not create or drop it; SELECT ... INTO it becomes INSERT INTO ${oracleName} SELECT ...`;
+    }
+    if (strategy === 'private') {
+      return `#${name} is the private temporary table ${oracleName}: create it with EXECUTE IMMEDIATE 'CREATE PRIVATE TEMPORARY TABLE ${oracleName} (...) ON COMMIT PRESERVE DEFINITION' and access it with dynamic SQL`;
+    }
+    return `#${name} is the package collection ${oracleName} of type ${name}_tab: fill it with BULK COLLECT or EXTEND, query it through TABLE(${oracleName}), and clear it with .DELETE`;
+  }).join('\n');
+};
+
+// Shared DDL for the current upload with the saved strategies; '' when nothing needs creating
+export const buildSharedTempTableDdl = (files: DependencySource[]) =>
+  generateTempTableDdl(detectTempTables(files), getTempTableStrategies());
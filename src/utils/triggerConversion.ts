@@ -0,0 +1,506 @@
+import type { AppliedRule, ConversionIssue } from '@/types';
+import { parseSybase, allStatements, SybaseStatement, SybaseToken } from '@/utils/sybaseParser';
+import { normalizeObjectName, DependencySource } from '@/utils/dependencyGraph';
+import { MAX_ORACLE_ERROR } from '@/utils/errorCatalog';
+
+// Sybase triggers fire once per statement and see the affected rows in the inserted and deleted
+// pseudo-tables. An Oracle row-level trigger sees one row as :NEW/:OLD; only a compound trigger can
+// act on the statement as a whole. Each trigger gets one form: row-level when every use of the
+// pseudo-tables works row by row, compound when the logic needs all rows at once (aggregates,
+// @@rowcount, access to the trigger's own table). Row-level triggers get their pseudo-table joins
+// rewritten here; the compound structure is left to the model with the reasons spelled out.
+
+export type TriggerForm = 'row' | 'compound';
+
+export const TRIGGER_CATEGORY = 'trigger';
+// Rows of the triggering statement, counted in AFTER EACH ROW of a compound trigger
+export const TRIGGER_ROW_COUNT = 'g_row_count';
+
+export interface TriggerAnalysis {
+  name: string;
+  table: string;
+  events: string[];
+  form: TriggerForm;
+  timing: 'BEFORE' | 'AFTER';
+  reasons: string[]; // why the trigger needs the compound form
+  selfUpdateLines: number[]; // UPDATEs of the trigger table joined to inserted
+  line: number;
+}
+
+const PSEUDO_PREFIX: Record<string, string> = { inserted: ':NEW', deleted: ':OLD' };
+
+// --- Table columns (persisted per browser, like the identity columns) ---
+// inserted/deleted have the columns of the trigger table; `select *` from them needs the list spelled
+// out as :NEW/:OLD columns, and the table is usually created in another file than its trigger.
+const COLUMNS_STORAGE_KEY = 'table-columns';
+
+export const getTableColumns = (): Record<string, string[]> => {
+  if (typeof localStorage === 'undefined') return {};
+  const saved = localStorage.getItem(COLUMNS_STORAGE_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+// Column names of every CREATE TABLE in the code, by normalized table name
+const tableColumnsIn = (statements: SybaseStatement[]): Record<string, string[]> => Object.fromEntries(
+  statements
+    .filter(statement => statement.kind === 'createTable' && statement.name && !statement.name.startsWith('#') && statement.columns?.length)
+    .map(statement => [normalizeObjectName(statement.name!), statement.columns!.map(column => column.name)]));
+
+export const syncTableColumns = (files: DependencySource[]) => {
+  const registry = { ...getTableColumns() };
+  files.forEach(file => Object.assign(registry, tableColumnsIn(allStatements(parseSybase(file.content || '')))));
+  localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(registry));
+  return registry;
+};
+const AGGREGATES = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+// Keywords that end a FROM list at its own nesting depth
+const LIST_END = new Set(['WHERE', 'GROUP', 'ORDER', 'HAVING', 'UNION', 'INTERSECT', 'EXCEPT', 'FOR', 'AT', 'PLAN', 'FROM', 'SET', 'SELECT', 'VALUES']);
+
+interface FromItem {
+  start: number; // token indexes, inclusive
+  end: number;
+  table: string;
+  alias?: string;
+  pseudo?: string; // 'inserted' | 'deleted'
+  joinsPseudo: boolean; // ANSI JOIN onto a pseudo-table inside the item
+}
+
+interface QueryBlock {
+  from: number;
+  depth: number;
+  start: number;
+  end: number;
+  items: FromItem[];
+}
+
+const depthsOf = (tokens: SybaseToken[]) => {
+  let depth = 0;
+  return tokens.map(token => {
+    if (token.value === '(') return depth++;
+    if (token.value === ')') depth = Math.max(0, depth - 1);
+    return depth;
+  });
+};
+
+const pseudoName = (token?: SybaseToken) => {
+  const name = token?.value.toLowerCase();
+  return name && PSEUDO_PREFIX[name] ? name : undefined;
+};
+
+const parseItem = (tokens: SybaseToken[], depths: number[], start: number, end: number): FromItem => {
+  let index = start;
+  let table = tokens[index].value;
+  while (tokens[index + 1]?.value === '.' && tokens[index + 2] && index + 2 <= end) {
+    index += 2;
+    table = `${table}.${tokens[index].value}`;
+  }
+  const next = tokens[index + 1]?.upper === 'AS' ? tokens[index + 2] : tokens[index + 1];
+  const alias = index + 1 <= end && next?.type === 'identifier' ? next.value.toLowerCase() : undefined;
+  let joinsPseudo = false;
+  for (let i = start + 1; i <= end; i++) {
+    if (depths[i] === depths[start] && tokens[i - 1].upper === 'JOIN' && pseudoName(tokens[i])) joinsPseudo = true;
+  }
+  return { start, end, table, alias, pseudo: index === start ? pseudoName(tokens[start]) : undefined, joinsPseudo };
+};
+
+// Every FROM clause in a statement's tokens, with the query it belongs to
+const findQueryBlocks = (tokens: SybaseToken[]): QueryBlock[] => {
+  const depths = depthsOf(tokens);
+  const blocks: QueryBlock[] = [];
+  tokens.forEach((token, from) => {
+    if (token.upper !== 'FROM') return;
+    const depth = depths[from];
+    const items: FromItem[] = [];
+    let itemStart = from + 1;
+    let index = from + 1;
+    for (; index < tokens.length; index++) {
+      if (depths[index] < depth || (depths[index] === depth && tokens[index].value === ')')) break;
+      if (depths[index] !== depth) continue;
+      if (LIST_END.has(tokens[index].upper) || tokens[index].value === ';') break;
+      if (tokens[index].value === ',') {
+        if (index > itemStart) items.push(parseItem(tokens, depths, itemStart, index - 1));
+        itemStart = index + 1;
+      }
+    }
+    if (index > itemStart) items.push(parseItem(tokens, depths, itemStart, index - 1));
+    let start = from - 1;
+    while (start > 0 && !(depths[start] === depth && ['SELECT', 'UPDATE', 'DELETE'].includes(tokens[start].upper))) start--;
+    let end = index;
+    while (end < tokens.length && depths[end] >= depth && !(depths[end] === depth && (tokens[end].value === ')' || ['UNION', 'INTERSECT', 'EXCEPT'].includes(tokens[end].upper)))) end++;
+    blocks.push({ from, depth, start: Math.max(start, 0), end: end - 1, items });
+  });
+  return blocks;
+};
+
+// Tokens a statement owns: conditions of IF/WHILE, everything of a simple statement
+const ownTokens = (statement: SybaseStatement) =>
+  statement.body || statement.elseBody ? statement.condition ?? [] : statement.tokens;
+
+interface StatementEntry {
+  statement: SybaseStatement;
+  next?: SybaseStatement;
+}
+
+const collectEntries = (statements: SybaseStatement[] = [], entries: StatementEntry[] = []) => {
+  statements.forEach((statement, index) => {
+    entries.push({ statement, next: statements[index + 1] });
+    collectEntries(statement.body, entries);
+    collectEntries(statement.elseBody, entries);
+  });
+  return entries;
+};
+
+const DML_KINDS = ['insert', 'update', 'delete'];
+
+// `if @@rowcount = 0 return`: the usual first line of a Sybase trigger
+const isRowCountGuard = (statement: SybaseStatement) => {
+  const condition = (statement.condition ?? []).filter(token => token.value !== '(' && token.value !== ')').map(token => token.upper);
+  return statement.kind === 'if' && condition.join(' ') === '@@ROWCOUNT = 0'
+    && statement.body?.length === 1 && statement.body[0].kind === 'return' && !statement.elseBody;
+};
+
+// Uses of @@rowcount that mean "rows of the triggering statement": before the trigger's first DML
+const triggerRowCounts = (entries: StatementEntry[]) => {
+  const firstDml = entries.find(({ statement }) => DML_KINDS.includes(statement.kind))?.statement.startOffset ?? Infinity;
+  return entries
+    .filter(({ statement }) => statement.startOffset < firstDml)
+    .flatMap(({ statement }) => ownTokens(statement).filter(token => token.upper === '@@ROWCOUNT').map(token => ({ statement, token })));
+};
+
+// COUNT(…), SUM(…) etc. or GROUP BY in the query itself, not in its subqueries
+const isAggregate = (tokens: SybaseToken[], block: QueryBlock) => {
+  const depths = depthsOf(tokens);
+  for (let index = block.start; index <= block.end; index++) {
+    if (depths[index] !== block.depth) continue;
+    if ((AGGREGATES.has(tokens[index].upper) && tokens[index + 1]?.value === '(') || tokens[index].upper === 'GROUP') return true;
+  }
+  return false;
+};
+
+// Target table of an UPDATE, or of a DELETE with a second FROM
+const dmlTarget = (statement: SybaseStatement) => {
+  const tokens = statement.tokens;
+  const index = statement.kind === 'delete' && tokens[1]?.upper === 'FROM' ? 2 : 1;
+  return tokens[index];
+};
+
+export const analyzeTrigger = (trigger: SybaseStatement): TriggerAnalysis => {
+  const table = normalizeObjectName(trigger.table ?? '');
+  const entries = collectEntries(trigger.body);
+  const reasons: string[] = [];
+  const selfUpdateLines: number[] = [];
+
+  entries.forEach(({ statement }) => {
+    const tokens = ownTokens(statement);
+    const blocks = findQueryBlocks(tokens);
+    blocks.forEach(block => {
+      if (block.items.some(item => item.pseudo) && isAggregate(tokens, block)) reasons.push(`aggregates over the affected rows (line ${statement.startLine})`);
+    });
+    const readsTable = blocks.some(block => block.items.some(item => !item.pseudo && normalizeObjectName(item.table) === table));
+    const target = DML_KINDS.includes(statement.kind) && normalizeObjectName(statement.table ?? '') === table;
+    if (!readsTable && !target) return;
+    const joinsInserted = blocks.some(block => block.depth === 0 && block.items.some(item => item.pseudo === 'inserted'));
+    if (statement.kind === 'update' && target && joinsInserted && !trigger.events?.every(event => event === 'delete')) {
+      selfUpdateLines.push(statement.startLine);
+    } else {
+      reasons.push(`${target ? 'changes' : 'reads'} its own table ${table} (line ${statement.startLine}), which a row-level trigger cannot do`);
+    }
+  });
+
+  triggerRowCounts(entries).forEach(({ statement, token }) => {
+    if (!isRowCountGuard(statement)) reasons.push(`uses @@rowcount of the triggering statement (line ${token.line})`);
+  });
+
+  const form: TriggerForm = reasons.length > 0 ? 'compound' : 'row';
+  return {
+    name: trigger.name ?? '',
+    table,
+    events: trigger.events ?? [],
+    form,
+    timing: selfUpdateLines.length > 0 ? 'BEFORE' : 'AFTER',
+    reasons: [...new Set(reasons)],
+    selfUpdateLines,
+    line: trigger.startLine,
+  };
+};
+
+export const detectTriggers = (code: string): TriggerAnalysis[] =>
+  allStatements(parseSybase(code)).filter(statement => statement.kind === 'createTrigger').map(analyzeTrigger);
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+  line: number;
+}
+
+const newlines = (text: string) => (text.match(/\n/g) || []).length;
+
+// Removed ranges keep their line breaks so positions still match the uploaded file
+const padLines = (replacement: string, original: string) =>
+  replacement + '\n'.repeat(Math.max(0, newlines(original) - newlines(replacement)));
+
+const isBareColumn = (tokens: SybaseToken[], index: number) => {
+  const token = tokens[index];
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+  if (token.type !== 'identifier' || next?.value === '.' || next?.value === '(' || previous?.value === '.') return false;
+  // Column aliases: `expr alias` and `expr AS alias`
+  return !previous || !(previous.upper === 'AS' || ['identifier', 'quotedIdentifier', 'number', 'string'].includes(previous.type) || previous.value === ')');
+};
+
+// `*` and `alias.*` in a query's select list that read pseudo-table columns, by token index of the `*`.
+// EXISTS (select * …) reads no columns and is left alone.
+const pseudoStars = (tokens: SybaseToken[], block: QueryBlock) => {
+  const depths = depthsOf(tokens);
+  const aliases = new Set(block.items.filter(item => item.pseudo).flatMap(item => [item.pseudo!, item.alias].filter(Boolean) as string[]));
+  if (aliases.size === 0 || (tokens[block.start - 1]?.value === '(' && tokens[block.start - 2]?.upper === 'EXISTS')) return [];
+  const stars: number[] = [];
+  for (let index = block.start + 1; index < block.from; index++) {
+    if (tokens[index].value !== '*' || depths[index] !== block.depth) continue;
+    const previous = tokens[index - 1];
+    if (previous.value === '.' && aliases.has(tokens[index - 2]?.value.toLowerCase())) stars.push(index);
+    else if (['SELECT', 'DISTINCT', 'ALL', ','].includes(previous.upper)) stars.push(index);
+  }
+  return stars;
+};
+
+// Row-level form of one statement's pseudo-table references, or undefined if it has to stay as written.
+// `columns` are the trigger table's columns, needed to spell out `*` over inserted/deleted.
+const rewritePseudoTables = (statement: SybaseStatement, source: string, columns?: string[]): Edit[] | undefined => {
+  const tokens = ownTokens(statement);
+  const blocks = findQueryBlocks(tokens).filter(block => block.items.some(item => item.pseudo));
+  if (blocks.length === 0 || findQueryBlocks(tokens).some(block => block.items.some(item => item.joinsPseudo))) return undefined;
+  if (!columns?.length && blocks.some(block => pseudoStars(tokens, block).length > 0)) return undefined;
+  const depths = depthsOf(tokens);
+  const edits = new Map<number, Edit>();
+  const add = (start: number, end: number, text: string, line: number) => {
+    edits.set(start, { start, end, text: padLines(text, source.slice(start, end)), line });
+  };
+  const endOf = (token: SybaseToken) => token.offset + token.value.length;
+
+  blocks.forEach(block => {
+    const aliases = new Map<string, string>();
+    block.items.filter(item => item.pseudo).forEach(item => {
+      aliases.set(item.pseudo!, PSEUDO_PREFIX[item.pseudo!]);
+      if (item.alias) aliases.set(item.alias, PSEUDO_PREFIX[item.pseudo!]);
+    });
+    const listStart = block.items[0]?.start ?? block.from + 1;
+    const listEnd = block.items[block.items.length - 1]?.end ?? block.from;
+    const outsideList = (index: number) => index < block.from || index > listEnd;
+
+    // * and inserted.* → the trigger table's columns as :NEW/:OLD; other tables keep their own t.*
+    pseudoStars(tokens, block).forEach(index => {
+      const qualified = tokens[index - 1].value === '.';
+      const name = tokens[index - 2]?.value.toLowerCase();
+      const items = qualified ? block.items.filter(item => item.pseudo && (item.pseudo === name || item.alias === name)) : block.items;
+      const expanded = items.map(item => item.pseudo
+        ? columns!.map(column => `${PSEUDO_PREFIX[item.pseudo!]}.${column}`).join(', ')
+        : `${item.alias ?? source.slice(tokens[item.start].offset, endOf(tokens[item.end]))}.*`);
+      add(tokens[qualified ? index - 2 : index].offset, endOf(tokens[index]), expanded.join(', '), tokens[index].line);
+    });
+
+    // alias.column → :NEW.column / :OLD.column
+    for (let index = block.start; index <= block.end; index++) {
+      const prefix = aliases.get(tokens[index].value.toLowerCase());
+      if (prefix && tokens[index + 1]?.value === '.' && tokens[index + 2]?.value !== '*' && outsideList(index)) {
+        add(tokens[index].offset, endOf(tokens[index + 1]), `${prefix}.`, tokens[index].line);
+      }
+    }
+
+    const kept = block.items.filter(item => !item.pseudo);
+    const only = block.items.length === 1 ? block.items[0] : undefined;
+    // A lone pseudo-table: its unqualified columns need the prefix too
+    if (only?.pseudo) {
+      for (let index = block.start; index <= block.end; index++) {
+        if (depths[index] === block.depth && outsideList(index) && isBareColumn(tokens, index)) {
+          add(tokens[index].offset, tokens[index].offset, `${PSEUDO_PREFIX[only.pseudo]}.`, tokens[index].line);
+        }
+      }
+    }
+
+    const target = block.depth === 0 && (statement.kind === 'update' || statement.kind === 'delete') ? dmlTarget(statement) : undefined;
+    const targetItem = target && kept.length === 1 && [normalizeObjectName(kept[0].table), kept[0].alias].includes(target.value.toLowerCase()) ? kept[0] : undefined;
+
+    if (targetItem) {
+      // UPDATE t … FROM t, inserted i → UPDATE t …; the target takes the alias its columns are qualified with
+      if (targetItem.alias) {
+        add(target!.offset, endOf(target!), source.slice(tokens[targetItem.start].offset, endOf(tokens[targetItem.end])), target!.line);
+      }
+      add(endOf(tokens[block.from - 1]), endOf(tokens[listEnd]), '', tokens[block.from].line);
+    } else if (kept.length === 0) {
+      add(tokens[listStart].offset, endOf(tokens[listEnd]), 'dual', tokens[listStart].line);
+    } else {
+      const firstKept = block.items.indexOf(kept[0]);
+      block.items.forEach((item, index) => {
+        if (!item.pseudo) return;
+        if (index < firstKept) add(tokens[item.start].offset, tokens[block.items[index + 1].start].offset, '', tokens[item.start].line);
+        else add(endOf(tokens[block.items[index - 1].end]), endOf(tokens[item.end]), '', tokens[item.start].line);
+      });
+    }
+  });
+  return [...edits.values()];
+};
+
+export interface TriggerRewriteResult {
+  code: string;
+  triggers: TriggerAnalysis[];
+  appliedRule?: AppliedRule;
+  issues: ConversionIssue[];
+}
+
+const issue = (id: string, token: SybaseToken, severity: ConversionIssue['severity'], description: string, originalCode: string, suggestedFix?: string): ConversionIssue => ({
+  id,
+  lineNumber: token.line,
+  columnNumber: token.column,
+  codeSide: 'original',
+  severity,
+  description,
+  originalCode,
+  suggestedFix,
+  category: TRIGGER_CATEGORY,
+});
+
+const firstLine = (statement: SybaseStatement) => statement.text.split('\n')[0];
+
+// Rewrite every trigger in the code to the parts of its Oracle form that are mechanical:
+// UPDATE(col) → UPDATING('col'), ROLLBACK → a raised error, and for row-level triggers the
+// pseudo-table joins → :NEW/:OLD. Edits stay on their own lines.
+export const rewriteTriggers = (code: string, tableColumns: Record<string, string[]> = getTableColumns()): TriggerRewriteResult => {
+  const script = parseSybase(code);
+  // Tables created next to their trigger win over the project registry
+  const columnsByTable = { ...tableColumns, ...tableColumnsIn(allStatements(script)) };
+  const triggerStatements = allStatements(script).filter(statement => statement.kind === 'createTrigger');
+  if (triggerStatements.length === 0) return { code: script.source, triggers: [], issues: [] };
+
+  const edits: Edit[] = [];
+  const issues: ConversionIssue[] = [];
+  const triggers = triggerStatements.map(trigger => {
+    const analysis = analyzeTrigger(trigger);
+    const entries = collectEntries(trigger.body);
+    const head = trigger.tokens[0];
+    const events = analysis.events.map(event => event.toUpperCase()).join(' OR ');
+
+    issues.push(issue(`trigger-form-${head.line}`, head, analysis.form === 'row' ? 'info' : 'warning',
+      analysis.form === 'row'
+        ? `${analysis.name} becomes a row-level ${analysis.timing} ${events} trigger: every use of inserted/deleted works one row at a time, so they are read as :NEW/:OLD.`
+        : `${analysis.name} becomes a compound trigger because it ${analysis.reasons.join('; ')}. Rows are collected in AFTER EACH ROW and the statement-level logic runs in AFTER STATEMENT.`,
+      firstLine(trigger),
+      analysis.form === 'compound' ? 'Check the AFTER STATEMENT section against the original logic; Sybase evaluated it over all affected rows at once.' : undefined));
+
+    entries.forEach(({ statement, next }) => {
+      const tokens = ownTokens(statement);
+      const first = statement.tokens[0];
+
+      // update(col) → UPDATING('col')
+      tokens.forEach((token, index) => {
+        if (token.upper === 'UPDATE' && tokens[index + 1]?.value === '(' && tokens[index + 2] && tokens[index + 3]?.value === ')') {
+          const end = tokens[index + 3];
+          edits.push({ start: token.offset, end: end.offset + 1, text: `UPDATING('${tokens[index + 2].value}')`, line: token.line });
+        }
+      });
+
+      if (statement.kind === 'transaction' && first.upper === 'ROLLBACK') {
+        const raiserror = statement.tokens.find(token => token.upper === 'RAISERROR');
+        if (raiserror) {
+          // rollback trigger with raiserror … : raising undoes the triggering statement on its own
+          edits.push({ start: first.offset, end: raiserror.offset, text: '', line: first.line });
+        } else if (next?.kind === 'raiserror') {
+          edits.push({ start: statement.startOffset, end: statement.endOffset, text: padLines(`/* ${statement.text.replace(/\s+/g, ' ')}: the RAISERROR below undoes the statement */`, statement.text), line: first.line });
+        } else {
+          edits.push({ start: statement.startOffset, end: statement.endOffset, text: padLines(`RAISE_APPLICATION_ERROR(${MAX_ORACLE_ERROR}, 'Statement rolled back by trigger ${analysis.name}')`, statement.text), line: first.line });
+        }
+        issues.push(issue(`trigger-rollback-${first.line}`, first, 'warning',
+          `${firstLine(statement)} in trigger ${analysis.name}: an Oracle trigger cannot end the transaction. Raising an error undoes only the triggering statement; the caller gets the error and decides whether to roll back.`,
+          statement.text,
+          'Make callers roll back when the statement fails, if the whole transaction has to go.'));
+      }
+    });
+
+    const rowCounts = triggerRowCounts(entries);
+    if (analysis.form === 'row') {
+      // The guard cannot fire: a row-level trigger only runs for affected rows
+      rowCounts.forEach(({ statement }) => {
+        edits.push({ start: statement.startOffset, end: statement.endOffset, text: padLines(`/* ${statement.text.replace(/\s+/g, ' ')}: a row-level trigger only fires for affected rows */`, statement.text), line: statement.startLine });
+      });
+      entries.forEach(({ statement }) => {
+        if (analysis.selfUpdateLines.includes(statement.startLine)) return;
+        const columns = columnsByTable[analysis.table];
+        const rewritten = rewritePseudoTables(statement, script.source, columns);
+        if (rewritten) {
+          edits.push(...rewritten);
+          const both = findQueryBlocks(ownTokens(statement)).some(block => block.items.filter(item => item.pseudo).length === 2);
+          if (both) {
+            issues.push(issue(`trigger-pair-${statement.startLine}`, statement.tokens[0], 'info',
+              `Line ${statement.startLine} joins inserted to deleted; row by row, :NEW and :OLD are always the same row, which only differs from the Sybase join when the join key itself is updated.`,
+              firstLine(statement)));
+          }
+        } else if (!columns?.length && findQueryBlocks(ownTokens(statement)).some(block => pseudoStars(ownTokens(statement), block).length > 0)) {
+          issues.push(issue(`trigger-star-${statement.startLine}`, statement.tokens[0], 'warning',
+            `Line ${statement.startLine} selects * from a pseudo-table, but the columns of ${analysis.table} are not known (its CREATE TABLE is not in the upload). The statement is left as written.`,
+            firstLine(statement),
+            `List the columns of ${analysis.table} as :NEW.column / :OLD.column and select them FROM dual.`));
+        } else if (findQueryBlocks(ownTokens(statement)).some(block => block.items.some(item => item.joinsPseudo))) {
+          issues.push(issue(`trigger-join-${statement.startLine}`, statement.tokens[0], 'warning',
+            `Line ${statement.startLine} joins a pseudo-table with JOIN … ON; it is left for the AI pass to turn into :NEW/:OLD conditions.`,
+            firstLine(statement),
+            'Move the ON condition into WHERE with :NEW/:OLD and drop the pseudo-table from FROM.'));
+        }
+      });
+    } else {
+      rowCounts.forEach(({ token }) => {
+        edits.push({ start: token.offset, end: token.offset + token.value.length, text: TRIGGER_ROW_COUNT, line: token.line });
+      });
+      entries.forEach(({ statement }) => {
+        const tokens = ownTokens(statement);
+        const aggregated = findQueryBlocks(tokens).filter(block => block.items.some(item => item.pseudo) && isAggregate(tokens, block));
+        if (aggregated.length === 0) return;
+        const pseudoTables = [...new Set(aggregated.flatMap(block => block.items.filter(item => item.pseudo).map(item => item.pseudo)))];
+        issues.push(issue(`trigger-aggregate-${statement.startLine}`, statement.tokens[0], 'warning',
+          `Line ${statement.startLine} checks all affected rows together (an aggregate over ${pseudoTables.join('/')}). A row-level trigger cannot preserve this; it runs in AFTER STATEMENT over the collected rows.`,
+          firstLine(statement),
+          'Verify the check against the collected rows, not against the table, which already holds rows of other sessions.'));
+      });
+    }
+
+    analysis.selfUpdateLines.forEach(line => {
+      const statement = entries.find(entry => entry.statement.startLine === line)!.statement;
+      issues.push(issue(`trigger-self-update-${line}`, statement.tokens[0], 'info',
+        `Line ${line} updates ${analysis.table} for the inserted rows; in Oracle it becomes :NEW assignments in BEFORE EACH ROW, which also avoids the mutating table error.`,
+        firstLine(statement)));
+    });
+    return analysis;
+  });
+
+  if (edits.length === 0) return { code: script.source, triggers, issues };
+  let rewritten = script.source;
+  [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  });
+  return {
+    code: rewritten,
+    triggers,
+    issues,
+    appliedRule: {
+      ruleId: 'triggers',
+      description: 'inserted/deleted → :NEW/:OLD, UPDATE(col) → UPDATING(\'col\'), ROLLBACK in triggers → raised error',
+      occurrences: edits.length,
+      lineNumbers: [...new Set(edits.map(edit => edit.line))].sort((a, b) => a - b),
+    },
+  };
+};
+
+// Prompt guidance: the form of each trigger is decided, the model writes it out
+export const describeTriggers = (triggers: TriggerAnalysis[]): string => {
+  if (triggers.length === 0) return 'None.';
+  return triggers.map(trigger => {
+    const events = trigger.events.map(event => event.toUpperCase()).join(' OR ');
+    const selfUpdates = trigger.selfUpdateLines.length > 0
+      ? ` The UPDATE of ${trigger.table} on line${trigger.selfUpdateLines.length > 1 ? 's' : ''} ${trigger.selfUpdateLines.join(', ')} becomes :NEW.column := value assignments in the BEFORE EACH ROW part.`
+      : '';
+    if (trigger.form === 'row') {
+      return `${trigger.name}: CREATE OR REPLACE TRIGGER ${trigger.name} ${trigger.timing} ${events} ON ${trigger.table} FOR EACH ROW. inserted/deleted are already rewritten to :NEW/:OLD and UPDATE(col) to UPDATING('col'); do not reintroduce them.${selfUpdates}`;
+    }
+    return `${trigger.name}: COMPOUND TRIGGER ${events} ON ${trigger.table}, because it ${trigger.reasons.join('; ')}. Collect :NEW/:OLD (or the needed columns) into package-level collections and count them in ${TRIGGER_ROW_COUNT} in AFTER EACH ROW; run the original statement-level logic in AFTER STATEMENT, reading inserted/deleted from those collections.${selfUpdates}`;
+  }).join('\n');
+};